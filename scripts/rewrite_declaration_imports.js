@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+/**
+ * Rewrites the imports of the emitted .d.ts files so that consumers can
+ * resolve them: tsc keeps the "@/..." path aliases and .ts extensions of the
+ * sources, which only mean something inside this repository
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const typesRoot = join(__dirname, '..', 'dist', 'types');
+
+// Module specifiers in import/export statements and import() types
+const SPECIFIER_PATTERN = /(from\s+|import\()(['"])([^'"]+)\2/g;
+
+/**
+ * Lists the declaration files under a directory
+ * @param {string} directory - Directory to search
+ * @returns {string[]}
+ */
+function listDeclarations(directory) {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return listDeclarations(path);
+    }
+    return entry.name.endsWith('.d.ts') ? [path] : [];
+  });
+}
+
+/**
+ * Turns an "@/..." alias or a .ts specifier into a relative .js specifier
+ * @param {string} specifier - Module specifier
+ * @param {string} file - Declaration file holding it
+ * @returns {string}
+ */
+function rewriteSpecifier(specifier, file) {
+  let target = specifier;
+  if (target.startsWith('@/')) {
+    target = relative(dirname(file), join(typesRoot, target.slice(2)))
+      .split('\\')
+      .join('/');
+    if (!target.startsWith('.')) {
+      target = `./${target}`;
+    }
+  }
+
+  return target.startsWith('.') ? target.replace(/\.ts$/, '.js') : target;
+}
+
+let rewritten = 0;
+for (const file of listDeclarations(typesRoot)) {
+  const content = readFileSync(file, 'utf8');
+  const updated = content.replace(
+    SPECIFIER_PATTERN,
+    (_match, prefix, quote, specifier) =>
+      `${prefix}${quote}${rewriteSpecifier(specifier, file)}${quote}`
+  );
+  if (updated !== content) {
+    writeFileSync(file, updated);
+    rewritten++;
+  }
+}
+
+console.log(`Rewrote imports in ${rewritten} declaration file(s)`);
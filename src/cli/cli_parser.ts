@@ -2,22 +2,60 @@
  * CLI Parser - Handles command-line argument parsing and routing
  */
 
+import {
+  DIFF_FORMATS,
+  LINT_FORMATS,
+  type LoadedConfig,
+  MERGE_FAVORS,
+  ORPHAN_MODES,
+  SECRET_MODES,
+  TREE_FORMATS,
+  config_loader
+} from '@/config/config_loader.ts';
 import type {
+  ConfigurableCommand,
+  DiffFormat,
+  ExportFormat,
   IBuildOptions,
   ICliCommand,
-  ISplitOptions
+  ICurlOptions,
+  IDiffOptions,
+  IExportOptions,
+  IGitInstallOptions,
+  IImportOptions,
+  ILintOptions,
+  IMergeDriverOptions,
+  IMergeOptions,
+  ISplitOptions,
+  ImportFormat,
+  LintFormat,
+  MergeFavor,
+  OrphanMode,
+  SecretMode,
+  TreeFormat
 } from '@/types/postman.ts';
 
+// Input formats accepted by the import command
+const IMPORT_FORMATS: ImportFormat[] = ['openapi', 'har', 'insomnia', 'curl'];
+
+// Output formats accepted by the export command
+const EXPORT_FORMATS: ExportFormat[] = ['openapi', 'bruno', 'http'];
+
 /**
  * CLI Parser class for handling command-line arguments
  */
 export class CliParser {
   private args: string[];
   private program_name: string;
+  private config: LoadedConfig | null;
 
-  constructor(args: string[] = process.argv) {
+  constructor(
+    args: string[] = process.argv,
+    config: LoadedConfig | null = null
+  ) {
     this.args = args;
     this.program_name = 'carveman';
+    this.config = config;
   }
 
   /**
@@ -40,6 +78,26 @@ export class CliParser {
         return this.parseSplitCommand(clean_args.slice(1));
       case 'build':
         return this.parseBuildCommand(clean_args.slice(1));
+      case 'split-env':
+        return this.parseSplitEnvCommand(clean_args.slice(1));
+      case 'build-env':
+        return this.parseBuildEnvCommand(clean_args.slice(1));
+      case 'diff':
+        return this.parseDiffCommand(clean_args.slice(1));
+      case 'merge':
+        return this.parseMergeCommand(clean_args.slice(1));
+      case 'lint':
+        return this.parseLintCommand(clean_args.slice(1));
+      case 'import':
+        return this.parseImportCommand(clean_args.slice(1));
+      case 'export':
+        return this.parseExportCommand(clean_args.slice(1));
+      case 'curl':
+        return this.parseCurlCommand(clean_args.slice(1));
+      case 'merge-driver':
+        return this.parseMergeDriverCommand(clean_args.slice(1));
+      case 'git':
+        return this.parseGitCommand(clean_args.slice(1));
       case 'help':
       case '--help':
       case '-h': {
@@ -89,7 +147,15 @@ export class CliParser {
       output: undefined,
       overwrite: false,
       dry_run: false,
-      verbose: false
+      verbose: false,
+      inline_scripts: false,
+      inline_bodies: false,
+      split_examples: false,
+      timestamp: false,
+      secrets: 'warn',
+      format: 'json',
+      sync: false,
+      ...this.getConfiguredOptions<ISplitOptions>('split', input_path)
     };
 
     // Parse flags
@@ -113,9 +179,48 @@ export class CliParser {
         case '--overwrite':
           options.overwrite = true;
           break;
+        case '--sync':
+          options.sync = true;
+          break;
         case '--dry-run':
           options.dry_run = true;
           break;
+        case '--inline-scripts':
+          options.inline_scripts = true;
+          break;
+        case '--inline-bodies':
+          options.inline_bodies = true;
+          break;
+        case '--split-examples':
+          options.split_examples = true;
+          break;
+        case '--timestamp':
+          options.timestamp = true;
+          break;
+        case '--secrets': {
+          i++;
+          const mode = args[i];
+          if (!(mode && SECRET_MODES.includes(mode as SecretMode))) {
+            console.error(
+              `--secrets flag requires one of: ${SECRET_MODES.join(', ')}`
+            );
+            return null;
+          }
+          options.secrets = mode as SecretMode;
+          break;
+        }
+        case '--format': {
+          i++;
+          const format = args[i];
+          if (!(format && TREE_FORMATS.includes(format as TreeFormat))) {
+            console.error(
+              `--format flag requires one of: ${TREE_FORMATS.join(', ')}`
+            );
+            return null;
+          }
+          options.format = format as TreeFormat;
+          break;
+        }
         case '--verbose':
           options.verbose = true;
           break;
@@ -162,7 +267,8 @@ export class CliParser {
     const options: IBuildOptions = {
       output: undefined,
       validate: false,
-      verbose: false
+      verbose: false,
+      ...this.getConfiguredOptions<IBuildOptions>('build', input_path)
     };
 
     // Parse flags
@@ -186,6 +292,24 @@ export class CliParser {
         case '--validate':
           options.validate = true;
           break;
+        case '--inject-secrets':
+          options.inject_secrets = true;
+          break;
+        case '--orphans': {
+          i++;
+          const mode = args[i];
+          if (!(mode && ORPHAN_MODES.includes(mode as OrphanMode))) {
+            console.error(
+              `--orphans flag requires one of: ${ORPHAN_MODES.join(', ')}`
+            );
+            return null;
+          }
+          options.orphans = mode as OrphanMode;
+          break;
+        }
+        case '--fix':
+          options.fix = true;
+          break;
         case '--verbose':
           options.verbose = true;
           break;
@@ -210,117 +334,1244 @@ export class CliParser {
   }
 
   /**
-   * Shows general help information
+   * Parses split-env command arguments
+   * @param args - Arguments for split-env command
+   * @returns ICliCommand | null
    */
-  showHelp(): void {
-    console.log(`
-${this.program_name} - Postman Collection File System Utility
+  private parseSplitEnvCommand(args: string[]): ICliCommand | null {
+    const input_path = args[0] ?? '';
+    if (args.length === 0 || this.isHelpFlag(input_path)) {
+      console.error('Split-env command requires an input file path');
+      this.showSplitEnvHelp();
+      return null;
+    }
 
-USAGE:
-  ${this.program_name} <command> [options]
+    const options: ISplitOptions = {
+      output: undefined,
+      overwrite: false,
+      dry_run: false,
+      verbose: false,
+      ...this.getConfiguredOptions<ISplitOptions>('split-env', input_path)
+    };
 
-COMMANDS:
-  split <input-json-file>     Convert Postman collection to file system structure
-  build <input-directory>     Convert file system structure to Postman collection
-  help                        Show this help message
-  version                     Show version information
+    // Parse flags
+    for (let i = 1; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
 
-EXAMPLES:
-  ${this.program_name} split collection.json --output ./output --verbose
-  ${this.program_name} build ./my-collection --output rebuilt.json --validate
-  ${this.program_name} split collection.json --dry-run --verbose
+      switch (arg) {
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--overwrite':
+          options.overwrite = true;
+          break;
+        case '--dry-run':
+          options.dry_run = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showSplitEnvHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for split-env command: ${arg}`);
+          this.showSplitEnvHelp();
+          return null;
+        }
+      }
+    }
 
-For command-specific help, use:
-  ${this.program_name} <command> --help
-`);
+    return {
+      command: 'split-env',
+      input_path,
+      options
+    };
   }
 
   /**
-   * Shows help for split command
+   * Parses build-env command arguments
+   * @param args - Arguments for build-env command
+   * @returns ICliCommand | null
    */
-  showSplitHelp(): void {
-    console.log(`
-${this.program_name} split - Convert Postman collection to file system structure
+  private parseBuildEnvCommand(args: string[]): ICliCommand | null {
+    const input_path = args[0] ?? '';
+    if (args.length === 0 || this.isHelpFlag(input_path)) {
+      console.error('Build-env command requires an input directory path');
+      this.showBuildEnvHelp();
+      return null;
+    }
 
-USAGE:
-  ${this.program_name} split <input-json-file> [options]
+    const options: IBuildOptions = {
+      output: undefined,
+      validate: false,
+      verbose: false,
+      ...this.getConfiguredOptions<IBuildOptions>('build-env', input_path)
+    };
 
-OPTIONS:
-  --output, -o <directory>    Output directory (default: current directory)
-  --overwrite                 Overwrite existing files without prompt
-  --dry-run                   Show what would be done without creating files
-  --verbose                   Show detailed output
-  --help, -h                  Show this help message
+    // Parse flags
+    for (let i = 1; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
 
-EXAMPLES:
-  ${this.program_name} split collection.json
-  ${this.program_name} split collection.json --output ./output
-  ${this.program_name} split collection.json --dry-run --verbose
-  ${this.program_name} split collection.json --overwrite --verbose
-`);
+      switch (arg) {
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--validate':
+          options.validate = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showBuildEnvHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for build-env command: ${arg}`);
+          this.showBuildEnvHelp();
+          return null;
+        }
+      }
+    }
+
+    return {
+      command: 'build-env',
+      input_path,
+      options
+    };
   }
 
   /**
-   * Shows help for build command
+   * Parses diff command arguments
+   * @param args - Arguments for diff command
+   * @returns ICliCommand | null
    */
-  showBuildHelp(): void {
-    console.log(`
-${this.program_name} build - Convert file system structure to Postman collection
+  private parseDiffCommand(args: string[]): ICliCommand | null {
+    const input_path = args[0] ?? '';
+    const target_path = args[1] ?? '';
+    if (this.isHelpFlag(input_path) || this.isHelpFlag(target_path)) {
+      this.showDiffHelp();
+      return null;
+    }
+    if (
+      !(input_path && target_path) ||
+      input_path.startsWith('-') ||
+      target_path.startsWith('-')
+    ) {
+      console.error('Diff command requires two collection paths');
+      this.showDiffHelp();
+      return null;
+    }
 
-USAGE:
-  ${this.program_name} build <input-directory> [options]
+    const options: IDiffOptions = {
+      format: 'text',
+      output: undefined,
+      exit_code: false,
+      verbose: false,
+      ...this.getConfiguredOptions<IDiffOptions>('diff', input_path)
+    };
 
-OPTIONS:
-  --output, -o <file>         Output JSON file (default: collection.json)
-  --validate                  Validate the reconstructed collection
-  --verbose                   Show detailed output
-  --help, -h                  Show this help message
+    // Parse flags
+    for (let i = 2; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
 
-EXAMPLES:
-  ${this.program_name} build ./my-collection
-  ${this.program_name} build ./my-collection --output rebuilt.json
-  ${this.program_name} build ./my-collection --validate --verbose
-`);
-  }
+      switch (arg) {
+        case '--format':
+        case '-f': {
+          i++;
+          const format = args[i];
+          if (!(format && DIFF_FORMATS.includes(format as DiffFormat))) {
+            console.error(
+              `--format flag requires one of: ${DIFF_FORMATS.join(', ')}`
+            );
+            return null;
+          }
+          options.format = format as DiffFormat;
+          break;
+        }
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--exit-code':
+          options.exit_code = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showDiffHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for diff command: ${arg}`);
+          this.showDiffHelp();
+          return null;
+        }
+      }
+    }
 
-  /**
-   * Shows version information
-   */
-  showVersion(): void {
-    // In a real implementation, this would read from package.json
-    console.log(`${this.program_name} version 1.0.0`);
+    return {
+      command: 'diff',
+      input_path,
+      target_path,
+      options
+    };
   }
 
   /**
-   * Validates that required arguments are present
-   * @param command - Parsed command object
-   * @returns boolean - True if valid
+   * Parses lint command arguments
+   * @param args - Arguments for lint command
+   * @returns ICliCommand | null
    */
-  validateCommand(command: ICliCommand): boolean {
-    if (!command.input_path || command.input_path.trim().length === 0) {
-      console.error('Input path is required');
-      return false;
+  private parseLintCommand(args: string[]): ICliCommand | null {
+    const input_path = args[0] ?? '';
+    if (!input_path || this.isHelpFlag(input_path)) {
+      this.showLintHelp();
+      return null;
     }
 
-    return true;
-  }
-
-  /**
-   * Gets the current working directory
-   * @returns string - Current working directory
-   */
-  getCurrentDirectory(): string {
-    return process.cwd();
-  }
+    const options: ILintOptions = {
+      format: 'text',
+      output: undefined,
+      config: undefined,
+      verbose: false,
+      ...this.getConfiguredOptions<ILintOptions>('lint', input_path)
+    };
 
-  /**
-   * Checks if a flag is a help flag
-   * @param flag - Flag to check
-   * @returns boolean
-   */
-  isHelpFlag(flag: string): boolean {
-    return ['--help', '-h', 'help'].includes(flag.toLowerCase());
-  }
+    // Parse flags
+    for (let i = 1; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--format':
+        case '-f': {
+          i++;
+          const format = args[i];
+          if (!(format && LINT_FORMATS.includes(format as LintFormat))) {
+            console.error(
+              `--format flag requires one of: ${LINT_FORMATS.join(', ')}`
+            );
+            return null;
+          }
+          options.format = format as LintFormat;
+          break;
+        }
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--config':
+        case '-c': {
+          i++;
+          options.config = args[i];
+          if (!options.config) {
+            console.error('--config flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showLintHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for lint command: ${arg}`);
+          this.showLintHelp();
+          return null;
+        }
+      }
+    }
+
+    return {
+      command: 'lint',
+      input_path,
+      options
+    };
+  }
+
+  /**
+   * Parses import command arguments
+   * @param args - Arguments for import command
+   * @returns ICliCommand | null
+   */
+  private parseImportCommand(args: string[]): ICliCommand | null {
+    const format = args[0]?.toLowerCase() ?? '';
+    if (!format || this.isHelpFlag(format)) {
+      this.showImportHelp();
+      return null;
+    }
+    if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+      console.error(
+        `Unknown import format: ${format} (supported: ${IMPORT_FORMATS.join(', ')})`
+      );
+      this.showImportHelp();
+      return null;
+    }
+
+    const input_path = args[1] ?? '';
+    if (!input_path || this.isHelpFlag(input_path)) {
+      console.error('Import command requires an input file path');
+      this.showImportHelp();
+      return null;
+    }
+
+    const options: IImportOptions = {
+      format: format as ImportFormat,
+      output: undefined,
+      into: undefined,
+      folder: undefined,
+      overwrite: false,
+      dry_run: false,
+      verbose: false,
+      ...this.getConfiguredOptions<IImportOptions>('import', input_path)
+    };
+
+    // Parse flags
+    for (let i = 2; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--into': {
+          i++;
+          options.into = args[i];
+          if (!options.into) {
+            console.error('--into flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--folder': {
+          i++;
+          options.folder = args[i];
+          if (!options.folder) {
+            console.error('--folder flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--overwrite':
+          options.overwrite = true;
+          break;
+        case '--dry-run':
+          options.dry_run = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showImportHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for import command: ${arg}`);
+          this.showImportHelp();
+          return null;
+        }
+      }
+    }
+
+    return {
+      command: 'import',
+      input_path,
+      options
+    };
+  }
+
+  /**
+   * Parses export command arguments
+   * @param args - Arguments for export command
+   * @returns ICliCommand | null
+   */
+  private parseExportCommand(args: string[]): ICliCommand | null {
+    const format = args[0]?.toLowerCase() ?? '';
+    if (!format || this.isHelpFlag(format)) {
+      this.showExportHelp();
+      return null;
+    }
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(
+        `Unknown export format: ${format} (supported: ${EXPORT_FORMATS.join(', ')})`
+      );
+      this.showExportHelp();
+      return null;
+    }
+
+    const input_path = args[1] ?? '';
+    if (!input_path || this.isHelpFlag(input_path)) {
+      console.error('Export command requires an input collection');
+      this.showExportHelp();
+      return null;
+    }
+
+    const options: IExportOptions = {
+      format: format as ExportFormat,
+      output: undefined,
+      env_file: false,
+      verbose: false,
+      ...this.getConfiguredOptions<IExportOptions>('export', input_path)
+    };
+
+    // Parse flags
+    for (let i = 2; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--env-file':
+          options.env_file = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showExportHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for export command: ${arg}`);
+          this.showExportHelp();
+          return null;
+        }
+      }
+    }
+
+    return {
+      command: 'export',
+      input_path,
+      options
+    };
+  }
+
+  /**
+   * Parses curl command arguments
+   * @param args - Arguments for curl command
+   * @returns ICliCommand | null
+   */
+  private parseCurlCommand(args: string[]): ICliCommand | null {
+    const input_path = args[0] ?? '';
+    if (!input_path || this.isHelpFlag(input_path)) {
+      this.showCurlHelp();
+      return null;
+    }
+
+    const options: ICurlOptions = {
+      keep_variables: false,
+      verbose: false,
+      ...this.getConfiguredOptions<ICurlOptions>('curl', input_path)
+    };
+
+    // Parse flags
+    for (let i = 1; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--keep-variables':
+          options.keep_variables = true;
+          break;
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showCurlHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for curl command: ${arg}`);
+          this.showCurlHelp();
+          return null;
+        }
+      }
+    }
+
+    return {
+      command: 'curl',
+      input_path,
+      options
+    };
+  }
+
+  /**
+   * Parses merge command arguments
+   * @param args - Arguments for merge command
+   * @returns ICliCommand | null
+   */
+  private parseMergeCommand(args: string[]): ICliCommand | null {
+    if (args.length === 0 || this.isHelpFlag(args[0] ?? '')) {
+      this.showMergeHelp();
+      return null;
+    }
+
+    let ours_path = '';
+    // Flags only; the configured options for ours are applied under them
+    const options: IMergeOptions = {};
+
+    // Parse flags
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--base': {
+          i++;
+          options.base = args[i];
+          if (!options.base) {
+            console.error('--base flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--ours': {
+          i++;
+          ours_path = args[i] ?? '';
+          if (!ours_path) {
+            console.error('--ours flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--theirs': {
+          i++;
+          options.theirs = args[i];
+          if (!options.theirs) {
+            console.error('--theirs flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--output':
+        case '-o': {
+          i++;
+          options.output = args[i];
+          if (!options.output) {
+            console.error('--output flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--report': {
+          i++;
+          options.report = args[i];
+          if (!options.report) {
+            console.error('--report flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--favor': {
+          i++;
+          const favor = args[i];
+          if (!(favor && MERGE_FAVORS.includes(favor as MergeFavor))) {
+            console.error('--favor flag requires "ours" or "theirs"');
+            return null;
+          }
+          options.favor = favor as MergeFavor;
+          break;
+        }
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showMergeHelp();
+          return null;
+        }
+        default: {
+          console.error(`Unknown flag for merge command: ${arg}`);
+          this.showMergeHelp();
+          return null;
+        }
+      }
+    }
+
+    if (!(options.base && ours_path && options.theirs)) {
+      console.error('Merge command requires --base, --ours and --theirs');
+      this.showMergeHelp();
+      return null;
+    }
+
+    return {
+      command: 'merge',
+      input_path: ours_path,
+      options: {
+        verbose: false,
+        ...this.getConfiguredOptions<IMergeOptions>('merge', ours_path),
+        ...options
+      }
+    };
+  }
+
+  /**
+   * Parses merge-driver command arguments. Git passes the base, ours and
+   * theirs files (%O %A %B), then the path being merged (%P).
+   * @param args - Arguments for merge-driver command
+   * @returns ICliCommand | null
+   */
+  private parseMergeDriverCommand(args: string[]): ICliCommand | null {
+    if (args.length === 0 || this.isHelpFlag(args[0] ?? '')) {
+      this.showMergeDriverHelp();
+      return null;
+    }
+
+    const [base, ours_path, theirs, file_path] = args;
+    if (!(base && ours_path && theirs) || args.length > 4) {
+      console.error('Merge driver requires <base> <ours> <theirs> [path]');
+      this.showMergeDriverHelp();
+      return null;
+    }
+
+    const options: IMergeDriverOptions = {
+      base,
+      theirs,
+      file_path
+    };
+
+    return {
+      command: 'merge-driver',
+      input_path: ours_path,
+      options
+    };
+  }
+
+  /**
+   * Parses git command arguments
+   * @param args - Arguments for git command
+   * @returns ICliCommand | null
+   */
+  private parseGitCommand(args: string[]): ICliCommand | null {
+    const subcommand = args[0]?.toLowerCase();
+
+    if (subcommand === 'install') {
+      return this.parseGitInstallCommand(args.slice(1));
+    }
+
+    if (subcommand && !this.isHelpFlag(subcommand)) {
+      console.error(`Unknown git subcommand: ${subcommand}`);
+    }
+    this.showGitHelp();
+    return null;
+  }
+
+  /**
+   * Parses git install command arguments
+   * @param args - Arguments for git install command
+   * @returns ICliCommand | null
+   */
+  private parseGitInstallCommand(args: string[]): ICliCommand | null {
+    let directory_path = '.';
+    const options: IGitInstallOptions = {
+      command: undefined,
+      pattern: undefined,
+      verbose: false
+    };
+
+    // Parse flags
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg) {
+        continue;
+      }
+
+      switch (arg) {
+        case '--command': {
+          i++;
+          options.command = args[i];
+          if (!options.command) {
+            console.error('--command flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--pattern': {
+          i++;
+          options.pattern = args[i];
+          if (!options.pattern) {
+            console.error('--pattern flag requires a value');
+            return null;
+          }
+          break;
+        }
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '--help':
+        case '-h': {
+          this.showGitHelp();
+          return null;
+        }
+        default: {
+          if (arg.startsWith('-')) {
+            console.error(`Unknown flag for git install command: ${arg}`);
+            this.showGitHelp();
+            return null;
+          }
+          directory_path = arg;
+        }
+      }
+    }
+
+    return {
+      command: 'git-install',
+      input_path: directory_path,
+      options
+    };
+  }
+
+  /**
+   * Shows general help information
+   */
+  showHelp(): void {
+    console.log(`
+${this.program_name} - Postman Collection File System Utility
+
+USAGE:
+  ${this.program_name} <command> [options]
+
+COMMANDS:
+  split <input-json-file>     Convert Postman collection to file system structure
+  build <input-directory>     Convert file system structure to Postman collection
+  split-env <input-json-file> Convert Postman environment to file system structure
+  build-env <input-directory> Convert environment directory to Postman environment
+  diff <source> <target>      Compare two collections (JSON files or directories)
+  merge --base --ours --theirs
+                              Three-way merge a collection into a split tree
+  git install [directory]     Register the index.json merge driver with git
+  lint <input-directory>      Check a split collection for hygiene problems
+  import <format> <file>      Convert an API description or HAR capture into a
+                              split collection
+  export <format> <source>    Convert a collection into another API format
+  curl <request-file>         Print a request of a split tree as a curl command
+  help                        Show this help message
+  version                     Show version information
+
+EXAMPLES:
+  ${this.program_name} split collection.json --output ./output --verbose
+  ${this.program_name} build ./my-collection --output rebuilt.json --validate
+  ${this.program_name} split collection.json --dry-run --verbose
+
+CONFIGURATION:
+  Options can be preset in carveman.config.json or .carvemanrc, found in the
+  working directory or a parent (or named by CARVEMAN_CONFIG), and in
+  CARVEMAN_<COMMAND>_<OPTION> variables such as CARVEMAN_SPLIT_OUTPUT.
+  Flags override variables, which override the config file.
+
+For command-specific help, use:
+  ${this.program_name} <command> --help
+`);
+  }
+
+  /**
+   * Shows help for split command
+   */
+  showSplitHelp(): void {
+    console.log(`
+${this.program_name} split - Convert Postman collection to file system structure
+
+USAGE:
+  ${this.program_name} split <input-json-file> [options]
+
+OPTIONS:
+  --output, -o <directory>    Output directory (default: current directory)
+  --overwrite                 Overwrite existing files without prompt
+  --sync                      Update an existing tree: write only changed
+                              files, delete requests and folders that are
+                              gone, and list what changed. With --dry-run,
+                              only list the changes
+  --dry-run                   Show what would be done without creating files
+  --inline-scripts            Keep scripts inside the JSON instead of .js files
+  --inline-bodies             Keep raw and GraphQL bodies inside the JSON
+  --split-examples            Write saved response examples to examples/<request>/
+  --timestamp                 Record the split time in index.json meta.generated_at
+  --secrets <mode>            What to do with tokens, keys and passwords found
+                              in variables, auth, headers, parameters and
+                              bodies: warn (default), fail, or redact them into
+                              {{secret.*}} variables saved in a git-ignored
+                              .secrets.json
+  --format <format>           File format of the tree: json (default) or yaml.
+                              YAML trees keep scripts and bodies inline as
+                              block scalars
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} split collection.json
+  ${this.program_name} split collection.json --output ./output
+  ${this.program_name} split collection.json --dry-run --verbose
+  ${this.program_name} split collection.json --overwrite --verbose
+  ${this.program_name} split collection.json --secrets redact
+  ${this.program_name} split collection.json --format yaml
+  ${this.program_name} split collection.json --output ./api --sync
+`);
+  }
+
+  /**
+   * Shows help for build command
+   */
+  showBuildHelp(): void {
+    console.log(`
+${this.program_name} build - Convert file system structure to Postman collection
+
+USAGE:
+  ${this.program_name} build <input-directory> [options]
+
+OPTIONS:
+  --output, -o <file>         Output JSON file (default: collection.json)
+  --validate                  Validate the reconstructed collection
+  --inject-secrets            Put the values saved by split --secrets redact
+                              back in place of their {{secret.*}} variables
+  --orphans <mode>            Files and folders missing from an order array:
+                              error, warn (default) or append, which builds
+                              them after the listed ones, alphabetically
+  --fix                       Rewrite the order arrays to match the
+                              directories, and add missing folder indexes,
+                              before building
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} build ./my-collection
+  ${this.program_name} build ./my-collection --output rebuilt.json
+  ${this.program_name} build ./my-collection --validate --verbose
+  ${this.program_name} build ./my-collection --inject-secrets --output local.json
+  ${this.program_name} build ./my-collection --orphans error
+  ${this.program_name} build ./my-collection --fix
+`);
+  }
+
+  /**
+   * Shows help for split-env command
+   */
+  showSplitEnvHelp(): void {
+    console.log(`
+${this.program_name} split-env - Convert Postman environment to file system structure
+
+USAGE:
+  ${this.program_name} split-env <input-json-file> [options]
+
+Writes index.json (environment metadata and variable order) and
+variables.json (variables sorted by key).
+
+OPTIONS:
+  --output, -o <directory>    Output directory (default: current directory)
+  --overwrite                 Overwrite existing files without prompt
+  --dry-run                   Show what would be done without creating files
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} split-env dev.postman_environment.json
+  ${this.program_name} split-env dev.postman_environment.json --output ./environments
+`);
+  }
+
+  /**
+   * Shows help for build-env command
+   */
+  showBuildEnvHelp(): void {
+    console.log(`
+${this.program_name} build-env - Convert environment directory to Postman environment
+
+USAGE:
+  ${this.program_name} build-env <input-directory> [options]
+
+OPTIONS:
+  --output, -o <file>         Output JSON file (default: <name>.postman_environment.json)
+  --validate                  Validate the reconstructed environment
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} build-env ./environments/development
+  ${this.program_name} build-env ./environments/development --output dev.json --validate
+`);
+  }
+
+  /**
+   * Shows help for diff command
+   */
+  showDiffHelp(): void {
+    console.log(`
+${this.program_name} diff - Compare two collections
+
+USAGE:
+  ${this.program_name} diff <source> <target> [options]
+
+Each side can be a collection JSON file or a split directory. Requests are
+matched by id, path and content, so moves and renames are reported as such.
+
+OPTIONS:
+  --format, -f <format>       Output format: text, json, markdown (default: text)
+  --output, -o <file>         Write the report to a file instead of stdout
+  --exit-code                 Exit with status 1 when the collections differ
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} diff old.json new.json
+  ${this.program_name} diff collection.json ./my-collection
+  ${this.program_name} diff ./main-tree ./branch-tree --format markdown --output diff.md
+`);
+  }
+
+  /**
+   * Shows help for merge command
+   */
+  showMergeHelp(): void {
+    console.log(`
+${this.program_name} merge - Three-way merge of collections
+
+USAGE:
+  ${this.program_name} merge --base <tree|json> --ours <tree|json> --theirs <tree|json> [options]
+
+Merges the changes made in "theirs" (typically a fresh Postman export) since
+"base" into "ours" (typically the split tree). Items are matched by id, then
+by name. When the same field changed on both sides, text fields such as
+scripts and bodies get conflict markers; other fields keep our value. Every
+conflict is listed, and the command exits with status 1 if any remain.
+
+OPTIONS:
+  --base <path>               Common ancestor (split directory or JSON file)
+  --ours <path>               Our version; the merge result is written here
+  --theirs <path>             Their version (split directory or JSON file)
+  --output, -o <path>         Write the result elsewhere (.json file or directory)
+  --favor <ours|theirs>       Resolve conflicts by taking one side, no markers
+  --report <file>             Write a JSON conflict report
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} merge --base base.json --ours ./api --theirs export.json
+  ${this.program_name} merge --base ./base-tree --ours ./api --theirs export.json --report conflicts.json
+`);
+  }
+
+  /**
+   * Shows help for lint command
+   */
+  showLintHelp(): void {
+    console.log(`
+${this.program_name} lint - Check a split collection for hygiene problems
+
+USAGE:
+  ${this.program_name} lint <input-directory> [options]
+
+RULES:
+  hardcoded-host              Request URL does not start with a variable (warning)
+  missing-description         Request has no description (info)
+  missing-tests               Request has no test script (warning)
+  disabled-header             Request keeps a disabled header (warning)
+  duplicate-name              Item was renamed "Name (1)" on split (warning)
+  noauth-override             Item sets noauth under an authenticated parent (warning)
+
+Rules are configured in carveman.lint.json (or the --config file), e.g.
+  { "rules": { "missing-tests": "error", "missing-description": "off" } }
+Each rule takes "error", "warning", "info" or "off". The command exits with
+status 1 when any error is found.
+
+OPTIONS:
+  --format, -f <format>       Output format: text, json, sarif (default: text)
+  --output, -o <file>         Write the report to a file instead of stdout
+  --config, -c <file>         Rule configuration (default: ./carveman.lint.json)
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} lint ./my-collection
+  ${this.program_name} lint ./my-collection --format sarif --output lint.sarif
+`);
+  }
+
+  /**
+   * Shows help for import command
+   */
+  showImportHelp(): void {
+    console.log(`
+${this.program_name} import - Convert an API description into a split collection
+
+USAGE:
+  ${this.program_name} import <format> <input-file> [options]
+  ${this.program_name} import curl "<command>" --into <directory> [options]
+
+FORMATS:
+  openapi                     OpenAPI 3.x document (.json, .yaml or .yml)
+  har                         HTTP Archive saved from browser devtools (.har)
+  insomnia                    Insomnia v4 export (.json, .yaml or .yml)
+  curl                        curl command line, given as a single argument;
+                              requires --into
+
+Writes the same directory layout as split, so the result can be built with
+"${this.program_name} build". Operations are grouped into folders by their
+first tag, path parameters become path variables, and request and response
+bodies are filled from the document's examples or generated from its schemas.
+Each HAR entry becomes a request, with its response saved as an example.
+Insomnia request groups become folders, the base environment becomes
+collection variables, and {{ _.variable }} references become {{variable}}.
+
+With --into, the requests are added to an existing split tree instead: each
+is appended to the folder's index.json order, and requests whose method, path
+and query parameter names match one already in the collection are skipped.
+A curl command is always added.
+
+OPTIONS:
+  --output, -o <directory>    Output directory (default: current directory)
+  --into <directory>          Add the requests to this collection or folder
+                              directory of an existing split tree
+  --folder <name>             Place the requests in this folder (created if
+                              it does not exist)
+  --overwrite                 Overwrite existing files without prompt
+  --dry-run                   Show what would be done without creating files
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} import openapi spec.yaml
+  ${this.program_name} import openapi openapi.json --output ./collections
+  ${this.program_name} import insomnia Insomnia_export.json --output ./collections
+  ${this.program_name} import har capture.har --into ./my-api --folder captured
+  ${this.program_name} import curl "curl -X POST https://api.example.com/orders -d '{}'" --into ./my-api/Orders
+`);
+  }
+
+  /**
+   * Shows help for export command
+   */
+  showExportHelp(): void {
+    console.log(`
+${this.program_name} export - Convert a collection into another API format
+
+USAGE:
+  ${this.program_name} export <format> <source> [options]
+
+The source can be a collection JSON file or a split directory.
+
+FORMATS:
+  openapi                     OpenAPI 3.1 document inferred from the requests
+  bruno                       Bruno collection directory; requires --output
+  http                        .http files for editor REST clients; requires
+                              --output
+
+Top-level folders become tags. Paths, parameters and auth come from the
+requests; request and response schemas are inferred from their bodies and
+saved examples. The document is printed as JSON, or written to --output as
+YAML when the file ends in .yaml or .yml.
+
+A Bruno collection has one .bru file per request, numbered in collection
+order, with folder and collection auth and scripts in folder.bru and
+collection.bru. Collection variables become an environment.
+
+The http format writes one .http file per folder, for the JetBrains HTTP Client
+and the VS Code REST Client. Requests are separated by "### <name>" lines and
+collection variables are defined as "@name = value" at the top of each file,
+or written to http-client.env.json with --env-file.
+
+OPTIONS:
+  --output, -o <path>         Write the document to a file instead of stdout,
+                              or the collection to this directory
+  --env-file                  Write collection variables to
+                              http-client.env.json (http format)
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} export openapi ./my-collection --output openapi.yaml
+  ${this.program_name} export openapi collection.json > openapi.json
+  ${this.program_name} export bruno ./my-collection --output ./bruno
+  ${this.program_name} export http ./my-collection --output ./http --env-file
+`);
+  }
+
+  /**
+   * Shows help for curl command
+   */
+  showCurlHelp(): void {
+    console.log(`
+${this.program_name} curl - Print a request as a runnable curl command
+
+USAGE:
+  ${this.program_name} curl <request-file> [options]
+
+Reads a request file of a split collection, with its extracted body, and
+prints it as a curl command. {{variables}} are resolved from the collection,
+its enclosing folders and the request; a request without auth uses the auth
+it inherits. Variables that are not defined, such as those set by scripts or
+environments, are left in place.
+
+To turn a curl command into a request file, use:
+  ${this.program_name} import curl "<command>" --into <directory>
+
+OPTIONS:
+  --keep-variables            Leave {{variables}} in place
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} curl ./my-api/Users/Get\ user.json
+  ${this.program_name} curl ./my-api/Users/Get\ user.json --keep-variables
+`);
+  }
+
+  /**
+   * Shows help for merge-driver command
+   */
+  showMergeDriverHelp(): void {
+    console.log(`
+${this.program_name} merge-driver - Git merge driver for index.json files
+
+USAGE:
+  ${this.program_name} merge-driver <base> <ours> <theirs> [path]
+
+Called by git, not by hand; register it with "${this.program_name} git install".
+Unions the "order" arrays of the three versions, keeping each entry next to
+its neighbours, and merges the other fields. The result is written to <ours>.
+Exits with status 1 when a conflict remains.
+`);
+  }
+
+  /**
+   * Shows help for git command
+   */
+  showGitHelp(): void {
+    console.log(`
+${this.program_name} git - Git integration
+
+USAGE:
+  ${this.program_name} git install [directory] [options]
+
+Registers the ${this.program_name} merge driver in the repository's git config
+and assigns it to index.json and index.yaml files in .gitattributes, so that
+requests added on two branches no longer conflict in their folder's order.
+
+OPTIONS:
+  --command <command>         Command git runs for carveman (default: carveman)
+  --pattern <pattern>         .gitattributes pattern (default: index.json and
+                              index.yaml)
+  --verbose                   Show detailed output
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  ${this.program_name} git install
+  ${this.program_name} git install ./api --command "bunx carveman"
+`);
+  }
+
+  /**
+   * Shows version information
+   */
+  showVersion(): void {
+    // In a real implementation, this would read from package.json
+    console.log(`${this.program_name} version 1.0.0`);
+  }
+
+  /**
+   * Validates that required arguments are present
+   * @param command - Parsed command object
+   * @returns boolean - True if valid
+   */
+  validateCommand(command: ICliCommand): boolean {
+    if (!command.input_path || command.input_path.trim().length === 0) {
+      console.error('Input path is required');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the current working directory
+   * @returns string - Current working directory
+   */
+  getCurrentDirectory(): string {
+    return process.cwd();
+  }
+
+  /**
+   * Checks if a flag is a help flag
+   * @param flag - Flag to check
+   * @returns boolean
+   */
+  isHelpFlag(flag: string): boolean {
+    return ['--help', '-h', 'help'].includes(flag.toLowerCase());
+  }
 
   /**
    * Checks if a flag is a version flag
@@ -330,6 +1581,22 @@ EXAMPLES:
   isVersionFlag(flag: string): boolean {
     return ['--version', '-v', 'version'].includes(flag.toLowerCase());
   }
+
+  /**
+   * Gets the options preset for a command by the config file and
+   * environment, which its flags then override
+   * @param command - Command being parsed
+   * @param input_path - Input path of the command
+   * @returns Partial<T>
+   */
+  private getConfiguredOptions<T extends object>(
+    command: ConfigurableCommand,
+    input_path: string
+  ): Partial<T> {
+    return this.config
+      ? config_loader.getCommandOptions<T>(this.config, command, input_path)
+      : {};
+  }
 }
 
 // Export singleton instance
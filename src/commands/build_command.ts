@@ -2,9 +2,19 @@
  * Build Command - Reconstructs Postman Collection JSON from File System Structure
  */
 
+import { relative, sep } from 'node:path';
 import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { body_extractor } from '@/parser/body_extractor.ts';
+import { example_extractor } from '@/parser/example_extractor.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import { script_extractor } from '@/parser/script_extractor.ts';
+import {
+  SECRETS_FILE_NAME,
+  secret_detector
+} from '@/secrets/secret_detector.ts';
 import type {
   IBuildOptions,
+  IFolderIndex,
   IPostmanCollection,
   IPostmanItem
 } from '@/types/postman.ts';
@@ -22,10 +32,53 @@ export class BuildCommand {
   async execute(
     input_path: string,
     options: IBuildOptions
+  ): Promise<BuildResult> {
+    const result = await this.assemble(input_path, options);
+    if (!(result.success && result.collection)) {
+      return result;
+    }
+
+    try {
+      // Determine output file path
+      const output_file = options.output || 'collection.json';
+      result.output_file = file_system_manager.resolvePath(output_file);
+
+      // Write the collection JSON
+      await file_system_manager.writeJsonFile(
+        result.output_file,
+        result.collection,
+        { indent: options.indent, eol: options.eol }
+      );
+
+      if (options.verbose) {
+        console.log('\n🎉 Build completed successfully!');
+        console.log(`   Collection: ${result.collection_name}`);
+        console.log(`   Output: ${result.output_file}`);
+        console.log(`   Items processed: ${result.items_processed}`);
+      }
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`Build operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks a split directory and reassembles it into a collection, without
+   * writing the output file
+   * @param input_path - Path to the collection directory
+   * @param options - Build options; output is ignored
+   * @returns Promise<BuildResult> - Result holding the collection
+   */
+  async assemble(
+    input_path: string,
+    options: IBuildOptions
   ): Promise<BuildResult> {
     const result: BuildResult = {
       success: false,
       collection_name: '',
+      collection: null,
       output_file: '',
       items_processed: 0,
       errors: [],
@@ -65,52 +118,42 @@ export class BuildCommand {
         }
       }
 
-      // Read collection index
-      const collection_index =
-        await file_system_manager.readCollectionIndex(input_path);
-      result.collection_name = collection_index.info.name;
-
-      if (options.verbose) {
-        console.log(`📁 Building collection: ${result.collection_name}`);
+      const built = await this.buildCollection(
+        input_path,
+        options,
+        result.warnings
+      );
+      let collection = built.collection;
+      result.collection_name = collection.info.name;
+      result.items_processed = built.items_processed;
+
+      if (built.errors.length > 0) {
+        result.errors.push(...built.errors);
+        return result;
       }
 
-      // Build the collection structure
-      const collection: IPostmanCollection = {
-        info: collection_index.info,
-        item: [],
-        variable: collection_index.variable,
-        event: collection_index.event,
-        auth: collection_index.auth,
-        protocolProfileBehavior: collection_index.protocolProfileBehavior
-      };
-
-      // Process items in the order specified in index.json
-      for (const item_name of collection_index.order) {
-        const item_path = file_system_manager.joinPath(input_path, item_name);
-
-        if (await file_system_manager.pathExists(item_path)) {
-          const processed_item = await this.processItem(item_path, options);
-          if (processed_item) {
-            collection.item.push(processed_item);
-            result.items_processed++;
-          }
-        } else {
-          result.warnings.push(`Item not found: ${item_name}`);
+      if (options.inject_secrets) {
+        const secrets_path = file_system_manager.joinPath(
+          input_path,
+          SECRETS_FILE_NAME
+        );
+        if (!(await file_system_manager.pathExists(secrets_path))) {
+          result.errors.push(`Secrets file does not exist: ${secrets_path}`);
+          return result;
         }
+        collection = secret_detector.restore(
+          collection,
+          await file_system_manager.readJsonFile(secrets_path)
+        );
       }
 
-      // Determine output file path
-      const output_file = options.output || 'collection.json';
-      result.output_file = file_system_manager.resolvePath(output_file);
-
       // Validate collection if requested
       if (options.validate) {
         if (options.verbose) {
           console.log('🔍 Validating reconstructed collection...');
         }
 
-        const validation_result =
-          this.validateReconstructedCollection(collection);
+        const validation_result = postman_parser.validateCollection(collection);
         if (!validation_result.is_valid) {
           result.errors.push(...validation_result.errors);
           return result;
@@ -121,17 +164,8 @@ export class BuildCommand {
         }
       }
 
-      // Write the collection JSON
-      await file_system_manager.writeJsonFile(result.output_file, collection);
-
+      result.collection = collection;
       result.success = result.errors.length === 0;
-
-      if (options.verbose && result.success) {
-        console.log('\n🎉 Build completed successfully!');
-        console.log(`   Collection: ${result.collection_name}`);
-        console.log(`   Output: ${result.output_file}`);
-        console.log(`   Items processed: ${result.items_processed}`);
-      }
     } catch (error) {
       result.errors.push(`Build operation failed: ${error}`);
     }
@@ -139,33 +173,109 @@ export class BuildCommand {
     return result;
   }
 
+  /**
+   * Reassembles a collection from an already validated split directory,
+   * without writing anything to disk
+   * @param input_path - Path to the collection directory
+   * @param options - Build options
+   * @param warnings - Collected warnings
+   * @returns Promise<BuiltCollection> - Collection, number of top-level items
+   * and the order errors found
+   */
+  async buildCollection(
+    input_path: string,
+    options: IBuildOptions,
+    warnings: string[]
+  ): Promise<BuiltCollection> {
+    // Read collection index
+    const collection_index =
+      await file_system_manager.readCollectionIndex(input_path);
+
+    if (options.verbose) {
+      console.log(`📁 Building collection: ${collection_index.info.name}`);
+    }
+
+    // Build the collection structure, carrying every non-carveman field
+    const { meta: _meta, order: _order, info, ...fields } = collection_index;
+    const collection: IPostmanCollection = {
+      info,
+      item: [],
+      ...fields,
+      event: await script_extractor.inlineScripts(
+        collection_index.event,
+        input_path
+      )
+    };
+
+    // Process items in the order specified in the index file
+    const report: OrderReport = { root_path: input_path, errors: [], warnings };
+    const order = await this.resolveOrder(
+      input_path,
+      collection_index.order,
+      options,
+      report
+    );
+    let items_processed = 0;
+    for (const item_name of order) {
+      const item_path = file_system_manager.joinPath(input_path, item_name);
+
+      if (await file_system_manager.pathExists(item_path)) {
+        const processed_item = await this.processItem(
+          item_path,
+          options,
+          report
+        );
+        if (processed_item) {
+          collection.item.push(processed_item);
+          items_processed++;
+        }
+      }
+    }
+
+    return { collection, items_processed, errors: report.errors };
+  }
+
+  /**
+   * Reads a single request file, with its extracted bodies, scripts and
+   * examples inlined
+   * @param request_path - Path to the request file
+   * @returns Promise<IPostmanItem>
+   */
+  async buildRequest(request_path: string): Promise<IPostmanItem> {
+    return await this.processRequest(request_path, {});
+  }
+
   /**
    * Processes a single item (folder or request) from file system
    * @param item_path - Path to the item (folder or file)
    * @param options - Build options
+   * @param report - Collected order errors and warnings; items that fail to
+   * build are reported as errors
    * @returns Promise<IPostmanItem | null>
    */
   private async processItem(
     item_path: string,
-    options: IBuildOptions
+    options: IBuildOptions,
+    report: OrderReport
   ): Promise<IPostmanItem | null> {
     try {
       if (await file_system_manager.isDirectory(item_path)) {
         // It's a folder
-        return await this.processFolder(item_path, options);
+        return await this.processFolder(item_path, options, report);
       }
 
       if (
         (await file_system_manager.isFile(item_path)) &&
-        item_path.endsWith('.json')
+        file_system_manager.isTreeFile(item_path)
       ) {
-        // It's a request file
+        // It's a request file, in JSON or YAML
         return await this.processRequest(item_path, options);
       }
     } catch (error) {
-      if (options.verbose) {
-        console.log(`⚠️  Failed to process item ${item_path}: ${error}`);
-      }
+      // A missing extracted file would otherwise drop the item silently
+      report.errors.push(
+        `Failed to build ${relative(report.root_path, item_path).split(sep).join('/')}: ${error instanceof Error ? error.message : error}`
+      );
     }
 
     return null;
@@ -175,22 +285,25 @@ export class BuildCommand {
    * Processes a folder and its contents
    * @param folder_path - Path to the folder
    * @param options - Build options
+   * @param report - Collected order errors and warnings
    * @returns Promise<IPostmanItem>
    */
   private async processFolder(
     folder_path: string,
-    options: IBuildOptions
+    options: IBuildOptions,
+    report: OrderReport
   ): Promise<IPostmanItem> {
     // Read folder index
     const folder_index = await file_system_manager.readFolderIndex(folder_path);
 
+    // Carry every non-carveman field, including ids and unknown keys
+    const { meta: _meta, order: _order, ...fields } = folder_index;
     const folder_item: IPostmanItem = {
-      name: folder_index.name,
-      description: folder_index.description,
-      variable: folder_index.variable,
-      event: folder_index.event,
-      auth: folder_index.auth,
-      protocolProfileBehavior: folder_index.protocolProfileBehavior,
+      ...fields,
+      event: await script_extractor.inlineScripts(
+        folder_index.event,
+        folder_path
+      ),
       item: []
     };
 
@@ -198,17 +311,21 @@ export class BuildCommand {
       console.log(`📁 Processing folder: ${folder_index.name}`);
     }
 
-    // Process children in the order specified in index.json
-    for (const child_name of folder_index.order) {
+    // Process children in the order specified in the index file
+    const order = await this.resolveOrder(
+      folder_path,
+      folder_index.order,
+      options,
+      report
+    );
+    for (const child_name of order) {
       const child_path = file_system_manager.joinPath(folder_path, child_name);
 
       if (await file_system_manager.pathExists(child_path)) {
-        const child_item = await this.processItem(child_path, options);
+        const child_item = await this.processItem(child_path, options, report);
         if (child_item && folder_item.item) {
           folder_item.item.push(child_item);
         }
-      } else if (options.verbose) {
-        console.log(`⚠️  Child item not found: ${child_name}`);
       }
     }
 
@@ -216,140 +333,247 @@ export class BuildCommand {
   }
 
   /**
-   * Processes a request file
-   * @param request_path - Path to the request file
+   * Compares the order of an index with its directory. Request files and
+   * folders that the order does not list are orphans; listed entries with
+   * nothing on disk are missing; folders of requests without an index file
+   * cannot be built. All are reported as errors or warnings, depending on
+   * the orphans option, and in append mode the orphans are built after the
+   * listed entries. With the fix option the directory is repaired instead:
+   * folders get an index, and the order is rewritten to match the directory.
+   * @param directory_path - Collection or folder directory
+   * @param order - Order of its index
    * @param options - Build options
-   * @returns Promise<IPostmanItem>
+   * @param report - Collected order errors and warnings
+   * @returns Promise<string[]> - Entries to build, in order
    */
-  private async processRequest(
-    request_path: string,
-    options: IBuildOptions
-  ): Promise<IPostmanItem> {
-    // Read request file
-    const request_data =
-      await file_system_manager.readRequestFile(request_path);
-
-    const request_item: IPostmanItem = {
-      name: request_data.name,
-      description: request_data.description,
-      variable: request_data.variable,
-      event: request_data.event,
-      auth: request_data.auth,
-      protocolProfileBehavior: request_data.protocolProfileBehavior,
-      request: request_data.request,
-      response: request_data.response
-    };
+  private async resolveOrder(
+    directory_path: string,
+    order: string[],
+    options: IBuildOptions,
+    report: OrderReport
+  ): Promise<string[]> {
+    const display = (entry: string) =>
+      relative(
+        report.root_path,
+        file_system_manager.joinPath(directory_path, entry)
+      )
+        .split(sep)
+        .join('/');
+    const index_path =
+      (await file_system_manager.findIndexFile(directory_path)) ??
+      file_system_manager.joinPath(directory_path, 'index.json');
+    const format = file_system_manager.getTreeFormat(index_path);
+    const mode = options.orphans ?? 'warn';
+    const messages = mode === 'error' ? report.errors : report.warnings;
+
+    for (const folder_name of await this.findUnindexedFolders(directory_path)) {
+      if (!options.fix) {
+        messages.push(`Folder without an index file: ${display(folder_name)}`);
+        continue;
+      }
 
-    if (options.verbose) {
-      console.log(`📄 Processing request: ${request_data.name}`);
+      // An empty order, filled in when the folder itself is built
+      const folder_index_file = file_system_manager.joinPath(
+        folder_name,
+        `index${file_system_manager.getTreeFileExtension(format)}`
+      );
+      const folder_index: IFolderIndex = {
+        meta: { type: 'folder', parent_path: display('') || '.' },
+        name: folder_name,
+        order: []
+      };
+      await file_system_manager.writeTreeFile(
+        file_system_manager.joinPath(directory_path, folder_index_file),
+        folder_index,
+        { format, indent: options.indent, eol: options.eol }
+      );
+      report.warnings.push(`Created ${display(folder_index_file)}`);
     }
 
-    return request_item;
-  }
-
-  /**
-   * Validates the reconstructed collection
-   * @param collection - Collection to validate
-   * @returns ValidationResult
-   */
-  private validateReconstructedCollection(
-    collection: IPostmanCollection
-  ): ValidationResult {
-    const result: ValidationResult = {
-      is_valid: true,
-      errors: [],
-      warnings: []
-    };
-
-    // Basic validation
-    if (!collection.info) {
-      result.is_valid = false;
-      result.errors.push('Missing collection info');
-      return result;
+    const orphans = await this.findOrphans(directory_path, order);
+    const missing: string[] = [];
+    for (const entry of order) {
+      if (
+        !(await file_system_manager.pathExists(
+          file_system_manager.joinPath(directory_path, entry)
+        ))
+      ) {
+        missing.push(entry);
+      }
     }
-
-    if (!collection.info.name) {
-      result.is_valid = false;
-      result.errors.push('Missing collection name');
+    if (orphans.length === 0 && missing.length === 0) {
+      return order;
     }
 
-    if (!collection.info.schema) {
-      result.is_valid = false;
-      result.errors.push('Missing collection schema');
+    if (options.fix) {
+      const fixed_order = [
+        ...order.filter((entry) => !missing.includes(entry)),
+        ...orphans
+      ];
+      await file_system_manager.writeTreeFile(
+        index_path,
+        {
+          ...(await file_system_manager.readTreeFile(index_path)),
+          order: fixed_order
+        },
+        { format, indent: options.indent, eol: options.eol }
+      );
+
+      const changes = [
+        ...orphans.map((entry) => `added ${entry}`),
+        ...missing.map((entry) => `removed ${entry}`)
+      ];
+      report.warnings.push(
+        `Fixed order of ${display(file_system_manager.getBasename(index_path))}: ${changes.join(', ')}`
+      );
+      return fixed_order;
     }
 
-    if (!Array.isArray(collection.item)) {
-      result.is_valid = false;
-      result.errors.push('Collection items must be an array');
-      return result;
+    for (const entry of missing) {
+      messages.push(`Listed in order but not found: ${display(entry)}`);
     }
-
-    // Validate items recursively
-    const item_validation = this.validateItems(collection.item);
-    result.errors.push(...item_validation.errors);
-    result.warnings.push(...item_validation.warnings);
-
-    if (item_validation.errors.length > 0) {
-      result.is_valid = false;
+    if (mode === 'append') {
+      for (const entry of orphans) {
+        report.warnings.push(`Appended to order: ${display(entry)}`);
+      }
+      return [...order, ...orphans];
+    }
+    for (const entry of orphans) {
+      messages.push(`Not listed in order: ${display(entry)}`);
     }
 
-    return result;
+    return order;
   }
 
   /**
-   * Validates items array recursively
-   * @param items - Array of items to validate
-   * @param path - Current path for error reporting
-   * @returns ValidationResult
+   * Lists the folders of a directory that hold request files but no index
+   * file, so that build cannot tell their name or order. Folders holding
+   * only other files are left alone.
+   * @param directory_path - Collection or folder directory
+   * @returns Promise<string[]> - Folder names, in alphabetical order
    */
-  private validateItems(
-    items: IPostmanItem[],
-    path = 'root'
-  ): ValidationResult {
-    const result: ValidationResult = {
-      is_valid: true,
-      errors: [],
-      warnings: []
-    };
-
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      if (!item) {
-        result.errors.push(`Item at index ${i} is undefined`);
+  private async findUnindexedFolders(
+    directory_path: string
+  ): Promise<string[]> {
+    const structure =
+      await file_system_manager.scanDirectoryStructure(directory_path);
+    const folder_names: string[] = [];
+
+    for (const folder of structure.folders) {
+      if (
+        folder.name.startsWith('.') ||
+        (await file_system_manager.findIndexFile(folder.path))
+      ) {
         continue;
       }
+      const content = await file_system_manager.scanDirectoryStructure(
+        folder.path
+      );
+      for (const file of content.files) {
+        if (await this.isRequestFile(file.path)) {
+          folder_names.push(folder.name);
+          break;
+        }
+      }
+    }
 
-      const item_path = `${path}.item[${i}]`;
+    return folder_names.sort();
+  }
 
-      if (!item.name) {
-        result.errors.push(`Missing name for item at ${item_path}`);
-        continue;
+  /**
+   * Lists the request files and folders of a directory that its order does
+   * not list. Dotfiles, extracted files, other JSON or YAML files, such as a
+   * package.json, and directories without an index file, such as examples/,
+   * are not items and never orphans.
+   * @param directory_path - Collection or folder directory
+   * @param order - Order of its index
+   * @returns Promise<string[]> - Orphaned entries, in alphabetical order
+   */
+  private async findOrphans(
+    directory_path: string,
+    order: string[]
+  ): Promise<string[]> {
+    const structure =
+      await file_system_manager.scanDirectoryStructure(directory_path);
+    const entries: string[] = [];
+    for (const file of structure.files) {
+      if (await this.isRequestFile(file.path)) {
+        entries.push(file.name);
+      }
+    }
+    for (const folder of structure.folders) {
+      if (await file_system_manager.findIndexFile(folder.path)) {
+        entries.push(folder.name);
       }
+    }
 
-      // Check if it's a folder (has item array) or request (has request object)
-      const has_items = Array.isArray(item.item);
-      const has_request = item.request && typeof item.request === 'object';
+    const listed = new Set(order);
+    return entries
+      .filter((entry) => !(listed.has(entry) || entry.startsWith('.')))
+      .sort();
+  }
 
-      if (has_items && has_request) {
-        result.warnings.push(
-          `Item at ${item_path} has both "item" and "request" fields`
-        );
-      } else if (!(has_items || has_request)) {
-        result.errors.push(
-          `Item at ${item_path} has neither "item" nor "request" field`
-        );
-        continue;
-      }
+  /**
+   * Checks whether a JSON or YAML file reads as a request file: one split
+   * wrote, or at least one holding a request
+   * @param file_path - Path of the file
+   * @returns Promise<boolean>
+   */
+  private async isRequestFile(file_path: string): Promise<boolean> {
+    try {
+      const data = await file_system_manager.readTreeFile(file_path);
+      return (
+        data?.meta?.type === 'request' ||
+        (typeof data?.request === 'object' && data.request !== null)
+      );
+    } catch (_error) {
+      return false;
+    }
+  }
 
-      // Recursively validate nested items if it's a folder
-      if (has_items && item.item) {
-        const nested_validation = this.validateItems(item.item, item_path);
-        result.errors.push(...nested_validation.errors);
-        result.warnings.push(...nested_validation.warnings);
-      }
+  /**
+   * Processes a request file
+   * @param request_path - Path to the request file
+   * @param options - Build options
+   * @returns Promise<IPostmanItem>
+   */
+  private async processRequest(
+    request_path: string,
+    options: IBuildOptions
+  ): Promise<IPostmanItem> {
+    // Read request file
+    const request_data =
+      await file_system_manager.readRequestFile(request_path);
+    const request_dir = file_system_manager.getDirname(request_path);
+
+    // Restore a body that was extracted into standalone files
+    let request = request_data.request;
+    if (request?.body) {
+      request = {
+        ...request,
+        body: await body_extractor.inlineBody(request.body, request_dir)
+      };
     }
 
-    return result;
+    // Carry every non-carveman field, including ids and unknown keys
+    const { meta: _meta, response_files, ...fields } = request_data;
+    const request_item: IPostmanItem = {
+      ...fields,
+      event: await script_extractor.inlineScripts(
+        request_data.event,
+        request_dir
+      ),
+      request,
+      response: response_files
+        ? await example_extractor.inlineExamples(response_files, request_dir)
+        : request_data.response
+    };
+
+    if (options.verbose) {
+      console.log(`📄 Processing request: ${request_data.name}`);
+    }
+
+    return request_item;
   }
 
   /**
@@ -372,17 +596,27 @@ export class BuildCommand {
 }
 
 // Supporting types
+export interface BuiltCollection {
+  collection: IPostmanCollection;
+  items_processed: number;
+  // Order problems reported as errors by the orphans option
+  errors: string[];
+}
+
 export interface BuildResult {
   success: boolean;
   collection_name: string;
+  // Reassembled collection, once it has been built
+  collection: IPostmanCollection | null;
   output_file: string;
   items_processed: number;
   errors: string[];
   warnings: string[];
 }
 
-export interface ValidationResult {
-  is_valid: boolean;
+interface OrderReport {
+  // Collection directory, that reported paths are relative to
+  root_path: string;
   errors: string[];
   warnings: string[];
 }
@@ -0,0 +1,177 @@
+/**
+ * Build Env Command - Reconstructs a Postman environment JSON from File System Structure
+ */
+
+import { ENVIRONMENT_VARIABLES_FILE } from '@/commands/split_env_command.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import type {
+  IBuildOptions,
+  IEnvironmentIndex,
+  IPostmanEnvironment,
+  IPostmanEnvironmentValue
+} from '@/types/postman.ts';
+import { createSafeDirectoryName } from '@/utils/sanitization.ts';
+
+/**
+ * Build Env Command class for reconstructing Postman environments
+ */
+export class BuildEnvCommand {
+  /**
+   * Executes the build-env operation
+   * @param input_path - Path to the environment directory
+   * @param options - Build options
+   * @returns Promise<BuildEnvResult>
+   */
+  async execute(
+    input_path: string,
+    options: IBuildOptions
+  ): Promise<BuildEnvResult> {
+    const result: BuildEnvResult = {
+      success: false,
+      environment_name: '',
+      output_file: '',
+      variables_count: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      // Validate directory structure
+      const validation =
+        await file_system_manager.validateDirectoryStructure(input_path);
+      if (!validation.is_valid) {
+        result.errors.push(...validation.errors);
+        return result;
+      }
+
+      if (options.verbose) {
+        console.log(`📖 Reading environment from: ${input_path}`);
+      }
+
+      const environment_index: IEnvironmentIndex =
+        await file_system_manager.readJsonFile(
+          file_system_manager.joinPath(input_path, 'index.json')
+        );
+      if (environment_index.meta?.type !== 'environment') {
+        result.errors.push(
+          `Not an environment directory (index.json meta.type is "${environment_index.meta?.type}"): ${input_path}`
+        );
+        return result;
+      }
+      result.environment_name = environment_index.name;
+
+      const variables_path = file_system_manager.joinPath(
+        input_path,
+        ENVIRONMENT_VARIABLES_FILE
+      );
+      let variables: IPostmanEnvironmentValue[] = [];
+      if (await file_system_manager.pathExists(variables_path)) {
+        variables = await file_system_manager.readJsonFile(variables_path);
+      } else {
+        result.warnings.push(
+          `Missing ${ENVIRONMENT_VARIABLES_FILE}, environment will have no variables`
+        );
+      }
+
+      if (!Array.isArray(variables)) {
+        result.errors.push(`${ENVIRONMENT_VARIABLES_FILE} must be an array`);
+        return result;
+      }
+
+      const environment = this.assembleEnvironment(
+        environment_index,
+        variables,
+        result.warnings
+      );
+      result.variables_count = environment.values.length;
+
+      // Validate environment if requested
+      if (options.validate) {
+        const environment_validation =
+          postman_parser.validateEnvironment(environment);
+        if (!environment_validation.is_valid) {
+          result.errors.push(...environment_validation.errors);
+          return result;
+        }
+        result.warnings.push(...environment_validation.warnings);
+      }
+
+      const output_file =
+        options.output ||
+        `${createSafeDirectoryName(environment.name)}.postman_environment.json`;
+      result.output_file = file_system_manager.resolvePath(output_file);
+
+      await file_system_manager.writeJsonFile(
+        result.output_file,
+        environment,
+        options
+      );
+
+      result.success = true;
+
+      if (options.verbose) {
+        console.log('\n🎉 Environment build completed successfully!');
+        console.log(`   Environment: ${result.environment_name}`);
+        console.log(`   Output: ${result.output_file}`);
+        console.log(`   Variables: ${result.variables_count}`);
+      }
+    } catch (error) {
+      result.errors.push(`Build-env operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reassembles the environment, restoring the variable order recorded in
+   * index.json. Variables not listed in the order are appended as found.
+   * @param environment_index - Environment index
+   * @param variables - Variables read from disk
+   * @param warnings - Collected warnings
+   * @returns IPostmanEnvironment
+   */
+  assembleEnvironment(
+    environment_index: IEnvironmentIndex,
+    variables: IPostmanEnvironmentValue[],
+    warnings: string[]
+  ): IPostmanEnvironment {
+    const { meta: _meta, order, ...fields } = environment_index;
+    const remaining = [...variables];
+    const values: IPostmanEnvironmentValue[] = [];
+
+    for (const key of order ?? []) {
+      const index = remaining.findIndex((variable) => variable.key === key);
+      if (index === -1) {
+        warnings.push(`Variable not found: ${key}`);
+        continue;
+      }
+      values.push(...remaining.splice(index, 1));
+    }
+    values.push(...remaining);
+
+    // Keep "values" right after "name", where Postman exports it
+    const environment = {} as IPostmanEnvironment;
+    for (const [key, value] of Object.entries(fields)) {
+      environment[key] = value;
+      if (key === 'name') {
+        environment.values = values;
+      }
+    }
+
+    return environment;
+  }
+}
+
+// Supporting types
+export interface BuildEnvResult {
+  success: boolean;
+  environment_name: string;
+  output_file: string;
+  variables_count: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const build_env_command = new BuildEnvCommand();
@@ -0,0 +1,213 @@
+/**
+ * Curl Command - Prints a request file of a split tree as a runnable curl
+ * command
+ */
+
+import { build_command } from '@/commands/build_command.ts';
+import { curl_exporter } from '@/export/curl_exporter.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import type {
+  ICollectionIndex,
+  ICurlOptions,
+  IFolderIndex,
+  IPostmanAuth,
+  IPostmanRequest,
+  IPostmanVariable
+} from '@/types/postman.ts';
+
+// Variables may refer to other variables; deeper nesting is left unresolved
+const MAX_RESOLVE_DEPTH = 10;
+
+/**
+ * Curl Command class for converting request files to curl commands
+ */
+export class CurlCommand {
+  /**
+   * Executes the curl operation
+   * @param request_path - Request file inside a split collection
+   * @param options - Curl options
+   * @returns Promise<CurlResult>
+   */
+  async execute(
+    request_path: string,
+    options: ICurlOptions
+  ): Promise<CurlResult> {
+    const result: CurlResult = {
+      success: false,
+      request_name: '',
+      command: '',
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      if (
+        !(
+          file_system_manager.isTreeFile(request_path) &&
+          (await file_system_manager.isFile(request_path))
+        )
+      ) {
+        result.errors.push(`Input path is not a request file: ${request_path}`);
+        return result;
+      }
+
+      const item = await build_command.buildRequest(request_path);
+      if (!item.request) {
+        result.errors.push(`File does not contain a request: ${request_path}`);
+        return result;
+      }
+      result.request_name = item.name;
+
+      const scopes = await this.readScopes(
+        file_system_manager.getDirname(request_path)
+      );
+      if (!scopes) {
+        result.errors.push(
+          `Request is not inside a split collection (no collection index.json above it): ${request_path}`
+        );
+        return result;
+      }
+
+      if (options.verbose) {
+        console.error(`📄 Converting request: ${item.name}`);
+      }
+
+      // Requests without auth inherit it from the nearest folder or the
+      // collection
+      let request: IPostmanRequest = {
+        ...item.request,
+        auth: item.request.auth ?? this.findInheritedAuth(scopes)
+      };
+
+      if (!options.keep_variables) {
+        const variables = this.collectVariables([
+          ...scopes.map((scope) => scope.variable),
+          item.variable
+        ]);
+        request = this.resolveVariables(request, variables);
+
+        const unresolved = new Set(
+          JSON.stringify(request).match(/{{[^{}]+}}/g) ?? []
+        );
+        if (unresolved.size > 0) {
+          result.warnings.push(
+            `Unresolved variables left in place: ${[...unresolved].join(', ')}`
+          );
+        }
+      }
+
+      result.command = curl_exporter.convert(request, result.warnings);
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Curl operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads the index files enclosing a request, from the collection
+   * down to the request's own folder
+   * @param directory_path - Directory holding the request file
+   * @returns Promise<(ICollectionIndex | IFolderIndex)[] | null> - Indexes,
+   * or null if the directory is not inside a split collection
+   */
+  private async readScopes(
+    directory_path: string
+  ): Promise<(ICollectionIndex | IFolderIndex)[] | null> {
+    const root_path =
+      await file_system_manager.findCollectionRoot(directory_path);
+    if (!root_path) {
+      return null;
+    }
+
+    const scopes: (ICollectionIndex | IFolderIndex)[] = [];
+    let current = file_system_manager.resolvePath(directory_path);
+    while (current !== root_path) {
+      scopes.unshift(await file_system_manager.readFolderIndex(current));
+      current = file_system_manager.getDirname(current);
+    }
+    scopes.unshift(await file_system_manager.readCollectionIndex(root_path));
+
+    return scopes;
+  }
+
+  /**
+   * Finds the auth a request inherits
+   * @param scopes - Enclosing indexes, outermost first
+   * @returns IPostmanAuth | undefined
+   */
+  private findInheritedAuth(
+    scopes: (ICollectionIndex | IFolderIndex)[]
+  ): IPostmanAuth | undefined {
+    return scopes.findLast((scope) => scope.auth)?.auth;
+  }
+
+  /**
+   * Merges variable scopes, inner definitions overriding outer ones
+   * @param scopes - Variable lists, outermost first
+   * @returns Map<string, string>
+   */
+  private collectVariables(
+    scopes: (IPostmanVariable[] | undefined)[]
+  ): Map<string, string> {
+    const variables = new Map<string, string>();
+    for (const scope of scopes) {
+      for (const variable of scope ?? []) {
+        if (!variable.disabled && variable.key) {
+          variables.set(variable.key, String(variable.value ?? ''));
+        }
+      }
+    }
+
+    return variables;
+  }
+
+  /**
+   * Replaces {{variable}} references in every string of a value
+   * @param value - Value to resolve
+   * @param variables - Variable values by name
+   * @returns T - Resolved copy
+   */
+  private resolveVariables<T>(value: T, variables: Map<string, string>): T {
+    if (typeof value === 'string') {
+      let resolved: string = value;
+      for (let depth = 0; depth < MAX_RESOLVE_DEPTH; depth++) {
+        const next = resolved.replace(
+          /{{([^{}]+)}}/g,
+          (match, name: string) => variables.get(name) ?? match
+        );
+        if (next === resolved) {
+          break;
+        }
+        resolved = next;
+      }
+      return resolved as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.resolveVariables(entry, variables)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+          key,
+          this.resolveVariables(entry, variables)
+        ])
+      ) as T;
+    }
+
+    return value;
+  }
+}
+
+// Supporting types
+export interface CurlResult {
+  success: boolean;
+  request_name: string;
+  command: string;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const curl_command = new CurlCommand();
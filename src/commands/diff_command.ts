@@ -0,0 +1,93 @@
+/**
+ * Diff Command - Compares two collections, each either a JSON export or a split directory
+ */
+
+import {
+  type CollectionDiff,
+  collection_differ
+} from '@/diff/collection_differ.ts';
+import { diff_formatter } from '@/diff/diff_formatter.ts';
+import { collection_loader } from '@/fs/collection_loader.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import type { IDiffOptions } from '@/types/postman.ts';
+
+/**
+ * Diff Command class for semantic collection comparison
+ */
+export class DiffCommand {
+  /**
+   * Executes the diff operation
+   * @param source_path - Collection before the change (JSON file or directory)
+   * @param target_path - Collection after the change (JSON file or directory)
+   * @param options - Diff options
+   * @returns Promise<DiffResult>
+   */
+  async execute(
+    source_path: string,
+    target_path: string,
+    options: IDiffOptions
+  ): Promise<DiffResult> {
+    const result: DiffResult = {
+      success: false,
+      has_changes: false,
+      report: '',
+      output_file: '',
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      if (options.verbose) {
+        console.error(`📖 Reading collections: ${source_path}, ${target_path}`);
+      }
+
+      const source = await collection_loader.loadCollection(
+        source_path,
+        result.warnings
+      );
+      const target = await collection_loader.loadCollection(
+        target_path,
+        result.warnings
+      );
+
+      result.diff = collection_differ.diffCollections(
+        source.collection,
+        target.collection
+      );
+      result.has_changes = collection_differ.hasChanges(result.diff);
+      result.report = diff_formatter.format(
+        result.diff,
+        options.format || 'text',
+        { source: source_path, target: target_path }
+      );
+
+      if (options.output) {
+        result.output_file = file_system_manager.resolvePath(options.output);
+        await file_system_manager.writeTextFile(
+          result.output_file,
+          `${result.report}\n`
+        );
+      }
+
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Diff operation failed: ${error}`);
+    }
+
+    return result;
+  }
+}
+
+// Supporting types
+export interface DiffResult {
+  success: boolean;
+  has_changes: boolean;
+  report: string;
+  output_file: string;
+  diff?: CollectionDiff;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const diff_command = new DiffCommand();
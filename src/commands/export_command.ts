@@ -0,0 +1,165 @@
+/**
+ * Export Command - Converts a collection, as a JSON export or a split
+ * directory, into another API description format
+ */
+
+import { bruno_exporter } from '@/export/bruno_exporter.ts';
+import { http_exporter } from '@/export/http_exporter.ts';
+import { openapi_exporter } from '@/export/openapi_exporter.ts';
+import { collection_loader } from '@/fs/collection_loader.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import type {
+  ExportFormat,
+  IExportOptions,
+  IExtractedFile,
+  IPostmanCollection
+} from '@/types/postman.ts';
+
+// Formats written as a directory of files rather than a single document
+const DIRECTORY_FORMATS: ExportFormat[] = ['bruno', 'http'];
+
+/**
+ * Export Command class for converting collections to other formats
+ */
+export class ExportCommand {
+  /**
+   * Executes the export operation
+   * @param input_path - Collection JSON file or split directory
+   * @param options - Export options, including the output format
+   * @returns Promise<ExportResult>
+   */
+  async execute(
+    input_path: string,
+    options: IExportOptions
+  ): Promise<ExportResult> {
+    const result: ExportResult = {
+      success: false,
+      collection_name: '',
+      document: '',
+      output_file: '',
+      files_written: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const is_directory_format = DIRECTORY_FORMATS.includes(options.format);
+      if (is_directory_format && !options.output) {
+        result.errors.push(
+          `The ${options.format} format is written as a directory; use --output <directory>`
+        );
+        return result;
+      }
+
+      if (options.verbose) {
+        console.error(`📖 Reading collection: ${input_path}`);
+      }
+
+      const { collection } = await collection_loader.loadCollection(
+        input_path,
+        result.warnings
+      );
+      result.collection_name = collection.info.name;
+
+      if (is_directory_format && options.output) {
+        result.output_file = file_system_manager.resolvePath(options.output);
+        const files = this.convertToFiles(collection, options, result.warnings);
+        for (const file of files) {
+          await file_system_manager.writeTextFile(
+            file_system_manager.joinPath(result.output_file, file.file_name),
+            file.content
+          );
+        }
+        result.files_written = files.length;
+        result.success = true;
+        return result;
+      }
+
+      const document = this.convert(
+        options.format,
+        collection,
+        result.warnings
+      );
+
+      if (options.output) {
+        result.output_file = file_system_manager.resolvePath(options.output);
+        if (/\.ya?ml$/i.test(result.output_file)) {
+          await file_system_manager.writeYamlFile(result.output_file, document);
+        } else {
+          await file_system_manager.writeJsonFile(result.output_file, document);
+        }
+      } else {
+        result.document = JSON.stringify(document, null, 2);
+      }
+
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Export operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a collection into a document of the given format
+   * @param format - Output format
+   * @param collection - Postman collection
+   * @param warnings - Collected warnings
+   * @returns unknown - Document to serialize
+   */
+  private convert(
+    format: ExportFormat,
+    collection: IPostmanCollection,
+    warnings: string[]
+  ): unknown {
+    switch (format) {
+      case 'openapi':
+        return openapi_exporter.convert(collection, warnings);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Converts a collection into the files of a directory format
+   * @param collection - Postman collection
+   * @param options - Export options, including the output format
+   * @param warnings - Collected warnings
+   * @returns IExtractedFile[] - Files, named by their path relative to the
+   * output directory
+   */
+  private convertToFiles(
+    collection: IPostmanCollection,
+    options: IExportOptions,
+    warnings: string[]
+  ): IExtractedFile[] {
+    switch (options.format) {
+      case 'bruno':
+        return bruno_exporter.convert(collection, warnings);
+      case 'http':
+        return http_exporter.convert(
+          collection,
+          options.env_file ?? false,
+          warnings
+        );
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`);
+    }
+  }
+}
+
+// Supporting types
+export interface ExportResult {
+  success: boolean;
+  collection_name: string;
+  // Serialized document, when it is not written to a file
+  document: string;
+  // Output file, or output directory for directory formats
+  output_file: string;
+  files_written: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const export_command = new ExportCommand();
@@ -0,0 +1,99 @@
+/**
+ * Git Install Command - Registers the carveman merge driver in a git repository
+ */
+
+import {
+  INDEX_FILE_NAMES,
+  file_system_manager
+} from '@/fs/file_system_manager.ts';
+import { MERGE_DRIVER_NAME, git_integration } from '@/git/git_integration.ts';
+import type { IGitInstallOptions } from '@/types/postman.ts';
+
+/**
+ * Git Install Command class for merge driver registration
+ */
+export class GitInstallCommand {
+  /**
+   * Executes the install operation
+   * @param directory_path - Directory inside the repository
+   * @param options - Install options
+   * @returns Promise<GitInstallResult>
+   */
+  async execute(
+    directory_path: string,
+    options: IGitInstallOptions = {}
+  ): Promise<GitInstallResult> {
+    const result: GitInstallResult = {
+      success: false,
+      repository_root: '',
+      attributes_file: '',
+      attribute_added: false,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const repository_root = await git_integration.getRepositoryRoot(
+        file_system_manager.resolvePath(directory_path)
+      );
+      result.repository_root = repository_root;
+
+      const command = options.command || 'carveman';
+      await git_integration.setConfig(
+        `merge.${MERGE_DRIVER_NAME}.name`,
+        'carveman index.json order merge',
+        repository_root
+      );
+      await git_integration.setConfig(
+        `merge.${MERGE_DRIVER_NAME}.driver`,
+        `${command} merge-driver %O %A %B %P`,
+        repository_root
+      );
+
+      result.attributes_file =
+        git_integration.getAttributesPath(repository_root);
+      // Index files of JSON and YAML trees, unless a pattern is given
+      for (const pattern of options.pattern
+        ? [options.pattern]
+        : INDEX_FILE_NAMES) {
+        if (
+          await git_integration.addAttribute(
+            repository_root,
+            pattern,
+            `merge=${MERGE_DRIVER_NAME}`
+          )
+        ) {
+          result.attribute_added = true;
+        }
+      }
+
+      result.success = true;
+
+      if (options.verbose) {
+        console.log(`🔧 Registered merge driver in ${repository_root}`);
+        console.log(
+          result.attribute_added
+            ? `   Added attribute to ${result.attributes_file}`
+            : `   ${result.attributes_file} already up to date`
+        );
+      }
+    } catch (error) {
+      result.errors.push(`Git install operation failed: ${error}`);
+    }
+
+    return result;
+  }
+}
+
+// Supporting types
+export interface GitInstallResult {
+  success: boolean;
+  repository_root: string;
+  attributes_file: string;
+  attribute_added: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const git_install_command = new GitInstallCommand();
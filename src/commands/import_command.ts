@@ -0,0 +1,302 @@
+/**
+ * Import Command - Converts an API description in another format directly
+ * into a split collection tree
+ */
+
+import { type SplitResult, split_command } from '@/commands/split_command.ts';
+import { collection_loader } from '@/fs/collection_loader.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { curl_importer } from '@/import/curl_importer.ts';
+import { har_importer } from '@/import/har_importer.ts';
+import { insomnia_importer } from '@/import/insomnia_importer.ts';
+import { openapi_importer } from '@/import/openapi_importer.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import type {
+  IImportOptions,
+  IPostmanCollection,
+  IPostmanItem,
+  IPostmanVariable,
+  ISplitOptions,
+  ImportFormat
+} from '@/types/postman.ts';
+
+/**
+ * Import Command class for converting other formats to split trees
+ */
+export class ImportCommand {
+  /**
+   * Executes the import operation
+   * @param input_path - File to import, or the command for curl
+   * @param options - Import options, including the input format
+   * @returns Promise<ImportResult>
+   */
+  async execute(
+    input_path: string,
+    options: IImportOptions
+  ): Promise<ImportResult> {
+    const result: ImportResult = {
+      success: false,
+      collection_name: '',
+      output_directory: '',
+      files_created: 0,
+      folders_created: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      // A curl command is given inline rather than as a file
+      if (options.format === 'curl') {
+        if (!options.into) {
+          result.errors.push(
+            'Importing a curl command requires --into <directory>'
+          );
+          return result;
+        }
+      } else if (!(await file_system_manager.pathExists(input_path))) {
+        result.errors.push(`Input file does not exist: ${input_path}`);
+        return result;
+      } else if (options.verbose) {
+        console.log(`📖 Reading ${options.format} file from: ${input_path}`);
+      }
+
+      const collection = await this.convert(
+        options.format,
+        input_path,
+        result.warnings
+      );
+
+      // Importers must produce what split would accept from a Postman export
+      const validation = postman_parser.validateCollection(collection);
+      if (!validation.is_valid) {
+        result.errors.push(
+          ...validation.errors.map(
+            (error) => `Imported collection is invalid: ${error}`
+          )
+        );
+        return result;
+      }
+
+      const split_result = options.into
+        ? await this.addToTree(collection, options.into, options, result)
+        : await split_command.splitToOutput(
+            this.wrapInFolder(collection, options.folder),
+            this.getSplitOptions(options)
+          );
+      split_result.warnings.unshift(...result.warnings);
+      return split_result;
+    } catch (error) {
+      result.errors.push(`Import operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads an input file and converts it into a Postman collection
+   * @param format - Format of the input file
+   * @param input_path - File to import, or the command for curl
+   * @param warnings - Collected warnings
+   * @returns Promise<IPostmanCollection>
+   */
+  private async convert(
+    format: ImportFormat,
+    input_path: string,
+    warnings: string[]
+  ): Promise<IPostmanCollection> {
+    switch (format) {
+      case 'openapi':
+        return openapi_importer.convert(
+          await this.readDocument(input_path),
+          warnings
+        );
+      case 'har':
+        return har_importer.convert(
+          await file_system_manager.readJsonFile(input_path),
+          file_system_manager.getBasename(input_path).replace(/\.har$/i, ''),
+          warnings
+        );
+      case 'insomnia':
+        return insomnia_importer.convert(
+          await this.readDocument(input_path),
+          warnings
+        );
+      case 'curl':
+        return curl_importer.convert(input_path, warnings);
+      default:
+        throw new Error(`Unsupported import format: ${format}`);
+    }
+  }
+
+  /**
+   * Adds the requests of an imported collection to an existing split tree,
+   * skipping captured requests that repeat one already in the collection
+   * @param collection - Imported collection
+   * @param into - Collection or folder directory of the tree
+   * @param options - Import options
+   * @param result - Result collecting errors and warnings
+   * @returns Promise<SplitResult>
+   */
+  private async addToTree(
+    collection: IPostmanCollection,
+    into: string,
+    options: IImportOptions,
+    result: ImportResult
+  ): Promise<SplitResult> {
+    const root_path = await file_system_manager.findCollectionRoot(into);
+    if (!root_path) {
+      result.errors.push(
+        `Not a folder of a split collection (no collection index.json above it): ${into}`
+      );
+      return result;
+    }
+
+    const existing = (
+      await collection_loader.loadCollection(root_path, result.warnings)
+    ).collection;
+    const variables = existing.variable ?? [];
+    const seen = new Set(
+      this.collectRequests(existing.item).map((item) =>
+        this.getRequestKey(item, variables)
+      )
+    );
+
+    // A curl command is added as given, even for an endpoint the collection
+    // already calls; captures repeat the same calls and are deduplicated
+    const requests = this.collectRequests(collection.item).filter((item) => {
+      if (options.format === 'curl') {
+        return true;
+      }
+      const key = this.getRequestKey(item, variables);
+      if (seen.has(key)) {
+        result.warnings.push(
+          `Skipped "${item.name}": ${key} is already in the collection`
+        );
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    if (!options.folder) {
+      return await split_command.addItems(
+        requests,
+        into,
+        this.getSplitOptions(options)
+      );
+    }
+
+    // An existing folder is added to; otherwise it is created
+    const folder_path = file_system_manager.joinPath(into, options.folder);
+    if (await file_system_manager.findIndexFile(folder_path)) {
+      return await split_command.addItems(
+        requests,
+        folder_path,
+        this.getSplitOptions(options)
+      );
+    }
+
+    return await split_command.addItems(
+      [{ name: options.folder, item: requests }],
+      into,
+      this.getSplitOptions(options)
+    );
+  }
+
+  /**
+   * Gets the options the split tree is written with: the import format names
+   * the input, not the format of the written files
+   * @param options - Import options
+   * @returns ISplitOptions
+   */
+  private getSplitOptions(options: IImportOptions): ISplitOptions {
+    const { format: _format, ...split_options } = options;
+    return split_options;
+  }
+
+  /**
+   * Wraps the items of a collection in a single folder
+   * @param collection - Imported collection
+   * @param folder - Folder name, if any
+   * @returns IPostmanCollection
+   */
+  private wrapInFolder(
+    collection: IPostmanCollection,
+    folder: string | undefined
+  ): IPostmanCollection {
+    if (!folder) {
+      return collection;
+    }
+
+    return { ...collection, item: [{ name: folder, item: collection.item }] };
+  }
+
+  /**
+   * Collects the requests of an item tree, depth first
+   * @param items - Items to walk
+   * @returns IPostmanItem[]
+   */
+  private collectRequests(items: IPostmanItem[]): IPostmanItem[] {
+    return items.flatMap((item) =>
+      item.item ? this.collectRequests(item.item) : item.request ? [item] : []
+    );
+  }
+
+  /**
+   * Gets the key two requests share when they call the same endpoint: the
+   * method, the path with collection variables resolved and the host
+   * dropped, and the query parameter names
+   * @param item - Request item
+   * @param variables - Collection variables
+   * @returns string
+   */
+  private getRequestKey(
+    item: IPostmanItem,
+    variables: IPostmanVariable[]
+  ): string {
+    const method = (item.request?.method ?? 'GET').toUpperCase();
+    const url = item.request?.url;
+    const raw = typeof url === 'string' ? url : (url?.raw ?? '');
+
+    const resolved = raw.replace(/{{([^{}]+)}}/g, (match, name: string) => {
+      const variable = variables.find((candidate) => candidate.key === name);
+      return variable?.value !== undefined ? String(variable.value) : match;
+    });
+    const [location = '', query = ''] = (resolved.split('#')[0] ?? '').split(
+      '?'
+    );
+    const path =
+      location
+        .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+        .replace(/^{{[^{}]+}}/, '')
+        .replace(/\/+$/, '') || '/';
+    const query_keys = query
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => pair.split('=')[0])
+      .sort();
+
+    return query_keys.length > 0
+      ? `${method} ${path}?${query_keys.join('&')}`
+      : `${method} ${path}`;
+  }
+
+  /**
+   * Reads a JSON or YAML document, chosen by file extension
+   * @param input_path - File to read
+   * @returns Promise<any> - Parsed document
+   */
+  private async readDocument(input_path: string): Promise<any> {
+    if (/\.ya?ml$/i.test(input_path)) {
+      return await file_system_manager.readYamlFile(input_path);
+    }
+
+    return await file_system_manager.readJsonFile(input_path);
+  }
+}
+
+// Supporting types
+export type ImportResult = SplitResult;
+
+// Export singleton instance
+export const import_command = new ImportCommand();
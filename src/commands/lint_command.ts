@@ -0,0 +1,143 @@
+/**
+ * Lint Command - Checks a split collection tree for hygiene problems
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import {
+  type LintConfig,
+  type LintReport,
+  collection_linter
+} from '@/lint/collection_linter.ts';
+import { lint_formatter } from '@/lint/lint_formatter.ts';
+import type { ILintOptions } from '@/types/postman.ts';
+
+// Config file picked up from the working directory when --config is not given
+export const DEFAULT_LINT_CONFIG_FILE = 'carveman.lint.json';
+
+/**
+ * Lint Command class for collection hygiene checks
+ */
+export class LintCommand {
+  /**
+   * Executes the lint operation
+   * @param input_path - Split collection directory
+   * @param options - Lint options
+   * @returns Promise<LintResult>
+   */
+  async execute(
+    input_path: string,
+    options: ILintOptions
+  ): Promise<LintResult> {
+    const result: LintResult = {
+      success: false,
+      has_errors: false,
+      report: '',
+      output_file: '',
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      if (
+        !(
+          (await file_system_manager.pathExists(input_path)) &&
+          (await file_system_manager.isDirectory(input_path))
+        )
+      ) {
+        result.errors.push(`Input path is not a directory: ${input_path}`);
+        return result;
+      }
+
+      const validation =
+        await file_system_manager.validateDirectoryStructure(input_path);
+      if (!validation.is_valid) {
+        result.errors.push(...validation.errors);
+        return result;
+      }
+
+      const config = await this.loadConfig(options, result);
+      if (!config) {
+        return result;
+      }
+
+      if (options.verbose) {
+        console.error(`🔍 Linting collection tree: ${input_path}`);
+      }
+
+      result.lint_report = await collection_linter.lintDirectory(
+        input_path,
+        config
+      );
+      result.has_errors = result.lint_report.summary.errors > 0;
+      result.report = lint_formatter.format(
+        result.lint_report,
+        options.format || 'text'
+      );
+
+      if (options.output) {
+        result.output_file = file_system_manager.resolvePath(options.output);
+        await file_system_manager.writeTextFile(
+          result.output_file,
+          `${result.report}\n`
+        );
+      }
+
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Lint operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Loads the rule settings from the given config file, or from
+   * carveman.lint.json in the working directory if present, falling back to
+   * the rules set in the project config
+   * @param options - Lint options
+   * @param result - Lint result, updated with errors
+   * @returns Promise<LintConfig | null> - Config, or null if it is invalid
+   */
+  private async loadConfig(
+    options: ILintOptions,
+    result: LintResult
+  ): Promise<LintConfig | null> {
+    const config_path = options.config;
+    const resolved_path = file_system_manager.resolvePath(
+      config_path || DEFAULT_LINT_CONFIG_FILE
+    );
+
+    if (!(await file_system_manager.pathExists(resolved_path))) {
+      if (config_path) {
+        result.errors.push(`Lint config does not exist: ${config_path}`);
+        return null;
+      }
+      return options.rules ? ({ rules: options.rules } as LintConfig) : {};
+    }
+
+    const config = await file_system_manager.readJsonFile(resolved_path);
+    const problems = collection_linter.validateConfig(config);
+    if (problems.length > 0) {
+      result.errors.push(
+        ...problems.map((problem) => `${resolved_path}: ${problem}`)
+      );
+      return null;
+    }
+
+    return config;
+  }
+}
+
+// Supporting types
+export interface LintResult {
+  success: boolean;
+  has_errors: boolean;
+  report: string;
+  output_file: string;
+  lint_report?: LintReport;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const lint_command = new LintCommand();
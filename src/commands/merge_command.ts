@@ -0,0 +1,258 @@
+/**
+ * Merge Command - Three-way merges a collection edited in Postman into a split tree
+ */
+
+import { split_command } from '@/commands/split_command.ts';
+import { collection_loader } from '@/fs/collection_loader.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import {
+  type MergeConflict,
+  collection_merger
+} from '@/merge/collection_merger.ts';
+import { EXAMPLES_DIRECTORY } from '@/parser/example_extractor.ts';
+import type {
+  IMergeOptions,
+  IPostmanCollection,
+  IRequestFile,
+  ISplitOptions
+} from '@/types/postman.ts';
+
+/**
+ * Merge Command class for three-way collection merges
+ */
+export class MergeCommand {
+  /**
+   * Executes the merge operation
+   * @param ours_path - Our version (split directory or JSON file)
+   * @param options - Merge options, including the base and their version
+   * @returns Promise<MergeResult>
+   */
+  async execute(
+    ours_path: string,
+    options: IMergeOptions
+  ): Promise<MergeResult> {
+    const result: MergeResult = {
+      success: false,
+      collection_name: '',
+      output_path: '',
+      conflicts: [],
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      if (!(options.base && options.theirs)) {
+        result.errors.push('Merge requires --base and --theirs');
+        return result;
+      }
+
+      if (options.verbose) {
+        console.log(
+          `📖 Reading base: ${options.base}, ours: ${ours_path}, theirs: ${options.theirs}`
+        );
+      }
+
+      const base = await collection_loader.loadCollection(
+        options.base,
+        result.warnings
+      );
+      const ours = await collection_loader.loadCollection(
+        ours_path,
+        result.warnings
+      );
+      const theirs = await collection_loader.loadCollection(
+        options.theirs,
+        result.warnings
+      );
+
+      const outcome = collection_merger.mergeCollections(
+        base.collection,
+        ours.collection,
+        theirs.collection,
+        { favor: options.favor }
+      );
+      result.collection_name = outcome.collection.info?.name ?? '';
+      result.conflicts = outcome.conflicts;
+
+      // Write the result where our version lives, in the same form
+      const output_path = options.output || ours_path;
+      result.output_path = file_system_manager.resolvePath(output_path);
+      await this.writeMergedCollection(
+        outcome.collection,
+        result.output_path,
+        ours_path,
+        result
+      );
+
+      if (options.report) {
+        await file_system_manager.writeJsonFile(
+          file_system_manager.resolvePath(options.report),
+          {
+            base: options.base,
+            ours: ours_path,
+            theirs: options.theirs,
+            conflicts: result.conflicts
+          }
+        );
+      }
+
+      result.success = result.errors.length === 0;
+
+      if (options.verbose && result.success) {
+        console.log('\n🎉 Merge completed!');
+        console.log(`   Collection: ${result.collection_name}`);
+        console.log(`   Output: ${result.output_path}`);
+        console.log(`   Conflicts: ${result.conflicts.length}`);
+      }
+    } catch (error) {
+      result.errors.push(`Merge operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Writes the merged collection as a split tree or a JSON file. A directory,
+   * or a path without a .json extension, receives a split tree, synced so
+   * that the files of items the merge removed or renamed are deleted.
+   * @param collection - Merged collection
+   * @param output_path - Where to write it
+   * @param ours_path - Our version, whose split layout is reused
+   * @param result - Merge result, updated with errors and warnings
+   * @returns Promise<void>
+   */
+  private async writeMergedCollection(
+    collection: IPostmanCollection,
+    output_path: string,
+    ours_path: string,
+    result: MergeResult
+  ): Promise<void> {
+    const is_directory =
+      (await file_system_manager.pathExists(output_path)) &&
+      (await file_system_manager.isDirectory(output_path));
+
+    if (!(is_directory || !output_path.endsWith('.json'))) {
+      await file_system_manager.writeJsonFile(output_path, collection);
+      return;
+    }
+
+    const split_result = await split_command.splitCollection(
+      collection,
+      output_path,
+      { ...(await this.getSplitOptions(ours_path)), sync: true }
+    );
+    result.errors.push(...split_result.errors);
+    result.warnings.push(...split_result.warnings);
+  }
+
+  /**
+   * Works out the options our split tree was written with, so that
+   * rewriting it keeps its layout: the file format, examples in examples/
+   * directories, and scripts and bodies left inline
+   * @param ours_path - Our version; a JSON file gives the defaults
+   * @returns Promise<ISplitOptions>
+   */
+  private async getSplitOptions(ours_path: string): Promise<ISplitOptions> {
+    if (
+      !(
+        (await file_system_manager.pathExists(ours_path)) &&
+        (await file_system_manager.isDirectory(ours_path))
+      )
+    ) {
+      return {};
+    }
+
+    const layout: TreeLayout = {
+      examples: false,
+      inline_scripts: false,
+      extracted_scripts: false,
+      inline_bodies: false,
+      extracted_bodies: false
+    };
+    await this.readLayout(ours_path, layout);
+    const index_path = await file_system_manager.findIndexFile(ours_path);
+
+    return {
+      format: index_path
+        ? file_system_manager.getTreeFormat(index_path)
+        : undefined,
+      split_examples: layout.examples,
+      inline_scripts: layout.inline_scripts && !layout.extracted_scripts,
+      inline_bodies: layout.inline_bodies && !layout.extracted_bodies
+    };
+  }
+
+  /**
+   * Notes how the files of a split directory and its folders hold their
+   * scripts, bodies and examples. Scripts and bodies that split cannot
+   * extract stay inline either way, so only a tree without any extracted
+   * one was split with them inline.
+   * @param directory_path - Collection or folder directory
+   * @param layout - Layout found so far; updated
+   * @returns Promise<void>
+   */
+  private async readLayout(
+    directory_path: string,
+    layout: TreeLayout
+  ): Promise<void> {
+    const structure =
+      await file_system_manager.scanDirectoryStructure(directory_path);
+
+    for (const file of [...structure.index_files, ...structure.files]) {
+      const data: IRequestFile = await file_system_manager.readTreeFile(
+        file.path
+      );
+
+      for (const event of data.event ?? []) {
+        if (event.script?.exec_file) {
+          layout.extracted_scripts = true;
+        } else if (event.script?.exec?.length) {
+          layout.inline_scripts = true;
+        }
+      }
+
+      const body = data.request?.body;
+      if (
+        body?.raw_file ||
+        body?.graphql?.query_file ||
+        body?.graphql?.variables_file
+      ) {
+        layout.extracted_bodies = true;
+      } else if (body?.raw || body?.graphql?.query) {
+        layout.inline_bodies = true;
+      }
+    }
+
+    for (const folder of structure.folders) {
+      if (await file_system_manager.findIndexFile(folder.path)) {
+        await this.readLayout(folder.path, layout);
+      } else if (folder.name === EXAMPLES_DIRECTORY) {
+        // A folder of requests that happens to be called "examples" has an
+        // index
+        layout.examples = true;
+      }
+    }
+  }
+}
+
+// Supporting types
+export interface MergeResult {
+  success: boolean;
+  collection_name: string;
+  output_path: string;
+  conflicts: MergeConflict[];
+  errors: string[];
+  warnings: string[];
+}
+
+// How a split tree holds its scripts, bodies and examples
+interface TreeLayout {
+  examples: boolean;
+  inline_scripts: boolean;
+  extracted_scripts: boolean;
+  inline_bodies: boolean;
+  extracted_bodies: boolean;
+}
+
+// Export singleton instance
+export const merge_command = new MergeCommand();
@@ -0,0 +1,208 @@
+/**
+ * Merge Driver Command - Git merge driver for split index.json and
+ * index.yaml files
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import {
+  type MergeConflict,
+  collection_merger
+} from '@/merge/collection_merger.ts';
+import type {
+  ICollectionIndex,
+  IFolderIndex,
+  IMergeDriverOptions,
+  TreeFormat
+} from '@/types/postman.ts';
+
+/**
+ * Merge Driver Command class, invoked by git as
+ * "carveman merge-driver %O %A %B %P"
+ */
+export class MergeDriverCommand {
+  /**
+   * Executes the merge driver. The merged index is written over our file,
+   * as git expects, in the format of the merged path: git passes the
+   * versions as temporary files without its extension.
+   * @param ours_path - Our version (%A), overwritten with the result
+   * @param options - Paths of the base (%O) and their version (%B)
+   * @returns Promise<MergeDriverResult>
+   */
+  async execute(
+    ours_path: string,
+    options: IMergeDriverOptions
+  ): Promise<MergeDriverResult> {
+    const result: MergeDriverResult = {
+      success: false,
+      file_path: options.file_path || ours_path,
+      conflicts: [],
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      if (!(options.base && options.theirs)) {
+        result.errors.push('Merge driver requires base, ours and theirs files');
+        return result;
+      }
+
+      const format = file_system_manager.getTreeFormat(result.file_path);
+      const base = await this.readIndex(options.base, format);
+      const ours = await this.readIndex(ours_path, format);
+      const theirs = await this.readIndex(options.theirs, format);
+
+      const merged = this.mergeIndexes(base, ours, theirs, result);
+      await file_system_manager.writeTreeFile(
+        ours_path,
+        merged as ICollectionIndex | IFolderIndex,
+        { format }
+      );
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.errors.push(`Merge driver operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Merges three versions of an index. The order arrays are unioned,
+   * keeping each entry next to its neighbours; every other field is merged
+   * like a collection field.
+   * @param base - Base index
+   * @param ours - Our index
+   * @param theirs - Their index
+   * @param result - Driver result, updated with conflicts
+   * @returns Record<string, any> - Merged index
+   */
+  mergeIndexes(
+    base: Record<string, any>,
+    ours: Record<string, any>,
+    theirs: Record<string, any>,
+    result: MergeDriverResult
+  ): Record<string, any> {
+    const { order: base_order, ...base_fields } = base;
+    const { order: our_order, ...our_fields } = ours;
+    const { order: their_order, ...their_fields } = theirs;
+
+    const fields = collection_merger.mergeValues(
+      base_fields,
+      our_fields,
+      their_fields
+    );
+    result.conflicts.push(
+      ...fields.conflicts.map((conflict) => ({
+        ...conflict,
+        path: result.file_path
+      }))
+    );
+
+    if (
+      !(
+        Array.isArray(our_order) ||
+        Array.isArray(their_order) ||
+        Array.isArray(base_order)
+      )
+    ) {
+      return fields.value ?? {};
+    }
+
+    const base_entries: string[] = Array.isArray(base_order) ? base_order : [];
+    const our_entries: string[] = Array.isArray(our_order) ? our_order : [];
+    const their_entries: string[] = Array.isArray(their_order)
+      ? their_order
+      : [];
+
+    // An entry stays unless a side removed it since the base
+    const sequence = collection_merger.mergeSequences(
+      base_entries,
+      our_entries,
+      their_entries,
+      (entry) =>
+        !(
+          base_entries.includes(entry) &&
+          !(our_entries.includes(entry) && their_entries.includes(entry))
+        )
+    );
+    if (sequence.conflict) {
+      result.warnings.push(
+        `${result.file_path}: both sides reordered entries; kept our order`
+      );
+    }
+
+    return this.placeOrder(fields.value ?? {}, ours, sequence.order);
+  }
+
+  /**
+   * Puts the merged order back at the position it had in our index
+   * @param fields - Merged fields without the order
+   * @param ours - Our index
+   * @param order - Merged order
+   * @returns Record<string, any> - Index with the order in place
+   */
+  private placeOrder(
+    fields: Record<string, any>,
+    ours: Record<string, any>,
+    order: string[]
+  ): Record<string, any> {
+    const index: Record<string, any> = {};
+    for (const key of Object.keys(ours)) {
+      if (key === 'order') {
+        index.order = order;
+      } else if (key in fields) {
+        index[key] = fields[key];
+      }
+    }
+    for (const [key, value] of Object.entries(fields)) {
+      if (!(key in index)) {
+        index[key] = value;
+      }
+    }
+    if (!('order' in index)) {
+      index.order = order;
+    }
+
+    return index;
+  }
+
+  /**
+   * Reads one version of an index. Git passes an empty file as the base
+   * when both sides added the file.
+   * @param file_path - Path to the version
+   * @param format - Format of the index
+   * @returns Promise<Record<string, any>>
+   */
+  private async readIndex(
+    file_path: string,
+    format: TreeFormat
+  ): Promise<Record<string, any>> {
+    if (!(await file_system_manager.pathExists(file_path))) {
+      return {};
+    }
+
+    const content = await file_system_manager.readTextFile(file_path);
+    if (content.trim() === '') {
+      return {};
+    }
+
+    const index = await file_system_manager.readTreeFile(file_path, format);
+    if (!index || typeof index !== 'object' || Array.isArray(index)) {
+      throw new Error(`Not an object: ${file_path}`);
+    }
+
+    return index;
+  }
+}
+
+// Supporting types
+export interface MergeDriverResult {
+  success: boolean;
+  file_path: string;
+  conflicts: MergeConflict[];
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const merge_driver_command = new MergeDriverCommand();
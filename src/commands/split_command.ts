@@ -2,9 +2,31 @@
  * Split Command - Converts Postman Collection JSON to File System Structure
  */
 
+import { relative, sep } from 'node:path';
+import { type SyncChanges, directory_sync } from '@/fs/directory_sync.ts';
 import { file_system_manager } from '@/fs/file_system_manager.ts';
-import { type ProcessedItem, postman_parser } from '@/parser/postman_parser.ts';
-import type { IPostmanCollection, ISplitOptions } from '@/types/postman.ts';
+import { body_extractor } from '@/parser/body_extractor.ts';
+import { example_extractor } from '@/parser/example_extractor.ts';
+import {
+  type ParsedCollection,
+  type ProcessedItem,
+  postman_parser
+} from '@/parser/postman_parser.ts';
+import { script_extractor } from '@/parser/script_extractor.ts';
+import {
+  SECRETS_FILE_NAME,
+  secret_detector
+} from '@/secrets/secret_detector.ts';
+import type {
+  ICollectionIndex,
+  IExtractedFile,
+  IFolderIndex,
+  IPostmanCollection,
+  IPostmanEvent,
+  IPostmanItem,
+  IRequestFile,
+  ISplitOptions
+} from '@/types/postman.ts';
 import {
   createSafeDirectoryName,
   sanitizeOriginalFileName
@@ -65,24 +87,62 @@ export class SplitCommand {
         }
       }
 
-      const collection: IPostmanCollection = collection_json;
-      result.collection_name = collection.info.name;
+      const split_result = await this.splitToOutput(collection_json, options);
+      split_result.warnings.unshift(...result.warnings);
+      return split_result;
+    } catch (error) {
+      result.errors.push(`Split operation failed: ${error}`);
+    }
 
-      // Parse the collection
-      const parsed_collection = postman_parser.parseCollection(collection);
+    return result;
+  }
+
+  /**
+   * Writes an in-memory collection as a split tree in a collection-named
+   * directory under options.output, as execute does for a JSON file. Used by
+   * importers that produce a collection from another format.
+   * @param collection - Postman collection
+   * @param options - Split options
+   * @returns Promise<SplitResult>
+   */
+  async splitToOutput(
+    collection: IPostmanCollection,
+    options: ISplitOptions
+  ): Promise<SplitResult> {
+    const result: SplitResult = {
+      success: false,
+      collection_name: collection.info.name,
+      output_directory: '',
+      files_created: 0,
+      folders_created: 0,
+      errors: [],
+      warnings: []
+    };
 
+    try {
       // Determine output directory
-      const output_dir = options.output || process.cwd();
-      const collection_dir_name = createSafeDirectoryName(collection.info.name);
-      const full_output_path = file_system_manager.joinPath(
-        output_dir,
-        collection_dir_name
-      );
+      const full_output_path = this.getCollectionDirectory(collection, options);
       result.output_directory = full_output_path;
 
+      const checked = await this.checkSecrets(
+        collection,
+        full_output_path,
+        options,
+        result
+      );
+      if (!checked) {
+        return result;
+      }
+
+      // Parse the collection
+      const parsed_collection = postman_parser.parseCollection(
+        checked.collection,
+        options.max_name_length
+      );
+
       // Check if output directory exists and handle overwrite
       if (await file_system_manager.pathExists(full_output_path)) {
-        if (!(options.overwrite || options.dry_run)) {
+        if (!(options.overwrite || options.dry_run || options.sync)) {
           const response = await this.promptOverwrite(full_output_path);
           if (!response) {
             result.errors.push('Operation cancelled by user');
@@ -95,54 +155,231 @@ export class SplitCommand {
         console.log(`📁 Creating collection structure in: ${full_output_path}`);
       }
 
-      // Dry run - just report what would be done
-      if (options.dry_run) {
-        return this.performDryRun(parsed_collection, full_output_path, options);
+      // Sync - apply only the differences to the existing tree; a dry run
+      // reports them
+      if (options.sync) {
+        await this.syncCollection(
+          parsed_collection,
+          full_output_path,
+          options,
+          result
+        );
+        if (options.dry_run || result.errors.length > 0) {
+          result.success = result.errors.length === 0;
+          return result;
+        }
+      } else if (options.dry_run) {
+        // Dry run - just report what would be done
+        const dry_run_result = this.performDryRun(
+          parsed_collection,
+          full_output_path,
+          options
+        );
+        dry_run_result.warnings.unshift(...result.warnings);
+        return dry_run_result;
+      } else {
+        await this.writeCollection(
+          parsed_collection,
+          full_output_path,
+          options,
+          result
+        );
       }
 
-      // Create the root collection directory
-      await file_system_manager.createDirectory(full_output_path);
-      result.folders_created++;
+      if (Object.keys(checked.secrets).length > 0) {
+        result.files_created += await this.writeSecrets(
+          full_output_path,
+          checked.secrets
+        );
+      }
 
-      // Create collection index.json
-      const collection_index = postman_parser.createCollectionIndex(
-        parsed_collection.info,
-        parsed_collection.metadata,
-        parsed_collection.structure
-      );
+      result.success = result.errors.length === 0;
 
-      await file_system_manager.writeCollectionIndex(
-        full_output_path,
-        collection_index
+      if (options.verbose && result.success) {
+        console.log('\n🎉 Split completed successfully!');
+        console.log(`   Collection: ${result.collection_name}`);
+        console.log(`   Output: ${result.output_directory}`);
+        console.log(`   Files created: ${result.files_created}`);
+        console.log(`   Folders created: ${result.folders_created}`);
+      }
+    } catch (error) {
+      result.errors.push(`Split operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets the directory splitToOutput writes a collection to: a directory
+   * named after the collection under options.output
+   * @param collection - Postman collection
+   * @param options - Split options
+   * @returns string
+   */
+  getCollectionDirectory(
+    collection: IPostmanCollection,
+    options: ISplitOptions
+  ): string {
+    return file_system_manager.joinPath(
+      options.output || process.cwd(),
+      createSafeDirectoryName(collection.info.name)
+    );
+  }
+
+  /**
+   * Writes an in-memory collection as a split tree into exactly the given
+   * directory, without prompting or adding a collection-named subdirectory.
+   * With options.sync, an existing tree is brought in line with the
+   * collection, so that files of items it no longer has are deleted.
+   * @param collection - Postman collection
+   * @param output_path - Directory to write the tree into
+   * @param options - Split options
+   * @returns Promise<SplitResult>
+   */
+  async splitCollection(
+    collection: IPostmanCollection,
+    output_path: string,
+    options: ISplitOptions
+  ): Promise<SplitResult> {
+    const result: SplitResult = {
+      success: false,
+      collection_name: collection.info.name,
+      output_directory: output_path,
+      files_created: 0,
+      folders_created: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const parsed_collection = postman_parser.parseCollection(
+        collection,
+        options.max_name_length
       );
-      result.files_created++;
+      if (options.sync) {
+        await this.syncCollection(
+          parsed_collection,
+          output_path,
+          options,
+          result
+        );
+      } else {
+        await this.writeCollection(
+          parsed_collection,
+          output_path,
+          options,
+          result
+        );
+      }
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.errors.push(`Split operation failed: ${error}`);
+    }
 
-      if (options.verbose) {
-        console.log('✅ Created collection index.json');
+    return result;
+  }
+
+  /**
+   * Adds items to a folder (or the root) of an existing split tree: each one
+   * is written as split would write it, and appended to the folder's order
+   * @param items - Folders and requests to add
+   * @param directory_path - Collection or folder directory of the tree
+   * @param options - Split options
+   * @returns Promise<SplitResult>
+   */
+  async addItems(
+    items: IPostmanItem[],
+    directory_path: string,
+    options: ISplitOptions
+  ): Promise<SplitResult> {
+    const result: SplitResult = {
+      success: false,
+      collection_name: '',
+      output_directory: directory_path,
+      files_created: 0,
+      folders_created: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const root_path =
+        await file_system_manager.findCollectionRoot(directory_path);
+      if (!root_path) {
+        result.errors.push(
+          `Not a folder of a split collection (no collection index.json above it): ${directory_path}`
+        );
+        return result;
       }
 
-      // Process all items recursively
-      for (const item of parsed_collection.items) {
+      const collection_index =
+        await file_system_manager.readCollectionIndex(root_path);
+      result.collection_name = collection_index.info.name;
+
+      const index_path =
+        (await file_system_manager.findIndexFile(directory_path)) ??
+        file_system_manager.joinPath(directory_path, 'index.json');
+      const index: ICollectionIndex | IFolderIndex =
+        await file_system_manager.readTreeFile(index_path);
+
+      // New items follow the format of the folder they are added to
+      const tree_options: ISplitOptions = {
+        ...options,
+        format: file_system_manager.getTreeFormat(index_path)
+      };
+      const extension = file_system_manager.getTreeFileExtension(
+        tree_options.format
+      );
+      const folder_path = relative(
+        root_path,
+        file_system_manager.resolvePath(directory_path)
+      )
+        .split(sep)
+        .join('/');
+
+      // New names must not clash with the entries already in the folder
+      const sibling_names = new Set(
+        index.order.map((entry) => entry.replace(/\.(json|yaml)$/, ''))
+      );
+      const processed_items = postman_parser.parseItems(
+        items,
+        folder_path,
+        sibling_names,
+        options.max_name_length
+      );
+
+      for (const item of processed_items) {
+        const entry =
+          item.type === 'folder'
+            ? item.sanitized_name
+            : sanitizeOriginalFileName(item.sanitized_name, extension);
+
+        if (options.dry_run) {
+          console.log(`➕ Would add: ${entry}`);
+          continue;
+        }
+
         const item_result = await this.processItem(
           item,
-          full_output_path,
-          options
+          directory_path,
+          tree_options
         );
         result.files_created += item_result.files_created;
         result.folders_created += item_result.folders_created;
         result.errors.push(...item_result.errors);
         result.warnings.push(...item_result.warnings);
+        index.order.push(entry);
       }
 
-      result.success = result.errors.length === 0;
-
-      if (options.verbose && result.success) {
-        console.log('\n🎉 Split completed successfully!');
-        console.log(`   Collection: ${result.collection_name}`);
-        console.log(`   Output: ${result.output_directory}`);
-        console.log(`   Files created: ${result.files_created}`);
-        console.log(`   Folders created: ${result.folders_created}`);
+      if (!options.dry_run) {
+        await file_system_manager.writeTreeFile(
+          index_path,
+          index,
+          tree_options
+        );
       }
+
+      result.success = result.errors.length === 0;
     } catch (error) {
       result.errors.push(`Split operation failed: ${error}`);
     }
@@ -150,6 +387,222 @@ export class SplitCommand {
     return result;
   }
 
+  /**
+   * Scans a collection for secrets and reports them as warnings or errors,
+   * or redacts them, according to options.secrets
+   * @param collection - Postman collection
+   * @param collection_path - Collection root directory, holding the secrets
+   * of an earlier redaction
+   * @param options - Split options
+   * @param result - Split result, updated with errors and warnings
+   * @returns Promise<CheckedCollection | null> - Collection to write and the
+   * redacted values, or null if the split must stop
+   */
+  private async checkSecrets(
+    collection: IPostmanCollection,
+    collection_path: string,
+    options: ISplitOptions,
+    result: SplitResult
+  ): Promise<CheckedCollection | null> {
+    const mode = options.secrets ?? 'warn';
+
+    if (mode === 'redact') {
+      const secrets_path = file_system_manager.joinPath(
+        collection_path,
+        SECRETS_FILE_NAME
+      );
+      const known_secrets = (await file_system_manager.pathExists(secrets_path))
+        ? await file_system_manager.readJsonFile(secrets_path)
+        : {};
+      const redaction = secret_detector.redact(collection, known_secrets);
+      for (const finding of redaction.findings) {
+        result.warnings.push(
+          `Redacted ${finding.description} in ${finding.location} as {{${finding.placeholder}}}`
+        );
+      }
+      return { collection: redaction.collection, secrets: redaction.secrets };
+    }
+
+    const findings = secret_detector.scan(collection);
+    const messages = findings.map(
+      (finding) =>
+        `Possible secret in ${finding.location} (${finding.description})`
+    );
+    if (mode === 'fail' && findings.length > 0) {
+      result.errors.push(
+        ...messages,
+        `Split stopped: ${findings.length} possible secret(s) found; use --secrets redact to move them to ${SECRETS_FILE_NAME}`
+      );
+      return null;
+    }
+
+    result.warnings.push(...messages);
+    return { collection, secrets: {} };
+  }
+
+  /**
+   * Adds redacted values to the collection's secrets file, and keeps the
+   * file out of git
+   * @param collection_path - Collection root directory
+   * @param secrets - Redacted values by placeholder
+   * @returns Promise<number> - Number of files written
+   */
+  private async writeSecrets(
+    collection_path: string,
+    secrets: Record<string, string>
+  ): Promise<number> {
+    const secrets_path = file_system_manager.joinPath(
+      collection_path,
+      SECRETS_FILE_NAME
+    );
+    const known_secrets = (await file_system_manager.pathExists(secrets_path))
+      ? await file_system_manager.readJsonFile(secrets_path)
+      : {};
+    await file_system_manager.writeJsonFile(secrets_path, {
+      ...known_secrets,
+      ...secrets
+    });
+
+    const gitignore_path = file_system_manager.joinPath(
+      collection_path,
+      '.gitignore'
+    );
+    const gitignore = (await file_system_manager.pathExists(gitignore_path))
+      ? await file_system_manager.readTextFile(gitignore_path)
+      : '';
+    if (gitignore.split(/\r?\n/).includes(SECRETS_FILE_NAME)) {
+      return 1;
+    }
+
+    await file_system_manager.writeTextFile(
+      gitignore_path,
+      `${gitignore}${gitignore && !gitignore.endsWith('\n') ? '\n' : ''}${SECRETS_FILE_NAME}\n`
+    );
+    return 2;
+  }
+
+  /**
+   * Writes a parsed collection to a staging directory, then brings the
+   * collection directory in line with it: only new and changed files are
+   * written, and files and folders that are gone are deleted
+   * @param parsed_collection - Parsed collection
+   * @param full_output_path - Collection root directory
+   * @param options - Split options; with dry_run, nothing is changed
+   * @param result - Split result, updated with the changes and counts
+   * @returns Promise<void>
+   */
+  private async syncCollection(
+    parsed_collection: ParsedCollection,
+    full_output_path: string,
+    options: ISplitOptions,
+    result: SplitResult
+  ): Promise<void> {
+    // Deleting is only safe in a tree split wrote
+    if (
+      (await file_system_manager.pathExists(full_output_path)) &&
+      (await file_system_manager.findCollectionRoot(full_output_path)) !==
+        file_system_manager.resolvePath(full_output_path)
+    ) {
+      result.errors.push(
+        `Cannot sync into a directory that is not a split collection: ${full_output_path}`
+      );
+      return;
+    }
+
+    const staging_path = await file_system_manager.createTemporaryDirectory();
+    try {
+      await this.writeCollection(
+        parsed_collection,
+        staging_path,
+        { ...options, verbose: false },
+        result
+      );
+      if (result.errors.length > 0) {
+        return;
+      }
+
+      const changes = await directory_sync.syncDirectory(
+        staging_path,
+        full_output_path,
+        options.dry_run
+      );
+      result.changes = changes;
+      result.files_created =
+        changes.added.filter((path) => !path.endsWith('/')).length +
+        changes.modified.length;
+      result.folders_created = changes.added.filter((path) =>
+        path.endsWith('/')
+      ).length;
+    } finally {
+      await file_system_manager.removePath(staging_path);
+    }
+  }
+
+  /**
+   * Writes the collection index and every item of a parsed collection
+   * @param parsed_collection - Parsed collection
+   * @param full_output_path - Collection root directory
+   * @param options - Split options
+   * @param result - Split result, updated with counts, errors and warnings
+   * @returns Promise<void>
+   */
+  private async writeCollection(
+    parsed_collection: ParsedCollection,
+    full_output_path: string,
+    options: ISplitOptions,
+    result: SplitResult
+  ): Promise<void> {
+    // Create the root collection directory
+    await file_system_manager.createDirectory(full_output_path);
+    result.folders_created++;
+
+    // Create collection index file
+    const collection_index = postman_parser.createCollectionIndex(
+      parsed_collection.info,
+      parsed_collection.metadata,
+      parsed_collection.structure,
+      options.timestamp,
+      file_system_manager.getTreeFileExtension(options.format)
+    );
+
+    const collection_scripts = this.extractScripts(
+      collection_index.event,
+      'index',
+      options
+    );
+    collection_index.event = collection_scripts.events;
+
+    await file_system_manager.writeCollectionIndex(
+      full_output_path,
+      collection_index,
+      options
+    );
+    result.files_created++;
+    result.files_created += await this.writeExtractedFiles(
+      full_output_path,
+      collection_scripts.files
+    );
+
+    if (options.verbose) {
+      console.log(
+        `✅ Created collection index${file_system_manager.getTreeFileExtension(options.format)}`
+      );
+    }
+
+    // Process all items recursively
+    for (const item of parsed_collection.items) {
+      const item_result = await this.processItem(
+        item,
+        full_output_path,
+        options
+      );
+      result.files_created += item_result.files_created;
+      result.folders_created += item_result.folders_created;
+      result.errors.push(...item_result.errors);
+      result.warnings.push(...item_result.warnings);
+    }
+  }
+
   /**
    * Processes a single item (folder or request) recursively
    * @param item - Processed item to handle
@@ -183,13 +636,29 @@ export class SplitCommand {
           console.log(`📁 Created folder: ${item.sanitized_name}`);
         }
 
-        // Create folder index.json
+        // Create folder index file
         const folder_index = postman_parser.createFolderIndex(
           item,
-          parent_path
+          postman_parser.getRelativeParentPath(item),
+          file_system_manager.getTreeFileExtension(options.format)
+        );
+        const folder_scripts = this.extractScripts(
+          folder_index.event,
+          'index',
+          options
+        );
+        folder_index.event = folder_scripts.events;
+
+        await file_system_manager.writeFolderIndex(
+          folder_path,
+          folder_index,
+          options
         );
-        await file_system_manager.writeFolderIndex(folder_path, folder_index);
         result.files_created++;
+        result.files_created += await this.writeExtractedFiles(
+          folder_path,
+          folder_scripts.files
+        );
 
         // Process children recursively
         for (const child of item.children) {
@@ -205,18 +674,31 @@ export class SplitCommand {
         }
       } else if (item.type === 'request') {
         // Create request file
-        const request_filename = sanitizeOriginalFileName(item.sanitized_name);
+        const request_filename = sanitizeOriginalFileName(
+          item.sanitized_name,
+          file_system_manager.getTreeFileExtension(options.format)
+        );
         const request_data = postman_parser.createRequestFile(
           item,
-          parent_path
+          postman_parser.getRelativeParentPath(item)
+        );
+        const request_files = this.extractRequestFiles(
+          request_data,
+          item.sanitized_name,
+          options
         );
 
         await file_system_manager.writeRequestFile(
           parent_path,
           request_filename,
-          request_data
+          request_data,
+          options
         );
         result.files_created++;
+        result.files_created += await this.writeExtractedFiles(
+          parent_path,
+          request_files
+        );
 
         if (options.verbose) {
           console.log(`📄 Created request: ${request_filename}`);
@@ -231,6 +713,111 @@ export class SplitCommand {
     return result;
   }
 
+  /**
+   * Extracts event scripts into standalone files unless inlining was
+   * requested. YAML trees keep scripts inline, as block scalars.
+   * @param events - Events to extract scripts from
+   * @param base_name - File name prefix for the script files
+   * @param options - Split options
+   * @returns Rewritten events and the script files to write
+   */
+  private extractScripts(
+    events: IPostmanEvent[] | undefined,
+    base_name: string,
+    options: ISplitOptions
+  ): { events: IPostmanEvent[] | undefined; files: IExtractedFile[] } {
+    if (options.inline_scripts || options.format === 'yaml') {
+      return { events, files: [] };
+    }
+
+    return script_extractor.extractScripts(events, base_name);
+  }
+
+  /**
+   * Moves the scripts, body and, if requested, examples of a request file
+   * into standalone files
+   * @param request_data - Request file data, updated with file references
+   * @param base_name - File name prefix for the extracted files
+   * @param options - Split options
+   * @returns IExtractedFile[] - Files to write next to the request file
+   */
+  private extractRequestFiles(
+    request_data: IRequestFile,
+    base_name: string,
+    options: ISplitOptions
+  ): IExtractedFile[] {
+    const scripts = this.extractScripts(request_data.event, base_name, options);
+    request_data.event = scripts.events;
+    const files = [...scripts.files];
+
+    if (!(options.inline_bodies || options.format === 'yaml')) {
+      const body = body_extractor.extractBody(
+        request_data.request.body,
+        base_name
+      );
+      if (body.files.length > 0) {
+        request_data.request = { ...request_data.request, body: body.body };
+        files.push(...body.files);
+      }
+    }
+
+    if (options.split_examples) {
+      const examples = example_extractor.extractExamples(
+        request_data.response,
+        base_name,
+        { indent: options.indent, eol: options.eol }
+      );
+      if (examples.response_files) {
+        request_data.response = examples.response;
+        request_data.response_files = examples.response_files;
+        files.push(...examples.files);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Lists the standalone files a folder or request would produce
+   * @param item - Processed item
+   * @param options - Split options
+   * @returns IExtractedFile[] - Files that would be extracted
+   */
+  private previewExtractedFiles(
+    item: ProcessedItem,
+    options: ISplitOptions
+  ): IExtractedFile[] {
+    if (item.type === 'folder') {
+      return this.extractScripts(item.event, 'index', options).files;
+    }
+
+    return this.extractRequestFiles(
+      postman_parser.createRequestFile(item, ''),
+      item.sanitized_name,
+      options
+    );
+  }
+
+  /**
+   * Writes extracted files next to the JSON file that references them
+   * @param directory_path - Directory to write in
+   * @param files - Extracted files
+   * @returns Promise<number> - Number of files written
+   */
+  private async writeExtractedFiles(
+    directory_path: string,
+    files: IExtractedFile[]
+  ): Promise<number> {
+    for (const file of files) {
+      await file_system_manager.writeTextFile(
+        file_system_manager.joinPath(directory_path, file.file_name),
+        file.content
+      );
+    }
+
+    return files.length;
+  }
+
   /**
    * Performs a dry run and reports what would be done
    * @param parsed_collection - Parsed collection data
@@ -259,9 +846,14 @@ export class SplitCommand {
 
     // Count what would be created
     result.folders_created = 1; // Root folder
-    result.files_created = 1; // Collection index.json
-
-    const count_result = this.countItems(parsed_collection.items);
+    result.files_created = 1; // Collection index file
+    result.files_created += this.extractScripts(
+      parsed_collection.metadata.event,
+      'index',
+      options
+    ).files.length;
+
+    const count_result = this.countItems(parsed_collection.items, options);
     result.files_created += count_result.files;
     result.folders_created += count_result.folders;
 
@@ -271,7 +863,7 @@ export class SplitCommand {
 
     if (options.verbose) {
       console.log('\nStructure preview:');
-      this.printStructure(parsed_collection.items, '');
+      this.printStructure(parsed_collection.items, '', options);
     }
 
     return result;
@@ -280,9 +872,13 @@ export class SplitCommand {
   /**
    * Counts items recursively for dry run
    * @param items - Array of processed items
+   * @param options - Split options
    * @returns Count result
    */
-  private countItems(items: ProcessedItem[]): {
+  private countItems(
+    items: ProcessedItem[],
+    options: ISplitOptions
+  ): {
     files: number;
     folders: number;
   } {
@@ -292,13 +888,16 @@ export class SplitCommand {
     for (const item of items) {
       if (item.type === 'folder') {
         folders++; // Folder itself
-        files++; // index.json
-        const child_counts = this.countItems(item.children);
+        files++; // Folder index file
+        const child_counts = this.countItems(item.children, options);
         files += child_counts.files;
         folders += child_counts.folders;
       } else if (item.type === 'request') {
         files++; // Request file
       }
+
+      // Extracted script and body files
+      files += this.previewExtractedFiles(item, options).length;
     }
 
     return { files, folders };
@@ -308,17 +907,30 @@ export class SplitCommand {
    * Prints structure preview for dry run
    * @param items - Array of processed items
    * @param indent - Current indentation
+   * @param options - Split options
    */
-  private printStructure(items: ProcessedItem[], indent: string): void {
+  private printStructure(
+    items: ProcessedItem[],
+    indent: string,
+    options: ISplitOptions
+  ): void {
     for (const item of items) {
       if (item.type === 'folder') {
         console.log(`${indent}📁 ${item.sanitized_name}/`);
-        console.log(`${indent}  📄 index.json`);
-        this.printStructure(item.children, `${indent}  `);
+        console.log(
+          `${indent}  📄 index${file_system_manager.getTreeFileExtension(options.format)}`
+        );
+        for (const file of this.previewExtractedFiles(item, options)) {
+          console.log(`${indent}  📜 ${file.file_name}`);
+        }
+        this.printStructure(item.children, `${indent}  `, options);
       } else if (item.type === 'request') {
         console.log(
-          `${indent}📄 ${sanitizeOriginalFileName(item.sanitized_name)}`
+          `${indent}📄 ${sanitizeOriginalFileName(item.sanitized_name, file_system_manager.getTreeFileExtension(options.format))}`
         );
+        for (const file of this.previewExtractedFiles(item, options)) {
+          console.log(`${indent}📜 ${file.file_name}`);
+        }
       }
     }
   }
@@ -348,10 +960,18 @@ export interface SplitResult {
   output_directory: string;
   files_created: number;
   folders_created: number;
+  // Paths added, modified and deleted by a sync
+  changes?: SyncChanges;
   errors: string[];
   warnings: string[];
 }
 
+interface CheckedCollection {
+  collection: IPostmanCollection;
+  // Redacted values by placeholder, to add to the secrets file
+  secrets: Record<string, string>;
+}
+
 export interface ItemProcessResult {
   files_created: number;
   folders_created: number;
@@ -0,0 +1,173 @@
+/**
+ * Split Env Command - Converts a Postman environment JSON to File System Structure
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import type {
+  IEnvironmentIndex,
+  IPostmanEnvironment,
+  IPostmanEnvironmentValue,
+  ISplitOptions
+} from '@/types/postman.ts';
+import { createSafeDirectoryName } from '@/utils/sanitization.ts';
+
+// File holding the environment variables, sorted by key
+export const ENVIRONMENT_VARIABLES_FILE = 'variables.json';
+
+/**
+ * Split Env Command class for converting Postman environments to file system
+ */
+export class SplitEnvCommand {
+  /**
+   * Executes the split-env operation
+   * @param input_path - Path to the Postman environment JSON file
+   * @param options - Split options
+   * @returns Promise<SplitEnvResult>
+   */
+  async execute(
+    input_path: string,
+    options: ISplitOptions
+  ): Promise<SplitEnvResult> {
+    const result: SplitEnvResult = {
+      success: false,
+      environment_name: '',
+      output_directory: '',
+      variables_count: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      // Validate input file exists
+      if (!(await file_system_manager.pathExists(input_path))) {
+        result.errors.push(`Input file does not exist: ${input_path}`);
+        return result;
+      }
+
+      if (options.verbose) {
+        console.log(`📖 Reading Postman environment from: ${input_path}`);
+      }
+
+      const environment_json =
+        await file_system_manager.readJsonFile(input_path);
+
+      // Validate the environment format
+      const validation = postman_parser.validateEnvironment(environment_json);
+      if (!validation.is_valid) {
+        result.errors.push(...validation.errors);
+        return result;
+      }
+      result.warnings.push(...validation.warnings);
+
+      const environment: IPostmanEnvironment = environment_json;
+      result.environment_name = environment.name;
+      result.variables_count = environment.values.length;
+
+      // Determine output directory
+      const output_dir = options.output || process.cwd();
+      const full_output_path = file_system_manager.joinPath(
+        output_dir,
+        createSafeDirectoryName(environment.name)
+      );
+      result.output_directory = full_output_path;
+
+      if (
+        (await file_system_manager.pathExists(full_output_path)) &&
+        !(options.overwrite || options.dry_run)
+      ) {
+        result.errors.push(
+          `Output directory already exists: ${full_output_path}. Use --overwrite to replace it.`
+        );
+        return result;
+      }
+
+      if (options.dry_run) {
+        console.log('\n🔍 DRY RUN - No files will be created\n');
+        console.log(`Would create environment in: ${full_output_path}`);
+        console.log('  📄 index.json');
+        console.log(
+          `  📄 ${ENVIRONMENT_VARIABLES_FILE} (${result.variables_count} variables)`
+        );
+        result.success = true;
+        return result;
+      }
+
+      await file_system_manager.writeJsonFile(
+        file_system_manager.joinPath(full_output_path, 'index.json'),
+        this.createEnvironmentIndex(environment),
+        options
+      );
+      await file_system_manager.writeJsonFile(
+        file_system_manager.joinPath(
+          full_output_path,
+          ENVIRONMENT_VARIABLES_FILE
+        ),
+        this.sortVariables(environment.values),
+        { ...options, type: 'environment_value' }
+      );
+
+      result.success = true;
+
+      if (options.verbose) {
+        console.log('\n🎉 Environment split completed successfully!');
+        console.log(`   Environment: ${result.environment_name}`);
+        console.log(`   Output: ${result.output_directory}`);
+        console.log(`   Variables: ${result.variables_count}`);
+      }
+    } catch (error) {
+      result.errors.push(`Split-env operation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates the environment index holding everything except the variables,
+   * plus the original variable order so build can restore it
+   * @param environment - Postman environment
+   * @returns IEnvironmentIndex
+   */
+  createEnvironmentIndex(environment: IPostmanEnvironment): IEnvironmentIndex {
+    const { values, ...fields } = environment;
+
+    return {
+      meta: {
+        type: 'environment',
+        generated_by: 'carveman'
+      },
+      ...fields,
+      name: environment.name,
+      order: values.map((value) => value.key)
+    };
+  }
+
+  /**
+   * Sorts variables by key so that additions and removals diff cleanly
+   * @param values - Environment variables
+   * @returns IPostmanEnvironmentValue[] - Variables sorted by key
+   */
+  sortVariables(
+    values: IPostmanEnvironmentValue[]
+  ): IPostmanEnvironmentValue[] {
+    return [...values].sort((a, b) => {
+      if (a.key === b.key) {
+        return 0;
+      }
+      return a.key < b.key ? -1 : 1;
+    });
+  }
+}
+
+// Supporting types
+export interface SplitEnvResult {
+  success: boolean;
+  environment_name: string;
+  output_directory: string;
+  variables_count: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// Export singleton instance
+export const split_env_command = new SplitEnvCommand();
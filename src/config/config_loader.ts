@@ -0,0 +1,587 @@
+/**
+ * Config Loader - Finds the project config file and reads the CARVEMAN_*
+ * environment variables that preset command options
+ *
+ * Precedence, from highest to lowest: command-line flags, environment
+ * variables, per-collection overrides, the rest of the config file, and the
+ * built-in defaults
+ */
+
+import { dirname, join, resolve, sep } from 'node:path';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { collection_linter } from '@/lint/collection_linter.ts';
+import type {
+  ConfigurableCommand,
+  DiffFormat,
+  ICarvemanConfig,
+  IConfigSettings,
+  LineEnding,
+  LintFormat,
+  MergeFavor,
+  OrphanMode,
+  SecretMode,
+  TreeFormat
+} from '@/types/postman.ts';
+
+// Config file names, looked up in this order in each directory
+export const CONFIG_FILE_NAMES = ['carveman.config.json', '.carvemanrc'];
+
+// Environment variable naming the config file to use instead of looking it up
+export const CONFIG_PATH_VARIABLE = 'CARVEMAN_CONFIG';
+
+// Output formats accepted by the diff command
+export const DIFF_FORMATS: DiffFormat[] = ['text', 'json', 'markdown'];
+
+// Output formats accepted by the lint command
+export const LINT_FORMATS: LintFormat[] = ['text', 'json', 'sarif'];
+
+// Sides accepted by the merge command's favor option
+export const MERGE_FAVORS: MergeFavor[] = ['ours', 'theirs'];
+
+// Modes accepted by the split command's secrets option
+export const SECRET_MODES: SecretMode[] = ['warn', 'fail', 'redact'];
+
+// File formats the split command can write a tree in
+export const TREE_FORMATS: TreeFormat[] = ['json', 'yaml'];
+
+// Modes accepted by the build command's orphans option
+export const ORPHAN_MODES: OrphanMode[] = ['error', 'warn', 'append'];
+
+// Line endings accepted by the formatting section
+export const LINE_ENDINGS: LineEnding[] = ['lf', 'crlf'];
+
+// Every setting of a config section, with the command options it presets.
+// Command sections use the option names; the shared sections are mapped.
+const CONFIG_SETTINGS: ConfigSetting[] = [
+  ...commandSettings('split', {
+    output: 'path',
+    overwrite: 'boolean',
+    dry_run: 'boolean',
+    verbose: 'boolean',
+    timestamp: 'boolean',
+    secrets: SECRET_MODES,
+    format: TREE_FORMATS,
+    sync: 'boolean'
+  }),
+  ...commandSettings('build', {
+    output: 'path',
+    validate: 'boolean',
+    inject_secrets: 'boolean',
+    orphans: ORPHAN_MODES,
+    verbose: 'boolean'
+  }),
+  ...commandSettings('split-env', {
+    output: 'path',
+    overwrite: 'boolean',
+    dry_run: 'boolean',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('build-env', {
+    output: 'path',
+    validate: 'boolean',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('diff', {
+    format: DIFF_FORMATS,
+    output: 'path',
+    exit_code: 'boolean',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('merge', {
+    output: 'path',
+    favor: MERGE_FAVORS,
+    report: 'path',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('lint', {
+    format: LINT_FORMATS,
+    output: 'path',
+    config: 'path',
+    rules: 'rules',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('import', {
+    output: 'path',
+    into: 'path',
+    folder: 'string',
+    overwrite: 'boolean',
+    dry_run: 'boolean',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('export', {
+    output: 'path',
+    env_file: 'boolean',
+    verbose: 'boolean'
+  }),
+  ...commandSettings('curl', {
+    keep_variables: 'boolean',
+    verbose: 'boolean'
+  }),
+  {
+    section: 'naming',
+    key: 'max_length',
+    commands: ['split'],
+    option: 'max_name_length',
+    type: 'count'
+  },
+  {
+    section: 'formatting',
+    key: 'indent',
+    commands: ['split', 'build', 'split-env', 'build-env'],
+    option: 'indent',
+    type: 'count'
+  },
+  {
+    section: 'formatting',
+    key: 'eol',
+    commands: ['split', 'build', 'split-env', 'build-env'],
+    option: 'eol',
+    type: LINE_ENDINGS
+  },
+  ...['inline_scripts', 'inline_bodies', 'split_examples'].map(
+    (key): ConfigSetting => ({
+      section: 'extraction',
+      key,
+      commands: ['split'],
+      option: key,
+      type: 'boolean'
+    })
+  )
+];
+
+/**
+ * Lists the settings of a command's own config section
+ * @param command - Command, also the section name
+ * @param options - Type of each option
+ * @returns ConfigSetting[]
+ */
+function commandSettings(
+  command: ConfigurableCommand,
+  options: Record<string, SettingType>
+): ConfigSetting[] {
+  return Object.entries(options).map(([option, type]) => ({
+    section: command,
+    key: option,
+    commands: [command],
+    option,
+    type
+  }));
+}
+
+/**
+ * Config Loader class for project configuration
+ */
+export class ConfigLoader {
+  /**
+   * Loads the config file found from the working directory, or named by
+   * CARVEMAN_CONFIG, and the option environment variables
+   * @param cwd - Directory the lookup starts from
+   * @param env - Environment variables
+   * @returns Promise<ConfigResult>
+   */
+  async loadConfig(
+    cwd: string = process.cwd(),
+    env: Record<string, string | undefined> = process.env
+  ): Promise<ConfigResult> {
+    const result: ConfigResult = {
+      success: false,
+      config: {
+        file_path: null,
+        directory: cwd,
+        settings: {},
+        environment: {}
+      },
+      errors: []
+    };
+
+    try {
+      const named_path = env[CONFIG_PATH_VARIABLE];
+      let file_path: string | null = null;
+      if (named_path) {
+        file_path = resolve(cwd, named_path);
+        if (!(await file_system_manager.isFile(file_path))) {
+          result.errors.push(
+            `Config file named by ${CONFIG_PATH_VARIABLE} does not exist: ${named_path}`
+          );
+          return result;
+        }
+      } else {
+        file_path = await this.findConfigFile(cwd);
+      }
+
+      if (file_path) {
+        const settings = await file_system_manager.readJsonFile(file_path);
+        const problems = this.validateConfig(settings);
+        if (problems.length > 0) {
+          result.errors.push(
+            ...problems.map((problem) => `${file_path}: ${problem}`)
+          );
+          return result;
+        }
+
+        result.config.file_path = file_path;
+        result.config.directory = dirname(file_path);
+        result.config.settings = settings;
+      }
+
+      result.config.environment = this.readEnvironment(env, result.errors);
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.errors.push(`Loading configuration failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether a command's options can be preset, so that the config
+   * is only loaded, and can only fail, for those commands
+   * @param command - Command name
+   * @returns boolean
+   */
+  isConfigurable(command: string): command is ConfigurableCommand {
+    return CONFIG_SETTINGS.some((setting) =>
+      setting.commands.includes(command as ConfigurableCommand)
+    );
+  }
+
+  /**
+   * Looks for a config file in a directory and each of its parents
+   * @param start_directory - Directory the lookup starts from
+   * @returns Promise<string | null> - Path of the config file, if any
+   */
+  async findConfigFile(start_directory: string): Promise<string | null> {
+    let directory = resolve(start_directory);
+
+    while (true) {
+      for (const file_name of CONFIG_FILE_NAMES) {
+        const file_path = join(directory, file_name);
+        if (await file_system_manager.isFile(file_path)) {
+          return file_path;
+        }
+      }
+
+      const parent = dirname(directory);
+      if (parent === directory) {
+        return null;
+      }
+      directory = parent;
+    }
+  }
+
+  /**
+   * Checks a parsed config file, reporting unknown sections and settings
+   * and values of the wrong type
+   * @param config - Parsed config
+   * @returns string[] - Problems found
+   */
+  validateConfig(config: any): string[] {
+    if (!isObject(config)) {
+      return ['Config must be a JSON object'];
+    }
+
+    const problems = this.validateSettings(config, '', true);
+    if (config.collections !== undefined) {
+      if (isObject(config.collections)) {
+        for (const [collection_path, settings] of Object.entries(
+          config.collections
+        )) {
+          const prefix = `collections.${collection_path}.`;
+          if (isObject(settings)) {
+            problems.push(...this.validateSettings(settings, prefix, false));
+          } else {
+            problems.push(`"${prefix.slice(0, -1)}" must be an object`);
+          }
+        }
+      } else {
+        problems.push('"collections" must be an object');
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Gets the options a command starts from before its flags are applied
+   * @param config - Loaded configuration
+   * @param command - Command being run
+   * @param input_path - Input path of the command, matched against the
+   * per-collection overrides
+   * @returns Partial<T>
+   */
+  getCommandOptions<T extends object>(
+    config: LoadedConfig,
+    command: ConfigurableCommand,
+    input_path: string
+  ): Partial<T> {
+    const options: Record<string, unknown> = {};
+
+    for (const settings of this.getMatchingSettings(config, input_path)) {
+      for (const setting of CONFIG_SETTINGS) {
+        const value = (
+          settings[setting.section] as Record<string, unknown> | undefined
+        )?.[setting.key];
+        if (value === undefined || !setting.commands.includes(command)) {
+          continue;
+        }
+
+        if (setting.type === 'path') {
+          options[setting.option] = resolve(config.directory, value as string);
+        } else if (setting.type === 'rules') {
+          options[setting.option] = {
+            ...(options[setting.option] as object | undefined),
+            ...(value as object)
+          };
+        } else {
+          options[setting.option] = value;
+        }
+      }
+    }
+
+    return { ...options, ...config.environment[command] } as Partial<T>;
+  }
+
+  /**
+   * Lists the settings that apply to an input path: the top level of the
+   * config, then the matching overrides from the least to the most specific
+   * @param config - Loaded configuration
+   * @param input_path - Input path of the command
+   * @returns IConfigSettings[]
+   */
+  private getMatchingSettings(
+    config: LoadedConfig,
+    input_path: string
+  ): IConfigSettings[] {
+    const resolved_input = resolve(input_path);
+    const overrides = Object.entries(config.settings.collections ?? {})
+      .map(([collection_path, settings]) => ({
+        path: resolve(config.directory, collection_path),
+        settings
+      }))
+      .filter(
+        (override) =>
+          resolved_input === override.path ||
+          resolved_input.startsWith(`${override.path}${sep}`)
+      )
+      .sort((a, b) => a.path.length - b.path.length);
+
+    return [config.settings, ...overrides.map((override) => override.settings)];
+  }
+
+  /**
+   * Checks the sections of the config or of a per-collection override
+   * @param settings - Settings object
+   * @param prefix - Prefix of the reported setting names
+   * @param top_level - Whether "collections" is allowed
+   * @returns string[] - Problems found
+   */
+  private validateSettings(
+    settings: Record<string, unknown>,
+    prefix: string,
+    top_level: boolean
+  ): string[] {
+    const problems: string[] = [];
+    const sections = [
+      ...new Set(CONFIG_SETTINGS.map((setting) => setting.section as string))
+    ];
+
+    for (const [section, values] of Object.entries(settings)) {
+      if (top_level && section === 'collections') {
+        continue;
+      }
+      if (!sections.includes(section)) {
+        problems.push(
+          `Unknown section "${prefix}${section}" (known sections: ${sections.join(', ')})`
+        );
+        continue;
+      }
+      if (!isObject(values)) {
+        problems.push(`"${prefix}${section}" must be an object`);
+        continue;
+      }
+
+      const section_settings = CONFIG_SETTINGS.filter(
+        (setting) => setting.section === section
+      );
+      for (const [key, value] of Object.entries(values)) {
+        const name = `${prefix}${section}.${key}`;
+        const setting = section_settings.find((entry) => entry.key === key);
+        if (!setting) {
+          problems.push(
+            `Unknown setting "${name}" (known settings: ${section_settings.map((entry) => entry.key).join(', ')})`
+          );
+          continue;
+        }
+
+        if (setting.type === 'rules') {
+          problems.push(
+            ...collection_linter
+              .validateConfig({ rules: value })
+              .map((problem) => `${name}: ${problem}`)
+          );
+        } else if (!isOfType(value, setting.type)) {
+          problems.push(`"${name}" must be ${describeType(setting.type)}`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Reads the CARVEMAN_<COMMAND>_<OPTION> variables, such as
+   * CARVEMAN_SPLIT_OUTPUT or CARVEMAN_BUILD_ENV_VALIDATE
+   * @param env - Environment variables
+   * @param errors - Errors, updated with values of the wrong type
+   * @returns Partial<Record<ConfigurableCommand, Record<string, unknown>>>
+   */
+  private readEnvironment(
+    env: Record<string, string | undefined>,
+    errors: string[]
+  ): Partial<Record<ConfigurableCommand, Record<string, unknown>>> {
+    const environment: Partial<
+      Record<ConfigurableCommand, Record<string, unknown>>
+    > = {};
+
+    for (const setting of CONFIG_SETTINGS) {
+      for (const command of setting.commands) {
+        const name = `CARVEMAN_${command}_${setting.option}`
+          .replace(/-/g, '_')
+          .toUpperCase();
+        const raw_value = env[name];
+        if (raw_value === undefined || raw_value === '') {
+          continue;
+        }
+
+        // Rule settings are only read from the config file
+        if (setting.type === 'rules') {
+          continue;
+        }
+
+        const value = parseVariable(raw_value, setting.type);
+        if (value === undefined) {
+          errors.push(
+            `${name} must be ${describeType(setting.type)} (got "${raw_value}")`
+          );
+          continue;
+        }
+
+        environment[command] = {
+          ...environment[command],
+          [setting.option]: value
+        };
+      }
+    }
+
+    return environment;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value - Value to check
+ * @returns boolean
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a config value against the type of its setting
+ * @param value - Config value
+ * @param type - Setting type
+ * @returns boolean
+ */
+function isOfType(value: unknown, type: SettingType): boolean {
+  if (Array.isArray(type)) {
+    return type.includes(value as string);
+  }
+
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'count':
+      return typeof value === 'number' && Number.isInteger(value) && value > 0;
+    default:
+      return typeof value === 'string' && value.length > 0;
+  }
+}
+
+/**
+ * Converts an environment variable to the type of its setting
+ * @param raw_value - Variable value
+ * @param type - Setting type
+ * @returns unknown - Converted value, or undefined if it is not valid
+ */
+function parseVariable(raw_value: string, type: SettingType): unknown {
+  if (type === 'boolean') {
+    if (['true', '1', 'yes'].includes(raw_value.toLowerCase())) {
+      return true;
+    }
+    if (['false', '0', 'no'].includes(raw_value.toLowerCase())) {
+      return false;
+    }
+    return undefined;
+  }
+
+  const value = type === 'count' ? Number(raw_value) : raw_value;
+  return isOfType(value, type) ? value : undefined;
+}
+
+/**
+ * Describes the values a setting accepts, for error messages
+ * @param type - Setting type
+ * @returns string
+ */
+function describeType(type: SettingType): string {
+  if (Array.isArray(type)) {
+    return `one of: ${type.join(', ')}`;
+  }
+
+  switch (type) {
+    case 'boolean':
+      return 'a boolean';
+    case 'count':
+      return 'a positive integer';
+    default:
+      return 'a non-empty string';
+  }
+}
+
+// Supporting types
+type SettingType =
+  | 'boolean'
+  | 'string'
+  | 'path'
+  | 'count'
+  | 'rules'
+  | readonly string[];
+
+interface ConfigSetting {
+  section: keyof IConfigSettings;
+  key: string;
+  // Commands the setting applies to
+  commands: ConfigurableCommand[];
+  // Command option the setting presets
+  option: string;
+  type: SettingType;
+}
+
+export interface LoadedConfig {
+  // Config file in use, or null when none was found
+  file_path: string | null;
+  // Directory relative paths in the config file are resolved against
+  directory: string;
+  settings: ICarvemanConfig;
+  // Options set by environment variables, per command
+  environment: Partial<Record<ConfigurableCommand, Record<string, unknown>>>;
+}
+
+export interface ConfigResult {
+  success: boolean;
+  config: LoadedConfig;
+  errors: string[];
+}
+
+// Export singleton instance
+export const config_loader = new ConfigLoader();
@@ -0,0 +1,765 @@
+/**
+ * Collection Differ
+ * Compares two collections semantically: requests are matched by id, path
+ * and content so that moves and renames are reported as such, and matched
+ * requests are compared field by field
+ */
+
+import { type ProcessedItem, postman_parser } from '@/parser/postman_parser.ts';
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanEvent,
+  IPostmanRequest,
+  IPostmanResponse
+} from '@/types/postman.ts';
+
+// Longest value shown in a change detail before it is cut short
+const MAX_DETAIL_LENGTH = 80;
+
+/**
+ * Collection Differ class for semantic collection comparison
+ */
+export class CollectionDiffer {
+  /**
+   * Compares two collections
+   * @param source - Collection before the change
+   * @param target - Collection after the change
+   * @returns CollectionDiff - Collection-level and request-level changes
+   */
+  diffCollections(
+    source: IPostmanCollection,
+    target: IPostmanCollection
+  ): CollectionDiff {
+    const diff: CollectionDiff = {
+      collection_changes: this.diffCollectionFields(source, target),
+      requests: [],
+      summary: {
+        added: 0,
+        removed: 0,
+        modified: 0,
+        moved: 0,
+        renamed: 0,
+        unchanged: 0
+      }
+    };
+
+    // Normalise both sides the same way split does
+    const source_requests = postman_parser.getRequestItems(
+      postman_parser.parseCollection(source).items
+    );
+    const target_requests = postman_parser.getRequestItems(
+      postman_parser.parseCollection(target).items
+    );
+
+    const matches = this.matchRequests(source_requests, target_requests);
+    const matched_sources = new Set(matches.values());
+
+    for (const target_item of target_requests) {
+      const source_item = matches.get(target_item);
+      const change = source_item
+        ? this.compareRequests(source_item, target_item)
+        : this.createRequestChange('added', target_item);
+
+      if (change) {
+        diff.requests.push(change);
+        diff.summary[change.type]++;
+      } else {
+        diff.summary.unchanged++;
+      }
+    }
+
+    for (const source_item of source_requests) {
+      if (!matched_sources.has(source_item)) {
+        diff.requests.push(this.createRequestChange('removed', source_item));
+        diff.summary.removed++;
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Checks whether a diff contains any change at all
+   * @param diff - Collection diff
+   * @returns boolean - True if anything changed
+   */
+  hasChanges(diff: CollectionDiff): boolean {
+    return diff.collection_changes.length > 0 || diff.requests.length > 0;
+  }
+
+  /**
+   * Pairs up requests of both collections. Passes run from most to least
+   * certain: unique id, same path, then same method and URL under the same
+   * name (a move) or in the same folder (a rename).
+   * @param source_requests - Requests before the change
+   * @param target_requests - Requests after the change
+   * @returns Map<ProcessedItem, ProcessedItem> - Target request to source request
+   */
+  private matchRequests(
+    source_requests: ProcessedItem[],
+    target_requests: ProcessedItem[]
+  ): Map<ProcessedItem, ProcessedItem> {
+    const matches = new Map<ProcessedItem, ProcessedItem>();
+    const unmatched = new Set(source_requests);
+    const source_ids = this.countIds(source_requests);
+    const target_ids = this.countIds(target_requests);
+
+    const passes: Array<
+      (source: ProcessedItem, target: ProcessedItem) => boolean
+    > = [
+      (source, target) =>
+        !!target.id &&
+        source.id === target.id &&
+        source_ids.get(target.id) === 1 &&
+        target_ids.get(target.id) === 1,
+      (source, target) => source.path === target.path,
+      (source, target) =>
+        source.original_name === target.original_name &&
+        this.getSignature(source) === this.getSignature(target),
+      (source, target) =>
+        postman_parser.getRelativeParentPath(source) ===
+          postman_parser.getRelativeParentPath(target) &&
+        this.getSignature(source) === this.getSignature(target)
+    ];
+
+    for (const is_match of passes) {
+      for (const target_item of target_requests) {
+        if (matches.has(target_item)) {
+          continue;
+        }
+
+        for (const source_item of unmatched) {
+          if (is_match(source_item, target_item)) {
+            matches.set(target_item, source_item);
+            unmatched.delete(source_item);
+            break;
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Compares a matched pair of requests
+   * @param source_item - Request before the change
+   * @param target_item - Request after the change
+   * @returns RequestChange | null - Change, or null if nothing differs
+   */
+  private compareRequests(
+    source_item: ProcessedItem,
+    target_item: ProcessedItem
+  ): RequestChange | null {
+    const field_changes = this.diffRequestFields(source_item, target_item);
+    const source_parent = postman_parser.getRelativeParentPath(source_item);
+    const target_parent = postman_parser.getRelativeParentPath(target_item);
+
+    let type: RequestChangeType = 'modified';
+    if (source_parent !== target_parent) {
+      type = 'moved';
+    } else if (source_item.original_name !== target_item.original_name) {
+      type = 'renamed';
+    } else if (field_changes.length === 0) {
+      return null;
+    }
+
+    const change = this.createRequestChange(type, target_item);
+    change.field_changes = field_changes;
+    if (type !== 'modified') {
+      change.previous_name = source_item.original_name;
+      change.previous_path = source_item.path;
+    }
+
+    return change;
+  }
+
+  /**
+   * Creates a request change entry without field changes
+   * @param type - Kind of change
+   * @param item - Request the change refers to
+   * @returns RequestChange
+   */
+  private createRequestChange(
+    type: RequestChangeType,
+    item: ProcessedItem
+  ): RequestChange {
+    return {
+      type,
+      name: item.original_name,
+      path: item.path,
+      method: this.getMethod(item.request),
+      field_changes: []
+    };
+  }
+
+  /**
+   * Compares the fields of two requests
+   * @param source_item - Request before the change
+   * @param target_item - Request after the change
+   * @returns FieldChange[] - Changed fields
+   */
+  private diffRequestFields(
+    source_item: ProcessedItem,
+    target_item: ProcessedItem
+  ): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const source_request: IPostmanRequest | undefined = source_item.request;
+    const target_request: IPostmanRequest | undefined = target_item.request;
+
+    const source_method = this.getMethod(source_request);
+    const target_method = this.getMethod(target_request);
+    if (source_method !== target_method) {
+      this.addChange(changes, 'method', [
+        `${source_method} → ${target_method}`
+      ]);
+    }
+
+    const source_url = this.getUrl(source_request);
+    const target_url = this.getUrl(target_request);
+    if (source_url !== target_url) {
+      this.addChange(changes, 'url', [
+        `${this.formatValue(source_url)} → ${this.formatValue(target_url)}`
+      ]);
+    }
+
+    this.addChange(
+      changes,
+      'headers',
+      this.diffKeyValues(source_request?.header, target_request?.header)
+    );
+    this.addChange(
+      changes,
+      'body',
+      this.diffBody(source_request?.body, target_request?.body)
+    );
+    this.addChange(
+      changes,
+      'auth',
+      this.diffAuth(
+        source_request?.auth ?? source_item.auth,
+        target_request?.auth ?? target_item.auth
+      )
+    );
+    this.addChange(
+      changes,
+      'scripts',
+      this.diffScripts(source_item.event, target_item.event)
+    );
+
+    if (
+      this.stableStringify(
+        source_request?.description ?? source_item.description
+      ) !==
+      this.stableStringify(
+        target_request?.description ?? target_item.description
+      )
+    ) {
+      this.addChange(changes, 'description', ['changed']);
+    }
+
+    this.addChange(
+      changes,
+      'examples',
+      this.diffExamples(source_item.response, target_item.response)
+    );
+
+    return changes;
+  }
+
+  /**
+   * Compares collection-level fields
+   * @param source - Collection before the change
+   * @param target - Collection after the change
+   * @returns FieldChange[] - Changed fields
+   */
+  private diffCollectionFields(
+    source: IPostmanCollection,
+    target: IPostmanCollection
+  ): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    if (source.info?.name !== target.info?.name) {
+      this.addChange(changes, 'name', [
+        `${this.formatValue(source.info?.name)} → ${this.formatValue(target.info?.name)}`
+      ]);
+    }
+
+    if (
+      this.stableStringify(source.info?.description) !==
+      this.stableStringify(target.info?.description)
+    ) {
+      this.addChange(changes, 'description', ['changed']);
+    }
+
+    this.addChange(
+      changes,
+      'variables',
+      this.diffKeyValues(source.variable, target.variable)
+    );
+    this.addChange(changes, 'auth', this.diffAuth(source.auth, target.auth));
+    this.addChange(
+      changes,
+      'scripts',
+      this.diffScripts(source.event, target.event)
+    );
+
+    return changes;
+  }
+
+  /**
+   * Compares key/value lists such as headers, variables and form fields
+   * @param before - Entries before the change
+   * @param after - Entries after the change
+   * @returns string[] - One detail line per added, removed or changed key
+   */
+  private diffKeyValues(
+    before: KeyValueEntry[] | undefined,
+    after: KeyValueEntry[] | undefined
+  ): string[] {
+    const details: string[] = [];
+    const before_map = this.toKeyValueMap(before);
+    const after_map = this.toKeyValueMap(after);
+
+    for (const [key, value] of after_map) {
+      const previous = before_map.get(key);
+      if (previous === undefined) {
+        details.push(`+ ${key}: ${this.formatValue(value)}`);
+      } else if (previous !== value) {
+        details.push(
+          `~ ${key}: ${this.formatValue(previous)} → ${this.formatValue(value)}`
+        );
+      }
+    }
+
+    for (const [key, value] of before_map) {
+      if (!after_map.has(key)) {
+        details.push(`- ${key}: ${this.formatValue(value)}`);
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Compares two request bodies
+   * @param before - Body before the change
+   * @param after - Body after the change
+   * @returns string[] - Detail lines
+   */
+  private diffBody(
+    before: IPostmanBody | undefined,
+    after: IPostmanBody | undefined
+  ): string[] {
+    if (this.stableStringify(before) === this.stableStringify(after)) {
+      return [];
+    }
+
+    const before_mode = before?.mode ?? 'none';
+    const after_mode = after?.mode ?? 'none';
+    if (before_mode !== after_mode) {
+      return [`mode ${before_mode} → ${after_mode}`];
+    }
+
+    const details: string[] = [];
+    switch (after_mode) {
+      case 'raw': {
+        if (before?.raw !== after?.raw) {
+          details.push(
+            `raw content changed (${this.countLines(before?.raw)} → ${this.countLines(after?.raw)} lines)`
+          );
+        }
+        break;
+      }
+      case 'urlencoded':
+      case 'formdata':
+        details.push(
+          ...this.diffKeyValues(before?.[after_mode], after?.[after_mode])
+        );
+        break;
+      case 'graphql': {
+        if (before?.graphql?.query !== after?.graphql?.query) {
+          details.push('query changed');
+        }
+        if (before?.graphql?.variables !== after?.graphql?.variables) {
+          details.push('variables changed');
+        }
+        break;
+      }
+      default:
+        break;
+    }
+
+    return details.length > 0 ? details : ['options changed'];
+  }
+
+  /**
+   * Compares two auth configurations
+   * @param before - Auth before the change
+   * @param after - Auth after the change
+   * @returns string[] - Detail lines
+   */
+  private diffAuth(
+    before: IPostmanAuth | undefined,
+    after: IPostmanAuth | undefined
+  ): string[] {
+    if (this.stableStringify(before) === this.stableStringify(after)) {
+      return [];
+    }
+
+    if (!before) {
+      return [`+ ${after?.type}`];
+    }
+
+    if (!after) {
+      return [`- ${before.type}`];
+    }
+
+    if (before.type !== after.type) {
+      return [`type ${before.type} → ${after.type}`];
+    }
+
+    return [`${after.type} settings changed`];
+  }
+
+  /**
+   * Compares event scripts by listener
+   * @param before - Events before the change
+   * @param after - Events after the change
+   * @returns string[] - Detail lines
+   */
+  private diffScripts(
+    before: IPostmanEvent[] | undefined,
+    after: IPostmanEvent[] | undefined
+  ): string[] {
+    const details: string[] = [];
+    const before_scripts = this.toScriptMap(before);
+    const after_scripts = this.toScriptMap(after);
+
+    for (const [listen, script] of after_scripts) {
+      const previous = before_scripts.get(listen);
+      if (previous === undefined) {
+        details.push(`+ ${listen} (${this.describeLines(script)})`);
+      } else if (previous !== script) {
+        details.push(
+          `~ ${listen} (${this.countLines(previous)} → ${this.countLines(script)} lines)`
+        );
+      }
+    }
+
+    for (const [listen, script] of before_scripts) {
+      if (!after_scripts.has(listen)) {
+        details.push(`- ${listen} (${this.describeLines(script)})`);
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Compares saved response examples by name
+   * @param before - Examples before the change
+   * @param after - Examples after the change
+   * @returns string[] - Detail lines
+   */
+  private diffExamples(
+    before: IPostmanResponse[] | undefined,
+    after: IPostmanResponse[] | undefined
+  ): string[] {
+    const details: string[] = [];
+    const before_map = this.toExampleMap(before);
+    const after_map = this.toExampleMap(after);
+
+    for (const [name, example] of after_map) {
+      const previous = before_map.get(name);
+      if (previous === undefined) {
+        details.push(`+ ${name}`);
+      } else if (previous !== example) {
+        details.push(`~ ${name}`);
+      }
+    }
+
+    for (const name of before_map.keys()) {
+      if (!after_map.has(name)) {
+        details.push(`- ${name}`);
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Adds a field change when there is anything to report
+   * @param changes - Field changes collected so far
+   * @param field - Changed field
+   * @param details - Detail lines
+   */
+  private addChange(
+    changes: FieldChange[],
+    field: DiffField,
+    details: string[]
+  ): void {
+    if (details.length > 0) {
+      changes.push({ field, details });
+    }
+  }
+
+  /**
+   * Maps key/value entries by key. Repeated keys are joined so that every
+   * value still takes part in the comparison; disabled entries are marked.
+   * @param entries - Key/value entries
+   * @returns Map<string, string> - Key to displayed value
+   */
+  private toKeyValueMap(
+    entries: KeyValueEntry[] | undefined
+  ): Map<string, string> {
+    const map = new Map<string, string>();
+
+    for (const entry of entries ?? []) {
+      if (!entry || typeof entry.key !== 'string') {
+        continue;
+      }
+
+      const value =
+        typeof entry.value === 'string'
+          ? entry.value
+          : this.stableStringify(entry.value ?? '');
+      const displayed = entry.disabled ? `${value} (disabled)` : value;
+      const existing = map.get(entry.key);
+      map.set(
+        entry.key,
+        existing === undefined ? displayed : `${existing}, ${displayed}`
+      );
+    }
+
+    return map;
+  }
+
+  /**
+   * Maps event scripts by listener, joining exec lines into one text
+   * @param events - Events
+   * @returns Map<string, string> - Listener to script text
+   */
+  private toScriptMap(
+    events: IPostmanEvent[] | undefined
+  ): Map<string, string> {
+    const map = new Map<string, string>();
+
+    for (const event of events ?? []) {
+      const exec = event.script?.exec;
+      const script = Array.isArray(exec) ? exec.join('\n') : (exec ?? '');
+      const existing = map.get(event.listen);
+      map.set(
+        event.listen,
+        existing === undefined ? script : `${existing}\n${script}`
+      );
+    }
+
+    return map;
+  }
+
+  /**
+   * Maps examples by name to a canonical form of their content
+   * @param examples - Saved responses
+   * @returns Map<string, string> - Example name to content
+   */
+  private toExampleMap(
+    examples: IPostmanResponse[] | undefined
+  ): Map<string, string> {
+    const map = new Map<string, string>();
+
+    for (const example of examples ?? []) {
+      const name = example.name || 'Example';
+      const content = this.stableStringify(example);
+      const existing = map.get(name);
+      map.set(
+        name,
+        existing === undefined ? content : `${existing}\n${content}`
+      );
+    }
+
+    return map;
+  }
+
+  /**
+   * Counts how often each item id occurs
+   * @param items - Request items
+   * @returns Map<string, number> - Id to number of occurrences
+   */
+  private countIds(items: ProcessedItem[]): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const item of items) {
+      if (item.id) {
+        counts.set(item.id, (counts.get(item.id) ?? 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Identifies what a request calls, independent of where it lives
+   * @param item - Request item
+   * @returns string - Method and URL
+   */
+  private getSignature(item: ProcessedItem): string {
+    return `${this.getMethod(item.request)} ${this.getUrl(item.request)}`;
+  }
+
+  /**
+   * Gets a request's method, defaulting to GET like Postman does
+   * @param request - Request
+   * @returns string - Upper-case method
+   */
+  private getMethod(request: IPostmanRequest | undefined): string {
+    return (request?.method || 'GET').toUpperCase();
+  }
+
+  /**
+   * Gets a request's URL as a single string
+   * @param request - Request
+   * @returns string - Raw URL
+   */
+  private getUrl(request: IPostmanRequest | undefined): string {
+    const url = request?.url;
+    if (!url) {
+      return '';
+    }
+
+    if (typeof url === 'string') {
+      return url;
+    }
+
+    if (url.raw !== undefined) {
+      return url.raw;
+    }
+
+    const host = Array.isArray(url.host)
+      ? url.host.join('.')
+      : (url.host ?? '');
+    const path = Array.isArray(url.path)
+      ? url.path.join('/')
+      : (url.path ?? '');
+    return path ? `${host}/${path}` : host;
+  }
+
+  /**
+   * Counts the lines of a text
+   * @param text - Text
+   * @returns number - Number of lines, 0 for empty text
+   */
+  private countLines(text: string | undefined): number {
+    return text ? text.split('\n').length : 0;
+  }
+
+  /**
+   * Describes the length of a text in lines
+   * @param text - Text
+   * @returns string - For example "1 line" or "4 lines"
+   */
+  private describeLines(text: string | undefined): string {
+    const count = this.countLines(text);
+    return count === 1 ? '1 line' : `${count} lines`;
+  }
+
+  /**
+   * Formats a value for a detail line, cutting long values short
+   * @param value - Value to show
+   * @returns string - Display value
+   */
+  private formatValue(value: string | undefined): string {
+    if (value === undefined || value === '') {
+      return '(empty)';
+    }
+
+    const single_line = value.replace(/\s*\n\s*/g, ' ');
+    return single_line.length > MAX_DETAIL_LENGTH
+      ? `${single_line.slice(0, MAX_DETAIL_LENGTH - 1)}…`
+      : single_line;
+  }
+
+  /**
+   * Serialises a value with object keys sorted, so that key order does not
+   * count as a change
+   * @param value - Value to serialise
+   * @returns string - Canonical JSON
+   */
+  private stableStringify(value: unknown): string {
+    if (value === undefined) {
+      return '';
+    }
+
+    return JSON.stringify(value, (_key, nested) => {
+      if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+        return Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        );
+      }
+      return nested;
+    });
+  }
+}
+
+// Supporting types
+export type RequestChangeType =
+  | 'added'
+  | 'removed'
+  | 'modified'
+  | 'moved'
+  | 'renamed';
+
+export type DiffField =
+  | 'name'
+  | 'method'
+  | 'url'
+  | 'headers'
+  | 'body'
+  | 'auth'
+  | 'scripts'
+  | 'description'
+  | 'examples'
+  | 'variables';
+
+export interface FieldChange {
+  field: DiffField;
+  details: string[];
+}
+
+export interface RequestChange {
+  type: RequestChangeType;
+  name: string;
+  path: string;
+  method: string;
+  previous_name?: string;
+  previous_path?: string;
+  field_changes: FieldChange[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+  renamed: number;
+  unchanged: number;
+}
+
+export interface CollectionDiff {
+  collection_changes: FieldChange[];
+  requests: RequestChange[];
+  summary: DiffSummary;
+}
+
+interface KeyValueEntry {
+  key: string;
+  value?: any;
+  disabled?: boolean;
+}
+
+// Export singleton instance
+export const collection_differ = new CollectionDiffer();
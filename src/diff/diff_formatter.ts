@@ -0,0 +1,234 @@
+/**
+ * Diff Formatter
+ * Renders a collection diff as terminal text, JSON or Markdown for PR comments
+ */
+
+import type {
+  CollectionDiff,
+  DiffSummary,
+  FieldChange,
+  RequestChange,
+  RequestChangeType
+} from '@/diff/collection_differ.ts';
+import type { DiffFormat } from '@/types/postman.ts';
+
+// Display label and marker for every kind of request change
+const CHANGE_LABELS: Record<
+  RequestChangeType,
+  { label: string; marker: string }
+> = {
+  added: { label: 'Added', marker: '+' },
+  removed: { label: 'Removed', marker: '-' },
+  modified: { label: 'Modified', marker: '~' },
+  moved: { label: 'Moved', marker: '>' },
+  renamed: { label: 'Renamed', marker: '>' }
+};
+
+/**
+ * Diff Formatter class for rendering collection diffs
+ */
+export class DiffFormatter {
+  /**
+   * Renders a diff in the requested format
+   * @param diff - Collection diff
+   * @param format - Output format
+   * @param labels - Names of the compared sources
+   * @returns string - Rendered diff
+   */
+  format(diff: CollectionDiff, format: DiffFormat, labels: DiffLabels): string {
+    switch (format) {
+      case 'json':
+        return this.formatJson(diff, labels);
+      case 'markdown':
+        return this.formatMarkdown(diff, labels);
+      default:
+        return this.formatText(diff, labels);
+    }
+  }
+
+  /**
+   * Renders a diff as JSON
+   * @param diff - Collection diff
+   * @param labels - Names of the compared sources
+   * @returns string - JSON document
+   */
+  formatJson(diff: CollectionDiff, labels: DiffLabels): string {
+    return JSON.stringify({ ...labels, ...diff }, null, 2);
+  }
+
+  /**
+   * Renders a diff as plain text for the terminal
+   * @param diff - Collection diff
+   * @param labels - Names of the compared sources
+   * @returns string - Text report
+   */
+  formatText(diff: CollectionDiff, labels: DiffLabels): string {
+    const lines: string[] = [`Comparing ${labels.source} → ${labels.target}`];
+
+    if (this.isEmpty(diff)) {
+      lines.push('', 'No differences');
+      return lines.join('\n');
+    }
+
+    if (diff.collection_changes.length > 0) {
+      lines.push('', 'Collection:');
+      for (const change of diff.collection_changes) {
+        lines.push(...this.formatFieldChangeText(change, '  '));
+      }
+    }
+
+    if (diff.requests.length > 0) {
+      lines.push('', 'Requests:');
+      for (const request of diff.requests) {
+        const { marker, label } = CHANGE_LABELS[request.type];
+        const origin = request.previous_path
+          ? ` (from ${request.previous_path})`
+          : '';
+        lines.push(
+          `  ${marker} ${label.toLowerCase().padEnd(9)}${request.method} ${request.path}${origin}`
+        );
+        for (const change of request.field_changes) {
+          lines.push(...this.formatFieldChangeText(change, '      '));
+        }
+      }
+    }
+
+    lines.push('', this.formatSummary(diff.summary));
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders a diff as Markdown suitable for a pull request comment
+   * @param diff - Collection diff
+   * @param labels - Names of the compared sources
+   * @returns string - Markdown report
+   */
+  formatMarkdown(diff: CollectionDiff, labels: DiffLabels): string {
+    const lines: string[] = [
+      '### Collection diff',
+      '',
+      `${this.toCode(labels.source)} → ${this.toCode(labels.target)}`,
+      ''
+    ];
+
+    if (this.isEmpty(diff)) {
+      lines.push('No differences');
+      return lines.join('\n');
+    }
+    lines.push(`**${this.formatSummary(diff.summary)}**`);
+
+    if (diff.collection_changes.length > 0) {
+      lines.push('', '#### Collection', '');
+      for (const change of diff.collection_changes) {
+        lines.push(`- ${this.formatFieldChangeMarkdown(change)}`);
+      }
+    }
+
+    if (diff.requests.length > 0) {
+      lines.push(
+        '',
+        '#### Requests',
+        '',
+        '| Change | Method | Request | Details |',
+        '| --- | --- | --- | --- |'
+      );
+      for (const request of diff.requests) {
+        lines.push(this.formatRequestRow(request));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders a field change as indented text lines
+   * @param change - Field change
+   * @param indent - Leading whitespace
+   * @returns string[] - Text lines
+   */
+  private formatFieldChangeText(change: FieldChange, indent: string): string[] {
+    if (change.details.length === 1) {
+      return [`${indent}${change.field}: ${change.details[0]}`];
+    }
+
+    return [
+      `${indent}${change.field}:`,
+      ...change.details.map((detail) => `${indent}  ${detail}`)
+    ];
+  }
+
+  /**
+   * Renders a field change as a single Markdown fragment
+   * @param change - Field change
+   * @returns string - Markdown fragment
+   */
+  private formatFieldChangeMarkdown(change: FieldChange): string {
+    const details = change.details.map((detail) => this.toCode(detail));
+    return `**${change.field}**: ${details.join(', ')}`;
+  }
+
+  /**
+   * Renders a request change as a Markdown table row
+   * @param request - Request change
+   * @returns string - Table row
+   */
+  private formatRequestRow(request: RequestChange): string {
+    const details: string[] = [];
+    if (request.previous_path) {
+      details.push(`from ${this.toCode(request.previous_path)}`);
+    }
+    for (const change of request.field_changes) {
+      details.push(this.formatFieldChangeMarkdown(change));
+    }
+
+    const cells = [
+      CHANGE_LABELS[request.type].label,
+      request.method,
+      this.toCode(request.path),
+      details.join('<br>')
+    ];
+    return `| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  }
+
+  /**
+   * Summarises the number of changes per kind
+   * @param summary - Diff summary
+   * @returns string - Summary sentence
+   */
+  formatSummary(summary: DiffSummary): string {
+    const parts = (Object.keys(CHANGE_LABELS) as RequestChangeType[])
+      .filter((type) => summary[type] > 0)
+      .map((type) => `${summary[type]} ${type}`);
+
+    return parts.length > 0
+      ? `Requests: ${parts.join(', ')}`
+      : 'Requests: no changes';
+  }
+
+  /**
+   * Checks whether a diff has nothing to report
+   * @param diff - Collection diff
+   * @returns boolean - True if nothing changed
+   */
+  private isEmpty(diff: CollectionDiff): boolean {
+    return diff.collection_changes.length === 0 && diff.requests.length === 0;
+  }
+
+  /**
+   * Wraps text in a Markdown code span, coping with backticks in the text
+   * @param text - Text to wrap
+   * @returns string - Code span
+   */
+  private toCode(text: string): string {
+    return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+  }
+}
+
+// Supporting types
+export interface DiffLabels {
+  source: string;
+  target: string;
+}
+
+// Export singleton instance
+export const diff_formatter = new DiffFormatter();
@@ -0,0 +1,713 @@
+/**
+ * Bruno Exporter
+ * Converts a collection into a Bruno collection directory: bruno.json, one
+ * .bru file per request, folder.bru and collection.bru for folder and
+ * collection settings, and the collection variables as an environment
+ */
+
+import type {
+  IExtractedFile,
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanEvent,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanUrl,
+  IPostmanVariable
+} from '@/types/postman.ts';
+import { getAuthParam } from '@/utils/request_helpers.ts';
+import {
+  generateUniqueOriginalName,
+  sanitizeOriginalName
+} from '@/utils/sanitization.ts';
+
+// HTTP methods Bruno has a request block for
+const BRUNO_METHODS = [
+  'get',
+  'post',
+  'put',
+  'delete',
+  'patch',
+  'options',
+  'head',
+  'connect',
+  'trace'
+];
+
+// Postman auth parameters by the Bruno auth block keys they map to
+const AUTH_PARAMS: Record<string, Record<string, string>> = {
+  bearer: { token: 'token' },
+  basic: { username: 'username', password: 'password' },
+  digest: { username: 'username', password: 'password' },
+  ntlm: { username: 'username', password: 'password', domain: 'domain' },
+  awsv4: {
+    accessKeyId: 'accessKey',
+    secretAccessKey: 'secretKey',
+    sessionToken: 'sessionToken',
+    service: 'service',
+    region: 'region'
+  },
+  oauth2: {
+    grant_type: 'grant_type',
+    access_token_url: 'accessTokenUrl',
+    authorization_url: 'authUrl',
+    callback_url: 'redirect_uri',
+    client_id: 'clientId',
+    client_secret: 'clientSecret',
+    username: 'username',
+    password: 'password',
+    scope: 'scope'
+  }
+};
+
+// Postman OAuth 2.0 grant types by their Bruno names
+const OAUTH2_GRANT_TYPES: Record<string, string> = {
+  authorization_code: 'authorization_code',
+  authorization_code_with_pkce: 'authorization_code',
+  client_credentials: 'client_credentials',
+  password_credentials: 'password'
+};
+
+/**
+ * Bruno Exporter class for converting collections to Bruno collections
+ */
+export class BrunoExporter {
+  /**
+   * Converts a collection into the files of a Bruno collection
+   * @param collection - Postman collection
+   * @param warnings - Collected warnings
+   * @returns IExtractedFile[] - Files, named by their path relative to the
+   * collection root
+   */
+  convert(
+    collection: IPostmanCollection,
+    warnings: string[]
+  ): IExtractedFile[] {
+    const context: ExportContext = {
+      warnings,
+      scripts_warned: false,
+      examples_skipped: 0
+    };
+
+    const files: IExtractedFile[] = [
+      {
+        file_name: 'bruno.json',
+        content: `${JSON.stringify(
+          {
+            version: '1',
+            name: collection.info.name,
+            type: 'collection',
+            ignore: ['node_modules', '.git']
+          },
+          null,
+          2
+        )}\n`
+      }
+    ];
+
+    const collection_blocks = [
+      ...this.createAuthBlocks(collection.auth, collection.info.name, context),
+      ...this.createScriptBlocks(collection.event, context),
+      ...this.createDocsBlock(collection.info.description)
+    ];
+    if (collection_blocks.length > 0) {
+      files.push({
+        file_name: 'collection.bru',
+        content: this.joinBlocks(collection_blocks)
+      });
+    }
+
+    const variables = (collection.variable ?? []).filter(
+      (variable) => variable.key
+    );
+    if (variables.length > 0) {
+      files.push({
+        file_name: `environments/${sanitizeOriginalName(collection.info.name)}.bru`,
+        content: this.joinBlocks([
+          this.createDictBlock(
+            'vars',
+            this.toEntries(variables),
+            collection.info.name,
+            context
+          )
+        ])
+      });
+    }
+
+    files.push(...this.convertItems(collection.item, '', context));
+
+    if (context.examples_skipped > 0) {
+      warnings.push(
+        `${context.examples_skipped} saved example(s) have no Bruno equivalent and were not exported`
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * Converts the items of a folder, numbering them in order
+   * @param items - Folder items
+   * @param directory - Folder path relative to the collection root
+   * @param context - Export context
+   * @returns IExtractedFile[]
+   */
+  private convertItems(
+    items: IPostmanItem[],
+    directory: string,
+    context: ExportContext
+  ): IExtractedFile[] {
+    const files: IExtractedFile[] = [];
+    const folder_names = new Set<string>();
+    const request_names = new Set<string>();
+
+    items.forEach((item, index) => {
+      const seq = index + 1;
+
+      if (item.item) {
+        const name = generateUniqueOriginalName(
+          sanitizeOriginalName(item.name),
+          folder_names
+        );
+        folder_names.add(name);
+        const folder_path = `${directory}${name}`;
+
+        files.push({
+          file_name: `${folder_path}/folder.bru`,
+          content: this.convertFolder(item, seq, context)
+        });
+        files.push(...this.convertItems(item.item, `${folder_path}/`, context));
+        return;
+      }
+
+      if (!item.request) {
+        return;
+      }
+
+      const content = this.convertRequest(item, item.request, seq, context);
+      if (content) {
+        const name = generateUniqueOriginalName(
+          sanitizeOriginalName(item.name),
+          request_names
+        );
+        request_names.add(name);
+        files.push({ file_name: `${directory}${name}.bru`, content });
+      }
+    });
+
+    return files;
+  }
+
+  /**
+   * Converts a folder into its folder.bru settings file
+   * @param folder - Postman folder
+   * @param seq - Position of the folder among its siblings
+   * @param context - Export context
+   * @returns string
+   */
+  private convertFolder(
+    folder: IPostmanItem,
+    seq: number,
+    context: ExportContext
+  ): string {
+    return this.joinBlocks([
+      this.createDictBlock(
+        'meta',
+        [
+          { key: 'name', value: folder.name },
+          { key: 'seq', value: String(seq) }
+        ],
+        folder.name,
+        context
+      ),
+      ...this.createAuthBlocks(folder.auth, folder.name, context),
+      ...this.createVariableBlocks(folder.variable, folder.name, context),
+      ...this.createScriptBlocks(folder.event, context),
+      ...this.createDocsBlock(folder.description)
+    ]);
+  }
+
+  /**
+   * Converts a request into a .bru file
+   * @param item - Postman request item
+   * @param request - Its request
+   * @param seq - Position of the request among its siblings
+   * @param context - Export context
+   * @returns string | undefined - File content, or undefined if the
+   * request cannot be represented
+   */
+  private convertRequest(
+    item: IPostmanItem,
+    request: IPostmanRequest,
+    seq: number,
+    context: ExportContext
+  ): string | undefined {
+    const method = (request.method || 'GET').toLowerCase();
+    if (!BRUNO_METHODS.includes(method)) {
+      context.warnings.push(
+        `"${item.name}" uses method ${request.method}, which Bruno does not support, and was skipped`
+      );
+      return undefined;
+    }
+
+    const url = typeof request.url === 'string' ? undefined : request.url;
+    const raw_url =
+      typeof request.url === 'string' ? request.url : (request.url?.raw ?? '');
+    const body_blocks = this.createBodyBlocks(request.body, item.name, context);
+    context.examples_skipped += item.response?.length ?? 0;
+
+    return this.joinBlocks([
+      this.createDictBlock(
+        'meta',
+        [
+          { key: 'name', value: item.name },
+          {
+            key: 'type',
+            value: request.body?.mode === 'graphql' ? 'graphql' : 'http'
+          },
+          { key: 'seq', value: String(seq) }
+        ],
+        item.name,
+        context
+      ),
+      this.createDictBlock(
+        method,
+        [
+          { key: 'url', value: raw_url },
+          { key: 'body', value: this.getBodyMode(request.body, body_blocks) },
+          {
+            key: 'auth',
+            value: this.getAuthMode(request.auth, item.name, context)
+          }
+        ],
+        item.name,
+        context
+      ),
+      ...this.createUrlBlocks(url, item.name, context),
+      this.createDictBlock(
+        'headers',
+        (request.header ?? []).map((header) => ({
+          key: header.key,
+          value: header.value,
+          disabled: header.disabled
+        })),
+        item.name,
+        context
+      ),
+      ...this.createAuthBlocks(request.auth, item.name, context, false),
+      ...body_blocks,
+      ...this.createVariableBlocks(item.variable, item.name, context),
+      ...this.createScriptBlocks(item.event, context),
+      ...this.createDocsBlock(item.description ?? request.description)
+    ]);
+  }
+
+  /**
+   * Creates the query and path parameter blocks of a URL
+   * @param url - Request URL
+   * @param owner - Name of the request, for warnings
+   * @param context - Export context
+   * @returns string[]
+   */
+  private createUrlBlocks(
+    url: IPostmanUrl | undefined,
+    owner: string,
+    context: ExportContext
+  ): string[] {
+    return [
+      this.createDictBlock(
+        'params:query',
+        (url?.query ?? []).map((param) => ({
+          key: param.key,
+          value: param.value ?? '',
+          disabled: param.disabled
+        })),
+        owner,
+        context
+      ),
+      this.createDictBlock(
+        'params:path',
+        this.toEntries(url?.variable ?? []),
+        owner,
+        context
+      )
+    ].filter(Boolean);
+  }
+
+  /**
+   * Gets the body mode of a request's method block
+   * @param body - Request body
+   * @param body_blocks - Body blocks written for it
+   * @returns string
+   */
+  private getBodyMode(
+    body: IPostmanBody | undefined,
+    body_blocks: string[]
+  ): string {
+    if (body_blocks.length === 0) {
+      return 'none';
+    }
+
+    switch (body?.mode) {
+      case 'raw':
+        return this.getRawBodyType(body);
+      case 'urlencoded':
+        return 'formUrlEncoded';
+      case 'formdata':
+        return 'multipartForm';
+      case 'graphql':
+        return 'graphql';
+      default:
+        return 'none';
+    }
+  }
+
+  /**
+   * Creates the body blocks of a request
+   * @param body - Request body
+   * @param owner - Name of the request, for warnings
+   * @param context - Export context
+   * @returns string[]
+   */
+  private createBodyBlocks(
+    body: IPostmanBody | undefined,
+    owner: string,
+    context: ExportContext
+  ): string[] {
+    switch (body?.mode) {
+      case 'raw':
+        return body.raw
+          ? [
+              this.createTextBlock(
+                `body:${this.getRawBodyType(body)}`,
+                body.raw
+              )
+            ]
+          : [];
+      case 'urlencoded':
+        return [
+          this.createDictBlock(
+            'body:form-urlencoded',
+            (body.urlencoded ?? []).map((param) => ({
+              key: param.key,
+              value: param.value ?? '',
+              disabled: param.disabled
+            })),
+            owner,
+            context
+          )
+        ].filter(Boolean);
+      case 'formdata':
+        return [
+          this.createDictBlock(
+            'body:multipart-form',
+            (body.formdata ?? []).map((param) => ({
+              key: param.key,
+              value:
+                param.type === 'file'
+                  ? `@file(${(Array.isArray(param.src) ? param.src[0] : param.src) ?? ''})`
+                  : (param.value ?? ''),
+              disabled: param.disabled
+            })),
+            owner,
+            context
+          )
+        ].filter(Boolean);
+      case 'graphql': {
+        const blocks = [
+          this.createTextBlock('body:graphql', body.graphql?.query ?? '')
+        ];
+        if (body.graphql?.variables?.trim()) {
+          blocks.push(
+            this.createTextBlock('body:graphql:vars', body.graphql.variables)
+          );
+        }
+        return blocks;
+      }
+      case 'file':
+        context.warnings.push(
+          `File body of "${owner}" has no Bruno equivalent and was not exported`
+        );
+        return [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Gets the Bruno body type of a raw body from its language
+   * @param body - Raw request body
+   * @returns string - json, xml or text
+   */
+  private getRawBodyType(body: IPostmanBody): string {
+    const language = body.options?.raw?.language;
+    return language === 'json' || language === 'xml' ? language : 'text';
+  }
+
+  /**
+   * Gets the auth mode of a request's method block; requests without auth
+   * inherit it
+   * @param auth - Request auth
+   * @param owner - Name of the request, for warnings
+   * @param context - Export context
+   * @returns string
+   */
+  private getAuthMode(
+    auth: IPostmanAuth | undefined,
+    owner: string,
+    context: ExportContext
+  ): string {
+    if (!auth) {
+      return 'inherit';
+    }
+    if (auth.type === 'noauth') {
+      return 'none';
+    }
+    if (auth.type === 'apikey' || AUTH_PARAMS[auth.type]) {
+      return auth.type;
+    }
+
+    context.warnings.push(
+      `Auth type "${auth.type}" of "${owner}" has no Bruno equivalent and was not exported`
+    );
+    return 'none';
+  }
+
+  /**
+   * Creates the auth blocks of a request, folder or collection
+   * @param auth - Postman auth
+   * @param owner - Name of the item, for warnings
+   * @param context - Export context
+   * @param with_mode - Whether to add an auth block naming the mode, which
+   * requests carry in their method block instead
+   * @returns string[]
+   */
+  private createAuthBlocks(
+    auth: IPostmanAuth | undefined,
+    owner: string,
+    context: ExportContext,
+    with_mode = true
+  ): string[] {
+    if (!auth) {
+      return [];
+    }
+
+    // Requests already reported an unsupported type with their mode
+    const mode = with_mode
+      ? this.getAuthMode(auth, owner, context)
+      : this.getSupportedAuthMode(auth);
+    const blocks = with_mode
+      ? [
+          this.createDictBlock(
+            'auth',
+            [{ key: 'mode', value: mode }],
+            owner,
+            context
+          )
+        ]
+      : [];
+
+    if (mode === 'apikey') {
+      blocks.push(
+        this.createDictBlock(
+          'auth:apikey',
+          [
+            { key: 'key', value: getAuthParam(auth, 'key') ?? '' },
+            { key: 'value', value: getAuthParam(auth, 'value') ?? '' },
+            {
+              key: 'placement',
+              value:
+                getAuthParam(auth, 'in') === 'query' ? 'queryparams' : 'header'
+            }
+          ],
+          owner,
+          context
+        )
+      );
+    } else if (AUTH_PARAMS[mode]) {
+      const entries = Object.entries(AUTH_PARAMS[mode] ?? {}).map(
+        ([key, postman_key]) => {
+          const value = getAuthParam(auth, postman_key) ?? '';
+          return {
+            key,
+            value:
+              key === 'grant_type'
+                ? (OAUTH2_GRANT_TYPES[value] ?? 'client_credentials')
+                : value
+          };
+        }
+      );
+      blocks.push(
+        this.createDictBlock(`auth:${mode}`, entries, owner, context)
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Gets the Bruno auth mode of an auth definition without warning
+   * @param auth - Postman auth
+   * @returns string
+   */
+  private getSupportedAuthMode(auth: IPostmanAuth): string {
+    return auth.type === 'apikey' || AUTH_PARAMS[auth.type] ? auth.type : '';
+  }
+
+  /**
+   * Creates the vars:pre-request block of folder or request variables
+   * @param variables - Postman variables
+   * @param owner - Name of the item, for warnings
+   * @param context - Export context
+   * @returns string[]
+   */
+  private createVariableBlocks(
+    variables: IPostmanVariable[] | undefined,
+    owner: string,
+    context: ExportContext
+  ): string[] {
+    return [
+      this.createDictBlock(
+        'vars:pre-request',
+        this.toEntries(variables ?? []),
+        owner,
+        context
+      )
+    ].filter(Boolean);
+  }
+
+  /**
+   * Creates script blocks from events: pre-request scripts and tests. They
+   * use the pm API, which Bruno only partly translates.
+   * @param events - Postman events
+   * @param context - Export context
+   * @returns string[]
+   */
+  private createScriptBlocks(
+    events: IPostmanEvent[] | undefined,
+    context: ExportContext
+  ): string[] {
+    const blocks: string[] = [];
+    for (const event of events ?? []) {
+      const exec = event.script?.exec;
+      const script = Array.isArray(exec) ? exec.join('\n') : (exec ?? '');
+      if (event.disabled || !script.trim()) {
+        continue;
+      }
+      if (event.listen === 'prerequest') {
+        blocks.push(this.createTextBlock('script:pre-request', script));
+      } else if (event.listen === 'test') {
+        blocks.push(this.createTextBlock('tests', script));
+      }
+    }
+
+    if (blocks.length > 0 && !context.scripts_warned) {
+      context.scripts_warned = true;
+      context.warnings.push(
+        'Scripts were copied as is; calls to the pm API may need to be rewritten for Bruno'
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Creates the docs block of a description
+   * @param description - Postman description
+   * @returns string[]
+   */
+  private createDocsBlock(description: unknown): string[] {
+    const text =
+      typeof description === 'string'
+        ? description
+        : (description as { content?: string } | undefined)?.content;
+
+    return text?.trim() ? [this.createTextBlock('docs', text)] : [];
+  }
+
+  /**
+   * Creates a block of "key: value" lines, prefixing disabled entries with
+   * "~". Values must fit on one line, so line breaks are replaced.
+   * @param name - Block name
+   * @param entries - Block entries
+   * @param owner - Name of the item, for warnings
+   * @param context - Export context
+   * @returns string - Block, or "" when there are no entries
+   */
+  private createDictBlock(
+    name: string,
+    entries: BlockEntry[],
+    owner: string,
+    context: ExportContext
+  ): string {
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const lines = entries.map((entry) => {
+      let value = entry.value;
+      if (/[\r\n]/.test(value)) {
+        context.warnings.push(
+          `Multi-line value of "${entry.key}" in "${owner}" was joined into one line`
+        );
+        value = value.replace(/\r?\n/g, ' ');
+      }
+      return `  ${entry.disabled ? '~' : ''}${entry.key}: ${value}`;
+    });
+
+    return `${name} {\n${lines.join('\n')}\n}`;
+  }
+
+  /**
+   * Creates a block of free text, indented by two spaces
+   * @param name - Block name
+   * @param text - Block text
+   * @returns string
+   */
+  private createTextBlock(name: string, text: string): string {
+    const lines = text.split(/\r?\n/).map((line) => (line ? `  ${line}` : ''));
+
+    return `${name} {\n${lines.join('\n')}\n}`;
+  }
+
+  /**
+   * Joins blocks into a .bru file, leaving out empty ones
+   * @param blocks - Blocks
+   * @returns string
+   */
+  private joinBlocks(blocks: string[]): string {
+    return `${blocks.filter(Boolean).join('\n\n')}\n`;
+  }
+
+  /**
+   * Converts variables into block entries
+   * @param variables - Postman variables
+   * @returns BlockEntry[]
+   */
+  private toEntries(variables: IPostmanVariable[]): BlockEntry[] {
+    return variables.map((variable) => ({
+      key: variable.key,
+      value: String(variable.value ?? ''),
+      disabled: variable.disabled
+    }));
+  }
+}
+
+// Supporting types
+interface BlockEntry {
+  key: string;
+  value: string;
+  disabled?: boolean;
+}
+
+interface ExportContext {
+  warnings: string[];
+  // Whether the warning about pm API scripts was given
+  scripts_warned: boolean;
+  // Saved examples left out, reported once
+  examples_skipped: number;
+}
+
+// Export singleton instance
+export const bruno_exporter = new BrunoExporter();
@@ -0,0 +1,248 @@
+/**
+ * cURL Exporter
+ * Renders a single request as a runnable curl command line
+ */
+
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanHeader,
+  IPostmanRequest,
+  IPostmanUrl
+} from '@/types/postman.ts';
+import {
+  RAW_CONTENT_TYPES,
+  addContentType,
+  escapeRegExp,
+  getAuthParam,
+  getFileSource,
+  parseGraphqlVariables,
+  setHeader
+} from '@/utils/request_helpers.ts';
+
+/**
+ * cURL Exporter class for converting requests to curl commands
+ */
+export class CurlExporter {
+  /**
+   * Converts a request into a curl command, one option per line
+   * @param request - Postman request, with its effective auth
+   * @param warnings - Collected warnings
+   * @returns string
+   */
+  convert(request: IPostmanRequest, warnings: string[]): string {
+    const method = (request.method || 'GET').toUpperCase();
+    const headers = (request.header ?? []).filter(
+      (header) => !header.disabled && header.key
+    );
+    const query: string[] = [];
+    const options: string[] = [];
+
+    this.addAuth(request.auth, headers, query, options, warnings);
+
+    const body_options = this.convertBody(request.body, headers, warnings);
+    if (method === 'HEAD') {
+      options.unshift('--head');
+    } else if (method !== 'GET' || body_options.length > 0) {
+      options.unshift(`--request ${method}`);
+    }
+
+    const lines = [
+      `curl ${this.quote(this.buildUrl(request.url, query))}`,
+      ...options,
+      ...headers.map(
+        (header) => `--header ${this.quote(`${header.key}: ${header.value}`)}`
+      ),
+      ...body_options
+    ];
+
+    return lines.join(' \\\n  ');
+  }
+
+  /**
+   * Builds the URL of a request from its parts, leaving out disabled query
+   * parameters and filling in path variables
+   * @param url - Request URL
+   * @param extra_query - Query pairs added by auth, already encoded
+   * @returns string
+   */
+  private buildUrl(
+    url: string | IPostmanUrl | undefined,
+    extra_query: string[]
+  ): string {
+    let base: string;
+    let query: string[] = [];
+    let hash = '';
+
+    if (typeof url === 'string' || !url?.host) {
+      const raw = typeof url === 'string' ? url : (url?.raw ?? '');
+      const [without_hash = '', fragment] = raw.split('#');
+      const [location = '', search] = without_hash.split('?');
+      base = location;
+      query = search ? [search] : [];
+      hash = fragment ? `#${fragment}` : '';
+    } else {
+      const host = Array.isArray(url.host) ? url.host.join('.') : url.host;
+      const path = Array.isArray(url.path)
+        ? url.path.join('/')
+        : (url.path ?? '').replace(/^\//, '');
+      base = `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}${path ? `/${path}` : ''}`;
+      query = (url.query ?? [])
+        .filter((param) => !param.disabled)
+        .map((param) =>
+          param.value === undefined || param.value === null
+            ? param.key
+            : `${param.key}=${param.value}`
+        );
+      hash = url.hash ? `#${url.hash}` : '';
+    }
+
+    if (typeof url === 'object') {
+      for (const variable of url.variable ?? []) {
+        base = base.replace(
+          new RegExp(`/:${escapeRegExp(variable.key)}(?=/|$)`, 'g'),
+          `/${variable.value ?? ''}`
+        );
+      }
+    }
+
+    const search = [...query, ...extra_query].join('&');
+    return `${base}${search ? `?${search}` : ''}${hash}`;
+  }
+
+  /**
+   * Adds the options, headers or query parameters an auth definition needs
+   * @param auth - Effective auth of the request
+   * @param headers - Request headers; updated
+   * @param query - Extra query pairs; updated
+   * @param options - curl options; updated
+   * @param warnings - Collected warnings
+   */
+  private addAuth(
+    auth: IPostmanAuth | undefined,
+    headers: IPostmanHeader[],
+    query: string[],
+    options: string[],
+    warnings: string[]
+  ): void {
+    if (!auth || auth.type === 'noauth') {
+      return;
+    }
+
+    switch (auth.type) {
+      case 'basic':
+      case 'digest':
+      case 'ntlm': {
+        const user = `${getAuthParam(auth, 'username') ?? ''}:${getAuthParam(auth, 'password') ?? ''}`;
+        if (auth.type !== 'basic') {
+          options.push(`--${auth.type}`);
+        }
+        options.push(`--user ${this.quote(user)}`);
+        break;
+      }
+      case 'bearer':
+        setHeader(
+          headers,
+          'Authorization',
+          `Bearer ${getAuthParam(auth, 'token') ?? ''}`
+        );
+        break;
+      case 'apikey': {
+        const key = getAuthParam(auth, 'key') ?? 'X-API-Key';
+        const value = getAuthParam(auth, 'value') ?? '';
+        if (getAuthParam(auth, 'in') === 'query') {
+          query.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+        } else {
+          setHeader(headers, key, value);
+        }
+        break;
+      }
+      case 'oauth2': {
+        const token = getAuthParam(auth, 'accessToken') ?? '';
+        if (getAuthParam(auth, 'addTokenTo') === 'queryParams') {
+          query.push(`access_token=${encodeURIComponent(token)}`);
+        } else {
+          const prefix = getAuthParam(auth, 'headerPrefix') ?? 'Bearer';
+          setHeader(headers, 'Authorization', `${prefix} ${token}`.trim());
+        }
+        break;
+      }
+      default:
+        warnings.push(
+          `Auth type "${auth.type}" cannot be expressed as curl options and was skipped`
+        );
+    }
+  }
+
+  /**
+   * Converts a request body into curl data options, adding the Content-Type
+   * header curl would not send on its own
+   * @param body - Request body
+   * @param headers - Request headers; updated
+   * @param warnings - Collected warnings
+   * @returns string[] - curl options
+   */
+  private convertBody(
+    body: IPostmanBody | undefined,
+    headers: IPostmanHeader[],
+    warnings: string[]
+  ): string[] {
+    switch (body?.mode) {
+      case 'raw': {
+        if (!body.raw) {
+          return [];
+        }
+        const content_type =
+          RAW_CONTENT_TYPES[body.options?.raw?.language ?? ''];
+        if (content_type) {
+          addContentType(headers, content_type);
+        }
+        return [`--data-raw ${this.quote(body.raw)}`];
+      }
+      case 'urlencoded':
+        return (body.urlencoded ?? [])
+          .filter((param) => !param.disabled)
+          .map(
+            (param) =>
+              `--data-urlencode ${this.quote(`${param.key}=${param.value ?? ''}`)}`
+          );
+      case 'formdata':
+        return (body.formdata ?? [])
+          .filter((param) => !param.disabled)
+          .map((param) =>
+            param.type === 'file'
+              ? `--form ${this.quote(`${param.key}=@${getFileSource(param.src)}`)}`
+              : `--form-string ${this.quote(`${param.key}=${param.value ?? ''}`)}`
+          );
+      case 'file': {
+        if (!body.file?.src) {
+          warnings.push('File body has no source file and was skipped');
+          return [];
+        }
+        return [`--data-binary ${this.quote(`@${body.file.src}`)}`];
+      }
+      case 'graphql': {
+        addContentType(headers, 'application/json');
+        const payload = JSON.stringify({
+          query: body.graphql?.query ?? '',
+          variables: parseGraphqlVariables(body.graphql?.variables)
+        });
+        return [`--data-raw ${this.quote(payload)}`];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Quotes a value for a POSIX shell
+   * @param value - Value to quote
+   * @returns string
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
+
+// Export singleton instance
+export const curl_exporter = new CurlExporter();
@@ -0,0 +1,414 @@
+/**
+ * HTTP File Exporter
+ * Converts a collection into .http files for the JetBrains HTTP Client and the
+ * VS Code REST Client: one file per folder, with the folder's requests
+ * separated by "###" lines
+ */
+
+import type {
+  IExtractedFile,
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanUrl,
+  IPostmanVariable
+} from '@/types/postman.ts';
+import {
+  RAW_CONTENT_TYPES,
+  addContentType,
+  escapeRegExp,
+  getAuthParam,
+  getFileSource,
+  parseGraphqlVariables,
+  setHeader
+} from '@/utils/request_helpers.ts';
+import {
+  generateUniqueOriginalName,
+  sanitizeOriginalName
+} from '@/utils/sanitization.ts';
+
+// Boundary separating the parts of multipart bodies
+const MULTIPART_BOUNDARY = 'CarvemanFormBoundary';
+
+// Environment the collection variables are written to in http-client.env.json
+const ENV_NAME = 'dev';
+
+/**
+ * HTTP File Exporter class for converting collections to .http files
+ */
+export class HttpExporter {
+  /**
+   * Converts a collection into .http files
+   * @param collection - Postman collection
+   * @param write_env_file - Write the collection variables to
+   * http-client.env.json instead of defining them in every file
+   * @param warnings - Collected warnings
+   * @returns IExtractedFile[] - Files, named by their path relative to the
+   * output directory
+   */
+  convert(
+    collection: IPostmanCollection,
+    write_env_file: boolean,
+    warnings: string[]
+  ): IExtractedFile[] {
+    const context: ExportContext = {
+      warnings,
+      scripts_skipped: 0,
+      examples_skipped: 0
+    };
+    const files: IExtractedFile[] = [];
+    context.scripts_skipped += collection.event?.length ?? 0;
+
+    const variables = new Map<string, string>();
+    if (write_env_file) {
+      const environment = Object.fromEntries(
+        this.collectVariables(collection.variable, new Map(), context)
+      );
+      if (Object.keys(environment).length > 0) {
+        files.push({
+          file_name: 'http-client.env.json',
+          content: `${JSON.stringify({ [ENV_NAME]: environment }, null, 2)}\n`
+        });
+      }
+    } else {
+      this.collectVariables(collection.variable, variables, context);
+    }
+
+    files.push(
+      ...this.convertFolder(
+        collection.item,
+        sanitizeOriginalName(collection.info.name),
+        '',
+        variables,
+        collection.auth,
+        context
+      )
+    );
+
+    if (context.scripts_skipped > 0) {
+      warnings.push(
+        `${context.scripts_skipped} script(s) have no .http equivalent and were not exported`
+      );
+    }
+    if (context.examples_skipped > 0) {
+      warnings.push(
+        `${context.examples_skipped} saved example(s) have no .http equivalent and were not exported`
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * Converts the requests of a folder into one .http file, and its
+   * subfolders into files of their own
+   * @param items - Folder items
+   * @param file_path - Path of the folder's file relative to the output
+   * directory, without extension
+   * @param directory - Directory of the subfolders' files, "" or ending
+   * in "/"
+   * @param variables - Variables defined for the folder
+   * @param auth - Auth the folder's requests inherit
+   * @param context - Export context
+   * @returns IExtractedFile[]
+   */
+  private convertFolder(
+    items: IPostmanItem[],
+    file_path: string,
+    directory: string,
+    variables: Map<string, string>,
+    auth: IPostmanAuth | undefined,
+    context: ExportContext
+  ): IExtractedFile[] {
+    const files: IExtractedFile[] = [];
+    const requests: string[] = [];
+    const folder_names = new Set<string>();
+
+    for (const item of items) {
+      context.scripts_skipped += item.event?.length ?? 0;
+
+      if (item.item) {
+        const name = generateUniqueOriginalName(
+          sanitizeOriginalName(item.name),
+          folder_names
+        );
+        folder_names.add(name);
+
+        files.push(
+          ...this.convertFolder(
+            item.item,
+            `${directory}${name}`,
+            `${directory}${name}/`,
+            this.collectVariables(item.variable, new Map(variables), context),
+            item.auth ?? auth,
+            context
+          )
+        );
+      } else if (item.request) {
+        context.examples_skipped += item.response?.length ?? 0;
+        requests.push(
+          this.convertRequest(item.name, item.request, auth, context)
+        );
+      }
+    }
+
+    if (requests.length > 0) {
+      const definitions = [...variables].map(
+        ([key, value]) => `@${key} = ${value}`
+      );
+      files.unshift({
+        file_name: `${file_path}.http`,
+        content: `${[
+          ...(definitions.length > 0 ? [definitions.join('\n')] : []),
+          ...requests
+        ].join('\n\n')}\n`
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Converts a request into a "###" separated .http entry
+   * @param name - Request name
+   * @param request - Postman request
+   * @param inherited_auth - Auth of the enclosing folder or collection
+   * @param context - Export context
+   * @returns string
+   */
+  private convertRequest(
+    name: string,
+    request: IPostmanRequest,
+    inherited_auth: IPostmanAuth | undefined,
+    context: ExportContext
+  ): string {
+    const method = (request.method || 'GET').toUpperCase();
+    const headers = (request.header ?? []).filter(
+      (header) => !header.disabled && header.key
+    );
+    const query: string[] = [];
+
+    this.addAuth(request.auth ?? inherited_auth, name, headers, query, context);
+    // Kept as is: entries are joined by one blank line, so a trailing newline
+    // stays part of the body
+    const body = this.convertBody(request.body, headers);
+
+    const lines = [
+      `### ${name.replace(/\s+/g, ' ')}`,
+      `${method} ${this.buildUrl(request.url, query)}`,
+      ...headers.map((header) => `${header.key}: ${header.value}`)
+    ];
+    if (body) {
+      lines.push('', body);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Builds the URL of a request, filling in path variables
+   * @param url - Request URL
+   * @param extra_query - Query pairs added by auth
+   * @returns string
+   */
+  private buildUrl(
+    url: string | IPostmanUrl | undefined,
+    extra_query: string[]
+  ): string {
+    let raw = typeof url === 'string' ? url : (url?.raw ?? '');
+
+    if (typeof url === 'object') {
+      for (const variable of url.variable ?? []) {
+        const value = variable.value ? String(variable.value) : '';
+        raw = raw.replace(
+          new RegExp(`/:${escapeRegExp(variable.key)}(?=[/?#]|$)`, 'g'),
+          `/${value || `{{${variable.key}}}`}`
+        );
+      }
+    }
+
+    if (extra_query.length === 0) {
+      return raw;
+    }
+    const [location = '', hash] = raw.split('#');
+    const separator = location.includes('?') ? '&' : '?';
+    return `${location}${separator}${extra_query.join('&')}${hash === undefined ? '' : `#${hash}`}`;
+  }
+
+  /**
+   * Adds the headers or query parameters an auth definition needs
+   * @param auth - Effective auth of the request
+   * @param name - Request name, for warnings
+   * @param headers - Request headers; updated
+   * @param query - Extra query pairs; updated
+   * @param context - Export context
+   */
+  private addAuth(
+    auth: IPostmanAuth | undefined,
+    name: string,
+    headers: IPostmanHeader[],
+    query: string[],
+    context: ExportContext
+  ): void {
+    if (!auth || auth.type === 'noauth') {
+      return;
+    }
+
+    switch (auth.type) {
+      case 'basic':
+      case 'digest':
+        setHeader(
+          headers,
+          'Authorization',
+          `${auth.type === 'basic' ? 'Basic' : 'Digest'} ${getAuthParam(auth, 'username') ?? ''} ${getAuthParam(auth, 'password') ?? ''}`
+        );
+        break;
+      case 'bearer':
+        setHeader(
+          headers,
+          'Authorization',
+          `Bearer ${getAuthParam(auth, 'token') ?? ''}`
+        );
+        break;
+      case 'apikey': {
+        const key = getAuthParam(auth, 'key') || 'X-API-Key';
+        const value = getAuthParam(auth, 'value') ?? '';
+        if (getAuthParam(auth, 'in') === 'query') {
+          query.push(`${key}=${value}`);
+        } else {
+          setHeader(headers, key, value);
+        }
+        break;
+      }
+      case 'oauth2': {
+        const token = getAuthParam(auth, 'accessToken') ?? '';
+        if (getAuthParam(auth, 'addTokenTo') === 'queryParams') {
+          query.push(`access_token=${token}`);
+        } else {
+          const prefix = getAuthParam(auth, 'headerPrefix') || 'Bearer';
+          setHeader(headers, 'Authorization', `${prefix} ${token}`.trim());
+        }
+        break;
+      }
+      default:
+        context.warnings.push(
+          `Auth type "${auth.type}" of "${name}" has no .http equivalent and was skipped`
+        );
+    }
+  }
+
+  /**
+   * Converts a request body into the body of an .http entry, adding the
+   * Content-Type header it needs
+   * @param body - Request body
+   * @param headers - Request headers; updated
+   * @returns string - Body, or "" if there is none
+   */
+  private convertBody(
+    body: IPostmanBody | undefined,
+    headers: IPostmanHeader[]
+  ): string {
+    switch (body?.mode) {
+      case 'raw': {
+        const content_type =
+          RAW_CONTENT_TYPES[body.options?.raw?.language ?? ''];
+        if (body.raw && content_type) {
+          addContentType(headers, content_type);
+        }
+        return body.raw ?? '';
+      }
+      case 'urlencoded': {
+        const params = (body.urlencoded ?? []).filter(
+          (param) => !param.disabled
+        );
+        if (params.length === 0) {
+          return '';
+        }
+        addContentType(headers, 'application/x-www-form-urlencoded');
+        return params
+          .map((param) => `${param.key}=${param.value ?? ''}`)
+          .join('&');
+      }
+      case 'formdata': {
+        const params = (body.formdata ?? []).filter((param) => !param.disabled);
+        if (params.length === 0) {
+          return '';
+        }
+        addContentType(
+          headers,
+          `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`
+        );
+        const parts = params.map((param) => {
+          if (param.type === 'file') {
+            const src = getFileSource(param.src);
+            const file_name = src.split(/[\\/]/).pop() ?? '';
+            return `Content-Disposition: form-data; name="${param.key}"; filename="${file_name}"\n\n< ${src}`;
+          }
+          return `Content-Disposition: form-data; name="${param.key}"\n\n${param.value ?? ''}`;
+        });
+        return `${parts.map((part) => `--${MULTIPART_BOUNDARY}\n${part}`).join('\n')}\n--${MULTIPART_BOUNDARY}--`;
+      }
+      case 'file':
+        return body.file?.src ? `< ${body.file.src}` : '';
+      case 'graphql': {
+        addContentType(headers, 'application/json');
+        return JSON.stringify(
+          {
+            query: body.graphql?.query ?? '',
+            variables: parseGraphqlVariables(body.graphql?.variables)
+          },
+          null,
+          2
+        );
+      }
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Adds variables to a scope, inner definitions overriding outer ones.
+   * Values must fit on one line, so line breaks are replaced.
+   * @param variables - Postman variables
+   * @param scope - Variable values by name; updated
+   * @param context - Export context
+   * @returns Map<string, string> - The updated scope
+   */
+  private collectVariables(
+    variables: IPostmanVariable[] | undefined,
+    scope: Map<string, string>,
+    context: ExportContext
+  ): Map<string, string> {
+    for (const variable of variables ?? []) {
+      if (variable.disabled || !variable.key) {
+        continue;
+      }
+
+      let value = String(variable.value ?? '');
+      if (/[\r\n]/.test(value)) {
+        context.warnings.push(
+          `Multi-line value of variable "${variable.key}" was joined into one line`
+        );
+        value = value.replace(/\r?\n/g, ' ');
+      }
+      scope.set(variable.key, value);
+    }
+
+    return scope;
+  }
+}
+
+// Supporting types
+interface ExportContext {
+  warnings: string[];
+  // Scripts left out, reported once
+  scripts_skipped: number;
+  // Saved examples left out, reported once
+  examples_skipped: number;
+}
+
+// Export singleton instance
+export const http_exporter = new HttpExporter();
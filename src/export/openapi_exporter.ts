@@ -0,0 +1,928 @@
+/**
+ * OpenAPI Exporter
+ * Infers an OpenAPI 3.1 document from a Postman collection: paths and
+ * parameters from request URLs, schemas from bodies and saved responses, and
+ * tags from top-level folders
+ */
+
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanResponse,
+  IPostmanUrl,
+  IPostmanVariable
+} from '@/types/postman.ts';
+import { getAuthParam } from '@/utils/request_helpers.ts';
+
+// OpenAPI version of exported documents
+export const OPENAPI_VERSION = '3.1.0';
+
+// Headers described by the request body, security or response instead
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+// Media types of raw bodies by their Postman language
+const RAW_MEDIA_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain'
+};
+
+/**
+ * OpenAPI Exporter class for converting collections to OpenAPI documents
+ */
+export class OpenApiExporter {
+  /**
+   * Converts a Postman collection into an OpenAPI 3.1 document
+   * @param collection - Postman collection
+   * @param warnings - Collected warnings
+   * @returns OpenApiDocument
+   */
+  convert(collection: IPostmanCollection, warnings: string[]): OpenApiDocument {
+    const context: ExportContext = {
+      variables: new Map(
+        (collection.variable ?? []).map((variable: IPostmanVariable) => [
+          variable.key,
+          variable.value
+        ])
+      ),
+      warnings,
+      paths: {},
+      servers: [],
+      path_servers: {},
+      security_schemes: {},
+      operation_ids: new Set()
+    };
+
+    const document: OpenApiDocument = {
+      openapi: OPENAPI_VERSION,
+      info: {
+        title: collection.info.name,
+        version:
+          typeof collection.info.version === 'string'
+            ? collection.info.version
+            : '1.0.0'
+      }
+    };
+
+    const description = this.getDescription(collection.info.description);
+    if (description) {
+      document.info.description = description;
+    }
+
+    const collection_scheme = this.convertAuth(collection.auth, context);
+    const tags: OpenApiTag[] = [];
+    for (const item of collection.item) {
+      if (item.item) {
+        const tag: OpenApiTag = { name: item.name };
+        const tag_description = this.getDescription(item.description);
+        if (tag_description) {
+          tag.description = tag_description;
+        }
+        tags.push(tag);
+      }
+
+      this.convertItem(
+        item,
+        item.item ? item.name : undefined,
+        collection.auth,
+        collection_scheme,
+        context
+      );
+    }
+
+    // The server most paths use is the document's; paths served from other
+    // hosts list their own servers
+    const main_server = this.getMainServer(context);
+    if (main_server) {
+      document.servers = [main_server];
+    }
+    if (collection_scheme !== undefined) {
+      document.security = this.getSecurity(collection_scheme);
+    }
+    if (tags.length > 0) {
+      document.tags = tags;
+    }
+    document.paths = {};
+    for (const [path, operations] of Object.entries(context.paths)) {
+      const servers = context.path_servers[path] ?? [];
+      document.paths[path] =
+        servers.length === 1 && servers[0]?.url === main_server?.url
+          ? operations
+          : { servers, ...operations };
+    }
+    if (Object.keys(context.security_schemes).length > 0) {
+      document.components = { securitySchemes: context.security_schemes };
+    }
+
+    return document;
+  }
+
+  /**
+   * Converts a request, or every request inside a folder
+   * @param item - Folder or request
+   * @param tag - Top-level folder the item belongs to
+   * @param inherited_auth - Nearest auth defined by a parent
+   * @param collection_scheme - Security scheme of the collection auth
+   * @param context - Export context
+   */
+  private convertItem(
+    item: IPostmanItem,
+    tag: string | undefined,
+    inherited_auth: IPostmanAuth | undefined,
+    collection_scheme: string | null | undefined,
+    context: ExportContext
+  ): void {
+    if (item.item) {
+      for (const child of item.item) {
+        this.convertItem(
+          child,
+          tag,
+          item.auth ?? inherited_auth,
+          collection_scheme,
+          context
+        );
+      }
+      return;
+    }
+
+    if (!item.request) {
+      return;
+    }
+
+    const request = item.request;
+    const url = this.parseUrl(request.url, context);
+    const method = (request.method || 'GET').toLowerCase();
+    const path_item = context.paths[url.path] ?? {};
+    context.paths[url.path] = path_item;
+
+    if (!context.servers.some((server) => server.url === url.server.url)) {
+      context.servers.push(url.server);
+    }
+    const path_servers = context.path_servers[url.path] ?? [];
+    context.path_servers[url.path] = path_servers;
+    if (!path_servers.some((server) => server.url === url.server.url)) {
+      path_servers.push(url.server);
+    }
+
+    const existing = path_item[method];
+    if (existing) {
+      // Only one operation per path and method; keep the extra examples
+      context.warnings.push(
+        `"${item.name}" has the same method and path as "${existing.summary}" (${method.toUpperCase()} ${url.path}); only its responses were exported`
+      );
+      this.addResponses(existing, item.response ?? [], context);
+      return;
+    }
+
+    const operation: OpenApiOperation = {
+      summary: item.name,
+      operationId: this.createOperationId(item.name, context)
+    };
+    if (tag) {
+      operation.tags = [tag];
+    }
+
+    const description = this.getDescription(
+      request.description ?? item.description
+    );
+    if (description) {
+      operation.description = description;
+    }
+
+    const parameters = [
+      ...url.parameters,
+      ...this.convertHeaders(request.header)
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    const request_body = this.convertBody(request);
+    if (request_body) {
+      operation.requestBody = request_body;
+    }
+
+    // Only auth that differs from the collection's is listed per operation
+    const auth = request.auth ?? item.auth ?? inherited_auth;
+    const scheme = this.convertAuth(auth, context);
+    if (scheme !== collection_scheme) {
+      operation.security = this.getSecurity(scheme);
+    }
+
+    this.addResponses(operation, item.response ?? [], context);
+    path_item[method] = operation;
+  }
+
+  /**
+   * Splits a request URL into its server, OpenAPI path template and
+   * path and query parameters
+   * @param raw_url - URL as a string or an object
+   * @param context - Export context
+   * @returns ParsedUrl
+   */
+  private parseUrl(
+    raw_url: string | IPostmanUrl,
+    context: ExportContext
+  ): ParsedUrl {
+    const url: IPostmanUrl =
+      typeof raw_url === 'string' ? this.splitRawUrl(raw_url) : raw_url;
+
+    const host = Array.isArray(url.host)
+      ? url.host.join('.')
+      : (url.host ?? '');
+    const segments = (
+      Array.isArray(url.path) ? url.path : (url.path ?? '').split('/')
+    ).filter(Boolean);
+
+    const parameters: OpenApiParameter[] = [];
+    const path_names: string[] = [];
+    const template = segments.map((segment) =>
+      segment
+        .replace(/^:(.+)$/, (_match, name) => {
+          path_names.push(name);
+          return `{${name}}`;
+        })
+        .replace(/\{\{([^}]+)\}\}/g, (_match, name) => {
+          path_names.push(name);
+          return `{${name}}`;
+        })
+    );
+
+    for (const name of path_names) {
+      const variable = url.variable?.find((entry) => entry.key === name);
+      parameters.push(
+        this.createParameter(
+          name,
+          'path',
+          variable?.value,
+          variable?.description,
+          true
+        )
+      );
+    }
+
+    for (const query of url.query ?? []) {
+      if (query.key) {
+        parameters.push(
+          this.createParameter(
+            query.key,
+            'query',
+            query.value,
+            query.description,
+            false
+          )
+        );
+      }
+    }
+
+    return {
+      server: this.createServer(host, url, context),
+      path: `/${template.join('/')}`,
+      parameters
+    };
+  }
+
+  /**
+   * Splits a raw URL string into the parts of a URL object
+   * @param raw - Raw URL
+   * @returns IPostmanUrl
+   */
+  private splitRawUrl(raw: string): IPostmanUrl {
+    const match = raw.match(
+      /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/?#]*)([^?#]*)(?:\?([^#]*))?/i
+    );
+    const [, protocol, host_port = '', path = '', query = ''] = match ?? [];
+    const [host = '', port] = host_port.startsWith('{{')
+      ? [host_port]
+      : host_port.split(':');
+
+    const url: IPostmanUrl = { raw, host, path };
+    if (protocol) {
+      url.protocol = protocol;
+    }
+    if (port) {
+      url.port = port;
+    }
+    if (query) {
+      url.query = query.split('&').map((pair) => {
+        const [key = '', ...value] = pair.split('=');
+        return { key, value: value.join('=') };
+      });
+    }
+
+    return url;
+  }
+
+  /**
+   * Picks the server that serves the most paths; on a tie, the first one
+   * found
+   * @param context - Export context
+   * @returns OpenApiServer | undefined - Server, if any request has a host
+   */
+  private getMainServer(context: ExportContext): OpenApiServer | undefined {
+    let main_server: OpenApiServer | undefined;
+    let main_count = 0;
+
+    for (const server of context.servers) {
+      const count = Object.values(context.path_servers).filter((servers) =>
+        servers.some((path_server) => path_server.url === server.url)
+      ).length;
+      if (count > main_count) {
+        main_server = server;
+        main_count = count;
+      }
+    }
+
+    return main_server;
+  }
+
+  /**
+   * Creates the server of a request host. A {{variable}} host uses the
+   * collection variable's value when it has one.
+   * @param host - Host text
+   * @param url - URL object, for its protocol and port
+   * @param context - Export context
+   * @returns OpenApiServer
+   */
+  private createServer(
+    host: string,
+    url: IPostmanUrl,
+    context: ExportContext
+  ): OpenApiServer {
+    const variable = host.match(/^\{\{([^}]+)\}\}$/)?.[1];
+    if (variable) {
+      const value = context.variables.get(variable);
+      return value
+        ? { url: value.replace(/\/+$/, '') }
+        : {
+            url: `{${variable}}`,
+            variables: { [variable]: { default: '' } }
+          };
+    }
+
+    const port = url.port ? `:${url.port}` : '';
+    return { url: `${url.protocol || 'https'}://${host}${port}` };
+  }
+
+  /**
+   * Converts request headers into header parameters
+   * @param headers - Request headers
+   * @returns OpenApiParameter[]
+   */
+  private convertHeaders(
+    headers: IPostmanHeader[] | string | undefined
+  ): OpenApiParameter[] {
+    if (!Array.isArray(headers)) {
+      return [];
+    }
+
+    return headers
+      .filter(
+        (header) =>
+          header.key && !IGNORED_HEADERS.includes(header.key.toLowerCase())
+      )
+      .map((header) =>
+        this.createParameter(
+          header.key,
+          'header',
+          header.value,
+          header.description,
+          !header.disabled
+        )
+      );
+  }
+
+  /**
+   * Creates a parameter with a schema inferred from its example value
+   * @param name - Parameter name
+   * @param location - Parameter location
+   * @param value - Example value
+   * @param description - Parameter description
+   * @param required - Whether the parameter is required
+   * @returns OpenApiParameter
+   */
+  private createParameter(
+    name: string,
+    location: OpenApiParameter['in'],
+    value: string | null | undefined,
+    description: unknown,
+    required: boolean
+  ): OpenApiParameter {
+    const parameter: OpenApiParameter = { name, in: location };
+    const text = this.getDescription(description);
+    if (text) {
+      parameter.description = text;
+    }
+    if (required) {
+      parameter.required = true;
+    }
+
+    const example = this.parseScalar(value ?? '');
+    parameter.schema = this.inferSchema(example);
+    if (value) {
+      parameter.example = example;
+    }
+
+    return parameter;
+  }
+
+  /**
+   * Converts a request body into a request body object
+   * @param request - Postman request
+   * @returns OpenApiRequestBody | undefined
+   */
+  private convertBody(
+    request: IPostmanRequest
+  ): OpenApiRequestBody | undefined {
+    const body: IPostmanBody | undefined = request.body;
+    if (!body?.mode || body.disabled) {
+      return undefined;
+    }
+
+    const content_type = this.getHeaderValue(request.header, 'content-type');
+    switch (body.mode) {
+      case 'raw': {
+        const media_type =
+          content_type ??
+          RAW_MEDIA_TYPES[body.options?.raw?.language ?? 'text'] ??
+          'text/plain';
+        return {
+          content: {
+            [media_type]: this.createMediaType(body.raw ?? '', media_type)
+          }
+        };
+      }
+      case 'urlencoded':
+      case 'formdata': {
+        const media_type =
+          body.mode === 'urlencoded'
+            ? 'application/x-www-form-urlencoded'
+            : 'multipart/form-data';
+        const params = (body[body.mode] ?? []).filter(
+          (param) => param.key && !param.disabled
+        );
+        const properties: Record<string, OpenApiSchema> = {};
+        const example: Record<string, string> = {};
+        for (const param of params) {
+          properties[param.key] =
+            param.type === 'file'
+              ? { type: 'string', format: 'binary' }
+              : { type: 'string' };
+          if (param.type !== 'file') {
+            example[param.key] = param.value ?? '';
+          }
+        }
+        return {
+          content: {
+            [media_type]: { schema: { type: 'object', properties }, example }
+          }
+        };
+      }
+      case 'graphql': {
+        const example: Record<string, unknown> = {
+          query: body.graphql?.query ?? ''
+        };
+        if (body.graphql?.variables?.trim()) {
+          example.variables = this.parseJson(body.graphql.variables) ?? {};
+        }
+        return {
+          content: {
+            'application/json': {
+              schema: this.inferSchema(example),
+              example
+            }
+          }
+        };
+      }
+      case 'file':
+        return {
+          content: {
+            [content_type ?? 'application/octet-stream']: {
+              schema: { type: 'string', format: 'binary' }
+            }
+          }
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Adds saved responses to an operation; the first example of a status
+   * code and media type defines its schema
+   * @param operation - Operation to update
+   * @param responses - Saved responses
+   * @param context - Export context
+   */
+  private addResponses(
+    operation: OpenApiOperation,
+    responses: IPostmanResponse[],
+    context: ExportContext
+  ): void {
+    for (const response of responses) {
+      if (!response.code) {
+        context.warnings.push(
+          `Example "${response.name ?? ''}" of "${operation.summary}" has no status code and was skipped`
+        );
+        continue;
+      }
+
+      operation.responses ??= {};
+      const status = String(response.code);
+      const entry = operation.responses[status] ?? {
+        description: response.name || response.status || status
+      };
+      operation.responses[status] = entry;
+
+      if (!response.body) {
+        continue;
+      }
+
+      const media_type =
+        this.getHeaderValue(response.header, 'content-type') ??
+        RAW_MEDIA_TYPES[response._postman_previewlanguage ?? 'text'] ??
+        'text/plain';
+      entry.content ??= {};
+      const media = entry.content[media_type];
+      if (!media) {
+        entry.content[media_type] = this.createMediaType(
+          response.body,
+          media_type
+        );
+        continue;
+      }
+
+      // Further examples for the same status are kept by name
+      const examples = media.examples ?? {
+        [entry.description]: { value: media.example }
+      };
+      examples[response.name || `Example ${Object.keys(examples).length + 1}`] =
+        { value: this.parseBody(response.body, media_type) };
+      entry.content[media_type] = { schema: media.schema, examples };
+    }
+  }
+
+  /**
+   * Creates a media type object from a body, with a schema inferred from
+   * JSON bodies
+   * @param body - Body text
+   * @param media_type - Media type
+   * @returns OpenApiMediaType
+   */
+  private createMediaType(body: string, media_type: string): OpenApiMediaType {
+    const example = this.parseBody(body, media_type);
+    const media: OpenApiMediaType = {
+      schema:
+        typeof example === 'string'
+          ? { type: 'string' }
+          : this.inferSchema(example)
+    };
+    if (body.trim()) {
+      media.example = example;
+    }
+
+    return media;
+  }
+
+  /**
+   * Converts an auth definition into a security scheme and registers it
+   * @param auth - Postman auth
+   * @param context - Export context
+   * @returns string | null | undefined - Scheme name, null for noauth, or
+   * undefined when there is no auth or it cannot be described
+   */
+  private convertAuth(
+    auth: IPostmanAuth | undefined,
+    context: ExportContext
+  ): string | null | undefined {
+    if (!auth?.type) {
+      return undefined;
+    }
+
+    if (auth.type === 'noauth') {
+      return null;
+    }
+
+    const scheme = this.createSecurityScheme(auth);
+    if (!scheme) {
+      // Inherited auth is converted once per request; warn only once
+      const warning = `Auth type "${auth.type}" has no OpenAPI equivalent and was skipped`;
+      if (!context.warnings.includes(warning)) {
+        context.warnings.push(warning);
+      }
+      return undefined;
+    }
+
+    const [name, definition] = scheme;
+    context.security_schemes[name] = definition;
+    return name;
+  }
+
+  /**
+   * Creates the security scheme describing an auth definition
+   * @param auth - Postman auth
+   * @returns [string, OpenApiSecurityScheme] | undefined - Scheme name and
+   * definition, or undefined for auth types OpenAPI cannot describe
+   */
+  private createSecurityScheme(
+    auth: IPostmanAuth
+  ): [string, OpenApiSecurityScheme] | undefined {
+    switch (auth.type) {
+      case 'bearer':
+        return ['bearerAuth', { type: 'http', scheme: 'bearer' }];
+      case 'basic':
+        return ['basicAuth', { type: 'http', scheme: 'basic' }];
+      case 'digest':
+        return ['digestAuth', { type: 'http', scheme: 'digest' }];
+      case 'apikey': {
+        const name = getAuthParam(auth, 'key') || 'X-API-Key';
+        const location =
+          getAuthParam(auth, 'in') === 'query' ? 'query' : 'header';
+        return [
+          `apiKey_${name.replace(/[^A-Za-z0-9_.-]/g, '_')}`,
+          { type: 'apiKey', name, in: location }
+        ];
+      }
+      case 'oauth2': {
+        const token_url = getAuthParam(auth, 'accessTokenUrl');
+        const auth_url = getAuthParam(auth, 'authUrl');
+        // Without a token URL there are no flows to describe, only the token
+        if (!token_url) {
+          return ['bearerAuth', { type: 'http', scheme: 'bearer' }];
+        }
+        return [
+          'oauth2Auth',
+          {
+            type: 'oauth2',
+            flows: auth_url
+              ? {
+                  authorizationCode: {
+                    authorizationUrl: auth_url,
+                    tokenUrl: token_url,
+                    scopes: {}
+                  }
+                }
+              : { clientCredentials: { tokenUrl: token_url, scopes: {} } }
+          }
+        ];
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Gets the security requirements for a scheme
+   * @param scheme - Scheme name, null for noauth, or undefined
+   * @returns OpenApiSecurityRequirement[]
+   */
+  private getSecurity(
+    scheme: string | null | undefined
+  ): OpenApiSecurityRequirement[] {
+    return scheme ? [{ [scheme]: [] }] : [];
+  }
+
+  /**
+   * Creates a unique camelCase operationId from a request name
+   * @param name - Request name
+   * @param context - Export context
+   * @returns string
+   */
+  private createOperationId(name: string, context: ExportContext): string {
+    const words = name.match(/[A-Za-z0-9]+/g) ?? ['operation'];
+    const base = words
+      .map((word, index) =>
+        index === 0
+          ? word.toLowerCase()
+          : `${word[0]?.toUpperCase()}${word.slice(1).toLowerCase()}`
+      )
+      .join('');
+
+    let operation_id = base;
+    for (let counter = 2; context.operation_ids.has(operation_id); counter++) {
+      operation_id = `${base}${counter}`;
+    }
+    context.operation_ids.add(operation_id);
+
+    return operation_id;
+  }
+
+  /**
+   * Infers a JSON Schema from an example value
+   * @param value - Example value
+   * @returns OpenApiSchema
+   */
+  private inferSchema(value: unknown): OpenApiSchema {
+    if (value === null) {
+      return { type: 'null' };
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0
+        ? { type: 'array', items: this.inferSchema(value[0]) }
+        : { type: 'array' };
+    }
+
+    switch (typeof value) {
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'number':
+        return { type: Number.isInteger(value) ? 'integer' : 'number' };
+      case 'object': {
+        const properties: Record<string, OpenApiSchema> = {};
+        for (const [key, property] of Object.entries(value as object)) {
+          properties[key] = this.inferSchema(property);
+        }
+        return { type: 'object', properties };
+      }
+      default:
+        return { type: 'string' };
+    }
+  }
+
+  /**
+   * Parses a body as JSON when its media type is JSON
+   * @param body - Body text
+   * @param media_type - Media type
+   * @returns unknown - Parsed JSON, or the text itself
+   */
+  private parseBody(body: string, media_type: string): unknown {
+    if (!/[/+]json\b/.test(media_type)) {
+      return body;
+    }
+
+    return this.parseJson(body) ?? body;
+  }
+
+  /**
+   * Parses JSON text
+   * @param text - JSON text
+   * @returns unknown - Parsed value, or undefined when it is not valid JSON
+   */
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parses a parameter value into a number or boolean where it is one
+   * @param value - Parameter text
+   * @returns string | number | boolean
+   */
+  private parseScalar(value: string): string | number | boolean {
+    if (/^-?\d+$/.test(value) && Number.isSafeInteger(Number(value))) {
+      return Number(value);
+    }
+    if (/^-?\d+\.\d+$/.test(value)) {
+      return Number(value);
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+
+    return value;
+  }
+
+  /**
+   * Gets the value of a header, ignoring case and disabled headers
+   * @param headers - Headers
+   * @param key - Lower-case header name
+   * @returns string | undefined
+   */
+  private getHeaderValue(
+    headers: IPostmanHeader[] | string | undefined,
+    key: string
+  ): string | undefined {
+    if (!Array.isArray(headers)) {
+      return undefined;
+    }
+
+    const header = headers.find(
+      (entry) => !entry.disabled && entry.key?.toLowerCase() === key
+    );
+    return header?.value?.split(';')[0]?.trim() || undefined;
+  }
+
+  /**
+   * Gets the text of a description given as a string or { content }
+   * @param description - Description value
+   * @returns string
+   */
+  private getDescription(description: unknown): string {
+    if (typeof description === 'string') {
+      return description;
+    }
+    if (description && typeof description === 'object') {
+      const content = (description as { content?: unknown }).content;
+      return typeof content === 'string' ? content : '';
+    }
+
+    return '';
+  }
+}
+
+// Supporting types
+interface ExportContext {
+  // Collection variables, used to resolve {{variable}} hosts
+  variables: Map<string, string>;
+  warnings: string[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  // Every server found, and the servers of each path, in the order found
+  servers: OpenApiServer[];
+  path_servers: Record<string, OpenApiServer[]>;
+  security_schemes: Record<string, OpenApiSecurityScheme>;
+  operation_ids: Set<string>;
+}
+
+interface ParsedUrl {
+  server: OpenApiServer;
+  path: string;
+  parameters: OpenApiParameter[];
+}
+
+export type OpenApiSchema = Record<string, any>;
+
+export interface OpenApiServer {
+  url: string;
+  variables?: Record<string, { default: string }>;
+}
+
+export interface OpenApiTag {
+  name: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  description?: string;
+  required?: boolean;
+  schema?: OpenApiSchema;
+  example?: unknown;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+  examples?: Record<string, { value: unknown }>;
+}
+
+export interface OpenApiRequestBody {
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+export type OpenApiSecurityScheme = Record<string, any>;
+
+export interface OpenApiOperation {
+  summary: string;
+  operationId: string;
+  tags?: string[];
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  security?: OpenApiSecurityRequirement[];
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiPathItem {
+  // Only when the path is not served from the document's server
+  servers?: OpenApiServer[];
+  get?: OpenApiOperation;
+  put?: OpenApiOperation;
+  post?: OpenApiOperation;
+  delete?: OpenApiOperation;
+  options?: OpenApiOperation;
+  head?: OpenApiOperation;
+  patch?: OpenApiOperation;
+  trace?: OpenApiOperation;
+  // Other methods a request may use
+  [method: string]: OpenApiOperation | OpenApiServer[] | undefined;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: OpenApiServer[];
+  security?: OpenApiSecurityRequirement[];
+  tags?: OpenApiTag[];
+  paths?: Record<string, OpenApiPathItem>;
+  components?: { securitySchemes: Record<string, OpenApiSecurityScheme> };
+}
+
+// Export singleton instance
+export const openapi_exporter = new OpenApiExporter();
@@ -0,0 +1,105 @@
+/**
+ * Collection Loader
+ * Reads a collection from either a Postman JSON export or a split directory,
+ * so commands comparing collections can accept both interchangeably
+ */
+
+import { build_command } from '@/commands/build_command.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import type { ICollectionIndex, IPostmanCollection } from '@/types/postman.ts';
+
+/**
+ * Collection Loader class for reading collections from any supported source
+ */
+export class CollectionLoader {
+  /**
+   * Loads a collection from a JSON file or a split directory
+   * @param input_path - Path to a collection JSON file or split directory
+   * @param warnings - Collected warnings
+   * @returns Promise<LoadedCollection> - Collection and the kind of source
+   */
+  async loadCollection(
+    input_path: string,
+    warnings: string[]
+  ): Promise<LoadedCollection> {
+    if (!(await file_system_manager.pathExists(input_path))) {
+      throw new Error(`Path does not exist: ${input_path}`);
+    }
+
+    if (await file_system_manager.isDirectory(input_path)) {
+      return {
+        collection: await this.loadDirectory(input_path, warnings),
+        source_type: 'directory'
+      };
+    }
+
+    return {
+      collection: await this.loadJsonFile(input_path, warnings),
+      source_type: 'json'
+    };
+  }
+
+  /**
+   * Reassembles a collection from a split directory in memory
+   * @param input_path - Path to the split directory
+   * @param warnings - Collected warnings
+   * @returns Promise<IPostmanCollection>
+   */
+  private async loadDirectory(
+    input_path: string,
+    warnings: string[]
+  ): Promise<IPostmanCollection> {
+    const validation =
+      await file_system_manager.validateDirectoryStructure(input_path);
+    if (!validation.is_valid) {
+      throw new Error(validation.errors.join('; '));
+    }
+    warnings.push(...validation.warnings);
+
+    const index: ICollectionIndex =
+      await file_system_manager.readCollectionIndex(input_path);
+    if (index.meta?.type !== 'collection') {
+      throw new Error(
+        `Not a collection directory (index.json meta.type is "${index.meta?.type}"): ${input_path}`
+      );
+    }
+
+    const built = await build_command.buildCollection(input_path, {}, warnings);
+    return built.collection;
+  }
+
+  /**
+   * Reads and validates a collection JSON export
+   * @param input_path - Path to the JSON file
+   * @param warnings - Collected warnings
+   * @returns Promise<IPostmanCollection>
+   */
+  private async loadJsonFile(
+    input_path: string,
+    warnings: string[]
+  ): Promise<IPostmanCollection> {
+    const collection_json = await file_system_manager.readJsonFile(input_path);
+
+    const validation = postman_parser.validateCollection(collection_json);
+    if (!validation.is_valid) {
+      throw new Error(
+        `Invalid collection ${input_path}: ${validation.errors.join('; ')}`
+      );
+    }
+    warnings.push(...validation.warnings);
+
+    return collection_json;
+  }
+}
+
+// Supporting types
+export type CollectionSourceType = 'json' | 'directory';
+
+export interface LoadedCollection {
+  collection: IPostmanCollection;
+  source_type: CollectionSourceType;
+}
+
+// Export singleton instance
+export const collection_loader = new CollectionLoader();
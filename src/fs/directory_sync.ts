@@ -0,0 +1,256 @@
+/**
+ * Directory Sync
+ * Brings a directory in line with another one file by file, so that
+ * re-splitting into an existing tree rewrites only the files that changed
+ * and removes the ones that are gone
+ */
+
+import {
+  EXTRACTED_FILE_PATTERN,
+  file_system_manager
+} from '@/fs/file_system_manager.ts';
+import { EXAMPLES_DIRECTORY } from '@/parser/example_extractor.ts';
+
+/**
+ * Directory Sync class for updating a tree in place
+ */
+export class DirectorySync {
+  /**
+   * Makes the target directory match the source directory: writes the files
+   * that are new or differ, deletes the files of the target tree that the
+   * source does not have, and then the directories left without content.
+   * The tree's files are those its indexes list, see listTreeFiles; other
+   * files of the target, such as a README.md or a package.json, are kept
+   * unless a directory of the source takes their place; so are dotfiles and
+   * dot-directories, such as .gitignore and .secrets.json.
+   * @param source_path - Directory holding the wanted content
+   * @param target_path - Directory to update; created if missing
+   * @param dry_run - Only work out the changes, without writing anything
+   * @returns Promise<SyncChanges> - Changed paths relative to the target,
+   * with directories ending in "/"
+   */
+  async syncDirectory(
+    source_path: string,
+    target_path: string,
+    dry_run = false
+  ): Promise<SyncChanges> {
+    const changes: SyncChanges = { added: [], modified: [], deleted: [] };
+    const source = await this.listEntries(source_path);
+    const target = (await file_system_manager.isDirectory(target_path))
+      ? await this.listEntries(target_path)
+      : { files: [], directories: [] };
+
+    // Stale entries go first, so that none stands in the way of a new file
+    const source_files = new Set(source.files);
+    const source_directories = new Set(source.directories);
+    const tree_files = new Set(
+      (await file_system_manager.isDirectory(target_path))
+        ? await this.listTreeFiles(target_path)
+        : []
+    );
+    const kept = target.files.filter(
+      (file) =>
+        source_files.has(file) ||
+        this.isHidden(file) ||
+        !(tree_files.has(file) || source_directories.has(file))
+    );
+    for (const file of target.files) {
+      if (kept.includes(file)) {
+        continue;
+      }
+      changes.deleted.push(file);
+      if (!dry_run) {
+        await file_system_manager.removePath(
+          file_system_manager.joinPath(target_path, file)
+        );
+      }
+    }
+
+    // Deepest first, so that a directory is empty once its children are gone
+    for (const directory of [...target.directories].reverse()) {
+      if (
+        source_directories.has(directory) ||
+        this.isHidden(directory) ||
+        kept.some((file) => file.startsWith(`${directory}/`))
+      ) {
+        continue;
+      }
+      changes.deleted.push(`${directory}/`);
+      if (!dry_run) {
+        await file_system_manager.removePath(
+          file_system_manager.joinPath(target_path, directory)
+        );
+      }
+    }
+
+    const target_directories = new Set(target.directories);
+    for (const directory of source.directories) {
+      if (!target_directories.has(directory)) {
+        changes.added.push(`${directory}/`);
+      }
+    }
+
+    const target_files = new Set(target.files);
+    for (const file of source.files) {
+      const source_file = file_system_manager.joinPath(source_path, file);
+      const target_file = file_system_manager.joinPath(target_path, file);
+      if (!target_files.has(file)) {
+        changes.added.push(file);
+      } else if (
+        await file_system_manager.haveSameContent(source_file, target_file)
+      ) {
+        continue;
+      } else {
+        changes.modified.push(file);
+      }
+
+      if (!dry_run) {
+        await file_system_manager.copyFile(source_file, target_file);
+      }
+    }
+
+    changes.added.sort();
+    changes.modified.sort();
+    changes.deleted.sort();
+    return changes;
+  }
+
+  /**
+   * Lists the files and directories under a directory, recursively
+   * @param root_path - Directory to list
+   * @param prefix - Relative path of the listed directory, for recursion
+   * @returns Promise<DirectoryEntries> - Relative paths with "/" separators,
+   * each directory before its content
+   */
+  private async listEntries(
+    root_path: string,
+    prefix = ''
+  ): Promise<DirectoryEntries> {
+    const entries: DirectoryEntries = { files: [], directories: [] };
+
+    for (const name of (
+      await file_system_manager.listDirectory(
+        file_system_manager.joinPath(root_path, prefix)
+      )
+    ).sort()) {
+      const relative_path = `${prefix}${name}`;
+      if (
+        await file_system_manager.isDirectory(
+          file_system_manager.joinPath(root_path, relative_path)
+        )
+      ) {
+        const nested = await this.listEntries(root_path, `${relative_path}/`);
+        entries.directories.push(relative_path, ...nested.directories);
+        entries.files.push(...nested.files);
+      } else {
+        entries.files.push(relative_path);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Lists the files a split tree owns: each index and the entries of its
+   * order, the scripts and bodies extracted next to them, which are named
+   * after them, and the examples/<request>/ directory of each request.
+   * Folders are followed through the order, so files no index lists are
+   * left out, whatever their name.
+   * @param root_path - Tree directory
+   * @param prefix - Relative path of the listed folder, for recursion
+   * @returns Promise<string[]> - Relative paths with "/" separators
+   */
+  private async listTreeFiles(
+    root_path: string,
+    prefix = ''
+  ): Promise<string[]> {
+    const directory_path = file_system_manager.joinPath(root_path, prefix);
+    const index_path = await file_system_manager.findIndexFile(directory_path);
+    if (!index_path) {
+      return [];
+    }
+
+    let order: string[] = [];
+    try {
+      const index = await file_system_manager.readTreeFile(index_path);
+      order = Array.isArray(index?.order) ? index.order : [];
+    } catch (_error) {
+      // An index that cannot be read owns only itself
+    }
+
+    const names = await file_system_manager.listDirectory(directory_path);
+    const files = [`${prefix}${file_system_manager.getBasename(index_path)}`];
+    const stems = ['index'];
+    for (const entry of order) {
+      if (!names.includes(entry)) {
+        continue;
+      }
+      const entry_path = file_system_manager.joinPath(directory_path, entry);
+      if (await file_system_manager.isDirectory(entry_path)) {
+        files.push(
+          ...(await this.listTreeFiles(root_path, `${prefix}${entry}/`))
+        );
+        continue;
+      }
+      if (!file_system_manager.isTreeFile(entry)) {
+        continue;
+      }
+
+      const stem = entry.slice(
+        0,
+        -file_system_manager.getTreeFileExtension(
+          file_system_manager.getTreeFormat(entry)
+        ).length
+      );
+      files.push(`${prefix}${entry}`);
+      stems.push(stem);
+
+      const examples_prefix = `${prefix}${EXAMPLES_DIRECTORY}/${stem}/`;
+      if (
+        await file_system_manager.isDirectory(
+          file_system_manager.joinPath(root_path, examples_prefix)
+        )
+      ) {
+        files.push(
+          ...(await this.listEntries(root_path, examples_prefix)).files
+        );
+      }
+    }
+
+    for (const name of names) {
+      if (
+        EXTRACTED_FILE_PATTERN.test(name) &&
+        stems.some((stem) => name.startsWith(`${stem}.`)) &&
+        !order.includes(name)
+      ) {
+        files.push(`${prefix}${name}`);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Checks whether a path is, or is inside, a dotfile or dot-directory
+   * @param relative_path - Path with "/" separators
+   * @returns boolean
+   */
+  private isHidden(relative_path: string): boolean {
+    return relative_path.split('/').some((segment) => segment.startsWith('.'));
+  }
+}
+
+// Supporting types
+export interface SyncChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+interface DirectoryEntries {
+  files: string[];
+  directories: string[];
+}
+
+// Export singleton instance
+export const directory_sync = new DirectorySync();
@@ -3,14 +3,37 @@
  * Handles directory creation, file reading/writing, and path operations
  */
 
-import { access, mkdir, readdir, stat } from 'node:fs/promises';
+import { access, mkdir, mkdtemp, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import { basename, dirname, join, resolve } from 'node:path';
+import {
+  type SerializeOptions,
+  json_serializer
+} from '@/fs/json_serializer.ts';
+import { yaml_serializer } from '@/fs/yaml_serializer.ts';
 import type {
   ICollectionIndex,
   IFolderIndex,
-  IRequestFile
+  IPostmanEvent,
+  IRequestFile,
+  TreeFormat
 } from '@/types/postman.ts';
 
+// Scripts and bodies that split extracts next to request and index files
+export const EXTRACTED_FILE_PATTERN =
+  /\.(body\.[a-z]+|variables\.json|graphql|js)$/;
+
+// Extension of the index and request files of each tree format
+export const TREE_FILE_EXTENSIONS: Record<TreeFormat, string> = {
+  json: '.json',
+  yaml: '.yaml'
+};
+
+// Index file names, looked up in this order when reading a tree
+export const INDEX_FILE_NAMES = Object.values(TREE_FILE_EXTENSIONS).map(
+  (extension) => `index${extension}`
+);
+
 /**
  * File System Manager class for handling all file operations
  */
@@ -29,19 +52,24 @@ export class FileSystemManager {
   }
 
   /**
-   * Writes JSON data to a file with proper formatting
+   * Writes JSON data to a file in canonical form
    * @param file_path - Path to write the file
    * @param data - Data to write as JSON
+   * @param options - Indentation, line ending and document type
    * @returns Promise<void>
    */
-  async writeJsonFile(file_path: string, data: any): Promise<void> {
+  async writeJsonFile(
+    file_path: string,
+    data: any,
+    options: SerializeOptions = {}
+  ): Promise<void> {
     try {
       // Ensure directory exists
       const dir = dirname(file_path);
       await this.createDirectory(dir);
 
-      // Write formatted JSON using Bun's native file API
-      const json_content = JSON.stringify(data, null, 2);
+      // Write canonical JSON using Bun's native file API
+      const json_content = json_serializer.stringify(data, options);
       await Bun.write(file_path, json_content);
     } catch (error) {
       throw new Error(`Failed to write JSON file ${file_path}: ${error}`);
@@ -62,6 +90,144 @@ export class FileSystemManager {
     }
   }
 
+  /**
+   * Writes data to a file as YAML, with keys in the same canonical order as
+   * JSON files
+   * @param file_path - Path to write the file
+   * @param data - Data to write as YAML
+   * @param options - Line ending and document type
+   * @returns Promise<void>
+   */
+  async writeYamlFile(
+    file_path: string,
+    data: any,
+    options: SerializeOptions = {}
+  ): Promise<void> {
+    try {
+      await this.createDirectory(dirname(file_path));
+      const yaml_content = yaml_serializer.stringify(
+        json_serializer.canonicalize(data, options.type)
+      );
+      await Bun.write(
+        file_path,
+        json_serializer.applyLineEnding(`${yaml_content}\n`, options.eol)
+      );
+    } catch (error) {
+      throw new Error(`Failed to write YAML file ${file_path}: ${error}`);
+    }
+  }
+
+  /**
+   * Reads and parses a YAML file
+   * @param file_path - Path to read the file from
+   * @returns Promise<any> - Parsed YAML data
+   */
+  async readYamlFile(file_path: string): Promise<any> {
+    try {
+      const file = Bun.file(file_path);
+      return Bun.YAML.parse(await file.text());
+    } catch (error) {
+      throw new Error(`Failed to read YAML file ${file_path}: ${error}`);
+    }
+  }
+
+  /**
+   * Writes plain text content to a file as-is
+   * @param file_path - Path to write the file
+   * @param content - Text content to write
+   * @returns Promise<void>
+   */
+  async writeTextFile(file_path: string, content: string): Promise<void> {
+    try {
+      // Ensure directory exists
+      const dir = dirname(file_path);
+      await this.createDirectory(dir);
+
+      await Bun.write(file_path, content);
+    } catch (error) {
+      throw new Error(`Failed to write file ${file_path}: ${error}`);
+    }
+  }
+
+  /**
+   * Reads a file as plain text
+   * @param file_path - Path to read the file from
+   * @returns Promise<string> - File content
+   */
+  async readTextFile(file_path: string): Promise<string> {
+    try {
+      const file = Bun.file(file_path);
+      return await file.text();
+    } catch (error) {
+      throw new Error(`Failed to read file ${file_path}: ${error}`);
+    }
+  }
+
+  /**
+   * Copies a file, creating the target directory if needed
+   * @param source_path - File to copy
+   * @param target_path - Path to copy the file to
+   * @returns Promise<void>
+   */
+  async copyFile(source_path: string, target_path: string): Promise<void> {
+    try {
+      await this.createDirectory(dirname(target_path));
+      await Bun.write(target_path, Bun.file(source_path));
+    } catch (error) {
+      throw new Error(
+        `Failed to copy file ${source_path} to ${target_path}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Checks whether two files hold the same bytes
+   * @param first_path - First file
+   * @param second_path - Second file
+   * @returns Promise<boolean>
+   */
+  async haveSameContent(
+    first_path: string,
+    second_path: string
+  ): Promise<boolean> {
+    try {
+      const [first, second] = await Promise.all([
+        Bun.file(first_path).arrayBuffer(),
+        Bun.file(second_path).arrayBuffer()
+      ]);
+      return Buffer.from(first).equals(Buffer.from(second));
+    } catch (error) {
+      throw new Error(
+        `Failed to compare files ${first_path} and ${second_path}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Deletes a file, or a directory and everything in it
+   * @param path - Path to delete
+   * @returns Promise<void>
+   */
+  async removePath(path: string): Promise<void> {
+    try {
+      await rm(path, { recursive: true, force: true });
+    } catch (error) {
+      throw new Error(`Failed to remove ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Creates an empty directory in the system's temporary directory
+   * @returns Promise<string> - Path of the new directory
+   */
+  async createTemporaryDirectory(): Promise<string> {
+    try {
+      return await mkdtemp(join(tmpdir(), 'carveman-'));
+    } catch (error) {
+      throw new Error(`Failed to create temporary directory: ${error}`);
+    }
+  }
+
   /**
    * Checks if a file or directory exists
    * @param path - Path to check
@@ -128,7 +294,8 @@ export class FileSystemManager {
     const structure: DirectoryStructure = {
       folders: [],
       files: [],
-      index_files: []
+      index_files: [],
+      extracted_files: []
     };
 
     try {
@@ -144,13 +311,19 @@ export class FileSystemManager {
             relative_path: item
           });
         } else if (await this.isFile(item_path)) {
-          if (item === 'index.json') {
+          if (INDEX_FILE_NAMES.includes(item)) {
             structure.index_files.push({
               name: item,
               path: item_path,
               relative_path: item
             });
-          } else if (item.endsWith('.json')) {
+          } else if (this.isExtractedFile(item, items)) {
+            structure.extracted_files.push({
+              name: item,
+              path: item_path,
+              relative_path: item
+            });
+          } else if (this.isTreeFile(item)) {
             structure.files.push({
               name: item,
               path: item_path,
@@ -169,76 +342,182 @@ export class FileSystemManager {
   }
 
   /**
-   * Writes collection index.json file
+   * Writes collection index file
    * @param directory_path - Directory to write in
    * @param collection_index - Collection index data
+   * @param options - Format, indentation and line ending of the file
    * @returns Promise<void>
    */
   async writeCollectionIndex(
     directory_path: string,
-    collection_index: ICollectionIndex
+    collection_index: ICollectionIndex,
+    options: TreeFileOptions = {}
   ): Promise<void> {
-    const index_path = join(directory_path, 'index.json');
-    await this.writeJsonFile(index_path, collection_index);
+    const index_path = join(
+      directory_path,
+      `index${this.getTreeFileExtension(options.format)}`
+    );
+    await this.writeTreeFile(index_path, collection_index, options);
   }
 
   /**
-   * Writes folder index.json file
+   * Writes folder index file
    * @param directory_path - Directory to write in
    * @param folder_index - Folder index data
+   * @param options - Format, indentation and line ending of the file
    * @returns Promise<void>
    */
   async writeFolderIndex(
     directory_path: string,
-    folder_index: IFolderIndex
+    folder_index: IFolderIndex,
+    options: TreeFileOptions = {}
   ): Promise<void> {
-    const index_path = join(directory_path, 'index.json');
-    await this.writeJsonFile(index_path, folder_index);
+    const index_path = join(
+      directory_path,
+      `index${this.getTreeFileExtension(options.format)}`
+    );
+    await this.writeTreeFile(index_path, folder_index, options);
   }
 
   /**
-   * Writes request JSON file
+   * Writes request file
    * @param directory_path - Directory to write in
    * @param filename - Name of the file
    * @param request_data - Request data
+   * @param options - Format, indentation and line ending of the file
    * @returns Promise<void>
    */
   async writeRequestFile(
     directory_path: string,
     filename: string,
-    request_data: IRequestFile
+    request_data: IRequestFile,
+    options: TreeFileOptions = {}
   ): Promise<void> {
     const file_path = join(directory_path, filename);
-    await this.writeJsonFile(file_path, request_data);
+    await this.writeTreeFile(file_path, request_data, options);
+  }
+
+  /**
+   * Writes an index or request file of a split tree. In YAML, exec lines
+   * are joined into exec_text so that scripts read as block scalars.
+   * @param file_path - Path to write the file
+   * @param data - Index or request data
+   * @param options - Format, indentation and line ending of the file
+   * @returns Promise<void>
+   */
+  async writeTreeFile(
+    file_path: string,
+    data: ICollectionIndex | IFolderIndex | IRequestFile,
+    options: TreeFileOptions = {}
+  ): Promise<void> {
+    if (options.format === 'yaml') {
+      await this.writeYamlFile(
+        file_path,
+        {
+          ...data,
+          event: data.event?.map((event) => this.joinExecLines(event))
+        },
+        options
+      );
+      return;
+    }
+
+    await this.writeJsonFile(file_path, data, options);
+  }
+
+  /**
+   * Reads an index or request file of a split tree, in either format
+   * @param file_path - Path of a .json or .yaml file
+   * @param format - Format of the file (default: told from its extension)
+   * @returns Promise<any> - Parsed data
+   */
+  async readTreeFile(
+    file_path: string,
+    format: TreeFormat = this.getTreeFormat(file_path)
+  ): Promise<any> {
+    if (format === 'json') {
+      return await this.readJsonFile(file_path);
+    }
+
+    const data = await this.readYamlFile(file_path);
+    if (Array.isArray(data?.event)) {
+      data.event = data.event.map((event: IPostmanEvent) =>
+        this.splitExecText(event)
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Finds the index file of a directory, index.json or index.yaml
+   * @param directory_path - Directory to look in
+   * @returns Promise<string | null> - Path of the index file, if any
+   */
+  async findIndexFile(directory_path: string): Promise<string | null> {
+    for (const file_name of INDEX_FILE_NAMES) {
+      const index_path = join(directory_path, file_name);
+      if (await this.pathExists(index_path)) {
+        return index_path;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the extension of the index and request files of a tree format
+   * @param format - Tree format (default: json)
+   * @returns string - ".json" or ".yaml"
+   */
+  getTreeFileExtension(format: TreeFormat = 'json'): string {
+    return TREE_FILE_EXTENSIONS[format];
+  }
+
+  /**
+   * Tells the tree format of an index or request file from its extension
+   * @param file_path - Path of a .json or .yaml file
+   * @returns TreeFormat
+   */
+  getTreeFormat(file_path: string): TreeFormat {
+    return file_path.endsWith(TREE_FILE_EXTENSIONS.yaml) ? 'yaml' : 'json';
+  }
+
+  /**
+   * Checks whether a file name is that of a request or index file
+   * @param file_name - File name
+   * @returns boolean
+   */
+  isTreeFile(file_name: string): boolean {
+    return Object.values(TREE_FILE_EXTENSIONS).some((extension) =>
+      file_name.endsWith(extension)
+    );
   }
 
   /**
-   * Reads collection index.json file
+   * Reads collection index file
    * @param directory_path - Directory to read from
    * @returns Promise<ICollectionIndex>
    */
   async readCollectionIndex(directory_path: string): Promise<ICollectionIndex> {
-    const index_path = join(directory_path, 'index.json');
-    return await this.readJsonFile(index_path);
+    return await this.readIndexFile(directory_path);
   }
 
   /**
-   * Reads folder index.json file
+   * Reads folder index file
    * @param directory_path - Directory to read from
    * @returns Promise<IFolderIndex>
    */
   async readFolderIndex(directory_path: string): Promise<IFolderIndex> {
-    const index_path = join(directory_path, 'index.json');
-    return await this.readJsonFile(index_path);
+    return await this.readIndexFile(directory_path);
   }
 
   /**
-   * Reads request JSON file
+   * Reads request file
    * @param file_path - Full path to the request file
    * @returns Promise<IRequestFile>
    */
   async readRequestFile(file_path: string): Promise<IRequestFile> {
-    return await this.readJsonFile(file_path);
+    return await this.readTreeFile(file_path);
   }
 
   /**
@@ -270,20 +549,22 @@ export class FileSystemManager {
         return result;
       }
 
-      // Check for index.json
-      const index_path = join(directory_path, 'index.json');
-      if (!(await this.pathExists(index_path))) {
+      // Check for index.json or index.yaml
+      const index_path = await this.findIndexFile(directory_path);
+      if (!index_path) {
         result.is_valid = false;
-        result.errors.push(`Missing index.json in: ${directory_path}`);
+        result.errors.push(
+          `Missing index.json or index.yaml in: ${directory_path}`
+        );
         return result;
       }
 
-      // Try to parse index.json
+      // Try to parse the index file
       try {
-        await this.readJsonFile(index_path);
+        await this.readTreeFile(index_path);
       } catch (error) {
         result.is_valid = false;
-        result.errors.push(`Invalid JSON in index.json: ${error}`);
+        result.errors.push(`Invalid ${basename(index_path)}: ${error}`);
       }
     } catch (error) {
       result.is_valid = false;
@@ -293,6 +574,32 @@ export class FileSystemManager {
     return result;
   }
 
+  /**
+   * Finds the root of the split collection a directory belongs to, walking
+   * up through folder index.json files
+   * @param directory_path - Collection or folder directory
+   * @returns Promise<string | null> - Collection root, or null if the
+   * directory is not inside a split collection
+   */
+  async findCollectionRoot(directory_path: string): Promise<string | null> {
+    let current = resolve(directory_path);
+
+    let index_path = await this.findIndexFile(current);
+    while (index_path) {
+      const index = await this.readTreeFile(index_path);
+      if (index?.meta?.type === 'collection') {
+        return current;
+      }
+      if (index?.meta?.type !== 'folder' || dirname(current) === current) {
+        return null;
+      }
+      current = dirname(current);
+      index_path = await this.findIndexFile(current);
+    }
+
+    return null;
+  }
+
   /**
    * Resolves absolute path from relative path
    * @param relative_path - Relative path
@@ -328,9 +635,90 @@ export class FileSystemManager {
   joinPath(...segments: string[]): string {
     return join(...segments);
   }
+
+  /**
+   * Checks whether a file holds a script or body that split extracted.
+   * A request may be named like one, such as "Config.variables.json": a
+   * request or index file only counts as extracted when the file it was
+   * extracted from, "Config.json" or "Config.yaml", is next to it.
+   * @param file_name - File name
+   * @param sibling_names - Names of the entries in the same directory
+   * @returns boolean
+   */
+  private isExtractedFile(file_name: string, sibling_names: string[]): boolean {
+    const match = EXTRACTED_FILE_PATTERN.exec(file_name);
+    if (!match) {
+      return false;
+    }
+    if (!this.isTreeFile(file_name)) {
+      return true;
+    }
+
+    const stem = file_name.slice(0, match.index);
+    return Object.values(TREE_FILE_EXTENSIONS).some((extension) =>
+      sibling_names.includes(`${stem}${extension}`)
+    );
+  }
+
+  /**
+   * Reads the index file of a directory, in either format
+   * @param directory_path - Directory to read from
+   * @returns Promise<any> - Parsed index
+   */
+  private async readIndexFile(directory_path: string): Promise<any> {
+    const index_path =
+      (await this.findIndexFile(directory_path)) ??
+      join(directory_path, 'index.json');
+    return await this.readTreeFile(index_path);
+  }
+
+  /**
+   * Replaces exec lines with one text, when they can be restored line for
+   * line; other exec values are written as they are
+   * @param event - Event to write
+   * @returns IPostmanEvent
+   */
+  private joinExecLines(event: IPostmanEvent): IPostmanEvent {
+    const exec = event.script?.exec;
+    if (
+      !(
+        Array.isArray(exec) &&
+        exec.length > 0 &&
+        exec.every((line) => typeof line === 'string' && !line.includes('\n'))
+      )
+    ) {
+      return event;
+    }
+
+    const { exec: _exec, ...script } = event.script;
+    return {
+      ...event,
+      script: { ...script, exec_text: `${exec.join('\n')}\n` }
+    };
+  }
+
+  /**
+   * Restores the exec lines of an event read from a YAML file
+   * @param event - Event read
+   * @returns IPostmanEvent
+   */
+  private splitExecText(event: IPostmanEvent): IPostmanEvent {
+    const exec_text = event?.script?.exec_text;
+    if (typeof exec_text !== 'string') {
+      return event;
+    }
+
+    const { exec_text: _exec_text, ...script } = event.script;
+    const text = exec_text.endsWith('\n') ? exec_text.slice(0, -1) : exec_text;
+    return { ...event, script: { ...script, exec: text.split('\n') } };
+  }
 }
 
 // Supporting types
+export interface TreeFileOptions extends SerializeOptions {
+  format?: TreeFormat;
+}
+
 export interface DirectoryItem {
   name: string;
   path: string;
@@ -341,6 +729,7 @@ export interface DirectoryStructure {
   folders: DirectoryItem[];
   files: DirectoryItem[];
   index_files: DirectoryItem[];
+  extracted_files: DirectoryItem[];
 }
 
 export interface ValidationResult {
@@ -0,0 +1,467 @@
+/**
+ * JSON Serializer
+ * Writes data in one canonical form, so that the same collection gives the
+ * same bytes however its objects were built or exported: Postman and
+ * Carveman objects list their keys in a fixed order per object type, and
+ * every document ends with a line ending.
+ */
+
+import type { LineEnding } from '@/types/postman.ts';
+
+// Auth types of the collection format, each holding a list of attributes
+const AUTH_TYPES = [
+  'apikey',
+  'awsv4',
+  'basic',
+  'bearer',
+  'digest',
+  'edgegrid',
+  'hawk',
+  'noauth',
+  'oauth1',
+  'oauth2',
+  'ntlm',
+  'jwt',
+  'asap'
+];
+
+// Key order of each object type, and the types of the objects nested under
+// its keys. Keys not listed follow the listed ones in alphabetical order;
+// objects of no known type keep their keys as they are.
+const OBJECT_LAYOUTS: Record<ObjectType, ObjectLayout> = {
+  collection: {
+    keys: [
+      'info',
+      'item',
+      'auth',
+      'event',
+      'variable',
+      'protocolProfileBehavior'
+    ],
+    children: {
+      info: 'info',
+      item: 'item',
+      auth: 'auth',
+      event: 'event',
+      variable: 'variable'
+    }
+  },
+  collection_index: {
+    keys: [
+      'meta',
+      'info',
+      'variable',
+      'event',
+      'auth',
+      'protocolProfileBehavior',
+      'order'
+    ],
+    children: {
+      meta: 'meta',
+      info: 'info',
+      variable: 'variable',
+      event: 'event',
+      auth: 'auth'
+    }
+  },
+  folder_index: {
+    keys: [
+      'meta',
+      'id',
+      'name',
+      'description',
+      'variable',
+      'event',
+      'auth',
+      'protocolProfileBehavior',
+      'order'
+    ],
+    children: {
+      meta: 'meta',
+      description: 'description',
+      variable: 'variable',
+      event: 'event',
+      auth: 'auth'
+    }
+  },
+  request_file: {
+    keys: [
+      'meta',
+      'id',
+      'name',
+      'description',
+      'variable',
+      'event',
+      'request',
+      'response',
+      'response_files',
+      'auth',
+      'protocolProfileBehavior'
+    ],
+    children: {
+      meta: 'meta',
+      description: 'description',
+      variable: 'variable',
+      event: 'event',
+      request: 'request',
+      response: 'response',
+      auth: 'auth'
+    }
+  },
+  meta: {
+    keys: [
+      'type',
+      'version',
+      'generated_by',
+      'generated_at',
+      'parent_path',
+      'folder_path'
+    ],
+    children: {}
+  },
+  info: {
+    keys: [
+      '_postman_id',
+      'name',
+      'description',
+      'schema',
+      '_exporter_id',
+      '_collection_link',
+      'version'
+    ],
+    children: { description: 'description' }
+  },
+  description: {
+    keys: ['content', 'type', 'version'],
+    children: {}
+  },
+  item: {
+    keys: [
+      'name',
+      'id',
+      'description',
+      'item',
+      'auth',
+      'event',
+      'variable',
+      'protocolProfileBehavior',
+      'request',
+      'response'
+    ],
+    children: {
+      description: 'description',
+      item: 'item',
+      auth: 'auth',
+      event: 'event',
+      variable: 'variable',
+      request: 'request',
+      response: 'response'
+    }
+  },
+  event: {
+    keys: ['listen', 'script', 'disabled'],
+    children: { script: 'script' }
+  },
+  script: {
+    keys: ['id', 'type', 'packages', 'exec', 'exec_file', 'exec_text', 'src'],
+    children: {}
+  },
+  auth: {
+    keys: ['type', ...AUTH_TYPES],
+    children: Object.fromEntries(
+      AUTH_TYPES.map((auth_type): [string, ObjectType] => [
+        auth_type,
+        'parameter'
+      ])
+    )
+  },
+  request: {
+    keys: [
+      'auth',
+      'method',
+      'header',
+      'body',
+      'url',
+      'proxy',
+      'certificate',
+      'description'
+    ],
+    children: {
+      auth: 'auth',
+      header: 'parameter',
+      body: 'body',
+      url: 'url',
+      description: 'description'
+    }
+  },
+  url: {
+    keys: [
+      'raw',
+      'protocol',
+      'host',
+      'port',
+      'path',
+      'query',
+      'hash',
+      'variable'
+    ],
+    children: { query: 'parameter', variable: 'variable' }
+  },
+  body: {
+    keys: [
+      'mode',
+      'raw',
+      'raw_file',
+      'urlencoded',
+      'formdata',
+      'file',
+      'graphql',
+      'options',
+      'disabled'
+    ],
+    children: {
+      urlencoded: 'parameter',
+      formdata: 'parameter',
+      graphql: 'graphql'
+    }
+  },
+  graphql: {
+    keys: ['query', 'query_file', 'variables', 'variables_file'],
+    children: {}
+  },
+  parameter: {
+    keys: ['key', 'value', 'type', 'src', 'disabled', 'description'],
+    children: { description: 'description' }
+  },
+  variable: {
+    keys: ['id', 'key', 'value', 'type', 'name', 'description', 'disabled'],
+    children: { description: 'description' }
+  },
+  response: {
+    keys: [
+      'id',
+      'name',
+      'originalRequest',
+      'status',
+      'code',
+      '_postman_previewlanguage',
+      'header',
+      'cookie',
+      'responseTime',
+      'body',
+      'body_file',
+      'timings'
+    ],
+    children: { originalRequest: 'request', header: 'parameter' }
+  },
+  environment: {
+    keys: [
+      'id',
+      'name',
+      'values',
+      '_postman_variable_scope',
+      '_postman_exported_at',
+      '_postman_exported_using'
+    ],
+    children: { values: 'environment_value' }
+  },
+  environment_index: {
+    keys: [
+      'meta',
+      'id',
+      'name',
+      '_postman_variable_scope',
+      '_postman_exported_at',
+      '_postman_exported_using',
+      'order'
+    ],
+    children: { meta: 'meta' }
+  },
+  environment_value: {
+    keys: ['key', 'value', 'type', 'enabled'],
+    children: {}
+  }
+};
+
+// Document types of the files split writes, by their meta.type
+const META_TYPES: Record<string, ObjectType> = {
+  collection: 'collection_index',
+  folder: 'folder_index',
+  request: 'request_file',
+  environment: 'environment_index'
+};
+
+/**
+ * JSON Serializer class for canonical, diff-friendly output
+ */
+export class JsonSerializer {
+  /**
+   * Converts a value to canonical JSON
+   * @param value - Value to serialize
+   * @param options - Indentation, line ending and document type
+   * @returns string - JSON document, ending with a line ending
+   */
+  stringify(value: unknown, options: SerializeOptions = {}): string {
+    const json = JSON.stringify(
+      this.canonicalize(value, options.type),
+      null,
+      options.indent ?? 2
+    );
+
+    return this.applyLineEnding(`${json}\n`, options.eol);
+  }
+
+  /**
+   * Copies a value with the keys of its objects in canonical order and
+   * without undefined fields; undefined array items become null
+   * @param value - Value to copy
+   * @param type - Object type of the value, or of its items if it is an
+   * array (default: told from the content)
+   * @returns unknown - Canonical copy
+   */
+  canonicalize(value: unknown, type?: ObjectType): unknown {
+    return this.orderKeys(value, type ?? this.detectType(value));
+  }
+
+  /**
+   * Converts the "\n" line endings of a text
+   * @param text - Text with "\n" line endings
+   * @param eol - Line ending to use (default: lf)
+   * @returns string
+   */
+  applyLineEnding(text: string, eol: LineEnding = 'lf'): string {
+    return eol === 'crlf' ? text.replaceAll('\n', '\r\n') : text;
+  }
+
+  /**
+   * Orders the keys of a value and of everything nested in it
+   * @param value - Value to copy
+   * @param type - Object type of the value or of its items, if known
+   * @returns unknown - Canonical copy
+   */
+  private orderKeys(value: unknown, type: ObjectType | undefined): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        item === undefined ? null : this.orderKeys(item, type)
+      );
+    }
+    if (!this.isObject(value)) {
+      return value;
+    }
+
+    const layout = type ? OBJECT_LAYOUTS[type] : undefined;
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+    if (layout) {
+      keys.sort((a, b) => this.compareKeys(a, b, layout.keys));
+    }
+
+    return Object.fromEntries(
+      keys.map((key) => [
+        key,
+        this.orderKeys(value[key], layout?.children[key])
+      ])
+    );
+  }
+
+  /**
+   * Compares two keys: listed keys first, in their listed order, then the
+   * others alphabetically
+   * @param a - First key
+   * @param b - Second key
+   * @param order - Listed keys
+   * @returns number
+   */
+  private compareKeys(a: string, b: string, order: string[]): number {
+    const rank_a = order.indexOf(a);
+    const rank_b = order.indexOf(b);
+
+    if (rank_a !== -1 || rank_b !== -1) {
+      if (rank_a === -1) {
+        return 1;
+      }
+      if (rank_b === -1) {
+        return -1;
+      }
+      return rank_a - rank_b;
+    }
+    if (a === b) {
+      return 0;
+    }
+    return a < b ? -1 : 1;
+  }
+
+  /**
+   * Tells the document type of a value from its content
+   * @param value - Document
+   * @returns ObjectType | undefined - Type, if the value is a collection,
+   * an environment or a file of a split tree
+   */
+  private detectType(value: unknown): ObjectType | undefined {
+    if (!this.isObject(value)) {
+      return undefined;
+    }
+
+    const meta = value.meta;
+    if (this.isObject(meta) && typeof meta.type === 'string') {
+      return META_TYPES[meta.type];
+    }
+    if (this.isObject(value.info) && Array.isArray(value.item)) {
+      return 'collection';
+    }
+    if (typeof value.name === 'string' && Array.isArray(value.values)) {
+      return 'environment';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether a value is a plain object
+   * @param value - Value to check
+   * @returns boolean
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+// Supporting types
+export type ObjectType =
+  | 'collection'
+  | 'collection_index'
+  | 'folder_index'
+  | 'request_file'
+  | 'meta'
+  | 'info'
+  | 'description'
+  | 'item'
+  | 'event'
+  | 'script'
+  | 'auth'
+  | 'request'
+  | 'url'
+  | 'body'
+  | 'graphql'
+  | 'parameter'
+  | 'variable'
+  | 'response'
+  | 'environment'
+  | 'environment_index'
+  | 'environment_value';
+
+interface ObjectLayout {
+  keys: string[];
+  children: Record<string, ObjectType>;
+}
+
+export interface SerializeOptions {
+  // Spaces of indentation (default: 2)
+  indent?: number;
+  // Line ending (default: lf)
+  eol?: LineEnding;
+  // Object type of the document, when it cannot be told from its content
+  type?: ObjectType;
+}
+
+// Export singleton instance
+export const json_serializer = new JsonSerializer();
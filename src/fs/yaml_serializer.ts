@@ -0,0 +1,183 @@
+/**
+ * YAML Serializer
+ * Writes block-style YAML in which multi-line strings (descriptions, scripts,
+ * bodies) become literal block scalars instead of escaped one-liners.
+ * Scalars are quoted by Bun's YAML support, which also parses the output.
+ */
+
+// Spaces per nesting level
+const INDENT = '  ';
+
+// Characters besides the ASCII controls that a literal block scalar cannot
+// hold as they are
+const UNSAFE_BLOCK_CHARACTERS = [0x7f, 0x85, 0x2028, 0x2029, 0xfeff];
+
+/**
+ * YAML Serializer class for readable YAML output
+ */
+export class YamlSerializer {
+  /**
+   * Converts a JSON-compatible value to YAML. Undefined object fields are
+   * left out, as JSON.stringify does.
+   * @param value - Value to serialize
+   * @returns string - YAML document, without a trailing newline
+   */
+  stringify(value: unknown): string {
+    if (this.isCollection(value)) {
+      return this.renderCollection(value, '').join('\n');
+    }
+
+    return this.renderEntry('', value, '').join('\n').trimStart();
+  }
+
+  /**
+   * Renders the entries of a non-empty object or array
+   * @param value - Object or array
+   * @param indent - Indentation of the entries
+   * @returns string[] - Lines
+   */
+  private renderCollection(
+    value: Record<string, unknown> | unknown[],
+    indent: string
+  ): string[] {
+    if (Array.isArray(value)) {
+      return value.flatMap((item) =>
+        this.renderEntry('-', item === undefined ? null : item, indent)
+      );
+    }
+
+    return Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .flatMap(([key, field]) =>
+        this.renderEntry(`${this.renderScalar(key)}:`, field, indent)
+      );
+  }
+
+  /**
+   * Renders a key or sequence entry with its value
+   * @param prefix - "key:" or "-"
+   * @param value - Entry value
+   * @param indent - Indentation of the entry
+   * @returns string[] - Lines
+   */
+  private renderEntry(
+    prefix: string,
+    value: unknown,
+    indent: string
+  ): string[] {
+    const child_indent = `${indent}${INDENT}`;
+
+    if (typeof value === 'string' && this.isBlockString(value)) {
+      return [
+        `${indent}${prefix} ${this.getBlockHeader(value)}`,
+        ...this.getBlockLines(value).map((line) =>
+          line ? `${child_indent}${line}` : ''
+        )
+      ];
+    }
+
+    if (!this.isCollection(value)) {
+      return [`${indent}${prefix} ${this.renderScalar(value)}`];
+    }
+
+    const lines = this.renderCollection(value, child_indent);
+    if (prefix !== '-') {
+      return [`${indent}${prefix}`, ...lines];
+    }
+
+    // Sequence entries start on the dash line: "- key: value"
+    const [first = '', ...rest] = lines;
+    return [`${indent}- ${first.slice(child_indent.length)}`, ...rest];
+  }
+
+  /**
+   * Renders a single-line value
+   * @param value - String, number, boolean, null or empty collection
+   * @returns string
+   */
+  private renderScalar(value: unknown): string {
+    if (Array.isArray(value)) {
+      return '[]';
+    }
+    if (value !== null && typeof value === 'object') {
+      return '{}';
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return 'null';
+    }
+
+    return Bun.YAML.stringify(value ?? null, null, 2);
+  }
+
+  /**
+   * Checks whether a value is an object or array with entries
+   * @param value - Value to check
+   * @returns boolean
+   */
+  private isCollection(
+    value: unknown
+  ): value is Record<string, unknown> | unknown[] {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      Object.values(value).some((field) => field !== undefined)
+    );
+  }
+
+  /**
+   * Checks whether a string is written as a literal block scalar: it must
+   * span several lines, have content, and hold only printable characters
+   * @param value - String to check
+   * @returns boolean
+   */
+  private isBlockString(value: string): boolean {
+    return (
+      value.includes('\n') &&
+      /\S/.test(value) &&
+      !value.split('').some((character) => {
+        const code = character.charCodeAt(0);
+        return (
+          (code < 32 && character !== '\t' && character !== '\n') ||
+          UNSAFE_BLOCK_CHARACTERS.includes(code)
+        );
+      })
+    );
+  }
+
+  /**
+   * Gets the "|" header of a block scalar, with the indentation indicator
+   * needed when the text starts with a space or a blank line, and the
+   * chomping indicator that keeps its trailing newlines exact
+   * @param value - Block string
+   * @returns string
+   */
+  private getBlockHeader(value: string): string {
+    const indentation = /^[ \n]/.test(value) ? String(INDENT.length) : '';
+
+    if (!value.endsWith('\n')) {
+      return `|${indentation}-`;
+    }
+    return value.endsWith('\n\n') ? `|${indentation}+` : `|${indentation}`;
+  }
+
+  /**
+   * Splits a block string into its lines, without the final newline
+   * @param value - Block string
+   * @returns string[]
+   */
+  private getBlockLines(value: string): string[] {
+    const lines = value.split('\n');
+    if (value.endsWith('\n')) {
+      lines.pop();
+    }
+
+    return lines;
+  }
+}
+
+// Export singleton instance
+export const yaml_serializer = new YamlSerializer();
@@ -0,0 +1,132 @@
+/**
+ * Git Integration
+ * Runs git to locate the repository and register carveman in its config and
+ * .gitattributes
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+
+// Name of the merge driver in git config ("merge.<name>.driver")
+export const MERGE_DRIVER_NAME = 'carveman';
+
+/**
+ * Git Integration class for repository configuration
+ */
+export class GitIntegration {
+  /**
+   * Runs a git command
+   * @param args - Arguments after "git"
+   * @param cwd - Directory to run in
+   * @returns Promise<GitCommandResult>
+   */
+  async runGit(args: string[], cwd: string): Promise<GitCommandResult> {
+    try {
+      const git_process = Bun.spawn(['git', ...args], {
+        cwd,
+        stdout: 'pipe',
+        stderr: 'pipe'
+      });
+
+      const [stdout, stderr, exit_code] = await Promise.all([
+        new Response(git_process.stdout).text(),
+        new Response(git_process.stderr).text(),
+        git_process.exited
+      ]);
+
+      return { exit_code, stdout: stdout.trim(), stderr: stderr.trim() };
+    } catch (error) {
+      throw new Error(`Failed to run git: ${error}`);
+    }
+  }
+
+  /**
+   * Finds the root of the git repository containing a directory
+   * @param directory_path - Directory inside the repository
+   * @returns Promise<string> - Absolute repository root
+   */
+  async getRepositoryRoot(directory_path: string): Promise<string> {
+    const result = await this.runGit(
+      ['rev-parse', '--show-toplevel'],
+      directory_path
+    );
+    if (result.exit_code !== 0) {
+      throw new Error(`Not a git repository: ${directory_path}`);
+    }
+
+    return result.stdout;
+  }
+
+  /**
+   * Sets a value in the repository's local git config
+   * @param key - Config key
+   * @param value - Config value
+   * @param repository_root - Repository root
+   * @returns Promise<void>
+   */
+  async setConfig(
+    key: string,
+    value: string,
+    repository_root: string
+  ): Promise<void> {
+    const result = await this.runGit(
+      ['config', '--local', key, value],
+      repository_root
+    );
+    if (result.exit_code !== 0) {
+      throw new Error(`Failed to set git config ${key}: ${result.stderr}`);
+    }
+  }
+
+  /**
+   * Adds a line to the repository's .gitattributes unless an identical line
+   * is already there
+   * @param repository_root - Repository root
+   * @param pattern - Path pattern
+   * @param attribute - Attribute to assign
+   * @returns Promise<boolean> - True if the line was added
+   */
+  async addAttribute(
+    repository_root: string,
+    pattern: string,
+    attribute: string
+  ): Promise<boolean> {
+    const attributes_path = this.getAttributesPath(repository_root);
+    const line = `${pattern} ${attribute}`;
+
+    let content = '';
+    if (await file_system_manager.pathExists(attributes_path)) {
+      content = await file_system_manager.readTextFile(attributes_path);
+    }
+
+    const existing = content.split('\n').map((entry) => entry.trim());
+    if (existing.includes(line)) {
+      return false;
+    }
+
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+    await file_system_manager.writeTextFile(
+      attributes_path,
+      `${content}${separator}${line}\n`
+    );
+    return true;
+  }
+
+  /**
+   * Gets the path of the repository's top-level .gitattributes
+   * @param repository_root - Repository root
+   * @returns string - Path to .gitattributes
+   */
+  getAttributesPath(repository_root: string): string {
+    return file_system_manager.joinPath(repository_root, '.gitattributes');
+  }
+}
+
+// Supporting types
+export interface GitCommandResult {
+  exit_code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Export singleton instance
+export const git_integration = new GitIntegration();
@@ -0,0 +1,683 @@
+/**
+ * cURL Importer
+ * Parses a curl command line, as copied from a terminal or browser devtools,
+ * into a request
+ */
+
+import { POSTMAN_COLLECTION_SCHEMA } from '@/import/openapi_importer.ts';
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanFormParam,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanUrl
+} from '@/types/postman.ts';
+import { getBodyLanguage, getRequestName } from '@/utils/request_helpers.ts';
+
+// Options that take a value but do not change the request
+const IGNORED_VALUE_OPTIONS = [
+  '-o',
+  '--output',
+  '-m',
+  '--max-time',
+  '--connect-timeout',
+  '--retry',
+  '-w',
+  '--write-out',
+  '-x',
+  '--proxy',
+  '--cacert',
+  '-E',
+  '--cert',
+  '--key',
+  '--resolve',
+  '-c',
+  '--cookie-jar'
+];
+
+// Flags that do not change the request
+const IGNORED_FLAGS = [
+  '-L',
+  '--location',
+  '-k',
+  '--insecure',
+  '-s',
+  '--silent',
+  '-S',
+  '--show-error',
+  '-v',
+  '--verbose',
+  '-i',
+  '--include',
+  '-f',
+  '--fail',
+  '--fail-with-body',
+  '-N',
+  '--no-buffer',
+  '-#',
+  '--progress-bar',
+  '--compressed',
+  '--http1.1',
+  '--http2',
+  '--basic'
+];
+
+// Short options that take a value, which may be attached (-XPOST)
+const SHORT_VALUE_OPTIONS = 'XHdFuAebTomwxEc';
+
+/**
+ * cURL Importer class for converting curl commands to requests
+ */
+export class CurlImporter {
+  /**
+   * Converts a curl command into a collection holding its request
+   * @param command - curl command line
+   * @param warnings - Collected warnings
+   * @returns IPostmanCollection
+   */
+  convert(command: string, warnings: string[]): IPostmanCollection {
+    return {
+      info: { name: 'curl', schema: POSTMAN_COLLECTION_SCHEMA },
+      item: [this.convertCommand(command, warnings)]
+    };
+  }
+
+  /**
+   * Converts a curl command into a request item
+   * @param command - curl command line
+   * @param warnings - Collected warnings
+   * @returns IPostmanItem
+   */
+  private convertCommand(command: string, warnings: string[]): IPostmanItem {
+    const args = this.tokenize(command);
+    if (args[0] !== 'curl') {
+      throw new Error('Not a curl command: it must start with "curl"');
+    }
+
+    const parsed = this.parseArguments(args.slice(1), warnings);
+    if (!parsed.url) {
+      throw new Error('curl command has no URL');
+    }
+
+    const data = parsed.data.join('&');
+    let raw_url = /^[a-z][a-z0-9+.-]*:\/\//i.test(parsed.url)
+      ? parsed.url
+      : `http://${parsed.url}`;
+    if (parsed.get && data) {
+      raw_url += `${raw_url.includes('?') ? '&' : '?'}${data}`;
+    }
+
+    const body_file = parsed.upload_file ?? parsed.data_file;
+    const has_body =
+      !parsed.get &&
+      (parsed.data.length > 0 || parsed.form.length > 0 || Boolean(body_file));
+    const method = (
+      parsed.method ??
+      (parsed.head
+        ? 'HEAD'
+        : parsed.upload_file
+          ? 'PUT'
+          : has_body
+            ? 'POST'
+            : 'GET')
+    ).toUpperCase();
+
+    const url = this.convertUrl(raw_url);
+    const request: IPostmanRequest = {
+      method,
+      header: parsed.headers,
+      url
+    };
+    const auth = this.createAuth(parsed);
+    if (auth) {
+      request.auth = auth;
+    }
+
+    if (parsed.form.length > 0) {
+      request.body = { mode: 'formdata', formdata: parsed.form };
+    } else if (body_file) {
+      request.body = { mode: 'file', file: { src: body_file } };
+    } else if (has_body) {
+      request.body = this.convertData(parsed, data);
+    }
+
+    return {
+      name: `${method} ${getRequestName(url)}`,
+      request
+    };
+  }
+
+  /**
+   * Splits a command line into arguments the way a POSIX shell would:
+   * quotes, backslash escapes and line continuations are honoured
+   * @param command - Command line
+   * @returns string[]
+   */
+  private tokenize(command: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let in_word = false;
+    let index = 0;
+
+    while (index < command.length) {
+      const char = command[index] ?? '';
+
+      if (char === '\\') {
+        const next = command[index + 1] ?? '';
+        // A backslash at the end of a line continues the command
+        if (next === '\n' || (next === '\r' && command[index + 2] === '\n')) {
+          index += next === '\r' ? 3 : 2;
+          continue;
+        }
+        current += next;
+        in_word = true;
+        index += 2;
+      } else if (char === "'") {
+        const end = command.indexOf("'", index + 1);
+        if (end === -1) {
+          throw new Error('Unterminated single quote in curl command');
+        }
+        current += command.slice(index + 1, end);
+        in_word = true;
+        index = end + 1;
+      } else if (char === '$' && command[index + 1] === "'") {
+        const [text, end] = this.readAnsiQuoted(command, index + 2);
+        current += text;
+        in_word = true;
+        index = end;
+      } else if (char === '"') {
+        const [text, end] = this.readDoubleQuoted(command, index + 1);
+        current += text;
+        in_word = true;
+        index = end;
+      } else if (/\s/.test(char)) {
+        if (in_word) {
+          args.push(current);
+          current = '';
+          in_word = false;
+        }
+        index++;
+      } else {
+        current += char;
+        in_word = true;
+        index++;
+      }
+    }
+
+    if (in_word) {
+      args.push(current);
+    }
+
+    return args;
+  }
+
+  /**
+   * Reads a double-quoted string, where a backslash only escapes $, `, ",
+   * \ and newlines
+   * @param command - Command line
+   * @param start - Index after the opening quote
+   * @returns [string, number] - Text and the index after the closing quote
+   */
+  private readDoubleQuoted(command: string, start: number): [string, number] {
+    let text = '';
+    let index = start;
+
+    while (index < command.length) {
+      const char = command[index] ?? '';
+      if (char === '"') {
+        return [text, index + 1];
+      }
+      const next = command[index + 1] ?? '';
+      if (char === '\\' && '$`"\\\n'.includes(next)) {
+        text += next === '\n' ? '' : next;
+        index += 2;
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    throw new Error('Unterminated double quote in curl command');
+  }
+
+  /**
+   * Reads an ANSI-C quoted string ($'...'), as browsers copy bodies with
+   * escaped characters
+   * @param command - Command line
+   * @param start - Index after the opening quote
+   * @returns [string, number] - Text and the index after the closing quote
+   */
+  private readAnsiQuoted(command: string, start: number): [string, number] {
+    const escapes: Record<string, string> = {
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      '\\': '\\',
+      "'": "'",
+      '"': '"'
+    };
+    let text = '';
+    let index = start;
+
+    while (index < command.length) {
+      const char = command[index] ?? '';
+      if (char === "'") {
+        return [text, index + 1];
+      }
+      if (char === '\\') {
+        const next = command[index + 1] ?? '';
+        const hex = next === 'x' ? command.slice(index + 2, index + 4) : '';
+        if (hex && /^[0-9a-f]{2}$/i.test(hex)) {
+          text += String.fromCharCode(Number.parseInt(hex, 16));
+          index += 4;
+        } else {
+          text += escapes[next] ?? `\\${next}`;
+          index += 2;
+        }
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    throw new Error("Unterminated $'...' quote in curl command");
+  }
+
+  /**
+   * Reads curl options into the parts of a request
+   * @param args - Arguments after "curl"
+   * @param warnings - Collected warnings
+   * @returns ParsedCurl
+   */
+  private parseArguments(args: string[], warnings: string[]): ParsedCurl {
+    const parsed: ParsedCurl = {
+      headers: [],
+      data: [],
+      form: [],
+      get: false,
+      head: false,
+      digest: false
+    };
+
+    for (let i = 0; i < args.length; i++) {
+      let arg = args[i] ?? '';
+      let value: string | undefined;
+
+      // Short options may carry their value (-XPOST) or be combined (-sSL)
+      if (/^-[^-]/.test(arg) && arg.length > 2) {
+        if (SHORT_VALUE_OPTIONS.includes(arg[1] ?? '')) {
+          value = arg.slice(2);
+          arg = arg.slice(0, 2);
+        } else if (
+          [...arg.slice(1)].every((flag) => IGNORED_FLAGS.includes(`-${flag}`))
+        ) {
+          continue;
+        }
+      }
+
+      const takeValue = (): string => {
+        if (value !== undefined) {
+          return value;
+        }
+        i++;
+        const next = args[i];
+        if (next === undefined) {
+          throw new Error(`curl option ${arg} requires a value`);
+        }
+        return next;
+      };
+
+      switch (arg) {
+        case '-X':
+        case '--request':
+          parsed.method = takeValue();
+          break;
+        case '-H':
+        case '--header': {
+          const header = this.parseHeader(takeValue());
+          if (header) {
+            parsed.headers.push(header);
+          }
+          break;
+        }
+        case '-A':
+        case '--user-agent':
+          parsed.headers.push({ key: 'User-Agent', value: takeValue() });
+          break;
+        case '-e':
+        case '--referer':
+          parsed.headers.push({ key: 'Referer', value: takeValue() });
+          break;
+        case '-b':
+        case '--cookie': {
+          const cookie = takeValue();
+          if (cookie.includes('=')) {
+            parsed.headers.push({ key: 'Cookie', value: cookie });
+          } else {
+            warnings.push(`Cookie file "${cookie}" was not imported`);
+          }
+          break;
+        }
+        case '-d':
+        case '--data':
+        case '--data-ascii':
+        case '--data-binary': {
+          const data = takeValue();
+          if (data.startsWith('@')) {
+            parsed.data_file = data.slice(1);
+          } else {
+            parsed.data.push(
+              arg === '--data-binary' ? data : data.replace(/[\r\n]/g, '')
+            );
+          }
+          break;
+        }
+        case '--data-raw':
+          parsed.data.push(takeValue());
+          break;
+        case '--data-urlencode':
+          parsed.data.push(this.encodeData(takeValue(), warnings));
+          parsed.urlencode = true;
+          break;
+        case '--json': {
+          parsed.data.push(takeValue());
+          for (const key of ['Content-Type', 'Accept']) {
+            if (!this.findHeader(parsed.headers, key)) {
+              parsed.headers.push({ key, value: 'application/json' });
+            }
+          }
+          break;
+        }
+        case '-F':
+        case '--form':
+          parsed.form.push(this.parseFormField(takeValue(), false));
+          break;
+        case '--form-string':
+          parsed.form.push(this.parseFormField(takeValue(), true));
+          break;
+        case '-T':
+        case '--upload-file':
+          parsed.upload_file = takeValue();
+          break;
+        case '-u':
+        case '--user':
+          parsed.user = takeValue();
+          break;
+        case '--digest':
+          parsed.digest = true;
+          break;
+        case '--oauth2-bearer':
+          parsed.bearer = takeValue();
+          break;
+        case '-G':
+        case '--get':
+          parsed.get = true;
+          break;
+        case '-I':
+        case '--head':
+          parsed.head = true;
+          break;
+        case '--url':
+          parsed.url = takeValue();
+          break;
+        default: {
+          if (IGNORED_VALUE_OPTIONS.includes(arg)) {
+            takeValue();
+          } else if (IGNORED_FLAGS.includes(arg)) {
+            // Transfer options have no equivalent in a saved request
+          } else if (arg.startsWith('-')) {
+            warnings.push(`Unknown curl option ${arg} was ignored`);
+          } else if (parsed.url) {
+            warnings.push(`Extra URL ${arg} was ignored`);
+          } else {
+            parsed.url = arg;
+          }
+        }
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parses a "Name: value" header; "Name;" sends an empty header
+   * @param header - Header argument
+   * @returns IPostmanHeader | undefined
+   */
+  private parseHeader(header: string): IPostmanHeader | undefined {
+    const separator = header.indexOf(':');
+    if (separator === -1) {
+      return header.endsWith(';')
+        ? { key: header.slice(0, -1).trim(), value: '' }
+        : undefined;
+    }
+
+    return {
+      key: header.slice(0, separator).trim(),
+      value: header.slice(separator + 1).trim()
+    };
+  }
+
+  /**
+   * Encodes a --data-urlencode argument the way curl sends it
+   * @param data - "name=content", "=content" or "content"
+   * @param warnings - Collected warnings
+   * @returns string - Encoded pair
+   */
+  private encodeData(data: string, warnings: string[]): string {
+    const separator = data.indexOf('=');
+    if (separator === -1) {
+      if (/^[^@]*@/.test(data)) {
+        warnings.push(`Form data read from a file (${data}) was not imported`);
+      }
+      return encodeURIComponent(data);
+    }
+
+    const name = data.slice(0, separator);
+    const content = encodeURIComponent(data.slice(separator + 1));
+    return name ? `${name}=${content}` : content;
+  }
+
+  /**
+   * Parses a multipart form field; "@path" uploads a file
+   * @param field - "name=value" or "name=@path;type=..."
+   * @param literal - Whether the value is taken as is (--form-string)
+   * @returns IPostmanFormParam
+   */
+  private parseFormField(field: string, literal: boolean): IPostmanFormParam {
+    const separator = field.indexOf('=');
+    const key = separator === -1 ? field : field.slice(0, separator);
+    const value = separator === -1 ? '' : field.slice(separator + 1);
+
+    if (!literal && (value.startsWith('@') || value.startsWith('<'))) {
+      return { key, type: 'file', src: value.slice(1).split(';')[0] ?? '' };
+    }
+
+    return { key, value, type: 'text' };
+  }
+
+  /**
+   * Creates the auth definition of --oauth2-bearer or --user credentials
+   * @param parsed - Parsed command
+   * @returns IPostmanAuth | undefined
+   */
+  private createAuth(parsed: ParsedCurl): IPostmanAuth | undefined {
+    if (parsed.bearer !== undefined) {
+      return {
+        type: 'bearer',
+        bearer: [{ key: 'token', value: parsed.bearer, type: 'string' }]
+      };
+    }
+    if (parsed.user === undefined) {
+      return undefined;
+    }
+
+    const [username = '', ...password] = parsed.user.split(':');
+    const type = parsed.digest ? 'digest' : 'basic';
+    return {
+      type,
+      [type]: [
+        { key: 'username', value: username, type: 'string' },
+        { key: 'password', value: password.join(':'), type: 'string' }
+      ]
+    };
+  }
+
+  /**
+   * Converts posted data into a urlencoded body when it is form data, and
+   * a raw body otherwise
+   * @param parsed - Parsed command
+   * @param data - Posted data, joined with "&" as curl sends it
+   * @returns IPostmanBody
+   */
+  private convertData(parsed: ParsedCurl, data: string): IPostmanBody {
+    const content_type = (
+      this.findHeader(parsed.headers, 'Content-Type')?.value ?? ''
+    )
+      .split(';')[0]
+      ?.trim()
+      .toLowerCase();
+
+    const is_form =
+      content_type === 'application/x-www-form-urlencoded' ||
+      (!content_type &&
+        (parsed.urlencode ||
+          /^[^=&{}[\]\s]+(=[^&]*)?(&[^=&{}[\]\s]+(=[^&]*)?)*$/.test(data)));
+    if (is_form) {
+      return {
+        mode: 'urlencoded',
+        urlencoded: data
+          .split('&')
+          .filter(Boolean)
+          .map((pair) => {
+            const [key = '', ...value] = pair.split('=');
+            return {
+              key: this.decode(key),
+              value: this.decode(value.join('=')),
+              type: 'text'
+            };
+          })
+      };
+    }
+
+    const body: IPostmanBody = { mode: 'raw', raw: data };
+    const language = this.getLanguage(content_type ?? '', data);
+    if (language !== 'text') {
+      body.options = { raw: { language } };
+    }
+
+    return body;
+  }
+
+  /**
+   * Converts a URL, keeping it as raw text when it cannot be parsed (e.g. a
+   * {{variable}} host)
+   * @param raw - URL
+   * @returns IPostmanUrl
+   */
+  private convertUrl(raw: string): IPostmanUrl {
+    let parsed: URL;
+    try {
+      parsed = new URL(raw);
+    } catch {
+      return { raw };
+    }
+
+    const url: IPostmanUrl = {
+      raw,
+      protocol: parsed.protocol.replace(/:$/, ''),
+      host: parsed.hostname.split('.'),
+      path: parsed.pathname.split('/').filter(Boolean)
+    };
+    if (parsed.port) {
+      url.port = parsed.port;
+    }
+    // Query params are kept as written, the way Postman stores them
+    const query = (raw.split('#')[0]?.split('?').slice(1).join('?') ?? '')
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key = '', ...value] = pair.split('=');
+        return { key, value: value.join('=') };
+      });
+    if (query.length > 0) {
+      url.query = query;
+    }
+    if (parsed.hash) {
+      url.hash = parsed.hash.slice(1);
+    }
+
+    return url;
+  }
+
+  /**
+   * Gets the Postman body language from a content type, or from the body
+   * itself when there is none
+   * @param content_type - Content type without parameters
+   * @param data - Body
+   * @returns string
+   */
+  private getLanguage(content_type: string, data: string): string {
+    if (!content_type && /^\s*[{[]/.test(data)) {
+      return 'json';
+    }
+
+    return getBodyLanguage(content_type);
+  }
+
+  /**
+   * Finds a header by name, ignoring case
+   * @param headers - Headers
+   * @param key - Header name
+   * @returns IPostmanHeader | undefined
+   */
+  private findHeader(
+    headers: IPostmanHeader[],
+    key: string
+  ): IPostmanHeader | undefined {
+    return headers.find(
+      (header) => header.key.toLowerCase() === key.toLowerCase()
+    );
+  }
+
+  /**
+   * Decodes a form-encoded component, leaving malformed ones as they are
+   * @param value - Encoded component
+   * @returns string
+   */
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      return value;
+    }
+  }
+}
+
+// Supporting types
+interface ParsedCurl {
+  url?: string;
+  method?: string;
+  headers: IPostmanHeader[];
+  // Posted data, in the order given
+  data: string[];
+  // Whether any data came from --data-urlencode
+  urlencode?: boolean;
+  // File posted with -d @file
+  data_file?: string;
+  form: IPostmanFormParam[];
+  // File sent with -T, which defaults the method to PUT
+  upload_file?: string;
+  // "user:password" credentials
+  user?: string;
+  digest: boolean;
+  bearer?: string;
+  get: boolean;
+  head: boolean;
+}
+
+// Export singleton instance
+export const curl_importer = new CurlImporter();
@@ -0,0 +1,267 @@
+/**
+ * HAR Importer
+ * Converts the entries of an HTTP Archive, as saved by browser devtools,
+ * into requests with their responses as saved examples
+ */
+
+import { POSTMAN_COLLECTION_SCHEMA } from '@/import/openapi_importer.ts';
+import type {
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanResponse,
+  IPostmanUrl
+} from '@/types/postman.ts';
+import { getBodyLanguage, getRequestName } from '@/utils/request_helpers.ts';
+
+// Headers the client computes for each request, which a saved request
+// should not pin
+const COMPUTED_HEADERS = ['content-length', 'host', 'connection'];
+
+/**
+ * HAR Importer class for converting HTTP Archives to collections
+ */
+export class HarImporter {
+  /**
+   * Converts a HAR document into a collection with one request per entry
+   * @param har - Parsed HAR document
+   * @param name - Collection name
+   * @param warnings - Collected warnings
+   * @returns IPostmanCollection
+   */
+  convert(har: any, name: string, warnings: string[]): IPostmanCollection {
+    const entries = har?.log?.entries;
+    if (!Array.isArray(entries)) {
+      throw new Error('Not a HAR file: missing "log.entries" array');
+    }
+
+    const items: IPostmanItem[] = [];
+    entries.forEach((entry: any, index: number) => {
+      if (!entry?.request?.url || !entry.request.method) {
+        warnings.push(`HAR entry ${index} has no request URL or method`);
+        return;
+      }
+      try {
+        items.push(this.convertEntry(entry, warnings));
+      } catch (error) {
+        warnings.push(`HAR entry ${index} was skipped: ${error}`);
+      }
+    });
+
+    return {
+      info: { name, schema: POSTMAN_COLLECTION_SCHEMA },
+      item: items
+    };
+  }
+
+  /**
+   * Converts one HAR entry into a request item
+   * @param entry - HAR entry
+   * @param warnings - Collected warnings
+   * @returns IPostmanItem
+   */
+  private convertEntry(entry: any, warnings: string[]): IPostmanItem {
+    const har_request = entry.request;
+    const method = String(har_request.method).toUpperCase();
+    const url = this.convertUrl(har_request);
+
+    const request: IPostmanRequest = {
+      method,
+      header: this.convertHeaders(har_request.headers),
+      url
+    };
+    const body = this.convertBody(har_request.postData);
+    if (body) {
+      request.body = body;
+    }
+
+    const item: IPostmanItem = {
+      name: `${method} ${getRequestName(url)}`,
+      request
+    };
+
+    const response = this.convertResponse(entry.response, request, warnings);
+    if (response) {
+      item.response = [response];
+    }
+
+    return item;
+  }
+
+  /**
+   * Converts a request URL, taking the query from the entry's parsed
+   * queryString when present
+   * @param har_request - HAR request
+   * @returns IPostmanUrl
+   */
+  private convertUrl(har_request: any): IPostmanUrl {
+    const parsed = new URL(har_request.url);
+
+    const url: IPostmanUrl = {
+      raw: har_request.url,
+      protocol: parsed.protocol.replace(/:$/, ''),
+      host: parsed.hostname.split('.'),
+      path: parsed.pathname.split('/').filter(Boolean)
+    };
+    if (parsed.port) {
+      url.port = parsed.port;
+    }
+
+    const query = Array.isArray(har_request.queryString)
+      ? har_request.queryString.map((param: any) => ({
+          key: String(param.name),
+          value: String(param.value ?? '')
+        }))
+      : [...parsed.searchParams].map(([key, value]) => ({ key, value }));
+    if (query.length > 0) {
+      url.query = query;
+    }
+    if (parsed.hash) {
+      url.hash = parsed.hash.slice(1);
+    }
+
+    return url;
+  }
+
+  /**
+   * Converts HAR headers, leaving out HTTP/2 pseudo-headers and headers the
+   * client computes itself
+   * @param headers - HAR headers
+   * @returns IPostmanHeader[]
+   */
+  private convertHeaders(headers: any[] | undefined): IPostmanHeader[] {
+    return (headers ?? [])
+      .filter(
+        (header) =>
+          typeof header?.name === 'string' &&
+          !header.name.startsWith(':') &&
+          !COMPUTED_HEADERS.includes(header.name.toLowerCase())
+      )
+      .map((header) => ({
+        key: header.name,
+        value: String(header.value ?? '')
+      }));
+  }
+
+  /**
+   * Converts posted data into a request body
+   * @param post_data - HAR postData
+   * @returns IPostmanBody | undefined
+   */
+  private convertBody(post_data: any): IPostmanBody | undefined {
+    if (!post_data) {
+      return undefined;
+    }
+
+    const mime_type = String(post_data.mimeType ?? '')
+      .split(';')[0]
+      ?.trim();
+    const params: any[] = Array.isArray(post_data.params)
+      ? post_data.params
+      : [];
+
+    if (
+      mime_type === 'application/x-www-form-urlencoded' &&
+      params.length > 0
+    ) {
+      return {
+        mode: 'urlencoded',
+        urlencoded: params.map((param) => ({
+          key: String(param.name),
+          value: String(param.value ?? ''),
+          type: 'text'
+        }))
+      };
+    }
+    if (mime_type === 'multipart/form-data' && params.length > 0) {
+      return {
+        mode: 'formdata',
+        formdata: params.map((param) =>
+          param.fileName
+            ? { key: String(param.name), type: 'file', src: param.fileName }
+            : {
+                key: String(param.name),
+                value: String(param.value ?? ''),
+                type: 'text'
+              }
+        )
+      };
+    }
+
+    if (!post_data.text) {
+      return undefined;
+    }
+
+    const body: IPostmanBody = { mode: 'raw', raw: post_data.text };
+    const language = getBodyLanguage(mime_type ?? '');
+    if (language !== 'text') {
+      body.options = { raw: { language } };
+    }
+
+    return body;
+  }
+
+  /**
+   * Converts an entry's response into a saved example
+   * @param har_response - HAR response
+   * @param request - Request the example belongs to
+   * @param warnings - Collected warnings
+   * @returns IPostmanResponse | undefined
+   */
+  private convertResponse(
+    har_response: any,
+    request: IPostmanRequest,
+    warnings: string[]
+  ): IPostmanResponse | undefined {
+    // Blocked or aborted requests are recorded with status 0
+    if (!har_response?.status) {
+      return undefined;
+    }
+
+    const content = har_response.content ?? {};
+    const mime_type =
+      String(content.mimeType ?? '')
+        .split(';')[0]
+        ?.trim() ?? '';
+    let body = typeof content.text === 'string' ? content.text : '';
+    if (body && content.encoding === 'base64') {
+      if (this.isTextMimeType(mime_type)) {
+        body = Buffer.from(body, 'base64').toString('utf8');
+      } else {
+        warnings.push(
+          `Binary ${mime_type || 'response'} body of ${request.method} ${(request.url as IPostmanUrl).raw} was not imported`
+        );
+        body = '';
+      }
+    }
+
+    return {
+      name: `${har_response.status} ${har_response.statusText ?? ''}`.trim(),
+      originalRequest: structuredClone(request),
+      status: har_response.statusText ?? '',
+      code: har_response.status,
+      _postman_previewlanguage: getBodyLanguage(mime_type),
+      header: this.convertHeaders(har_response.headers),
+      cookie: [],
+      body
+    };
+  }
+
+  /**
+   * Checks whether a MIME type carries text
+   * @param mime_type - MIME type without parameters
+   * @returns boolean
+   */
+  private isTextMimeType(mime_type: string): boolean {
+    return (
+      mime_type.startsWith('text/') ||
+      /[/+](json|xml)$/.test(mime_type) ||
+      /javascript$/.test(mime_type)
+    );
+  }
+}
+
+// Export singleton instance
+export const har_importer = new HarImporter();
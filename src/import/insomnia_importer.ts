@@ -0,0 +1,770 @@
+/**
+ * Insomnia Importer
+ * Converts an Insomnia v4 export into a collection: the workspace's request
+ * groups become folders, its base environment becomes collection variables,
+ * and Nunjucks template syntax becomes Postman {{variable}} syntax
+ */
+
+import { POSTMAN_COLLECTION_SCHEMA } from '@/import/openapi_importer.ts';
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanEvent,
+  IPostmanFormParam,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanQueryParam,
+  IPostmanRequest,
+  IPostmanUrl,
+  IPostmanVariable
+} from '@/types/postman.ts';
+import { getBodyLanguage } from '@/utils/request_helpers.ts';
+
+// Export format version written by Insomnia since 2019
+const INSOMNIA_EXPORT_FORMAT = 4;
+
+// Resource types that are converted, or hold nothing worth warning about
+const HANDLED_RESOURCE_TYPES = [
+  'workspace',
+  'request_group',
+  'request',
+  'environment',
+  'cookie_jar'
+];
+
+// Template tags with a Postman dynamic variable equivalent
+const DYNAMIC_VARIABLES: Record<string, (args: string[]) => string | null> = {
+  uuid: () => '$guid',
+  now: (args) => {
+    switch (args[0]) {
+      case 'millis':
+      case 'unix':
+        return '$timestamp';
+      case 'iso-8601':
+      case undefined:
+        return '$isoTimestamp';
+      default:
+        return null;
+    }
+  },
+  faker: (args) => (args[0] ? `$${args[0]}` : null)
+};
+
+/**
+ * Insomnia Importer class for converting Insomnia exports to collections
+ */
+export class InsomniaImporter {
+  /**
+   * Converts an Insomnia v4 export into a Postman collection
+   * @param document - Parsed Insomnia export
+   * @param warnings - Collected warnings
+   * @returns IPostmanCollection
+   */
+  convert(document: any, warnings: string[]): IPostmanCollection {
+    if (
+      document?._type !== 'export' ||
+      document.__export_format !== INSOMNIA_EXPORT_FORMAT ||
+      !Array.isArray(document.resources)
+    ) {
+      throw new Error(
+        `Not an Insomnia v${INSOMNIA_EXPORT_FORMAT} export (expected "_type": "export" and "__export_format": ${INSOMNIA_EXPORT_FORMAT})`
+      );
+    }
+
+    const resources: any[] = document.resources;
+    const workspaces = resources.filter(
+      (resource) => resource?._type === 'workspace'
+    );
+    const workspace = workspaces[0];
+    if (!workspace) {
+      throw new Error('Insomnia export contains no workspace');
+    }
+    for (const skipped of workspaces.slice(1)) {
+      warnings.push(
+        `Only the first workspace is imported; workspace "${skipped.name}" was skipped`
+      );
+    }
+
+    const context: ImportContext = {
+      children: this.groupByParent(resources),
+      warnings,
+      scripts_warned: false
+    };
+    this.warnUnsupportedResources(resources, warnings);
+
+    const collection: IPostmanCollection = {
+      info: {
+        name: workspace.name || 'Insomnia Workspace',
+        schema: POSTMAN_COLLECTION_SCHEMA
+      },
+      item: this.convertChildren(workspace._id, context)
+    };
+    if (workspace.description) {
+      collection.info.description = workspace.description;
+    }
+
+    const variables = this.convertEnvironments(workspace._id, context);
+    if (variables.length > 0) {
+      collection.variable = variables;
+    }
+
+    return collection;
+  }
+
+  /**
+   * Indexes resources by their parent, each list sorted the way Insomnia
+   * shows it
+   * @param resources - Export resources
+   * @returns Map<string, any[]>
+   */
+  private groupByParent(resources: any[]): Map<string, any[]> {
+    const children = new Map<string, any[]>();
+    for (const resource of resources) {
+      if (!resource?.parentId) {
+        continue;
+      }
+      const siblings = children.get(resource.parentId) ?? [];
+      siblings.push(resource);
+      children.set(resource.parentId, siblings);
+    }
+
+    for (const siblings of children.values()) {
+      siblings.sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0));
+    }
+
+    return children;
+  }
+
+  /**
+   * Warns about resource types a collection cannot hold, once per type
+   * @param resources - Export resources
+   * @param warnings - Collected warnings
+   */
+  private warnUnsupportedResources(resources: any[], warnings: string[]): void {
+    const counts = new Map<string, number>();
+    for (const resource of resources) {
+      const type = String(resource?._type ?? 'unknown');
+      if (!HANDLED_RESOURCE_TYPES.includes(type)) {
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      if (type === 'cookie_jar' && resource.cookies?.length > 0) {
+        warnings.push(
+          `Cookie jar "${resource.name}" has ${resource.cookies.length} cookie(s), which were not imported`
+        );
+      }
+    }
+
+    for (const [type, count] of counts) {
+      warnings.push(
+        `${count} Insomnia "${type}" resource(s) cannot be represented in a collection and were skipped`
+      );
+    }
+  }
+
+  /**
+   * Converts the request groups and requests under a parent
+   * @param parent_id - Workspace or request group id
+   * @param context - Import context
+   * @returns IPostmanItem[]
+   */
+  private convertChildren(
+    parent_id: string,
+    context: ImportContext
+  ): IPostmanItem[] {
+    const items: IPostmanItem[] = [];
+    for (const resource of context.children.get(parent_id) ?? []) {
+      if (resource._type === 'request_group') {
+        items.push(this.convertGroup(resource, context));
+      } else if (resource._type === 'request') {
+        items.push(this.convertRequest(resource, context));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Converts a request group into a folder
+   * @param group - Insomnia request group
+   * @param context - Import context
+   * @returns IPostmanItem
+   */
+  private convertGroup(group: any, context: ImportContext): IPostmanItem {
+    const name = group.name || 'Folder';
+    const folder: IPostmanItem = {
+      name,
+      item: this.convertChildren(group._id, context)
+    };
+    if (group.description) {
+      folder.description = group.description;
+    }
+
+    const variables = this.convertEnvironmentData(
+      group.environment,
+      name,
+      context
+    );
+    if (variables.length > 0) {
+      folder.variable = variables;
+    }
+
+    const auth = this.convertAuth(group.authentication, name, context);
+    if (auth) {
+      folder.auth = auth;
+    }
+
+    const event = this.convertScripts(group, name, context);
+    if (event.length > 0) {
+      folder.event = event;
+    }
+
+    return folder;
+  }
+
+  /**
+   * Converts a request
+   * @param resource - Insomnia request
+   * @param context - Import context
+   * @returns IPostmanItem
+   */
+  private convertRequest(resource: any, context: ImportContext): IPostmanItem {
+    const name = resource.name || 'Request';
+    const request: IPostmanRequest = {
+      method: String(resource.method || 'GET').toUpperCase(),
+      header: this.convertHeaders(resource.headers, name, context),
+      url: this.convertUrl(resource.url, resource.parameters, name, context)
+    };
+
+    const body = this.convertBody(resource.body, name, context);
+    if (body) {
+      request.body = body;
+    }
+
+    const auth = this.convertAuth(resource.authentication, name, context);
+    if (auth) {
+      request.auth = auth;
+    }
+
+    const item: IPostmanItem = { name, request };
+    if (resource.description) {
+      item.description = resource.description;
+    }
+
+    const event = this.convertScripts(resource, name, context);
+    if (event.length > 0) {
+      item.event = event;
+    }
+
+    return item;
+  }
+
+  /**
+   * Converts a request URL and its separately listed query parameters
+   * @param url_text - Insomnia URL
+   * @param parameters - Insomnia query parameters
+   * @param owner - Name of the request, for warnings
+   * @param context - Import context
+   * @returns IPostmanUrl
+   */
+  private convertUrl(
+    url_text: unknown,
+    parameters: any[] | undefined,
+    owner: string,
+    context: ImportContext
+  ): IPostmanUrl {
+    const converted = this.convertTemplate(
+      String(url_text ?? ''),
+      owner,
+      context
+    );
+    const [without_hash = '', hash] = converted.split('#');
+    const [location = '', search = ''] = without_hash.split('?');
+
+    const protocol = location.match(/^([a-z][a-z0-9+.-]*):\/\//i)?.[1];
+    const [host = '', ...path] = location
+      .slice(protocol ? protocol.length + 3 : 0)
+      .split('/');
+
+    const url: IPostmanUrl = { raw: '' };
+    if (protocol) {
+      url.protocol = protocol;
+    }
+    const [hostname = '', port] = host.startsWith('{{')
+      ? [host]
+      : host.split(':');
+    url.host = hostname.startsWith('{{') ? [hostname] : hostname.split('.');
+    if (port) {
+      url.port = port;
+    }
+    url.path = path.filter(Boolean);
+
+    const query: IPostmanQueryParam[] = search
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key = '', ...value] = pair.split('=');
+        return { key, value: value.join('=') };
+      });
+    for (const parameter of parameters ?? []) {
+      const query_param: IPostmanQueryParam = {
+        key: this.convertTemplate(String(parameter.name ?? ''), owner, context),
+        value: this.convertTemplate(
+          String(parameter.value ?? ''),
+          owner,
+          context
+        )
+      };
+      if (parameter.disabled) {
+        query_param.disabled = true;
+      }
+      query.push(query_param);
+    }
+    if (query.length > 0) {
+      url.query = query;
+    }
+    if (hash) {
+      url.hash = hash;
+    }
+
+    const enabled_query = query
+      .filter((query_param) => !query_param.disabled)
+      .map((query_param) => `${query_param.key}=${query_param.value ?? ''}`)
+      .join('&');
+    url.raw = `${location}${enabled_query ? `?${enabled_query}` : ''}${hash ? `#${hash}` : ''}`;
+
+    return url;
+  }
+
+  /**
+   * Converts request headers
+   * @param headers - Insomnia headers
+   * @param owner - Name of the request, for warnings
+   * @param context - Import context
+   * @returns IPostmanHeader[]
+   */
+  private convertHeaders(
+    headers: any[] | undefined,
+    owner: string,
+    context: ImportContext
+  ): IPostmanHeader[] {
+    return (headers ?? [])
+      .filter((header) => header?.name)
+      .map((header) => {
+        const converted: IPostmanHeader = {
+          key: this.convertTemplate(String(header.name), owner, context),
+          value: this.convertTemplate(
+            String(header.value ?? ''),
+            owner,
+            context
+          )
+        };
+        if (header.disabled) {
+          converted.disabled = true;
+        }
+        if (header.description) {
+          converted.description = header.description;
+        }
+        return converted;
+      });
+  }
+
+  /**
+   * Converts a request body by its MIME type
+   * @param body - Insomnia body
+   * @param owner - Name of the request, for warnings
+   * @param context - Import context
+   * @returns IPostmanBody | undefined
+   */
+  private convertBody(
+    body: any,
+    owner: string,
+    context: ImportContext
+  ): IPostmanBody | undefined {
+    const mime_type = String(body?.mimeType ?? '');
+
+    switch (mime_type) {
+      case 'application/x-www-form-urlencoded':
+        return {
+          mode: 'urlencoded',
+          urlencoded: this.convertFormParams(body.params, owner, context)
+        };
+      case 'multipart/form-data':
+        return {
+          mode: 'formdata',
+          formdata: this.convertFormParams(body.params, owner, context)
+        };
+      case 'application/graphql':
+        return this.convertGraphqlBody(body.text, owner, context);
+      case 'application/octet-stream':
+        return { mode: 'file', file: { src: body.fileName ?? '' } };
+      default: {
+        if (typeof body?.text !== 'string') {
+          return undefined;
+        }
+        const converted: IPostmanBody = {
+          mode: 'raw',
+          raw: this.convertTemplate(body.text, owner, context)
+        };
+        const language = getBodyLanguage(mime_type);
+        if (language !== 'text') {
+          converted.options = { raw: { language } };
+        }
+        return converted;
+      }
+    }
+  }
+
+  /**
+   * Converts form parameters; file parameters keep their file name
+   * @param params - Insomnia body params
+   * @param owner - Name of the request, for warnings
+   * @param context - Import context
+   * @returns IPostmanFormParam[]
+   */
+  private convertFormParams(
+    params: any[] | undefined,
+    owner: string,
+    context: ImportContext
+  ): IPostmanFormParam[] {
+    return (params ?? []).map((param) => {
+      const key = this.convertTemplate(
+        String(param.name ?? ''),
+        owner,
+        context
+      );
+      const converted: IPostmanFormParam =
+        param.type === 'file'
+          ? { key, type: 'file', src: param.fileName ?? '' }
+          : {
+              key,
+              value: this.convertTemplate(
+                String(param.value ?? ''),
+                owner,
+                context
+              ),
+              type: 'text'
+            };
+      if (param.disabled) {
+        converted.disabled = true;
+      }
+      if (param.description) {
+        converted.description = param.description;
+      }
+      return converted;
+    });
+  }
+
+  /**
+   * Converts a GraphQL body, which Insomnia stores as a JSON document with
+   * the query and its variables
+   * @param text - Body text
+   * @param owner - Name of the request, for warnings
+   * @param context - Import context
+   * @returns IPostmanBody
+   */
+  private convertGraphqlBody(
+    text: unknown,
+    owner: string,
+    context: ImportContext
+  ): IPostmanBody {
+    let payload: any = {};
+    try {
+      payload = JSON.parse(String(text ?? '{}'));
+    } catch {
+      context.warnings.push(
+        `GraphQL body of "${owner}" is not valid JSON and was imported as the query`
+      );
+      payload = { query: String(text ?? '') };
+    }
+
+    const variables = payload.variables
+      ? JSON.stringify(payload.variables, null, 2)
+      : '';
+    return {
+      mode: 'graphql',
+      graphql: {
+        query: this.convertTemplate(
+          String(payload.query ?? ''),
+          owner,
+          context
+        ),
+        variables: this.convertTemplate(variables, owner, context)
+      }
+    };
+  }
+
+  /**
+   * Converts an authentication definition. An empty one inherits the
+   * parent's auth; a disabled one or type "none" sends none.
+   * @param authentication - Insomnia authentication
+   * @param owner - Name of the request or folder, for warnings
+   * @param context - Import context
+   * @returns IPostmanAuth | undefined
+   */
+  private convertAuth(
+    authentication: any,
+    owner: string,
+    context: ImportContext
+  ): IPostmanAuth | undefined {
+    const type = authentication?.type;
+    if (!type) {
+      return undefined;
+    }
+    if (type === 'none' || authentication.disabled) {
+      return { type: 'noauth' };
+    }
+
+    const param = (key: string, value: unknown) => ({
+      key,
+      value: this.convertTemplate(String(value ?? ''), owner, context),
+      type: 'string'
+    });
+
+    switch (type) {
+      case 'basic':
+      case 'digest':
+        return {
+          type,
+          [type]: [
+            param('username', authentication.username),
+            param('password', authentication.password)
+          ]
+        };
+      case 'ntlm':
+        return {
+          type,
+          ntlm: [
+            param('username', authentication.username),
+            param('password', authentication.password),
+            param('domain', authentication.domain)
+          ]
+        };
+      case 'bearer': {
+        const prefix = authentication.prefix;
+        if (prefix && prefix !== 'Bearer') {
+          context.warnings.push(
+            `Bearer prefix "${prefix}" of "${owner}" cannot be represented; "Bearer" is used instead`
+          );
+        }
+        return { type, bearer: [param('token', authentication.token)] };
+      }
+      case 'apikey':
+        return {
+          type,
+          apikey: [
+            param('key', authentication.key),
+            param('value', authentication.value),
+            param(
+              'in',
+              authentication.addTo === 'queryParams' ? 'query' : 'header'
+            )
+          ]
+        };
+      case 'oauth2':
+        return {
+          type,
+          oauth2: [
+            param('grant_type', authentication.grantType),
+            param('accessTokenUrl', authentication.accessTokenUrl),
+            param('authUrl', authentication.authorizationUrl),
+            param('clientId', authentication.clientId),
+            param('clientSecret', authentication.clientSecret),
+            param('scope', authentication.scope),
+            param('addTokenTo', 'header')
+          ]
+        };
+      case 'hawk':
+        return {
+          type,
+          hawk: [
+            param('authId', authentication.id),
+            param('authKey', authentication.key),
+            param('algorithm', authentication.algorithm)
+          ]
+        };
+      case 'iam':
+        return {
+          type: 'awsv4',
+          awsv4: [
+            param('accessKey', authentication.accessKeyId),
+            param('secretKey', authentication.secretAccessKey),
+            param('sessionToken', authentication.sessionToken),
+            param('region', authentication.region),
+            param('service', authentication.service)
+          ]
+        };
+      default:
+        context.warnings.push(
+          `Auth type "${type}" of "${owner}" has no Postman equivalent and was skipped`
+        );
+        return undefined;
+    }
+  }
+
+  /**
+   * Converts pre-request and after-response scripts. They use the insomnia
+   * scripting API, which mirrors but does not match the pm API.
+   * @param resource - Insomnia request or request group
+   * @param owner - Name of the request or folder, for warnings
+   * @param context - Import context
+   * @returns IPostmanEvent[]
+   */
+  private convertScripts(
+    resource: any,
+    owner: string,
+    context: ImportContext
+  ): IPostmanEvent[] {
+    const scripts: [string, unknown][] = [
+      ['prerequest', resource.preRequestScript],
+      ['test', resource.afterResponseScript]
+    ];
+    const events: IPostmanEvent[] = [];
+
+    for (const [listen, script] of scripts) {
+      if (typeof script !== 'string' || !script.trim()) {
+        continue;
+      }
+      events.push({
+        listen,
+        script: { type: 'text/javascript', exec: script.split('\n') }
+      });
+    }
+
+    if (events.length > 0 && !context.scripts_warned) {
+      context.scripts_warned = true;
+      context.warnings.push(
+        `Scripts (first in "${owner}") were copied as is; calls to the insomnia API need to be rewritten for pm`
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * Converts the workspace's base environment into collection variables.
+   * Sub-environments are alternatives to choose from, which a collection
+   * cannot hold.
+   * @param workspace_id - Workspace id
+   * @param context - Import context
+   * @returns IPostmanVariable[]
+   */
+  private convertEnvironments(
+    workspace_id: string,
+    context: ImportContext
+  ): IPostmanVariable[] {
+    const base = (context.children.get(workspace_id) ?? []).find(
+      (resource) => resource._type === 'environment'
+    );
+    if (!base) {
+      return [];
+    }
+
+    for (const sub_environment of context.children.get(base._id) ?? []) {
+      if (sub_environment._type === 'environment') {
+        context.warnings.push(
+          `Sub-environment "${sub_environment.name}" was not imported; only the base environment becomes collection variables`
+        );
+      }
+    }
+
+    return this.convertEnvironmentData(
+      base.data,
+      base.name || 'Base Environment',
+      context
+    );
+  }
+
+  /**
+   * Converts environment data into variables. Nested objects are flattened
+   * into dotted names, which is how templates refer to them.
+   * @param data - Environment data
+   * @param owner - Name of the environment or folder, for warnings
+   * @param context - Import context
+   * @param prefix - Name prefix of nested values
+   * @returns IPostmanVariable[]
+   */
+  private convertEnvironmentData(
+    data: any,
+    owner: string,
+    context: ImportContext,
+    prefix = ''
+  ): IPostmanVariable[] {
+    if (!data || typeof data !== 'object') {
+      return [];
+    }
+
+    return Object.entries(data).flatMap(([key, value]) => {
+      const name = `${prefix}${key}`;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return this.convertEnvironmentData(value, owner, context, `${name}.`);
+      }
+
+      return [
+        {
+          key: name,
+          value:
+            typeof value === 'string'
+              ? this.convertTemplate(value, owner, context)
+              : JSON.stringify(value),
+          type: 'string'
+        }
+      ];
+    });
+  }
+
+  /**
+   * Converts Nunjucks template syntax: variable references become
+   * {{variable}}, and template tags with a dynamic variable equivalent
+   * become {{$variable}}. Anything else is kept as text, with a warning.
+   * @param text - Text with Insomnia templates
+   * @param owner - Name of the request, folder or environment, for warnings
+   * @param context - Import context
+   * @returns string
+   */
+  private convertTemplate(
+    text: string,
+    owner: string,
+    context: ImportContext
+  ): string {
+    return text
+      .replace(/{{\s*([^{}]*?)\s*}}/g, (match, expression: string) => {
+        const name = expression.match(/^(?:_\.)?([\w$-]+(?:\.[\w$-]+)*)$/)?.[1];
+        if (name) {
+          return `{{${name}}}`;
+        }
+        context.warnings.push(
+          `Template expression ${match} in "${owner}" has no Postman equivalent and was kept as text`
+        );
+        return match;
+      })
+      .replace(
+        /{%\s*(\w+)\s*(.*?)\s*%}/g,
+        (match, tag: string, rest: string) => {
+          const args = [...rest.matchAll(/'([^']*)'|"([^"]*)"/g)].map(
+            (arg) => arg[1] ?? arg[2] ?? ''
+          );
+          const variable = DYNAMIC_VARIABLES[tag]?.(args);
+          if (variable) {
+            return `{{${variable}}}`;
+          }
+          context.warnings.push(
+            `Template tag {% ${tag} %} in "${owner}" has no Postman equivalent and was kept as text`
+          );
+          return match;
+        }
+      );
+  }
+}
+
+// Supporting types
+interface ImportContext {
+  // Resources by parent id, in display order
+  children: Map<string, any[]>;
+  warnings: string[];
+  // Whether the warning about insomnia API scripts was given
+  scripts_warned: boolean;
+}
+
+// Export singleton instance
+export const insomnia_importer = new InsomniaImporter();
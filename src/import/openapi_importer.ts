@@ -0,0 +1,1001 @@
+/**
+ * OpenAPI Importer
+ * Converts an OpenAPI 3.x document into a Postman collection: one folder per
+ * tag and one request per operation, with example bodies generated from the
+ * schemas
+ */
+
+import type {
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanFormParam,
+  IPostmanHeader,
+  IPostmanItem,
+  IPostmanQueryParam,
+  IPostmanRequest,
+  IPostmanResponse,
+  IPostmanUrl,
+  IPostmanVariable
+} from '@/types/postman.ts';
+
+// Schema URL written to the info of imported collections
+export const POSTMAN_COLLECTION_SCHEMA =
+  'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+// Operations of a path item, in the order they are imported
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace'
+];
+
+// Header parameters Postman sets from the body and auth instead
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+// Reason phrases for the status codes of saved responses
+const STATUS_TEXTS: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  301: 'Moved Permanently',
+  302: 'Found',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  410: 'Gone',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+// Example values for string formats
+const STRING_FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  time: '00:00:00',
+  email: 'user@example.com',
+  uuid: '00000000-0000-0000-0000-000000000000',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  byte: 'U3dhZ2dlciByb2Nrcw==',
+  binary: ''
+};
+
+/**
+ * OpenAPI Importer class for converting OpenAPI documents to collections
+ */
+export class OpenApiImporter {
+  /**
+   * Converts an OpenAPI 3.x document into a Postman collection
+   * @param spec - Parsed OpenAPI document
+   * @param warnings - Collected warnings
+   * @returns IPostmanCollection
+   */
+  convert(spec: any, warnings: string[]): IPostmanCollection {
+    if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+      throw new Error('OpenAPI document must be an object');
+    }
+    if (spec.swagger) {
+      throw new Error(
+        `Swagger ${spec.swagger} documents are not supported; convert the document to OpenAPI 3.x first`
+      );
+    }
+    if (!/^3\./.test(String(spec.openapi ?? ''))) {
+      throw new Error(
+        'Missing or unsupported "openapi" version (expected 3.x)'
+      );
+    }
+
+    const context: ImportContext = {
+      spec,
+      warnings,
+      auth_variables: new Map()
+    };
+
+    const collection: IPostmanCollection = {
+      info: {
+        name: spec.info?.title || 'Imported API',
+        schema: POSTMAN_COLLECTION_SCHEMA
+      },
+      item: [],
+      variable: [
+        {
+          key: 'baseUrl',
+          value: this.getBaseUrl(spec.servers, warnings),
+          type: 'string'
+        }
+      ]
+    };
+    if (spec.info?.description) {
+      collection.info.description = spec.info.description;
+    }
+
+    const collection_auth = this.convertSecurity(spec.security, context);
+    if (collection_auth) {
+      collection.auth = collection_auth;
+    }
+
+    collection.item = this.convertPaths(
+      spec.paths ?? {},
+      spec.security,
+      context
+    );
+
+    for (const [key, value] of context.auth_variables) {
+      collection.variable?.push({ key, value, type: 'string' });
+    }
+
+    return collection;
+  }
+
+  /**
+   * Converts every operation and groups them into folders by their first
+   * tag, with folders in the order of the document's tag list
+   * @param paths - Paths object
+   * @param global_security - Top-level security requirements
+   * @param context - Import context
+   * @returns IPostmanItem[] - Folders, then untagged requests
+   */
+  private convertPaths(
+    paths: Record<string, any>,
+    global_security: any[] | undefined,
+    context: ImportContext
+  ): IPostmanItem[] {
+    const folders = new Map<string, IPostmanItem>();
+    for (const tag of context.spec.tags ?? []) {
+      if (tag?.name && !folders.has(tag.name)) {
+        folders.set(tag.name, this.createFolder(tag.name, tag.description));
+      }
+    }
+
+    const untagged: IPostmanItem[] = [];
+    for (const [path, raw_path_item] of Object.entries(paths)) {
+      const path_item = this.resolve(raw_path_item, context);
+      for (const method of HTTP_METHODS) {
+        const operation = path_item?.[method];
+        if (!operation) {
+          continue;
+        }
+
+        const request_item = this.convertOperation(
+          path,
+          method,
+          operation,
+          path_item.parameters ?? [],
+          global_security,
+          context
+        );
+
+        const tag = operation.tags?.[0];
+        if (!tag) {
+          untagged.push(request_item);
+          continue;
+        }
+        if (!folders.has(tag)) {
+          folders.set(tag, this.createFolder(tag));
+        }
+        folders.get(tag)?.item?.push(request_item);
+      }
+    }
+
+    return [
+      ...[...folders.values()].filter((folder) => folder.item?.length),
+      ...untagged
+    ];
+  }
+
+  /**
+   * Creates an empty folder for a tag
+   * @param name - Tag name
+   * @param description - Tag description
+   * @returns IPostmanItem
+   */
+  private createFolder(name: string, description?: string): IPostmanItem {
+    const folder: IPostmanItem = { name, item: [] };
+    if (description) {
+      folder.description = description;
+    }
+    return folder;
+  }
+
+  /**
+   * Converts one operation into a request item
+   * @param path - Path template, e.g. "/pets/{petId}"
+   * @param method - Lower-case HTTP method
+   * @param operation - Operation object
+   * @param path_parameters - Parameters shared by the path's operations
+   * @param global_security - Top-level security requirements
+   * @param context - Import context
+   * @returns IPostmanItem
+   */
+  private convertOperation(
+    path: string,
+    method: string,
+    operation: any,
+    path_parameters: any[],
+    global_security: any[] | undefined,
+    context: ImportContext
+  ): IPostmanItem {
+    const parameters = this.mergeParameters(
+      path_parameters,
+      operation.parameters ?? [],
+      context
+    );
+
+    const request: IPostmanRequest = {
+      method: method.toUpperCase(),
+      header: this.convertHeaders(parameters, context),
+      url: this.convertUrl(path, parameters, context)
+    };
+
+    const request_body = this.resolve(operation.requestBody, context);
+    const body = this.convertRequestBody(request_body, request, context);
+    if (body) {
+      request.body = body;
+    }
+
+    // Operation security replaces the top-level requirements; an empty list
+    // makes the operation public
+    if (Array.isArray(operation.security)) {
+      const auth =
+        operation.security.length === 0
+          ? { type: 'noauth' }
+          : this.convertSecurity(operation.security, context);
+      if (
+        auth &&
+        this.getSchemeName(operation.security) !==
+          this.getSchemeName(global_security)
+      ) {
+        request.auth = auth;
+      }
+    }
+
+    if (operation.description) {
+      request.description = operation.description;
+    }
+
+    const item: IPostmanItem = {
+      name:
+        operation.summary ||
+        operation.operationId ||
+        `${method.toUpperCase()} ${path}`,
+      request,
+      response: this.convertResponses(
+        operation.responses ?? {},
+        request,
+        context
+      )
+    };
+
+    return item;
+  }
+
+  /**
+   * Merges path-level and operation-level parameters; an operation
+   * parameter replaces the path parameter with the same name and location
+   * @param path_parameters - Path item parameters
+   * @param operation_parameters - Operation parameters
+   * @param context - Import context
+   * @returns any[] - Resolved parameters
+   */
+  private mergeParameters(
+    path_parameters: any[],
+    operation_parameters: any[],
+    context: ImportContext
+  ): any[] {
+    const merged = new Map<string, any>();
+
+    for (const raw_parameter of [...path_parameters, ...operation_parameters]) {
+      const parameter = this.resolve(raw_parameter, context);
+      if (parameter?.name && parameter.in) {
+        merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Builds the request URL on {{baseUrl}}, turning {name} path templates
+   * into :name path variables
+   * @param path - Path template
+   * @param parameters - Operation parameters
+   * @param context - Import context
+   * @returns IPostmanUrl
+   */
+  private convertUrl(
+    path: string,
+    parameters: any[],
+    context: ImportContext
+  ): IPostmanUrl {
+    const segments = path
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => segment.replace(/\{([^}]+)\}/g, ':$1'));
+
+    const url: IPostmanUrl = {
+      raw: '',
+      host: ['{{baseUrl}}'],
+      path: segments
+    };
+
+    const variables: IPostmanVariable[] = [];
+    const query: IPostmanQueryParam[] = [];
+    for (const parameter of parameters) {
+      const value = this.getParameterValue(parameter, context);
+      if (parameter.in === 'path') {
+        const variable: IPostmanVariable = { key: parameter.name, value };
+        if (parameter.description) {
+          variable.description = parameter.description;
+        }
+        variables.push(variable);
+      } else if (parameter.in === 'query') {
+        const query_param: IPostmanQueryParam = { key: parameter.name, value };
+        if (parameter.description) {
+          query_param.description = parameter.description;
+        }
+        if (!parameter.required) {
+          query_param.disabled = true;
+        }
+        query.push(query_param);
+      }
+    }
+
+    // Templated segments the document forgot to declare still need a value
+    for (const [, name] of path.matchAll(/\{([^}]+)\}/g)) {
+      if (name && !variables.some((variable) => variable.key === name)) {
+        variables.push({ key: name, value: '' });
+      }
+    }
+
+    if (query.length > 0) {
+      url.query = query;
+    }
+    if (variables.length > 0) {
+      url.variable = variables;
+    }
+
+    const enabled_query = query
+      .filter((query_param) => !query_param.disabled)
+      .map((query_param) => `${query_param.key}=${query_param.value ?? ''}`)
+      .join('&');
+    url.raw = `{{baseUrl}}/${segments.join('/')}${enabled_query ? `?${enabled_query}` : ''}`;
+
+    return url;
+  }
+
+  /**
+   * Converts header and cookie parameters into request headers
+   * @param parameters - Operation parameters
+   * @param context - Import context
+   * @returns IPostmanHeader[]
+   */
+  private convertHeaders(
+    parameters: any[],
+    context: ImportContext
+  ): IPostmanHeader[] {
+    const headers: IPostmanHeader[] = [];
+    const cookies: string[] = [];
+
+    for (const parameter of parameters) {
+      if (parameter.in === 'cookie') {
+        cookies.push(
+          `${parameter.name}=${this.getParameterValue(parameter, context)}`
+        );
+        continue;
+      }
+      if (
+        parameter.in !== 'header' ||
+        IGNORED_HEADERS.includes(parameter.name.toLowerCase())
+      ) {
+        continue;
+      }
+
+      const header: IPostmanHeader = {
+        key: parameter.name,
+        value: this.getParameterValue(parameter, context)
+      };
+      if (parameter.description) {
+        header.description = parameter.description;
+      }
+      headers.push(header);
+    }
+
+    if (cookies.length > 0) {
+      headers.push({ key: 'Cookie', value: cookies.join('; ') });
+    }
+
+    return headers;
+  }
+
+  /**
+   * Converts a request body into a Postman body for its preferred media
+   * type, adding the matching Content-Type header to the request
+   * @param request_body - Resolved request body object
+   * @param request - Request being built
+   * @param context - Import context
+   * @returns IPostmanBody | undefined
+   */
+  private convertRequestBody(
+    request_body: any,
+    request: IPostmanRequest,
+    context: ImportContext
+  ): IPostmanBody | undefined {
+    const media_type = this.pickMediaType(request_body?.content);
+    if (!media_type) {
+      return undefined;
+    }
+
+    const media = request_body.content[media_type];
+    // Postman adds the multipart header itself, with the boundary
+    if (media_type !== 'multipart/form-data') {
+      request.header?.push({ key: 'Content-Type', value: media_type });
+    }
+
+    if (media_type === 'application/x-www-form-urlencoded') {
+      return {
+        mode: 'urlencoded',
+        urlencoded: this.convertFormParams(media, 'request', context)
+      };
+    }
+    if (media_type === 'multipart/form-data') {
+      return {
+        mode: 'formdata',
+        formdata: this.convertFormParams(media, 'request', context)
+      };
+    }
+
+    const language = this.getRawLanguage(media_type);
+    if (!language) {
+      return { mode: 'file', file: { src: '' } };
+    }
+
+    const body: IPostmanBody = {
+      mode: 'raw',
+      raw: this.formatExample(
+        this.getMediaExample(media, 'request', context),
+        language
+      )
+    };
+    body.options = { raw: { language } };
+
+    return body;
+  }
+
+  /**
+   * Converts the properties of a form schema into form parameters, using
+   * file parameters for binary properties
+   * @param media - Media type object
+   * @param direction - Whether the form is sent or received
+   * @param context - Import context
+   * @returns IPostmanFormParam[]
+   */
+  private convertFormParams(
+    media: any,
+    direction: SchemaDirection,
+    context: ImportContext
+  ): IPostmanFormParam[] {
+    const schema = this.resolve(media?.schema, context) ?? {};
+    const example: any = this.getMediaExample(media, direction, context);
+    const params: IPostmanFormParam[] = [];
+
+    for (const [key, raw_property] of Object.entries<any>(
+      schema.properties ?? {}
+    )) {
+      const property = this.resolve(raw_property, context) ?? {};
+      if (property.format === 'binary') {
+        params.push({ key, type: 'file', src: '' });
+        continue;
+      }
+
+      const param: IPostmanFormParam = {
+        key,
+        value: this.stringifyValue(example?.[key]),
+        type: 'text'
+      };
+      if (property.description) {
+        param.description = property.description;
+      }
+      params.push(param);
+    }
+
+    return params;
+  }
+
+  /**
+   * Converts the responses of an operation into saved examples; ranges
+   * such as "2XX" and the "default" response have no status code and are
+   * skipped
+   * @param responses - Responses object
+   * @param request - Request the examples belong to
+   * @param context - Import context
+   * @returns IPostmanResponse[]
+   */
+  private convertResponses(
+    responses: Record<string, any>,
+    request: IPostmanRequest,
+    context: ImportContext
+  ): IPostmanResponse[] {
+    const examples: IPostmanResponse[] = [];
+
+    for (const [status, raw_response] of Object.entries(responses)) {
+      if (!/^\d{3}$/.test(status)) {
+        continue;
+      }
+
+      const response = this.resolve(raw_response, context) ?? {};
+      const code = Number(status);
+      const example: IPostmanResponse = {
+        name: response.description || STATUS_TEXTS[code] || status,
+        originalRequest: structuredClone(request),
+        status: STATUS_TEXTS[code] ?? '',
+        code,
+        header: [],
+        cookie: [],
+        body: ''
+      };
+
+      const media_type = this.pickMediaType(response.content);
+      if (media_type) {
+        const language = this.getRawLanguage(media_type) ?? 'text';
+        example.header?.push({ key: 'Content-Type', value: media_type });
+        example._postman_previewlanguage = language;
+        example.body = this.formatExample(
+          this.getMediaExample(
+            response.content[media_type],
+            'response',
+            context
+          ),
+          language
+        );
+      }
+
+      examples.push(example);
+    }
+
+    return examples;
+  }
+
+  /**
+   * Converts the first security requirement into Postman auth
+   * @param security - Security requirements
+   * @param context - Import context
+   * @returns IPostmanAuth | undefined
+   */
+  private convertSecurity(
+    security: any[] | undefined,
+    context: ImportContext
+  ): IPostmanAuth | undefined {
+    const scheme_name = this.getSchemeName(security);
+    if (!scheme_name) {
+      return undefined;
+    }
+
+    const scheme = this.resolve(
+      context.spec.components?.securitySchemes?.[scheme_name],
+      context
+    );
+    if (!scheme) {
+      context.warnings.push(
+        `Security scheme "${scheme_name}" is not defined in components.securitySchemes`
+      );
+      return undefined;
+    }
+
+    const http_scheme = String(scheme.scheme ?? '').toLowerCase();
+    if (scheme.type === 'http' && http_scheme === 'bearer') {
+      context.auth_variables.set('bearerToken', '');
+      return {
+        type: 'bearer',
+        bearer: [{ key: 'token', value: '{{bearerToken}}', type: 'string' }]
+      };
+    }
+    if (scheme.type === 'http' && http_scheme === 'basic') {
+      context.auth_variables.set('basicUsername', '');
+      context.auth_variables.set('basicPassword', '');
+      return {
+        type: 'basic',
+        basic: [
+          { key: 'username', value: '{{basicUsername}}', type: 'string' },
+          { key: 'password', value: '{{basicPassword}}', type: 'string' }
+        ]
+      };
+    }
+    if (scheme.type === 'apiKey') {
+      if (scheme.in === 'cookie') {
+        context.warnings.push(
+          `API key "${scheme_name}" is sent in a cookie, which Postman auth does not support; it is sent as a header instead`
+        );
+      }
+      context.auth_variables.set('apiKey', '');
+      return {
+        type: 'apikey',
+        apikey: [
+          { key: 'key', value: scheme.name ?? '', type: 'string' },
+          { key: 'value', value: '{{apiKey}}', type: 'string' },
+          {
+            key: 'in',
+            value: scheme.in === 'query' ? 'query' : 'header',
+            type: 'string'
+          }
+        ]
+      };
+    }
+    if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      context.auth_variables.set('accessToken', '');
+      return {
+        type: 'oauth2',
+        oauth2: [
+          { key: 'accessToken', value: '{{accessToken}}', type: 'string' },
+          { key: 'addTokenTo', value: 'header', type: 'string' }
+        ]
+      };
+    }
+
+    context.warnings.push(
+      `Security scheme "${scheme_name}" of type "${scheme.type}" is not supported and was skipped`
+    );
+    return undefined;
+  }
+
+  /**
+   * Gets the name of the first scheme of the first security requirement
+   * @param security - Security requirements
+   * @returns string | undefined
+   */
+  private getSchemeName(security: any[] | undefined): string | undefined {
+    const requirement = Array.isArray(security) ? security[0] : undefined;
+    return requirement ? Object.keys(requirement)[0] : undefined;
+  }
+
+  /**
+   * Gets the base URL from the first server, with server variables
+   * replaced by their defaults
+   * @param servers - Server objects
+   * @param warnings - Collected warnings
+   * @returns string
+   */
+  private getBaseUrl(servers: any[] | undefined, warnings: string[]): string {
+    const server = servers?.[0];
+    if (!server?.url) {
+      warnings.push(
+        'Document has no servers; set baseUrl before sending requests'
+      );
+      return '';
+    }
+
+    const url = String(server.url).replace(
+      /\{([^}]+)\}/g,
+      (match, name) => server.variables?.[name]?.default ?? match
+    );
+    return url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Gets an example value for a parameter as text: its example, its first
+   * named example, or one generated from its schema
+   * @param parameter - Parameter object
+   * @param context - Import context
+   * @returns string
+   */
+  private getParameterValue(parameter: any, context: ImportContext): string {
+    if (parameter.example !== undefined) {
+      return this.stringifyValue(parameter.example);
+    }
+
+    const first_example = this.resolve(
+      Object.values<any>(parameter.examples ?? {})[0],
+      context
+    );
+    if (first_example?.value !== undefined) {
+      return this.stringifyValue(first_example.value);
+    }
+
+    return this.stringifyValue(
+      this.generateExample(parameter.schema, 'request', context, new Set())
+    );
+  }
+
+  /**
+   * Gets the example of a media type: its example, its first named example,
+   * or one generated from its schema
+   * @param media - Media type object
+   * @param direction - Whether the body is sent or received
+   * @param context - Import context
+   * @returns unknown
+   */
+  private getMediaExample(
+    media: any,
+    direction: SchemaDirection,
+    context: ImportContext
+  ): unknown {
+    if (media?.example !== undefined) {
+      return media.example;
+    }
+
+    const first_example = this.resolve(
+      Object.values<any>(media?.examples ?? {})[0],
+      context
+    );
+    if (first_example?.value !== undefined) {
+      return first_example.value;
+    }
+
+    return this.generateExample(media?.schema, direction, context, new Set());
+  }
+
+  /**
+   * Generates an example value from a schema, preferring the examples,
+   * defaults and enums it declares
+   * @param raw_schema - Schema object or reference
+   * @param direction - Whether the value is sent or received; readOnly
+   * properties are left out of requests and writeOnly ones out of responses
+   * @param context - Import context
+   * @param seen_refs - References being expanded, to stop at cycles
+   * @returns unknown
+   */
+  private generateExample(
+    raw_schema: any,
+    direction: SchemaDirection,
+    context: ImportContext,
+    seen_refs: Set<string>
+  ): unknown {
+    if (!raw_schema || typeof raw_schema !== 'object') {
+      return undefined;
+    }
+
+    const ref = raw_schema.$ref;
+    if (typeof ref === 'string') {
+      if (seen_refs.has(ref)) {
+        return undefined;
+      }
+      const expanded = new Set(seen_refs).add(ref);
+      return this.generateExample(
+        this.resolve(raw_schema, context),
+        direction,
+        context,
+        expanded
+      );
+    }
+
+    const schema = raw_schema;
+    if (schema.example !== undefined) {
+      return schema.example;
+    }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return schema.examples[0];
+    }
+    if (schema.default !== undefined) {
+      return schema.default;
+    }
+    if (schema.const !== undefined) {
+      return schema.const;
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[0];
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) =>
+        this.generateExample(part, direction, context, seen_refs)
+      );
+      return parts.every(
+        (part: unknown) =>
+          part === undefined ||
+          (typeof part === 'object' && !Array.isArray(part))
+      )
+        ? Object.assign({}, ...parts)
+        : parts.find((part: unknown) => part !== undefined);
+    }
+
+    const alternatives = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.generateExample(
+        alternatives[0],
+        direction,
+        context,
+        seen_refs
+      );
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((candidate: string) => candidate !== 'null')
+      : (schema.type ?? (schema.properties ? 'object' : undefined));
+
+    switch (type) {
+      case 'object': {
+        const example: Record<string, unknown> = {};
+        for (const [key, raw_property] of Object.entries<any>(
+          schema.properties ?? {}
+        )) {
+          const property = this.resolve(raw_property, context);
+          if (
+            (direction === 'request' && property?.readOnly) ||
+            (direction === 'response' && property?.writeOnly)
+          ) {
+            continue;
+          }
+          const value = this.generateExample(
+            raw_property,
+            direction,
+            context,
+            seen_refs
+          );
+          if (value !== undefined) {
+            example[key] = value;
+          }
+        }
+        return example;
+      }
+      case 'array': {
+        const item = this.generateExample(
+          schema.items,
+          direction,
+          context,
+          seen_refs
+        );
+        return item === undefined ? [] : [item];
+      }
+      case 'string':
+        return STRING_FORMAT_EXAMPLES[schema.format] ?? 'string';
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'null':
+        return null;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Follows a local $ref ("#/components/...") to the object it points at
+   * @param value - Object that may be a reference
+   * @param context - Import context
+   * @returns any - Referenced object, or the value itself
+   */
+  private resolve(value: any, context: ImportContext): any {
+    let current = value;
+    const seen = new Set<string>();
+
+    while (current && typeof current.$ref === 'string') {
+      const ref: string = current.$ref;
+      if (seen.has(ref)) {
+        return undefined;
+      }
+      seen.add(ref);
+
+      if (!ref.startsWith('#/')) {
+        context.warnings.push(`External reference "${ref}" is not supported`);
+        return undefined;
+      }
+
+      current = ref
+        .slice(2)
+        .split('/')
+        .map((token) =>
+          decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+        )
+        .reduce((node: any, token) => node?.[token], context.spec);
+      if (current === undefined) {
+        context.warnings.push(`Reference "${ref}" could not be resolved`);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Picks the media type to use from a content map, preferring JSON, then
+   * forms, then whatever comes first
+   * @param content - Content map
+   * @returns string | undefined
+   */
+  private pickMediaType(
+    content: Record<string, any> | undefined
+  ): string | undefined {
+    const media_types = Object.keys(content ?? {});
+    return (
+      media_types.find((type) => this.isJsonMediaType(type)) ??
+      media_types.find(
+        (type) => type === 'application/x-www-form-urlencoded'
+      ) ??
+      media_types.find((type) => type === 'multipart/form-data') ??
+      media_types[0]
+    );
+  }
+
+  /**
+   * Gets the raw body language for a media type
+   * @param media_type - Media type
+   * @returns string | undefined - Language, or undefined for binary types
+   */
+  private getRawLanguage(media_type: string): string | undefined {
+    if (this.isJsonMediaType(media_type)) {
+      return 'json';
+    }
+    if (/[/+]xml$/.test(media_type)) {
+      return 'xml';
+    }
+    if (media_type === 'text/html') {
+      return 'html';
+    }
+    if (media_type.startsWith('text/')) {
+      return 'text';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether a media type carries JSON
+   * @param media_type - Media type
+   * @returns boolean
+   */
+  private isJsonMediaType(media_type: string): boolean {
+    return /^application\/(.+\+)?json$/.test(media_type.split(';')[0] ?? '');
+  }
+
+  /**
+   * Formats an example as body text
+   * @param example - Example value
+   * @param language - Body language
+   * @returns string
+   */
+  private formatExample(example: unknown, language: string): string {
+    if (example === undefined) {
+      return '';
+    }
+    if (typeof example === 'string' && language !== 'json') {
+      return example;
+    }
+
+    return JSON.stringify(example, null, 2);
+  }
+
+  /**
+   * Formats an example value as parameter text
+   * @param value - Example value
+   * @returns string
+   */
+  private stringifyValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+// Supporting types
+export type SchemaDirection = 'request' | 'response';
+
+interface ImportContext {
+  spec: any;
+  warnings: string[];
+  // Variables referenced by the generated auth, with their initial values
+  auth_variables: Map<string, string>;
+}
+
+// Export singleton instance
+export const openapi_importer = new OpenApiImporter();
@@ -5,10 +5,32 @@
  * Main entry point that coordinates CLI parsing and command execution
  */
 
-import { cli_parser } from '@/cli/cli_parser.ts';
+import { CliParser } from '@/cli/cli_parser.ts';
 import { build_command } from '@/commands/build_command.ts';
-import { split_command } from '@/commands/split_command.ts';
-import type { IBuildOptions, ISplitOptions } from '@/types/postman.ts';
+import { build_env_command } from '@/commands/build_env_command.ts';
+import { curl_command } from '@/commands/curl_command.ts';
+import { diff_command } from '@/commands/diff_command.ts';
+import { export_command } from '@/commands/export_command.ts';
+import { git_install_command } from '@/commands/git_install_command.ts';
+import { import_command } from '@/commands/import_command.ts';
+import { lint_command } from '@/commands/lint_command.ts';
+import { merge_command } from '@/commands/merge_command.ts';
+import { merge_driver_command } from '@/commands/merge_driver_command.ts';
+import { type SplitResult, split_command } from '@/commands/split_command.ts';
+import { split_env_command } from '@/commands/split_env_command.ts';
+import { config_loader } from '@/config/config_loader.ts';
+import type {
+  IBuildOptions,
+  ICurlOptions,
+  IDiffOptions,
+  IExportOptions,
+  IGitInstallOptions,
+  IImportOptions,
+  ILintOptions,
+  IMergeDriverOptions,
+  IMergeOptions,
+  ISplitOptions
+} from '@/types/postman.ts';
 
 /**
  * Main application class
@@ -20,14 +42,35 @@ class CarvemanApp {
    */
   async run(): Promise<void> {
     try {
-      // Parse command-line arguments
-      const command = cli_parser.parse();
+      // Parse command-line arguments first, so that help, version and
+      // commands without settings, such as merge-driver, never read the config
+      let cli_parser = new CliParser(process.argv);
+      let command = cli_parser.parse();
 
       if (!command) {
         // Help or version was shown, or parsing failed
         process.exit(0);
       }
 
+      if (config_loader.isConfigurable(command.command)) {
+        // Load the project config and CARVEMAN_* variables, which flags
+        // override, and parse again on top of them
+        const config_result = await config_loader.loadConfig();
+        if (!config_result.success) {
+          console.error('❌ Invalid configuration:');
+          for (const error of config_result.errors) {
+            console.error(`   ${error}`);
+          }
+          process.exit(1);
+        }
+
+        cli_parser = new CliParser(process.argv, config_result.config);
+        command = cli_parser.parse();
+        if (!command) {
+          process.exit(0);
+        }
+      }
+
       // Validate the command
       if (!cli_parser.validateCommand(command)) {
         process.exit(1);
@@ -47,6 +90,67 @@ class CarvemanApp {
             command.options as IBuildOptions
           );
           break;
+        case 'split-env':
+          await this.executeSplitEnv(
+            command.input_path,
+            command.options as ISplitOptions
+          );
+          break;
+        case 'build-env':
+          await this.executeBuildEnv(
+            command.input_path,
+            command.options as IBuildOptions
+          );
+          break;
+        case 'diff':
+          await this.executeDiff(
+            command.input_path,
+            command.target_path ?? '',
+            command.options as IDiffOptions
+          );
+          break;
+        case 'merge':
+          await this.executeMerge(
+            command.input_path,
+            command.options as IMergeOptions
+          );
+          break;
+        case 'merge-driver':
+          await this.executeMergeDriver(
+            command.input_path,
+            command.options as IMergeDriverOptions
+          );
+          break;
+        case 'git-install':
+          await this.executeGitInstall(
+            command.input_path,
+            command.options as IGitInstallOptions
+          );
+          break;
+        case 'lint':
+          await this.executeLint(
+            command.input_path,
+            command.options as ILintOptions
+          );
+          break;
+        case 'import':
+          await this.executeImport(
+            command.input_path,
+            command.options as IImportOptions
+          );
+          break;
+        case 'export':
+          await this.executeExport(
+            command.input_path,
+            command.options as IExportOptions
+          );
+          break;
+        case 'curl':
+          await this.executeCurl(
+            command.input_path,
+            command.options as ICurlOptions
+          );
+          break;
         default: {
           console.error(`Unknown command: ${command.command}`);
           process.exit(1);
@@ -71,7 +175,9 @@ class CarvemanApp {
     const result = await split_command.execute(input_path, options);
 
     if (result.success) {
-      if (!options.verbose) {
+      if (result.changes) {
+        this.printSyncChanges(result, options);
+      } else if (!options.verbose) {
         console.log(`✅ Split completed: ${result.collection_name}`);
         console.log(`   Output: ${result.output_directory}`);
         console.log(
@@ -143,6 +249,396 @@ class CarvemanApp {
       process.exit(1);
     }
   }
+
+  /**
+   * Executes the split-env command
+   * @param input_path - Path to the Postman environment JSON file
+   * @param options - Split options
+   * @returns Promise<void>
+   */
+  private async executeSplitEnv(
+    input_path: string,
+    options: ISplitOptions
+  ): Promise<void> {
+    const result = await split_env_command.execute(input_path, options);
+
+    if (result.success) {
+      if (!(options.verbose || options.dry_run)) {
+        console.log(
+          `✅ Environment split completed: ${result.environment_name}`
+        );
+        console.log(`   Output: ${result.output_directory}`);
+        console.log(`   Variables: ${result.variables_count}`);
+      }
+
+      this.printWarnings(result.warnings);
+    } else {
+      console.error('❌ Environment split failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+
+      this.printWarnings(result.warnings);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Executes the build-env command
+   * @param input_path - Path to the environment directory
+   * @param options - Build options
+   * @returns Promise<void>
+   */
+  private async executeBuildEnv(
+    input_path: string,
+    options: IBuildOptions
+  ): Promise<void> {
+    const result = await build_env_command.execute(input_path, options);
+
+    if (result.success) {
+      if (!options.verbose) {
+        console.log(
+          `✅ Environment build completed: ${result.environment_name}`
+        );
+        console.log(`   Output: ${result.output_file}`);
+        console.log(`   Variables: ${result.variables_count}`);
+      }
+
+      this.printWarnings(result.warnings);
+    } else {
+      console.error('❌ Environment build failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+
+      this.printWarnings(result.warnings);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Executes the diff command
+   * @param source_path - Collection before the change
+   * @param target_path - Collection after the change
+   * @param options - Diff options
+   * @returns Promise<void>
+   */
+  private async executeDiff(
+    source_path: string,
+    target_path: string,
+    options: IDiffOptions
+  ): Promise<void> {
+    const result = await diff_command.execute(
+      source_path,
+      target_path,
+      options
+    );
+
+    // The report goes to stdout, so everything else goes to stderr
+    for (const warning of result.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+
+    if (!result.success) {
+      console.error('❌ Diff failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+      process.exit(1);
+    }
+
+    if (result.output_file) {
+      console.error(`✅ Diff written to: ${result.output_file}`);
+    } else {
+      console.log(result.report);
+    }
+
+    if (options.exit_code && result.has_changes) {
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Executes the merge command
+   * @param ours_path - Our version of the collection
+   * @param options - Merge options
+   * @returns Promise<void>
+   */
+  private async executeMerge(
+    ours_path: string,
+    options: IMergeOptions
+  ): Promise<void> {
+    const result = await merge_command.execute(ours_path, options);
+
+    if (!result.success) {
+      console.error('❌ Merge failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+
+      this.printWarnings(result.warnings);
+      process.exit(1);
+    }
+
+    if (!options.verbose) {
+      console.log(`✅ Merge completed: ${result.collection_name}`);
+      console.log(`   Output: ${result.output_path}`);
+    }
+
+    this.printWarnings(result.warnings);
+
+    if (result.conflicts.length > 0) {
+      console.log(`\n⚔️  Conflicts: ${result.conflicts.length}`);
+      for (const conflict of result.conflicts) {
+        const location = [conflict.path || '(collection)', conflict.field]
+          .filter(Boolean)
+          .join(' › ');
+        console.log(
+          `   ${location} [${conflict.kind}, ${conflict.resolution}]`
+        );
+      }
+
+      // Conflicts resolved by a favoured side need no further attention
+      if (!options.favor) {
+        process.exit(1);
+      }
+    }
+  }
+
+  /**
+   * Executes the lint command
+   * @param input_path - Split collection directory
+   * @param options - Lint options
+   * @returns Promise<void>
+   */
+  private async executeLint(
+    input_path: string,
+    options: ILintOptions
+  ): Promise<void> {
+    const result = await lint_command.execute(input_path, options);
+
+    // The report goes to stdout, so everything else goes to stderr
+    for (const warning of result.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+
+    if (!result.success) {
+      console.error('❌ Lint failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+      process.exit(1);
+    }
+
+    if (result.output_file) {
+      console.error(`✅ Lint report written to: ${result.output_file}`);
+    } else {
+      console.log(result.report);
+    }
+
+    if (result.has_errors) {
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Executes the import command
+   * @param input_path - File to import
+   * @param options - Import options
+   * @returns Promise<void>
+   */
+  private async executeImport(
+    input_path: string,
+    options: IImportOptions
+  ): Promise<void> {
+    const result = await import_command.execute(input_path, options);
+
+    if (!result.success) {
+      console.error('❌ Import failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+
+      this.printWarnings(result.warnings);
+      process.exit(1);
+    }
+
+    if (!(options.verbose || options.dry_run)) {
+      console.log(`✅ Import completed: ${result.collection_name}`);
+      console.log(`   Output: ${result.output_directory}`);
+      console.log(
+        `   Files: ${result.files_created}, Folders: ${result.folders_created}`
+      );
+    }
+
+    this.printWarnings(result.warnings);
+  }
+
+  /**
+   * Executes the export command
+   * @param input_path - Collection JSON file or split directory
+   * @param options - Export options
+   * @returns Promise<void>
+   */
+  private async executeExport(
+    input_path: string,
+    options: IExportOptions
+  ): Promise<void> {
+    const result = await export_command.execute(input_path, options);
+
+    // The document goes to stdout, so everything else goes to stderr
+    for (const warning of result.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+
+    if (!result.success) {
+      console.error('❌ Export failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+      process.exit(1);
+    }
+
+    if (result.output_file) {
+      console.error(`✅ Export written to: ${result.output_file}`);
+      if (result.files_written > 0) {
+        console.error(`   Files: ${result.files_written}`);
+      }
+    } else {
+      console.log(result.document);
+    }
+  }
+
+  /**
+   * Executes the curl command
+   * @param input_path - Request file
+   * @param options - Curl options
+   * @returns Promise<void>
+   */
+  private async executeCurl(
+    input_path: string,
+    options: ICurlOptions
+  ): Promise<void> {
+    const result = await curl_command.execute(input_path, options);
+
+    // The command goes to stdout, so everything else goes to stderr
+    for (const warning of result.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+
+    if (!result.success) {
+      console.error('❌ Curl failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+      process.exit(1);
+    }
+
+    console.log(result.command);
+  }
+
+  /**
+   * Executes the merge driver. Git reads the exit status: 0 for a clean
+   * merge, anything else for a conflict, so all output goes to stderr.
+   * @param ours_path - Our version, overwritten with the result
+   * @param options - Merge driver options
+   * @returns Promise<void>
+   */
+  private async executeMergeDriver(
+    ours_path: string,
+    options: IMergeDriverOptions
+  ): Promise<void> {
+    const result = await merge_driver_command.execute(ours_path, options);
+
+    for (const error of result.errors) {
+      console.error(`❌ ${error}`);
+    }
+    for (const warning of result.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+    for (const conflict of result.conflicts) {
+      console.error(
+        `⚔️  ${conflict.path} › ${conflict.field} [${conflict.kind}, ${conflict.resolution}]`
+      );
+    }
+
+    if (!result.success || result.conflicts.length > 0) {
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Executes the git install command
+   * @param directory_path - Directory inside the repository
+   * @param options - Git install options
+   * @returns Promise<void>
+   */
+  private async executeGitInstall(
+    directory_path: string,
+    options: IGitInstallOptions
+  ): Promise<void> {
+    const result = await git_install_command.execute(directory_path, options);
+
+    if (!result.success) {
+      console.error('❌ Git install failed:');
+      for (const error of result.errors) {
+        console.error(`   ${error}`);
+      }
+      process.exit(1);
+    }
+
+    if (!options.verbose) {
+      console.log(`✅ Merge driver registered in ${result.repository_root}`);
+    }
+
+    this.printWarnings(result.warnings);
+  }
+
+  /**
+   * Prints the paths a split sync added, modified and deleted
+   * @param result - Split result holding the changes
+   * @param options - Split options
+   */
+  private printSyncChanges(result: SplitResult, options: ISplitOptions): void {
+    const { added = [], modified = [], deleted = [] } = result.changes ?? {};
+
+    console.log(
+      options.dry_run
+        ? `🔍 Split would sync: ${result.collection_name}`
+        : `✅ Split synced: ${result.collection_name}`
+    );
+    console.log(`   Output: ${result.output_directory}`);
+    if (added.length + modified.length + deleted.length === 0) {
+      console.log('   Already up to date');
+      return;
+    }
+
+    console.log(
+      `   Added: ${added.length}, Modified: ${modified.length}, Deleted: ${deleted.length}`
+    );
+    for (const path of added) {
+      console.log(`   + ${path}`);
+    }
+    for (const path of modified) {
+      console.log(`   ~ ${path}`);
+    }
+    for (const path of deleted) {
+      console.log(`   - ${path}`);
+    }
+  }
+
+  /**
+   * Prints collected warnings, if any
+   * @param warnings - Warnings to print
+   */
+  private printWarnings(warnings: string[]): void {
+    if (warnings.length > 0) {
+      console.log('\n⚠️  Warnings:');
+      for (const warning of warnings) {
+        console.log(`   ${warning}`);
+      }
+    }
+  }
 }
 
 // Run the application - works in both Bun and Node.js environments
@@ -0,0 +1,130 @@
+/**
+ * Carveman - Library entry point
+ * Splits and builds collections from code: nothing is printed, the process is
+ * never exited, and every outcome is reported in the returned result
+ */
+
+import { type BuildResult, build_command } from '@/commands/build_command.ts';
+import { type SplitResult, split_command } from '@/commands/split_command.ts';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import { postman_parser } from '@/parser/postman_parser.ts';
+import type {
+  IBuildOptions,
+  IPostmanCollection,
+  ISplitOptions
+} from '@/types/postman.ts';
+
+export type { BuildResult } from '@/commands/build_command.ts';
+export type { SplitResult } from '@/commands/split_command.ts';
+export type {
+  ICollectionIndex,
+  IFolderIndex,
+  IPostmanAuth,
+  IPostmanBody,
+  IPostmanCollection,
+  IPostmanEvent,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanResponse,
+  IPostmanUrl,
+  IPostmanVariable,
+  IRequestFile,
+  SecretMode
+} from '@/types/postman.ts';
+
+/**
+ * Splits a collection into a directory named after it under options.output
+ * (default: the current directory)
+ * @param collection - Collection object, or path to a collection JSON file
+ * @param options - Split options
+ * @returns Promise<SplitResult>
+ */
+export async function split(
+  collection: IPostmanCollection | string,
+  options: SplitOptions = {}
+): Promise<SplitResult> {
+  const result: SplitResult = {
+    success: false,
+    collection_name: '',
+    output_directory: '',
+    files_created: 0,
+    folders_created: 0,
+    errors: [],
+    warnings: []
+  };
+
+  try {
+    let collection_json: unknown = collection;
+    if (typeof collection === 'string') {
+      if (!(await file_system_manager.pathExists(collection))) {
+        result.errors.push(`Input file does not exist: ${collection}`);
+        return result;
+      }
+      collection_json = await file_system_manager.readJsonFile(collection);
+    }
+
+    const validation = postman_parser.validateCollection(collection_json);
+    if (!validation.is_valid) {
+      result.errors.push(...validation.errors);
+      return result;
+    }
+    const valid_collection = collection_json as IPostmanCollection;
+
+    // The CLI would prompt before replacing an existing tree; a sync
+    // updates it in place
+    const split_options: ISplitOptions = {
+      ...options,
+      dry_run: false,
+      verbose: false
+    };
+    const output_directory = split_command.getCollectionDirectory(
+      valid_collection,
+      split_options
+    );
+    if (
+      !(options.overwrite || options.sync) &&
+      (await file_system_manager.pathExists(output_directory))
+    ) {
+      result.collection_name = valid_collection.info.name;
+      result.output_directory = output_directory;
+      result.errors.push(
+        `Output directory already exists: ${output_directory} (set overwrite to replace it)`
+      );
+      return result;
+    }
+
+    const split_result = await split_command.splitToOutput(
+      valid_collection,
+      split_options
+    );
+    split_result.warnings.unshift(...validation.warnings);
+    return split_result;
+  } catch (error) {
+    result.errors.push(`Split operation failed: ${error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Builds a collection from a split directory. The collection is returned in
+ * the result, and also written to options.output when it is set.
+ * @param directory - Path to the split collection directory
+ * @param options - Build options
+ * @returns Promise<BuildResult>
+ */
+export async function build(
+  directory: string,
+  options: BuildOptions = {}
+): Promise<BuildResult> {
+  const build_options: IBuildOptions = { ...options, verbose: false };
+
+  return options.output
+    ? build_command.execute(directory, build_options)
+    : build_command.assemble(directory, build_options);
+}
+
+// Supporting types
+export type SplitOptions = Omit<ISplitOptions, 'dry_run' | 'verbose'>;
+
+export type BuildOptions = Omit<IBuildOptions, 'verbose'>;
@@ -0,0 +1,332 @@
+/**
+ * Collection Linter
+ * Walks a split tree and applies the lint rules to every folder and request
+ */
+
+import { relative, sep } from 'node:path';
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import {
+  LINT_RULES,
+  type LintRuleId,
+  type LintSeverity,
+  type LintTarget
+} from '@/lint/lint_rules.ts';
+import { script_extractor } from '@/parser/script_extractor.ts';
+import type { IPostmanAuth, IPostmanEvent } from '@/types/postman.ts';
+
+// Severities a rule can be configured with; "off" disables it
+const RULE_SETTINGS = ['off', 'error', 'warning', 'info'];
+
+/**
+ * Collection Linter class for split tree hygiene checks
+ */
+export class CollectionLinter {
+  /**
+   * Lints a split collection directory
+   * @param directory_path - Root of the split tree
+   * @param config - Rule settings
+   * @returns Promise<LintReport>
+   */
+  async lintDirectory(
+    directory_path: string,
+    config: LintConfig = {}
+  ): Promise<LintReport> {
+    const severities = this.resolveSeverities(config);
+    const collection_index =
+      await file_system_manager.readCollectionIndex(directory_path);
+
+    const findings: LintFinding[] = [];
+    await this.lintFolderContents(
+      directory_path,
+      '',
+      collection_index.auth,
+      severities,
+      findings
+    );
+
+    return {
+      collection_name: collection_index.info?.name ?? '',
+      findings,
+      summary: this.summarize(findings)
+    };
+  }
+
+  /**
+   * Turns a config into the effective severity of every enabled rule
+   * @param config - Rule settings
+   * @returns Map<LintRuleId, LintSeverity> - Enabled rules
+   */
+  resolveSeverities(config: LintConfig): Map<LintRuleId, LintSeverity> {
+    const severities = new Map<LintRuleId, LintSeverity>();
+
+    for (const rule of LINT_RULES) {
+      const setting = config.rules?.[rule.id] ?? rule.default_severity;
+      if (setting !== 'off') {
+        severities.set(rule.id, setting);
+      }
+    }
+
+    return severities;
+  }
+
+  /**
+   * Checks a parsed config file, reporting unknown rules and settings
+   * @param config - Parsed config
+   * @returns string[] - Problems found
+   */
+  validateConfig(config: any): string[] {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return ['Lint config must be a JSON object'];
+    }
+    if (config.rules === undefined) {
+      return [];
+    }
+    if (!config.rules || typeof config.rules !== 'object') {
+      return ['Lint config "rules" must be an object'];
+    }
+
+    const problems: string[] = [];
+    const rule_ids = LINT_RULES.map((rule) => rule.id as string);
+    for (const [rule_id, setting] of Object.entries(config.rules)) {
+      if (!rule_ids.includes(rule_id)) {
+        problems.push(
+          `Unknown lint rule "${rule_id}" (known rules: ${rule_ids.join(', ')})`
+        );
+      } else if (!RULE_SETTINGS.includes(setting as string)) {
+        problems.push(
+          `Invalid setting for lint rule "${rule_id}": ${JSON.stringify(setting)} (expected ${RULE_SETTINGS.join(', ')})`
+        );
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Lints the folders and requests listed in one directory
+   * @param directory_path - Directory to lint
+   * @param item_path - Path of the directory in the collection
+   * @param inherited_auth - Nearest auth defined above this directory
+   * @param severities - Enabled rules
+   * @param findings - Collected findings
+   * @returns Promise<void>
+   */
+  private async lintFolderContents(
+    directory_path: string,
+    item_path: string,
+    inherited_auth: IPostmanAuth | undefined,
+    severities: Map<LintRuleId, LintSeverity>,
+    findings: LintFinding[]
+  ): Promise<void> {
+    const structure =
+      await file_system_manager.scanDirectoryStructure(directory_path);
+
+    for (const file of structure.files) {
+      const request = await file_system_manager.readRequestFile(file.path);
+      if (request?.meta?.type !== 'request') {
+        continue;
+      }
+
+      const entry_name = file.name.replace(/\.(json|yaml)$/, '');
+      await this.applyRules(
+        {
+          kind: 'request',
+          file: this.getDisplayPath(file.path),
+          item_path: this.joinItemPath(item_path, entry_name),
+          entry_name,
+          inherited_auth,
+          request,
+          scripts: await this.readScripts(request.event, directory_path)
+        },
+        file.path,
+        severities,
+        findings
+      );
+    }
+
+    for (const folder of structure.folders) {
+      const index_path = await file_system_manager.findIndexFile(folder.path);
+      // Example directories and stray directories have no folder index
+      if (!index_path) {
+        continue;
+      }
+
+      const folder_index = await file_system_manager.readFolderIndex(
+        folder.path
+      );
+      const folder_path = this.joinItemPath(item_path, folder.name);
+      await this.applyRules(
+        {
+          kind: 'folder',
+          file: this.getDisplayPath(index_path),
+          item_path: folder_path,
+          entry_name: folder.name,
+          inherited_auth,
+          folder: folder_index
+        },
+        index_path,
+        severities,
+        findings
+      );
+
+      await this.lintFolderContents(
+        folder.path,
+        folder_path,
+        folder_index.auth ?? inherited_auth,
+        severities,
+        findings
+      );
+    }
+  }
+
+  /**
+   * Applies every enabled rule to one folder or request
+   * @param target - Folder or request to check
+   * @param file_path - Absolute path of the target's file, to locate lines
+   * @param severities - Enabled rules
+   * @param findings - Collected findings
+   * @returns Promise<void>
+   */
+  private async applyRules(
+    target: LintTarget,
+    file_path: string,
+    severities: Map<LintRuleId, LintSeverity>,
+    findings: LintFinding[]
+  ): Promise<void> {
+    let lines: string[] | undefined;
+
+    for (const rule of LINT_RULES) {
+      const severity = severities.get(rule.id);
+      if (!severity) {
+        continue;
+      }
+
+      const reported: { message: string; needle?: string }[] = [];
+      rule.check(target, (message, needle) => {
+        reported.push({ message, needle });
+      });
+
+      for (const { message, needle } of reported) {
+        lines ??= (await file_system_manager.readTextFile(file_path)).split(
+          '\n'
+        );
+        findings.push({
+          rule: rule.id,
+          severity,
+          message,
+          file: target.file,
+          line: this.findLine(lines, needle ?? '"name":'),
+          item_path: target.item_path
+        });
+      }
+    }
+  }
+
+  /**
+   * Reads the source of each script of a request, inline or extracted
+   * @param events - Request events
+   * @param directory_path - Directory of the request file
+   * @returns Promise<Record<string, string>> - Source by event name
+   */
+  private async readScripts(
+    events: IPostmanEvent[] | undefined,
+    directory_path: string
+  ): Promise<Record<string, string>> {
+    const scripts: Record<string, string> = {};
+    const inlined = await script_extractor.inlineScripts(
+      events,
+      directory_path
+    );
+
+    for (const event of inlined ?? []) {
+      const exec = event.script?.exec;
+      const source = Array.isArray(exec) ? exec.join('\n') : (exec ?? '');
+      scripts[event.listen] = `${scripts[event.listen] ?? ''}${source}`;
+    }
+
+    return scripts;
+  }
+
+  /**
+   * Finds the first line containing a needle
+   * @param lines - File lines
+   * @param needle - Text to look for
+   * @returns number - 1-based line number, or 1 if not found
+   */
+  private findLine(lines: string[], needle: string): number {
+    const index = lines.findIndex((line) => line.includes(needle));
+    return index === -1 ? 1 : index + 1;
+  }
+
+  /**
+   * Counts findings by severity
+   * @param findings - Findings to count
+   * @returns LintSummary
+   */
+  private summarize(findings: LintFinding[]): LintSummary {
+    const summary: LintSummary = { errors: 0, warnings: 0, infos: 0 };
+
+    for (const finding of findings) {
+      if (finding.severity === 'error') {
+        summary.errors++;
+      } else if (finding.severity === 'warning') {
+        summary.warnings++;
+      } else {
+        summary.infos++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Gets a file path relative to the working directory, with forward slashes
+   * so reports read the same on every platform
+   * @param file_path - Absolute file path
+   * @returns string
+   */
+  private getDisplayPath(file_path: string): string {
+    return relative(process.cwd(), file_path).split(sep).join('/');
+  }
+
+  /**
+   * Appends a name to an item path
+   * @param parent_path - Parent item path ("" for the collection root)
+   * @param name - Entry name
+   * @returns string
+   */
+  private joinItemPath(parent_path: string, name: string): string {
+    return parent_path ? `${parent_path}/${name}` : name;
+  }
+}
+
+// Supporting types
+export type LintRuleSetting = LintSeverity | 'off';
+
+export interface LintConfig {
+  rules?: Partial<Record<LintRuleId, LintRuleSetting>>;
+}
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  file: string;
+  line: number;
+  item_path: string;
+}
+
+export interface LintSummary {
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+export interface LintReport {
+  collection_name: string;
+  findings: LintFinding[];
+  summary: LintSummary;
+}
+
+// Export singleton instance
+export const collection_linter = new CollectionLinter();
@@ -0,0 +1,124 @@
+/**
+ * Lint Formatter
+ * Renders a lint report as terminal text, JSON, or SARIF for CI annotations
+ */
+
+import type { LintFinding, LintReport } from '@/lint/collection_linter.ts';
+import { LINT_RULES, type LintSeverity } from '@/lint/lint_rules.ts';
+import type { LintFormat } from '@/types/postman.ts';
+
+// SARIF result level for every severity
+const SARIF_LEVELS: Record<LintSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+/**
+ * Lint Formatter class for rendering lint reports
+ */
+export class LintFormatter {
+  /**
+   * Renders a report in the requested format
+   * @param report - Lint report
+   * @param format - Output format
+   * @returns string - Rendered report
+   */
+  format(report: LintReport, format: LintFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(report, null, 2);
+      case 'sarif':
+        return this.formatSarif(report);
+      default:
+        return this.formatText(report);
+    }
+  }
+
+  /**
+   * Renders a report as plain text, grouped by file
+   * @param report - Lint report
+   * @returns string - Text report
+   */
+  formatText(report: LintReport): string {
+    if (report.findings.length === 0) {
+      return 'No problems found';
+    }
+
+    const lines: string[] = [];
+    const by_file = new Map<string, LintFinding[]>();
+    for (const finding of report.findings) {
+      by_file.set(finding.file, [
+        ...(by_file.get(finding.file) ?? []),
+        finding
+      ]);
+    }
+
+    for (const [file, findings] of by_file) {
+      lines.push(file);
+      for (const finding of findings) {
+        lines.push(
+          `  ${String(finding.line).padStart(4)}  ${finding.severity.padEnd(7)}  ${finding.message}  ${finding.rule}`
+        );
+      }
+      lines.push('');
+    }
+
+    const { errors, warnings, infos } = report.summary;
+    lines.push(
+      `${report.findings.length} ${report.findings.length === 1 ? 'problem' : 'problems'} (${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}, ${infos} info)`
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders a report as SARIF 2.1.0, which code scanning tools such as
+   * GitHub use to annotate pull requests
+   * @param report - Lint report
+   * @returns string - SARIF document
+   */
+  formatSarif(report: LintReport): string {
+    const sarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'carveman',
+              informationUri: 'https://github.com/monkfromearth/carveman',
+              rules: LINT_RULES.map((rule) => ({
+                id: rule.id,
+                shortDescription: { text: rule.description },
+                defaultConfiguration: {
+                  level: SARIF_LEVELS[rule.default_severity]
+                }
+              }))
+            }
+          },
+          results: report.findings.map((finding) => ({
+            ruleId: finding.rule,
+            ruleIndex: LINT_RULES.findIndex((rule) => rule.id === finding.rule),
+            level: SARIF_LEVELS[finding.severity],
+            message: { text: finding.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: encodeURI(finding.file) },
+                  region: { startLine: finding.line }
+                },
+                logicalLocations: [{ fullyQualifiedName: finding.item_path }]
+              }
+            ]
+          }))
+        }
+      ]
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+}
+
+// Export singleton instance
+export const lint_formatter = new LintFormatter();
@@ -0,0 +1,206 @@
+/**
+ * Lint Rules
+ * Collection hygiene checks applied by the linter to each folder and request
+ * of a split tree
+ */
+
+import type {
+  IFolderIndex,
+  IPostmanAuth,
+  IPostmanUrl,
+  IRequestFile
+} from '@/types/postman.ts';
+
+// Suffix split adds to the second and later items sharing a name
+const DUPLICATE_SUFFIX_PATTERN = / \(\d+\)$/;
+
+/**
+ * Every lint rule, in the order findings are reported for one item
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'hardcoded-host',
+    description: 'Request URLs should use a variable such as {{baseUrl}}',
+    default_severity: 'warning',
+    check: (target, report) => {
+      if (target.kind !== 'request') {
+        return;
+      }
+
+      const raw = getRawUrl(target.request.request.url);
+      const host = raw
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+        .split(/[/?#]/)[0];
+      if (host && !host.includes('{{')) {
+        report(
+          `URL uses the hardcoded host "${host}"; use a variable such as {{baseUrl}}`,
+          JSON.stringify(raw).slice(1, -1)
+        );
+      }
+    }
+  },
+  {
+    id: 'missing-description',
+    description: 'Requests should have a description',
+    default_severity: 'info',
+    check: (target, report) => {
+      if (target.kind !== 'request') {
+        return;
+      }
+
+      const description =
+        target.request.request.description ?? target.request.description;
+      if (!getDescriptionText(description).trim()) {
+        report('Request has no description');
+      }
+    }
+  },
+  {
+    id: 'missing-tests',
+    description: 'Requests should have a test script',
+    default_severity: 'warning',
+    check: (target, report) => {
+      if (target.kind === 'request' && !target.scripts.test?.trim()) {
+        report('Request has no test script');
+      }
+    }
+  },
+  {
+    id: 'disabled-header',
+    description: 'Disabled headers should be removed',
+    default_severity: 'warning',
+    check: (target, report) => {
+      if (target.kind !== 'request') {
+        return;
+      }
+
+      const headers = target.request.request.header;
+      if (!Array.isArray(headers)) {
+        return;
+      }
+      for (const header of headers) {
+        if (header.disabled) {
+          report(
+            `Header "${header.key}" is disabled`,
+            `"key": ${JSON.stringify(header.key)}`
+          );
+        }
+      }
+    }
+  },
+  {
+    id: 'duplicate-name',
+    description: 'Sibling items should have unique names',
+    default_severity: 'warning',
+    check: (target, report) => {
+      const stored_name =
+        target.kind === 'request' ? target.request.name : target.folder.name;
+      if (
+        DUPLICATE_SUFFIX_PATTERN.test(target.entry_name) &&
+        !DUPLICATE_SUFFIX_PATTERN.test(stored_name)
+      ) {
+        report(
+          `"${stored_name}" has the same name as a sibling and was saved as "${target.entry_name}"`
+        );
+      }
+    }
+  },
+  {
+    id: 'noauth-override',
+    description: 'Items under an authenticated folder should not disable auth',
+    default_severity: 'warning',
+    check: (target, report) => {
+      const auth =
+        target.kind === 'request'
+          ? (target.request.request.auth ?? target.request.auth)
+          : target.folder.auth;
+      const inherited = target.inherited_auth?.type;
+      if (auth?.type === 'noauth' && inherited && inherited !== 'noauth') {
+        report(
+          `Auth is set to "noauth" although the parent uses "${inherited}"`,
+          '"type": "noauth"'
+        );
+      }
+    }
+  }
+];
+
+/**
+ * Gets the raw text of a request URL
+ * @param url - URL as a string or an object
+ * @returns string
+ */
+function getRawUrl(url: string | IPostmanUrl | undefined): string {
+  if (typeof url === 'string') {
+    return url;
+  }
+  if (url?.raw) {
+    return url.raw;
+  }
+
+  const host = Array.isArray(url?.host) ? url.host.join('.') : url?.host;
+  return host ?? '';
+}
+
+/**
+ * Gets the text of a description given as a string or { content }
+ * @param description - Description value
+ * @returns string
+ */
+function getDescriptionText(description: unknown): string {
+  if (typeof description === 'string') {
+    return description;
+  }
+  if (description && typeof description === 'object') {
+    const content = (description as { content?: unknown }).content;
+    return typeof content === 'string' ? content : '';
+  }
+
+  return '';
+}
+
+// Supporting types
+export type LintRuleId =
+  | 'hardcoded-host'
+  | 'missing-description'
+  | 'missing-tests'
+  | 'disabled-header'
+  | 'duplicate-name'
+  | 'noauth-override';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+interface LintTargetBase {
+  // Path of the item's file, relative to the working directory
+  file: string;
+  // Path of the item in the collection, e.g. "Auth/Login"
+  item_path: string;
+  // File or directory name without extension, as listed in order
+  entry_name: string;
+  // Nearest auth defined by an ancestor folder or the collection
+  inherited_auth?: IPostmanAuth;
+}
+
+export interface LintRequestTarget extends LintTargetBase {
+  kind: 'request';
+  request: IRequestFile;
+  // Script source by event name, with extracted .js files read in
+  scripts: Record<string, string>;
+}
+
+export interface LintFolderTarget extends LintTargetBase {
+  kind: 'folder';
+  folder: IFolderIndex;
+}
+
+export type LintTarget = LintRequestTarget | LintFolderTarget;
+
+// Reports a finding; the needle locates its line in the file
+export type LintReporter = (message: string, needle?: string) => void;
+
+export interface LintRule {
+  id: LintRuleId;
+  description: string;
+  default_severity: LintSeverity;
+  check: (target: LintTarget, report: LintReporter) => void;
+}
@@ -0,0 +1,699 @@
+/**
+ * Collection Merger
+ * Three-way structural merge of Postman collections. Items are aligned by id,
+ * falling back to name, and merged field by field; folder order is merged so
+ * that reordering on one side and additions on the other both survive.
+ */
+
+import type { IPostmanCollection, IPostmanItem } from '@/types/postman.ts';
+
+// Fields whose text conflicts are written with conflict markers, because they
+// end up in standalone files (scripts, bodies) or are free text
+const MARKER_FIELDS = [
+  'exec',
+  'raw',
+  'query',
+  'variables',
+  'description',
+  'body'
+];
+
+// Keys that identify elements of arrays merged element by element
+const ARRAY_ELEMENT_KEYS = ['listen', 'key'];
+
+/**
+ * Collection Merger class for three-way collection merges
+ */
+export class CollectionMerger {
+  /**
+   * Merges the changes of two collections made since a common base
+   * @param base - Common ancestor
+   * @param ours - Our version
+   * @param theirs - Their version
+   * @param options - Merge options
+   * @returns MergeOutcome - Merged collection and any conflicts
+   */
+  mergeCollections(
+    base: IPostmanCollection,
+    ours: IPostmanCollection,
+    theirs: IPostmanCollection,
+    options: MergeStrategyOptions = {}
+  ): MergeOutcome {
+    const context: MergeContext = {
+      conflicts: [],
+      favor: options.favor,
+      item_path: ''
+    };
+
+    const { item: base_items, ...base_fields } = base;
+    const { item: our_items, ...our_fields } = ours;
+    const { item: their_items, ...their_fields } = theirs;
+
+    const fields = this.mergeValue(
+      base_fields,
+      our_fields,
+      their_fields,
+      '',
+      context
+    );
+    const collection: IPostmanCollection = {
+      ...fields,
+      item: this.mergeItems(
+        base_items ?? [],
+        our_items ?? [],
+        their_items ?? [],
+        context
+      )
+    };
+
+    return { collection, conflicts: context.conflicts };
+  }
+
+  /**
+   * Merges any three JSON values with the same rules used for collection
+   * fields: objects key by key, keyed arrays element by element
+   * @param base - Common ancestor
+   * @param ours - Our version
+   * @param theirs - Their version
+   * @param options - Merge options
+   * @returns ValueMergeOutcome - Merged value and any conflicts
+   */
+  mergeValues(
+    base: any,
+    ours: any,
+    theirs: any,
+    options: MergeStrategyOptions = {}
+  ): ValueMergeOutcome {
+    const context: MergeContext = {
+      conflicts: [],
+      favor: options.favor,
+      item_path: ''
+    };
+
+    return {
+      value: this.mergeValue(base, ours, theirs, '', context),
+      conflicts: context.conflicts
+    };
+  }
+
+  /**
+   * Merges the children of one folder (or of the collection root)
+   * @param base_items - Children in the base
+   * @param our_items - Children in our version
+   * @param their_items - Children in their version
+   * @param context - Merge context
+   * @returns IPostmanItem[] - Merged children
+   */
+  private mergeItems(
+    base_items: IPostmanItem[],
+    our_items: IPostmanItem[],
+    their_items: IPostmanItem[],
+    context: MergeContext
+  ): IPostmanItem[] {
+    const slots: ItemSlot[] = [];
+    const base_order = this.assignSlots(slots, 'base', base_items);
+    const our_order = this.assignSlots(slots, 'ours', our_items);
+    const their_order = this.assignSlots(slots, 'theirs', their_items);
+
+    const merged = new Map<ItemSlot, IPostmanItem>();
+    for (const slot of slots) {
+      const item = this.mergeSlot(slot, context);
+      if (item) {
+        merged.set(slot, item);
+      }
+    }
+
+    const sequence = this.mergeSequences(
+      base_order,
+      our_order,
+      their_order,
+      (slot) => merged.has(slot),
+      context.favor
+    );
+    if (sequence.conflict) {
+      context.conflicts.push({
+        path: context.item_path,
+        field: 'order',
+        kind: 'order',
+        resolution: context.favor ?? 'ours'
+      });
+    }
+
+    return sequence.order.map((slot) => merged.get(slot) as IPostmanItem);
+  }
+
+  /**
+   * Places each item of one side into the slot of its counterpart: the slot
+   * with the same id, or else the same name, or a new slot
+   * @param slots - Slots found so far, extended in place
+   * @param side - Side the items belong to
+   * @param items - Items of that side
+   * @returns ItemSlot[] - Slots in the order of the side's items
+   */
+  private assignSlots(
+    slots: ItemSlot[],
+    side: MergeSide,
+    items: IPostmanItem[]
+  ): ItemSlot[] {
+    const order: ItemSlot[] = [];
+    const members = (slot: ItemSlot) =>
+      [slot.base, slot.ours, slot.theirs].filter(
+        (member): member is IPostmanItem => member !== undefined
+      );
+
+    for (const item of items) {
+      let slot = item.id
+        ? slots.find(
+            (candidate) =>
+              !candidate[side] &&
+              members(candidate).some((member) => member.id === item.id)
+          )
+        : undefined;
+
+      slot ??= slots.find(
+        (candidate) =>
+          !candidate[side] &&
+          members(candidate).some(
+            (member) =>
+              member.name === item.name &&
+              !(member.id && item.id && member.id !== item.id)
+          )
+      );
+
+      if (!slot) {
+        slot = {};
+        slots.push(slot);
+      }
+
+      slot[side] = item;
+      order.push(slot);
+    }
+
+    return order;
+  }
+
+  /**
+   * Merges the three versions of one item
+   * @param slot - Versions of the item
+   * @param parent_context - Merge context of the parent
+   * @returns IPostmanItem | undefined - Merged item, or undefined if deleted
+   */
+  private mergeSlot(
+    slot: ItemSlot,
+    parent_context: MergeContext
+  ): IPostmanItem | undefined {
+    const { base, ours, theirs } = slot;
+    const name = ours?.name ?? theirs?.name ?? base?.name ?? '';
+    const context: MergeContext = {
+      ...parent_context,
+      item_path: parent_context.item_path
+        ? `${parent_context.item_path}/${name}`
+        : name
+    };
+
+    if (!(ours && theirs)) {
+      return this.mergeDeletion(base, ours, theirs, context);
+    }
+
+    const is_folder = Array.isArray(ours.item);
+    if (is_folder !== Array.isArray(theirs.item)) {
+      return this.resolveConflict(base, ours, theirs, '', 'type', context);
+    }
+
+    if (!is_folder) {
+      return this.mergeValue(base, ours, theirs, '', context);
+    }
+
+    const { item: base_children, ...base_fields } = base ?? {};
+    const { item: our_children, ...our_fields } = ours;
+    const { item: their_children, ...their_fields } = theirs;
+
+    return {
+      ...this.mergeValue(
+        base ? base_fields : undefined,
+        our_fields,
+        their_fields,
+        '',
+        context
+      ),
+      item: this.mergeItems(
+        Array.isArray(base_children) ? base_children : [],
+        our_children ?? [],
+        their_children ?? [],
+        context
+      )
+    };
+  }
+
+  /**
+   * Handles an item missing on at least one side
+   * @param base - Base version
+   * @param ours - Our version
+   * @param theirs - Their version
+   * @param context - Merge context
+   * @returns IPostmanItem | undefined - Surviving item, if any
+   */
+  private mergeDeletion(
+    base: IPostmanItem | undefined,
+    ours: IPostmanItem | undefined,
+    theirs: IPostmanItem | undefined,
+    context: MergeContext
+  ): IPostmanItem | undefined {
+    // Added on one side only
+    if (!base) {
+      return ours ?? theirs;
+    }
+
+    const survivor = ours ?? theirs;
+    // Deleted on both sides, or deleted on one and untouched on the other
+    if (!survivor || this.isEqual(survivor, base)) {
+      return undefined;
+    }
+
+    // Deleted on one side but changed on the other: keep the changed item
+    // unless a side is favoured
+    context.conflicts.push({
+      path: context.item_path,
+      field: '',
+      kind: 'delete',
+      resolution: context.favor ?? (ours ? 'ours' : 'theirs'),
+      base,
+      ours,
+      theirs
+    });
+    if (context.favor) {
+      return context.favor === 'ours' ? ours : theirs;
+    }
+    return survivor;
+  }
+
+  /**
+   * Merges one value. Plain objects and keyed arrays are merged member by
+   * member; anything else changed on both sides is a conflict.
+   * @param base - Base value
+   * @param ours - Our value
+   * @param theirs - Their value
+   * @param field - Dotted path of the value within the item
+   * @param context - Merge context
+   * @returns any - Merged value, undefined if removed
+   */
+  private mergeValue(
+    base: any,
+    ours: any,
+    theirs: any,
+    field: string,
+    context: MergeContext
+  ): any {
+    if (this.isEqual(ours, theirs) || this.isEqual(theirs, base)) {
+      return ours;
+    }
+    if (this.isEqual(ours, base)) {
+      return theirs;
+    }
+
+    if (
+      this.isPlainObject(ours) &&
+      this.isPlainObject(theirs) &&
+      (base === undefined || this.isPlainObject(base))
+    ) {
+      return this.mergeObjects(base ?? {}, ours, theirs, field, context);
+    }
+
+    const element_key = this.getElementKey(base, ours, theirs);
+    if (element_key) {
+      return this.mergeKeyedArrays(
+        base ?? [],
+        ours,
+        theirs,
+        element_key,
+        field,
+        context
+      );
+    }
+
+    return this.resolveConflict(base, ours, theirs, field, 'content', context);
+  }
+
+  /**
+   * Merges two objects key by key, keeping our key order and appending keys
+   * only they added
+   * @param base - Base object
+   * @param ours - Our object
+   * @param theirs - Their object
+   * @param field - Dotted path of the object
+   * @param context - Merge context
+   * @returns Record<string, any> - Merged object
+   */
+  private mergeObjects(
+    base: Record<string, any>,
+    ours: Record<string, any>,
+    theirs: Record<string, any>,
+    field: string,
+    context: MergeContext
+  ): Record<string, any> {
+    const merged: Record<string, any> = {};
+    const keys = [
+      ...Object.keys(ours),
+      ...Object.keys(theirs).filter((key) => !(key in ours))
+    ];
+
+    for (const key of keys) {
+      const value = this.mergeValue(
+        base[key],
+        ours[key],
+        theirs[key],
+        field ? `${field}.${key}` : key,
+        context
+      );
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merges arrays whose elements are identified by a key, such as events by
+   * "listen" or headers and variables by "key"
+   * @param base - Base elements
+   * @param ours - Our elements
+   * @param theirs - Their elements
+   * @param element_key - Property identifying an element
+   * @param field - Dotted path of the array
+   * @param context - Merge context
+   * @returns any[] - Merged elements in our order, their additions appended
+   */
+  private mergeKeyedArrays(
+    base: any[],
+    ours: any[],
+    theirs: any[],
+    element_key: string,
+    field: string,
+    context: MergeContext
+  ): any[] {
+    const find = (elements: any[], id: string) =>
+      elements.find((element) => element[element_key] === id);
+    const ids = [
+      ...ours.map((element) => element[element_key]),
+      ...theirs
+        .map((element) => element[element_key])
+        .filter((id) => !find(ours, id))
+    ];
+
+    const merged: any[] = [];
+    for (const id of ids) {
+      const value = this.mergeValue(
+        find(base, id),
+        find(ours, id),
+        find(theirs, id),
+        `${field}[${id}]`,
+        context
+      );
+      if (value !== undefined) {
+        merged.push(value);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merges three versions of an ordered list. The side that reordered the
+   * shared entries wins; entries only the other side has are inserted after
+   * their nearest predecessor, so relative positions are preserved.
+   * @param base - Entries in base order
+   * @param ours - Entries in our order
+   * @param theirs - Entries in their order
+   * @param keep - Whether an entry survives the merge
+   * @param favor - Side whose order wins when both reordered
+   * @returns SequenceMergeResult<T> - Merged order, and whether both sides
+   * reordered differently
+   */
+  mergeSequences<T>(
+    base: T[],
+    ours: T[],
+    theirs: T[],
+    keep: (entry: T) => boolean,
+    favor?: 'ours' | 'theirs'
+  ): SequenceMergeResult<T> {
+    const shared = (order: T[]) =>
+      order.filter(
+        (entry) =>
+          keep(entry) &&
+          base.includes(entry) &&
+          ours.includes(entry) &&
+          theirs.includes(entry)
+      );
+    const base_shared = shared(base);
+    const ours_reordered = !this.isSameOrder(shared(ours), base_shared);
+    const theirs_reordered = !this.isSameOrder(shared(theirs), base_shared);
+
+    const use_theirs =
+      favor === 'theirs'
+        ? theirs_reordered || !ours_reordered
+        : !ours_reordered;
+    const [primary, secondary] = use_theirs ? [theirs, ours] : [ours, theirs];
+
+    const order = primary.filter(keep);
+    for (const [index, entry] of secondary.entries()) {
+      if (!keep(entry) || order.includes(entry)) {
+        continue;
+      }
+
+      const predecessor = secondary
+        .slice(0, index)
+        .reverse()
+        .find((candidate) => order.includes(candidate));
+      order.splice(
+        predecessor === undefined ? 0 : order.indexOf(predecessor) + 1,
+        0,
+        entry
+      );
+    }
+
+    return {
+      order,
+      conflict:
+        ours_reordered &&
+        theirs_reordered &&
+        !this.isSameOrder(shared(ours), shared(theirs))
+    };
+  }
+
+  /**
+   * Resolves a value changed differently on both sides: by the favoured
+   * side if one was given, with conflict markers for text fields, or else
+   * by keeping our value
+   * @param base - Base value
+   * @param ours - Our value
+   * @param theirs - Their value
+   * @param field - Dotted path of the value
+   * @param kind - Kind of conflict
+   * @param context - Merge context
+   * @returns any - Resolved value
+   */
+  private resolveConflict(
+    base: any,
+    ours: any,
+    theirs: any,
+    field: string,
+    kind: MergeConflictKind,
+    context: MergeContext
+  ): any {
+    let resolution: MergeResolution = context.favor ?? 'ours';
+    let value = context.favor === 'theirs' ? theirs : ours;
+
+    const last_key = field.split('.').pop() ?? '';
+    if (!context.favor && MARKER_FIELDS.includes(last_key)) {
+      const marked = this.addConflictMarkers(ours, theirs);
+      if (marked !== undefined) {
+        resolution = 'markers';
+        value = marked;
+      }
+    }
+
+    context.conflicts.push({
+      path: context.item_path,
+      field,
+      kind,
+      resolution,
+      base,
+      ours,
+      theirs
+    });
+    return value;
+  }
+
+  /**
+   * Combines both versions of a text with git-style conflict markers
+   * @param ours - Our text or lines
+   * @param theirs - Their text or lines
+   * @returns string | string[] | undefined - Marked text, or undefined when
+   * the values are not text
+   */
+  private addConflictMarkers(
+    ours: any,
+    theirs: any
+  ): string | string[] | undefined {
+    const to_lines = (value: any): string[] | undefined => {
+      if (value === undefined) {
+        return [];
+      }
+      if (typeof value === 'string') {
+        return value.split('\n');
+      }
+      if (
+        Array.isArray(value) &&
+        value.every((line) => typeof line === 'string')
+      ) {
+        return value;
+      }
+      return undefined;
+    };
+
+    const our_lines = to_lines(ours);
+    const their_lines = to_lines(theirs);
+    if (!(our_lines && their_lines)) {
+      return undefined;
+    }
+
+    const lines = [
+      '<<<<<<< ours',
+      ...our_lines,
+      '=======',
+      ...their_lines,
+      '>>>>>>> theirs'
+    ];
+    return Array.isArray(ours) || Array.isArray(theirs)
+      ? lines
+      : lines.join('\n');
+  }
+
+  /**
+   * Finds the property identifying the elements of arrays that can be merged
+   * element by element: every element is an object with a unique value for it
+   * @param arrays - Versions of the array
+   * @returns string | undefined - Identifying property, if any
+   */
+  private getElementKey(...arrays: any[]): string | undefined {
+    const present = arrays.filter((array) => array !== undefined);
+    if (!present.every(Array.isArray)) {
+      return undefined;
+    }
+
+    return ARRAY_ELEMENT_KEYS.find((element_key) =>
+      present.every((array: any[]) => {
+        const ids = array.map((element) =>
+          this.isPlainObject(element) ? element[element_key] : undefined
+        );
+        return (
+          ids.every((id) => typeof id === 'string') &&
+          new Set(ids).size === ids.length
+        );
+      })
+    );
+  }
+
+  /**
+   * Checks whether two orders list the same slots in the same sequence
+   * @param a - First order
+   * @param b - Second order
+   * @returns boolean
+   */
+  private isSameOrder<T>(a: T[], b: T[]): boolean {
+    return (
+      a.length === b.length && a.every((entry, index) => entry === b[index])
+    );
+  }
+
+  /**
+   * Checks whether a value is a plain object (not an array or null)
+   * @param value - Value to check
+   * @returns boolean
+   */
+  private isPlainObject(value: any): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Compares two values structurally, ignoring object key order
+   * @param a - First value
+   * @param b - Second value
+   * @returns boolean - True if equal
+   */
+  private isEqual(a: any, b: any): boolean {
+    if (a === b) {
+      return true;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return (
+        a.length === b.length &&
+        a.every((element, index) => this.isEqual(element, b[index]))
+      );
+    }
+
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      const a_keys = Object.keys(a).filter((key) => a[key] !== undefined);
+      const b_keys = Object.keys(b).filter((key) => b[key] !== undefined);
+      return (
+        a_keys.length === b_keys.length &&
+        a_keys.every((key) => this.isEqual(a[key], b[key]))
+      );
+    }
+
+    return false;
+  }
+}
+
+// Supporting types
+export type MergeSide = 'base' | 'ours' | 'theirs';
+
+export type MergeConflictKind = 'content' | 'delete' | 'type' | 'order';
+
+export type MergeResolution = 'ours' | 'theirs' | 'markers';
+
+export interface MergeConflict {
+  path: string;
+  field: string;
+  kind: MergeConflictKind;
+  resolution: MergeResolution;
+  base?: any;
+  ours?: any;
+  theirs?: any;
+}
+
+export interface MergeStrategyOptions {
+  favor?: 'ours' | 'theirs';
+}
+
+export interface MergeOutcome {
+  collection: IPostmanCollection;
+  conflicts: MergeConflict[];
+}
+
+export interface ValueMergeOutcome {
+  value: any;
+  conflicts: MergeConflict[];
+}
+
+export interface SequenceMergeResult<T> {
+  order: T[];
+  conflict: boolean;
+}
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  favor?: 'ours' | 'theirs';
+  item_path: string;
+}
+
+interface ItemSlot {
+  base?: IPostmanItem;
+  ours?: IPostmanItem;
+  theirs?: IPostmanItem;
+}
+
+// Export singleton instance
+export const collection_merger = new CollectionMerger();
@@ -0,0 +1,165 @@
+/**
+ * Body Extractor
+ * Moves raw and GraphQL request bodies out of request JSON into typed files
+ * during split, and reads them back byte-for-byte during build
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import type { IExtractedFile, IPostmanBody } from '@/types/postman.ts';
+
+// File extensions for raw body languages offered by Postman
+const RAW_LANGUAGE_EXTENSIONS: Record<string, string> = {
+  json: '.json',
+  xml: '.xml',
+  html: '.html',
+  javascript: '.js',
+  text: '.txt'
+};
+
+/**
+ * Body Extractor class for request body files
+ */
+export class BodyExtractor {
+  /**
+   * Replaces raw and GraphQL body content with references to sibling files
+   * @param body - Request body
+   * @param base_name - File name prefix (request name)
+   * @returns BodyExtractionResult - Rewritten body and files to write
+   */
+  extractBody(
+    body: IPostmanBody | undefined,
+    base_name: string
+  ): BodyExtractionResult {
+    const result: BodyExtractionResult = {
+      body,
+      files: []
+    };
+
+    if (!body) {
+      return result;
+    }
+
+    let extracted: IPostmanBody = body;
+
+    if (typeof body.raw === 'string' && body.raw.length > 0) {
+      const file_name = `${base_name}.body${this.getRawExtension(body)}`;
+      result.files.push({ file_name, content: body.raw });
+      const { raw: _raw, ...rest } = extracted;
+      extracted = { ...rest, raw_file: file_name };
+    }
+
+    if (body.graphql) {
+      const { query, variables, ...rest } = body.graphql;
+      const graphql: NonNullable<IPostmanBody['graphql']> = rest;
+
+      if (typeof query === 'string' && query.length > 0) {
+        const file_name = `${base_name}.graphql`;
+        result.files.push({ file_name, content: query });
+        graphql.query_file = file_name;
+      } else if (query !== undefined) {
+        graphql.query = query;
+      }
+
+      if (typeof variables === 'string' && variables.length > 0) {
+        const file_name = `${base_name}.variables.json`;
+        result.files.push({ file_name, content: variables });
+        graphql.variables_file = file_name;
+      } else if (variables !== undefined) {
+        graphql.variables = variables;
+      }
+
+      extracted = { ...extracted, graphql };
+    }
+
+    if (result.files.length > 0) {
+      result.body = extracted;
+    }
+
+    return result;
+  }
+
+  /**
+   * Restores body content for every field that references an extracted file
+   * @param body - Body read from a request file
+   * @param directory_path - Directory the request file lives in
+   * @returns Promise<IPostmanBody | undefined> - Body with content inlined
+   */
+  async inlineBody(
+    body: IPostmanBody | undefined,
+    directory_path: string
+  ): Promise<IPostmanBody | undefined> {
+    if (!(body && (body.raw_file || body.graphql))) {
+      return body;
+    }
+
+    const { raw_file, ...inlined } = body;
+
+    if (raw_file) {
+      inlined.raw = await this.readBodyFile(directory_path, raw_file);
+    }
+
+    if (body.graphql) {
+      const { query_file, variables_file, ...graphql } = body.graphql;
+
+      if (query_file) {
+        graphql.query = await this.readBodyFile(directory_path, query_file);
+      }
+
+      if (variables_file) {
+        graphql.variables = await this.readBodyFile(
+          directory_path,
+          variables_file
+        );
+      }
+
+      inlined.graphql = graphql;
+    }
+
+    return inlined;
+  }
+
+  /**
+   * Picks the file extension for a raw body from its declared language
+   * @param body - Request body
+   * @returns string - File extension including the dot
+   */
+  getRawExtension(body: IPostmanBody): string {
+    return this.getLanguageExtension(body.options?.raw?.language);
+  }
+
+  /**
+   * Maps a Postman body language to a file extension, defaulting to .txt
+   * @param language - Language such as json, xml or text
+   * @returns string - File extension including the dot
+   */
+  getLanguageExtension(language: string | undefined): string {
+    return RAW_LANGUAGE_EXTENSIONS[language?.toLowerCase() ?? ''] ?? '.txt';
+  }
+
+  /**
+   * Reads an extracted body file without altering its content
+   * @param directory_path - Directory the request file lives in
+   * @param file_name - Referenced body file name
+   * @returns Promise<string> - File content
+   */
+  private async readBodyFile(
+    directory_path: string,
+    file_name: string
+  ): Promise<string> {
+    const file_path = file_system_manager.joinPath(directory_path, file_name);
+    if (!(await file_system_manager.pathExists(file_path))) {
+      throw new Error(`Body file not found: ${file_path}`);
+    }
+
+    return await file_system_manager.readTextFile(file_path);
+  }
+}
+
+// Supporting types
+export interface BodyExtractionResult {
+  body: IPostmanBody | undefined;
+  files: IExtractedFile[];
+}
+
+// Export singleton instance
+export const body_extractor = new BodyExtractor();
@@ -0,0 +1,162 @@
+/**
+ * Example Extractor
+ * Moves saved response examples out of request JSON into an examples/
+ * directory during split, and reassembles them in order during build
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import {
+  type SerializeOptions,
+  json_serializer
+} from '@/fs/json_serializer.ts';
+import { body_extractor } from '@/parser/body_extractor.ts';
+import type { IExtractedFile, IPostmanResponse } from '@/types/postman.ts';
+import {
+  generateUniqueOriginalName,
+  sanitizeOriginalName
+} from '@/utils/sanitization.ts';
+
+// Directory, next to the request file, that holds extracted examples
+export const EXAMPLES_DIRECTORY = 'examples';
+
+/**
+ * Example Extractor class for saved response examples
+ */
+export class ExampleExtractor {
+  /**
+   * Writes each response example, and its body, into its own file under
+   * examples/<request>/ and returns the ordered list of example files
+   * @param responses - Saved responses of a request
+   * @param base_name - Request name used as the example directory name
+   * @param options - Indentation and line ending of the example files
+   * @returns ExampleExtractionResult - Example file references and files
+   */
+  extractExamples(
+    responses: IPostmanResponse[] | undefined,
+    base_name: string,
+    options: SerializeOptions = {}
+  ): ExampleExtractionResult {
+    const result: ExampleExtractionResult = {
+      response: responses,
+      response_files: undefined,
+      files: []
+    };
+
+    if (!responses || responses.length === 0) {
+      return result;
+    }
+
+    const example_dir = `${EXAMPLES_DIRECTORY}/${base_name}`;
+    const used_names = new Set<string>();
+    result.response = undefined;
+    result.response_files = [];
+
+    for (const response of responses) {
+      const example_name = generateUniqueOriginalName(
+        sanitizeOriginalName(response.name || 'Example'),
+        used_names
+      );
+      used_names.add(example_name);
+
+      let example: IPostmanResponse = response;
+      if (typeof response.body === 'string' && response.body.length > 0) {
+        const body_file = `${example_name}.body${body_extractor.getLanguageExtension(
+          this.getResponseLanguage(response)
+        )}`;
+        result.files.push({
+          file_name: `${example_dir}/${body_file}`,
+          content: response.body
+        });
+        const { body: _body, ...rest } = response;
+        example = { ...rest, body_file };
+      }
+
+      const example_file = `${example_dir}/${example_name}.json`;
+      result.response_files.push(example_file);
+      result.files.push({
+        file_name: example_file,
+        content: json_serializer.stringify(example, {
+          ...options,
+          type: 'response'
+        })
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads extracted example files back into a response array
+   * @param response_files - Example files referenced by a request file
+   * @param directory_path - Directory the request file lives in
+   * @returns Promise<IPostmanResponse[]> - Responses in their original order
+   */
+  async inlineExamples(
+    response_files: string[],
+    directory_path: string
+  ): Promise<IPostmanResponse[]> {
+    const responses: IPostmanResponse[] = [];
+
+    for (const response_file of response_files) {
+      const example_path = file_system_manager.joinPath(
+        directory_path,
+        response_file
+      );
+      if (!(await file_system_manager.pathExists(example_path))) {
+        throw new Error(`Example file not found: ${example_path}`);
+      }
+
+      const example: IPostmanResponse =
+        await file_system_manager.readJsonFile(example_path);
+      const { body_file, ...response } = example;
+
+      if (body_file) {
+        const body_path = file_system_manager.joinPath(
+          file_system_manager.getDirname(example_path),
+          body_file
+        );
+        if (!(await file_system_manager.pathExists(body_path))) {
+          throw new Error(`Example body file not found: ${body_path}`);
+        }
+        response.body = await file_system_manager.readTextFile(body_path);
+      }
+
+      responses.push(response);
+    }
+
+    return responses;
+  }
+
+  /**
+   * Determines the body language of a response from its preview language
+   * or Content-Type header
+   * @param response - Saved response
+   * @returns string | undefined - Language such as json, xml or html
+   */
+  private getResponseLanguage(response: IPostmanResponse): string | undefined {
+    if (response._postman_previewlanguage) {
+      return response._postman_previewlanguage;
+    }
+
+    const content_type = response.header
+      ?.find((header) => header.key?.toLowerCase() === 'content-type')
+      ?.value?.toLowerCase();
+    if (!content_type) {
+      return undefined;
+    }
+
+    return ['json', 'xml', 'html', 'javascript'].find((language) =>
+      content_type.includes(language)
+    );
+  }
+}
+
+// Supporting types
+export interface ExampleExtractionResult {
+  response: IPostmanResponse[] | undefined;
+  response_files: string[] | undefined;
+  files: IExtractedFile[];
+}
+
+// Export singleton instance
+export const example_extractor = new ExampleExtractor();
@@ -3,6 +3,7 @@
  * Handles parsing, validation, and processing of Postman Collection v2.1 format
  */
 
+import { schema_validator } from '@/schema/schema_validator.ts';
 import type {
   ICollectionIndex,
   IFolderIndex,
@@ -15,15 +16,47 @@ import type {
 import {
   generateUniqueOriginalName,
   sanitizeOriginalFileName,
-  sanitizeOriginalName
+  sanitizeOriginalName,
+  truncateName
 } from '@/utils/sanitization.ts';
 
+// Collection keys carveman models explicitly; anything else is carried as-is
+const KNOWN_COLLECTION_KEYS = [
+  'info',
+  'item',
+  'variable',
+  'event',
+  'auth',
+  'protocolProfileBehavior'
+];
+
+// Item keys carveman models explicitly; anything else is carried as-is
+const KNOWN_ITEM_KEYS = [
+  'id',
+  'name',
+  'description',
+  'variable',
+  'event',
+  'request',
+  'response',
+  'item',
+  'auth',
+  'protocolProfileBehavior'
+];
+
+// Suffixes that the body files of a request add to its name, before the
+// extension: "Login.body.json" and "Login.variables.json"
+const BODY_FILE_SUFFIXES = ['.body', '.variables'];
+
 /**
  * Postman Collection Parser class
  */
 export class PostmanParser {
   /**
-   * Validates if the JSON is a valid Postman Collection v2.1
+   * Validates if the JSON is a valid Postman Collection v2.1. Besides the
+   * structure carveman relies on (e.g. named items), the whole document is
+   * checked against the official JSON Schema and every violation is
+   * reported with its JSON pointer.
    * @param json_data - Raw JSON data to validate
    * @returns ValidationResult
    */
@@ -43,48 +76,54 @@ export class PostmanParser {
       }
 
       // Check for required info field
-      if (!json_data.info) {
-        result.is_valid = false;
-        result.errors.push('Missing required "info" field');
-        return result;
-      }
-
-      // Validate info structure
       const info = json_data.info;
-      if (!info.name || typeof info.name !== 'string') {
-        result.is_valid = false;
-        result.errors.push('Missing or invalid "info.name" field');
-      }
+      if (info) {
+        // Validate info structure
+        if (!info.name || typeof info.name !== 'string') {
+          result.is_valid = false;
+          result.errors.push('Missing or invalid "info.name" field');
+        }
 
-      if (!info.schema || typeof info.schema !== 'string') {
+        if (!info.schema || typeof info.schema !== 'string') {
+          result.is_valid = false;
+          result.errors.push('Missing or invalid "info.schema" field');
+        } else if (!info.schema.includes('v2.1')) {
+          result.warnings.push(
+            'Schema version is not v2.1, some features may not work correctly'
+          );
+        }
+      } else {
         result.is_valid = false;
-        result.errors.push('Missing or invalid "info.schema" field');
-      } else if (!info.schema.includes('v2.1')) {
-        result.warnings.push(
-          'Schema version is not v2.1, some features may not work correctly'
-        );
+        result.errors.push('Missing required "info" field');
       }
 
       // Check for required item field
       if (!json_data.item) {
         result.is_valid = false;
         result.errors.push('Missing required "item" field');
-        return result;
-      }
-
-      if (!Array.isArray(json_data.item)) {
+      } else if (Array.isArray(json_data.item)) {
+        // Validate items structure
+        const item_validation = this.validateItems(json_data.item);
+        result.errors.push(...item_validation.errors);
+        result.warnings.push(...item_validation.warnings);
+
+        if (item_validation.errors.length > 0) {
+          result.is_valid = false;
+        }
+      } else {
         result.is_valid = false;
         result.errors.push('"item" field must be an array');
-        return result;
       }
 
-      // Validate items structure
-      const item_validation = this.validateItems(json_data.item);
-      result.errors.push(...item_validation.errors);
-      result.warnings.push(...item_validation.warnings);
-
-      if (item_validation.errors.length > 0) {
+      const schema_validation = schema_validator.validateCollection(json_data);
+      if (!schema_validation.is_valid) {
         result.is_valid = false;
+        result.errors.push(
+          ...schema_validation.violations.map(
+            (violation) =>
+              `Schema v${schema_validation.schema_version} violation at ${schema_validator.formatViolation(violation)}`
+          )
+        );
       }
     } catch (error) {
       result.is_valid = false;
@@ -94,6 +133,83 @@ export class PostmanParser {
     return result;
   }
 
+  /**
+   * Validates if the JSON is a valid Postman environment export
+   * @param json_data - Raw JSON data to validate
+   * @returns ValidationResult
+   */
+  validateEnvironment(json_data: any): ValidationResult {
+    const result: ValidationResult = {
+      is_valid: true,
+      errors: [],
+      warnings: []
+    };
+
+    // Check if it's an object
+    if (!json_data || typeof json_data !== 'object') {
+      result.is_valid = false;
+      result.errors.push('Invalid JSON: not an object');
+      return result;
+    }
+
+    if (!json_data.name || typeof json_data.name !== 'string') {
+      result.is_valid = false;
+      result.errors.push('Missing or invalid "name" field');
+    }
+
+    if (!Array.isArray(json_data.values)) {
+      result.is_valid = false;
+      result.errors.push('Missing or invalid "values" field: must be an array');
+      return result;
+    }
+
+    if (
+      json_data._postman_variable_scope !== undefined &&
+      json_data._postman_variable_scope !== 'environment'
+    ) {
+      result.warnings.push(
+        `Variable scope is "${json_data._postman_variable_scope}", expected "environment"`
+      );
+    }
+
+    for (let i = 0; i < json_data.values.length; i++) {
+      result.errors.push(
+        ...this.validateEnvironmentValue(json_data.values[i], `values[${i}]`)
+      );
+    }
+
+    if (result.errors.length > 0) {
+      result.is_valid = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Validates a single environment variable
+   * @param value - Variable to validate
+   * @param value_path - Path for error reporting
+   * @returns string[] - Validation errors
+   */
+  private validateEnvironmentValue(value: any, value_path: string): string[] {
+    if (!value || typeof value !== 'object') {
+      return [`Invalid variable at ${value_path}: not an object`];
+    }
+
+    const errors: string[] = [];
+    if (typeof value.key !== 'string') {
+      errors.push(`Invalid variable at ${value_path}: missing or invalid key`);
+    }
+
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+      errors.push(
+        `Invalid variable at ${value_path}: "enabled" must be a boolean`
+      );
+    }
+
+    return errors;
+  }
+
   /**
    * Validates items array recursively
    * @param items - Array of items to validate
@@ -152,16 +268,21 @@ export class PostmanParser {
   /**
    * Parses a Postman collection and extracts metadata
    * @param collection - Postman collection object
+   * @param max_name_length - Longest name kept for folders and requests
    * @returns ParsedCollection
    */
-  parseCollection(collection: IPostmanCollection): ParsedCollection {
+  parseCollection(
+    collection: IPostmanCollection,
+    max_name_length?: number
+  ): ParsedCollection {
     const parsed: ParsedCollection = {
       info: collection.info,
       metadata: {
-        variable: collection.variable || [],
-        event: collection.event || [],
+        variable: collection.variable,
+        event: collection.event,
         auth: collection.auth,
-        protocolProfileBehavior: collection.protocolProfileBehavior
+        protocolProfileBehavior: collection.protocolProfileBehavior,
+        extra: this.getUnknownFields(collection, KNOWN_COLLECTION_KEYS)
       },
       items: [],
       structure: []
@@ -170,7 +291,12 @@ export class PostmanParser {
     // Process all items with root-level sibling scope
     const root_sibling_names = new Set<string>();
     for (const item of collection.item) {
-      const processed_item = this.processItem(item, '', root_sibling_names);
+      const processed_item = this.processItem(
+        item,
+        '',
+        root_sibling_names,
+        max_name_length
+      );
       parsed.items.push(processed_item);
       parsed.structure.push(this.createStructureItem(processed_item));
     }
@@ -178,24 +304,73 @@ export class PostmanParser {
     return parsed;
   }
 
+  /**
+   * Processes items to be added to an existing folder, keeping their names
+   * unique among the entries already there
+   * @param items - Postman items to process
+   * @param parent_path - Path of the folder, relative to the collection root
+   * ("" for the root)
+   * @param sibling_names - Names already used in the folder; updated
+   * @param max_name_length - Longest name kept for folders and requests
+   * @returns ProcessedItem[]
+   */
+  parseItems(
+    items: IPostmanItem[],
+    parent_path: string,
+    sibling_names: Set<string>,
+    max_name_length?: number
+  ): ProcessedItem[] {
+    return items.map((item) =>
+      this.processItem(item, parent_path, sibling_names, max_name_length)
+    );
+  }
+
+  /**
+   * Lists the names that a request keeps its siblings from taking, so that
+   * no request file is written over the body file of another: "Login" holds
+   * "Login.body" and "Login.variables", and "Login.body" holds "Login"
+   * @param name - Unique name of the request
+   * @returns string[]
+   */
+  private getReservedNames(name: string): string[] {
+    const reserved = BODY_FILE_SUFFIXES.map((suffix) => `${name}${suffix}`);
+    for (const suffix of BODY_FILE_SUFFIXES) {
+      if (name.endsWith(suffix)) {
+        reserved.push(name.slice(0, -suffix.length));
+      }
+    }
+
+    return reserved;
+  }
+
   /**
    * Processes a single item (folder or request) recursively
    * @param item - Postman item to process
    * @param parent_path - Path of the parent folder
    * @param sibling_names - Set of names already used by siblings at this level
+   * @param max_name_length - Longest name kept; longer names are cut
    * @returns ProcessedItem
    */
   private processItem(
     item: IPostmanItem,
     parent_path: string,
-    sibling_names: Set<string> = new Set()
+    sibling_names: Set<string> = new Set(),
+    max_name_length?: number
   ): ProcessedItem {
-    const sanitized_name = sanitizeOriginalName(item.name);
+    let sanitized_name = sanitizeOriginalName(item.name);
+    if (max_name_length) {
+      sanitized_name = truncateName(sanitized_name, max_name_length).trimEnd();
+    }
     const unique_name = generateUniqueOriginalName(
       sanitized_name,
       sibling_names
     );
     sibling_names.add(unique_name);
+    if (!item.item) {
+      for (const reserved_name of this.getReservedNames(unique_name)) {
+        sibling_names.add(reserved_name);
+      }
+    }
 
     const current_path = parent_path
       ? `${parent_path}/${unique_name}`
@@ -206,11 +381,21 @@ export class PostmanParser {
       sanitized_name: unique_name,
       path: current_path,
       type: item.item ? 'folder' : 'request',
+      id: item.id,
       description: item.description,
       variable: item.variable,
       event: item.event,
       auth: item.auth,
       protocolProfileBehavior: item.protocolProfileBehavior,
+      extra: this.getUnknownFields(
+        item,
+        // A folder that also carries request data keeps it as unknown fields
+        item.item
+          ? KNOWN_ITEM_KEYS.filter(
+              (key) => key !== 'request' && key !== 'response'
+            )
+          : KNOWN_ITEM_KEYS
+      ),
       children: []
     };
 
@@ -221,7 +406,8 @@ export class PostmanParser {
         const child_processed = this.processItem(
           child_item,
           current_path,
-          child_names
+          child_names,
+          max_name_length
         );
         processed.children.push(child_processed);
       }
@@ -234,6 +420,27 @@ export class PostmanParser {
     return processed;
   }
 
+  /**
+   * Collects the keys of an object that carveman does not model, so they can
+   * be carried through split and build unchanged
+   * @param source - Collection or item object
+   * @param known_keys - Keys handled explicitly
+   * @returns Record<string, any> | undefined - Unknown fields, if any
+   */
+  private getUnknownFields(
+    source: object,
+    known_keys: string[]
+  ): Record<string, any> | undefined {
+    const extra: Record<string, any> = {};
+    for (const [key, value] of Object.entries(source)) {
+      if (!known_keys.includes(key)) {
+        extra[key] = value;
+      }
+    }
+
+    return Object.keys(extra).length > 0 ? extra : undefined;
+  }
+
   /**
    * Creates a structure item for the file system hierarchy
    * @param processed_item - Processed item
@@ -261,27 +468,33 @@ export class PostmanParser {
    * @param collection_info - Collection info
    * @param metadata - Collection metadata
    * @param structure - Collection structure
+   * @param include_timestamp - Stamp meta.generated_at with the current time
+   * @param extension - Extension of the request files (default: ".json")
    * @returns ICollectionIndex
    */
   createCollectionIndex(
     collection_info: IPostmanInfo,
     metadata: CollectionMetadata,
-    structure: StructureItem[]
+    structure: StructureItem[],
+    include_timestamp = false,
+    extension = '.json'
   ): ICollectionIndex {
     return {
       meta: {
         type: 'collection',
         version: '2.1.0',
         generated_by: 'carveman',
-        generated_at: new Date().toISOString()
+        // Opt-in, so that repeated splits produce identical files
+        generated_at: include_timestamp ? new Date().toISOString() : undefined
       },
       info: collection_info,
+      ...metadata.extra,
       variable: metadata.variable,
       event: metadata.event,
       auth: metadata.auth,
       protocolProfileBehavior: metadata.protocolProfileBehavior,
       order: structure.map((item) =>
-        item.type === 'folder' ? item.name : `${item.name}.json`
+        item.type === 'folder' ? item.name : `${item.name}${extension}`
       )
     };
   }
@@ -289,12 +502,14 @@ export class PostmanParser {
   /**
    * Creates folder index data for file system
    * @param processed_item - Processed folder item
-   * @param parent_path - Parent path
+   * @param parent_path - Parent path, relative to the collection root
+   * @param extension - Extension of the request files (default: ".json")
    * @returns IFolderIndex
    */
   createFolderIndex(
     processed_item: ProcessedItem,
-    parent_path: string
+    parent_path: string,
+    extension = '.json'
   ): IFolderIndex {
     if (processed_item.type !== 'folder') {
       throw new Error('Cannot create folder index for non-folder item');
@@ -303,7 +518,7 @@ export class PostmanParser {
     const order = processed_item.children.map((child) => {
       return child.type === 'folder'
         ? child.sanitized_name
-        : sanitizeOriginalFileName(child.sanitized_name);
+        : sanitizeOriginalFileName(child.sanitized_name, extension);
     });
 
     return {
@@ -311,7 +526,9 @@ export class PostmanParser {
         type: 'folder',
         parent_path: parent_path
       },
+      id: processed_item.id,
       name: processed_item.original_name,
+      ...processed_item.extra,
       description: processed_item.description,
       variable: processed_item.variable,
       event: processed_item.event,
@@ -324,7 +541,7 @@ export class PostmanParser {
   /**
    * Creates request file data for file system
    * @param processed_item - Processed request item
-   * @param folder_path - Folder path
+   * @param folder_path - Folder path, relative to the collection root
    * @returns IRequestFile
    */
   createRequestFile(
@@ -340,7 +557,9 @@ export class PostmanParser {
         type: 'request',
         folder_path: folder_path
       },
+      id: processed_item.id,
       name: processed_item.original_name,
+      ...processed_item.extra,
       description: processed_item.description,
       variable: processed_item.variable,
       event: processed_item.event,
@@ -351,6 +570,17 @@ export class PostmanParser {
     };
   }
 
+  /**
+   * Gets the path of an item's parent folder relative to the collection root,
+   * using "/" separators and "." for the root itself
+   * @param processed_item - Processed item
+   * @returns string - Relative parent path
+   */
+  getRelativeParentPath(processed_item: ProcessedItem): string {
+    const segments = processed_item.path.split('/');
+    return segments.length > 1 ? segments.slice(0, -1).join('/') : '.';
+  }
+
   /**
    * Gets all request items from a processed structure (flattened)
    * @param processed_items - Array of processed items
@@ -399,10 +629,11 @@ export interface ValidationResult {
 }
 
 export interface CollectionMetadata {
-  variable: any[];
-  event: any[];
+  variable?: any[];
+  event?: any[];
   auth?: any;
   protocolProfileBehavior?: any;
+  extra?: Record<string, any>;
 }
 
 export interface ProcessedItem {
@@ -410,6 +641,7 @@ export interface ProcessedItem {
   sanitized_name: string;
   path: string;
   type: PostmanItemType;
+  id?: string;
   description?: string;
   variable?: any[];
   event?: any[];
@@ -417,6 +649,7 @@ export interface ProcessedItem {
   protocolProfileBehavior?: any;
   request?: any;
   response?: any[];
+  extra?: Record<string, any>;
   children: ProcessedItem[];
 }
 
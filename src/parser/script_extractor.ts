@@ -0,0 +1,160 @@
+/**
+ * Script Extractor
+ * Moves event scripts out of request and index JSON into standalone .js files
+ * during split, and inlines them back into exec lines during build
+ */
+
+import { file_system_manager } from '@/fs/file_system_manager.ts';
+import type { IExtractedFile, IPostmanEvent } from '@/types/postman.ts';
+
+/**
+ * Script Extractor class for event script files
+ */
+export class ScriptExtractor {
+  /**
+   * Replaces every script's exec lines with a reference to a sibling file.
+   * Only array-form exec whose lines contain no newlines is extracted, since
+   * only that can be restored line for line; anything else stays inline.
+   * @param events - Events of a request, folder or collection
+   * @param base_name - File name prefix (request name or "index")
+   * @returns ScriptExtractionResult - Rewritten events and files to write
+   */
+  extractScripts(
+    events: IPostmanEvent[] | undefined,
+    base_name: string
+  ): ScriptExtractionResult {
+    const result: ScriptExtractionResult = {
+      events,
+      files: []
+    };
+
+    if (!events || events.length === 0) {
+      return result;
+    }
+
+    const used_names = new Set<string>();
+    result.events = events.map((event) => {
+      const exec = event.script?.exec;
+      if (!this.isExtractable(exec)) {
+        return event;
+      }
+
+      const file_name = this.generateScriptFileName(
+        base_name,
+        event.listen,
+        used_names
+      );
+      used_names.add(file_name);
+      result.files.push({
+        file_name,
+        content: `${exec.join('\n')}\n`
+      });
+
+      const { exec: _exec, ...script } = event.script;
+      return {
+        ...event,
+        script: { ...script, exec_file: file_name }
+      };
+    });
+
+    return result;
+  }
+
+  /**
+   * Restores exec lines for every script that references an extracted file
+   * @param events - Events read from a request or index file
+   * @param directory_path - Directory the referencing file lives in
+   * @returns Promise<IPostmanEvent[] | undefined> - Events with exec inlined
+   */
+  async inlineScripts(
+    events: IPostmanEvent[] | undefined,
+    directory_path: string
+  ): Promise<IPostmanEvent[] | undefined> {
+    if (!events || events.length === 0) {
+      return events;
+    }
+
+    const inlined: IPostmanEvent[] = [];
+    for (const event of events) {
+      const exec_file = event.script?.exec_file;
+      if (!exec_file) {
+        inlined.push(event);
+        continue;
+      }
+
+      const script_path = file_system_manager.joinPath(
+        directory_path,
+        exec_file
+      );
+      if (!(await file_system_manager.pathExists(script_path))) {
+        throw new Error(`Script file not found: ${script_path}`);
+      }
+
+      const content = await file_system_manager.readTextFile(script_path);
+      const { exec_file: _exec_file, ...script } = event.script;
+      inlined.push({
+        ...event,
+        script: { ...script, exec: this.splitLines(content) }
+      });
+    }
+
+    return inlined;
+  }
+
+  /**
+   * Checks whether exec lines survive a round trip through a file
+   * @param exec - Script exec value
+   * @returns boolean - True if exec is a non-empty array of single lines
+   */
+  private isExtractable(exec: string | string[] | undefined): exec is string[] {
+    return (
+      Array.isArray(exec) &&
+      exec.length > 0 &&
+      exec.every((line) => typeof line === 'string' && !line.includes('\n'))
+    );
+  }
+
+  /**
+   * Generates a unique script file name such as "Login.test.js"
+   * @param base_name - File name prefix
+   * @param listen - Event name (prerequest, test)
+   * @param used_names - Script file names already taken for this item
+   * @returns string - Script file name
+   */
+  private generateScriptFileName(
+    base_name: string,
+    listen: string,
+    used_names: Set<string>
+  ): string {
+    const stem = `${base_name}.${listen || 'script'}`;
+    let file_name = `${stem}.js`;
+    let counter = 1;
+
+    while (used_names.has(file_name)) {
+      file_name = `${stem}.${counter}.js`;
+      counter++;
+    }
+
+    return file_name;
+  }
+
+  /**
+   * Splits file content back into exec lines, dropping the single trailing
+   * newline added on extraction
+   * @param content - Script file content
+   * @returns string[] - Exec lines
+   */
+  private splitLines(content: string): string[] {
+    const trimmed = content.endsWith('\n') ? content.slice(0, -1) : content;
+    return trimmed.split('\n');
+  }
+}
+
+// Supporting types
+export interface ScriptExtractionResult {
+  events: IPostmanEvent[] | undefined;
+  files: IExtractedFile[];
+}
+
+// Export singleton instance
+export const script_extractor = new ScriptExtractor();
@@ -0,0 +1,537 @@
+/**
+ * Schema Validator
+ * Validates collections against bundled copies of the official Postman
+ * Collection v2.0.0 and v2.1.0 JSON Schemas, so no network access is needed
+ */
+
+import collection_schema_v2_0 from '@/schema/collection_v2.0.0.json';
+import collection_schema_v2_1 from '@/schema/collection_v2.1.0.json';
+
+// Bundled schemas, by collection format version
+const COLLECTION_SCHEMAS: Record<CollectionSchemaVersion, JsonSchema> = {
+  '2.0.0': collection_schema_v2_0 as JsonSchema,
+  '2.1.0': collection_schema_v2_1 as JsonSchema
+};
+
+/**
+ * Schema Validator class implementing the JSON Schema keywords used by the
+ * Postman schemas
+ */
+export class SchemaValidator {
+  /**
+   * Validates a collection against the schema its info.schema points to,
+   * falling back to v2.1.0
+   * @param collection - Collection to validate
+   * @returns SchemaValidationResult
+   */
+  validateCollection(collection: any): SchemaValidationResult {
+    const version = this.detectSchemaVersion(collection);
+    const violations = this.validate(COLLECTION_SCHEMAS[version], collection);
+
+    return {
+      is_valid: violations.length === 0,
+      schema_version: version,
+      violations
+    };
+  }
+
+  /**
+   * Picks the bundled schema matching a collection's info.schema URL
+   * @param collection - Collection to inspect
+   * @returns CollectionSchemaVersion
+   */
+  detectSchemaVersion(collection: any): CollectionSchemaVersion {
+    const schema_url = collection?.info?.schema;
+    if (typeof schema_url === 'string' && schema_url.includes('v2.0.0')) {
+      return '2.0.0';
+    }
+
+    return '2.1.0';
+  }
+
+  /**
+   * Validates a value against a schema and reports every violation
+   * @param schema - Root schema; "#/definitions/..." references resolve in it
+   * @param value - Value to validate
+   * @returns SchemaViolation[] - Violations in document order
+   */
+  validate(schema: JsonSchema, value: any): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.validateNode(schema, value, '', schema, violations);
+    return violations;
+  }
+
+  /**
+   * Formats a violation as "<pointer>: <message>"
+   * @param violation - Violation to format
+   * @returns string
+   */
+  formatViolation(violation: SchemaViolation): string {
+    return `${violation.pointer || '(root)'}: ${violation.message}`;
+  }
+
+  /**
+   * Validates one value against one schema node
+   * @param schema - Schema node
+   * @param value - Value at this location
+   * @param pointer - JSON pointer of the value
+   * @param root - Root schema, for references
+   * @param violations - Collected violations
+   */
+  private validateNode(
+    schema: JsonSchema,
+    value: any,
+    pointer: string,
+    root: JsonSchema,
+    violations: SchemaViolation[]
+  ): void {
+    if (schema.$ref) {
+      this.validateNode(
+        this.resolveReference(schema.$ref, root),
+        value,
+        pointer,
+        root,
+        violations
+      );
+      return;
+    }
+
+    if (schema.type !== undefined && !this.matchesType(schema.type, value)) {
+      violations.push({
+        keyword: 'type',
+        pointer,
+        message: `must be ${this.describeTypes(schema.type)}`
+      });
+      return;
+    }
+
+    if (
+      schema.enum &&
+      !schema.enum.some((allowed) => this.isEqual(allowed, value))
+    ) {
+      violations.push({
+        keyword: 'enum',
+        pointer,
+        message: `must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`
+      });
+    }
+
+    if (schema.anyOf || schema.oneOf) {
+      this.validateAlternatives(schema, value, pointer, root, violations);
+    }
+
+    if (typeof value === 'number') {
+      this.validateNumber(schema, value, pointer, violations);
+    } else if (typeof value === 'string') {
+      this.validateString(schema, value, pointer, violations);
+    } else if (Array.isArray(value)) {
+      if (schema.items) {
+        for (const [index, entry] of value.entries()) {
+          this.validateNode(
+            schema.items,
+            entry,
+            `${pointer}/${index}`,
+            root,
+            violations
+          );
+        }
+      }
+    } else if (value !== null && typeof value === 'object') {
+      this.validateObject(schema, value, pointer, root, violations);
+    }
+  }
+
+  /**
+   * Validates the properties of an object
+   * @param schema - Schema node
+   * @param value - Object at this location
+   * @param pointer - JSON pointer of the object
+   * @param root - Root schema, for references
+   * @param violations - Collected violations
+   */
+  private validateObject(
+    schema: JsonSchema,
+    value: Record<string, any>,
+    pointer: string,
+    root: JsonSchema,
+    violations: SchemaViolation[]
+  ): void {
+    // Undefined properties are absent once serialized, so they count as absent
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        violations.push({
+          keyword: 'required',
+          pointer,
+          message: `missing required property "${key}"`
+        });
+      }
+    }
+
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined) {
+        continue;
+      }
+
+      const entry_pointer = `${pointer}/${this.escapePointerToken(key)}`;
+      const property_schema = schema.properties?.[key];
+
+      if (property_schema) {
+        this.validateNode(
+          property_schema,
+          entry,
+          entry_pointer,
+          root,
+          violations
+        );
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          keyword: 'additionalProperties',
+          pointer: entry_pointer,
+          message: 'is not an allowed property'
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateNode(
+          schema.additionalProperties,
+          entry,
+          entry_pointer,
+          root,
+          violations
+        );
+      }
+    }
+  }
+
+  /**
+   * Validates anyOf and oneOf. When no alternative matches, the violations
+   * of the closest one are reported, so that an invalid request inside an
+   * item points at the request field rather than at the item.
+   * @param schema - Schema node
+   * @param value - Value at this location
+   * @param pointer - JSON pointer of the value
+   * @param root - Root schema, for references
+   * @param violations - Collected violations
+   */
+  private validateAlternatives(
+    schema: JsonSchema,
+    value: any,
+    pointer: string,
+    root: JsonSchema,
+    violations: SchemaViolation[]
+  ): void {
+    const alternatives = schema.oneOf ?? schema.anyOf ?? [];
+    const results = alternatives.map((alternative) => {
+      const alternative_violations: SchemaViolation[] = [];
+      this.validateNode(
+        alternative,
+        value,
+        pointer,
+        root,
+        alternative_violations
+      );
+      return alternative_violations;
+    });
+
+    const matches = results.filter((result) => result.length === 0).length;
+    if (schema.oneOf && matches > 1) {
+      violations.push({
+        keyword: 'oneOf',
+        pointer,
+        message: 'must match exactly one allowed schema'
+      });
+      return;
+    }
+    if (matches > 0) {
+      return;
+    }
+
+    // Alternatives rejected at this very value (wrong type, missing a
+    // required property) are not what the author meant
+    const rejected = (result: SchemaViolation[]) =>
+      result.some(
+        (violation) =>
+          violation.pointer === pointer &&
+          (violation.keyword === 'type' || violation.keyword === 'required')
+      );
+    const candidates = results.filter((result) => !rejected(result));
+
+    if (
+      candidates.length === 0 &&
+      results.every((result) => this.isTypeMismatch(result, pointer))
+    ) {
+      const expected = alternatives
+        .map((alternative) =>
+          this.describeAlternative(this.resolveNode(alternative, root))
+        )
+        .filter((description) => description !== '');
+      violations.push({
+        keyword: schema.oneOf ? 'oneOf' : 'anyOf',
+        pointer,
+        message:
+          expected.length > 0
+            ? `must be ${[...new Set(expected)].join(' or ')}`
+            : 'must match an allowed schema'
+      });
+      return;
+    }
+
+    const closest = (candidates.length > 0 ? candidates : results).reduce(
+      (best, result) => (result.length < best.length ? result : best)
+    );
+    violations.push(...closest);
+  }
+
+  /**
+   * Checks whether an alternative failed only because of the value's type
+   * @param result - Violations of the alternative
+   * @param pointer - JSON pointer of the value
+   * @returns boolean
+   */
+  private isTypeMismatch(result: SchemaViolation[], pointer: string): boolean {
+    return result.every(
+      (violation) =>
+        violation.pointer === pointer && violation.keyword === 'type'
+    );
+  }
+
+  /**
+   * Validates number constraints
+   * @param schema - Schema node
+   * @param value - Number at this location
+   * @param pointer - JSON pointer of the number
+   * @param violations - Collected violations
+   */
+  private validateNumber(
+    schema: JsonSchema,
+    value: number,
+    pointer: string,
+    violations: SchemaViolation[]
+  ): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({
+        keyword: 'minimum',
+        pointer,
+        message: `must be at least ${schema.minimum}`
+      });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({
+        keyword: 'maximum',
+        pointer,
+        message: `must be at most ${schema.maximum}`
+      });
+    }
+  }
+
+  /**
+   * Validates string constraints
+   * @param schema - Schema node
+   * @param value - String at this location
+   * @param pointer - JSON pointer of the string
+   * @param violations - Collected violations
+   */
+  private validateString(
+    schema: JsonSchema,
+    value: string,
+    pointer: string,
+    violations: SchemaViolation[]
+  ): void {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({
+        keyword: 'maxLength',
+        pointer,
+        message: `must be at most ${schema.maxLength} characters`
+      });
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({
+        keyword: 'minLength',
+        pointer,
+        message: `must be at least ${schema.minLength} characters`
+      });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      violations.push({
+        keyword: 'pattern',
+        pointer,
+        message: `must match pattern ${schema.pattern}`
+      });
+    }
+  }
+
+  /**
+   * Resolves a local "#/..." reference
+   * @param reference - Reference to resolve
+   * @param root - Root schema
+   * @returns JsonSchema
+   */
+  private resolveReference(reference: string, root: JsonSchema): JsonSchema {
+    if (!reference.startsWith('#')) {
+      throw new Error(`Unsupported schema reference: ${reference}`);
+    }
+
+    let node: any = root;
+    for (const token of reference.slice(1).split('/').slice(1)) {
+      node = node?.[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+    if (!node || typeof node !== 'object') {
+      throw new Error(`Unresolved schema reference: ${reference}`);
+    }
+
+    return node;
+  }
+
+  /**
+   * Follows references until a schema node with content is reached
+   * @param schema - Schema node
+   * @param root - Root schema
+   * @returns JsonSchema
+   */
+  private resolveNode(schema: JsonSchema, root: JsonSchema): JsonSchema {
+    return schema.$ref
+      ? this.resolveNode(this.resolveReference(schema.$ref, root), root)
+      : schema;
+  }
+
+  /**
+   * Describes the type an alternative expects, for error messages
+   * @param schema - Alternative schema
+   * @returns string - Type description, or "" when unconstrained
+   */
+  private describeAlternative(schema: JsonSchema): string {
+    if (schema.type !== undefined) {
+      return this.describeTypes(schema.type);
+    }
+    if (schema.oneOf || schema.anyOf) {
+      return (schema.oneOf ?? schema.anyOf ?? [])
+        .map((alternative) => this.describeAlternative(alternative))
+        .filter((description) => description !== '')
+        .join(' or ');
+    }
+
+    return '';
+  }
+
+  /**
+   * Checks a value against one or more JSON Schema types
+   * @param type - Allowed type or types
+   * @param value - Value to check
+   * @returns boolean
+   */
+  private matchesType(type: JsonType | JsonType[], value: any): boolean {
+    const types = Array.isArray(type) ? type : [type];
+
+    return types.some((candidate) => {
+      switch (candidate) {
+        case 'null':
+          return value === null;
+        case 'array':
+          return Array.isArray(value);
+        case 'object':
+          return (
+            value !== null && typeof value === 'object' && !Array.isArray(value)
+          );
+        case 'integer':
+          return Number.isInteger(value);
+        case 'number':
+          return typeof value === 'number' && Number.isFinite(value);
+        case 'string':
+          return typeof value === 'string';
+        case 'boolean':
+          return typeof value === 'boolean';
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Describes allowed types for error messages, e.g. "an object or null"
+   * @param type - Allowed type or types
+   * @returns string
+   */
+  private describeTypes(type: JsonType | JsonType[]): string {
+    const types = Array.isArray(type) ? type : [type];
+
+    return types
+      .map((candidate) => {
+        switch (candidate) {
+          case 'null':
+            return 'null';
+          case 'array':
+          case 'integer':
+          case 'object':
+            return `an ${candidate}`;
+          default:
+            return `a ${candidate}`;
+        }
+      })
+      .join(' or ');
+  }
+
+  /**
+   * Escapes a property name for use in a JSON pointer (RFC 6901)
+   * @param token - Property name
+   * @returns string
+   */
+  private escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * Compares two JSON values structurally
+   * @param a - First value
+   * @param b - Second value
+   * @returns boolean
+   */
+  private isEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
+
+// Supporting types
+export type CollectionSchemaVersion = '2.0.0' | '2.1.0';
+
+export type JsonType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonType | JsonType[];
+  enum?: any[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: any;
+}
+
+export interface SchemaViolation {
+  // Schema keyword that failed, e.g. "type" or "required"
+  keyword: string;
+  // JSON pointer (RFC 6901) of the offending value; "" is the document root
+  pointer: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  is_valid: boolean;
+  schema_version: CollectionSchemaVersion;
+  violations: SchemaViolation[];
+}
+
+// Export singleton instance
+export const schema_validator = new SchemaValidator();
@@ -0,0 +1,659 @@
+/**
+ * Secret Detector
+ * Finds credentials in a collection (known token formats, literal values of
+ * sensitive fields and high-entropy strings) and replaces them with
+ * {{secret.*}} placeholder variables
+ */
+
+import type {
+  IPostmanAuth,
+  IPostmanCollection,
+  IPostmanFormParam,
+  IPostmanItem,
+  IPostmanRequest,
+  IPostmanVariable
+} from '@/types/postman.ts';
+
+// File holding redacted values, next to the collection index.json
+export const SECRETS_FILE_NAME = '.secrets.json';
+
+// Known token formats
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    name: 'aws_access_key_id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g
+  },
+  {
+    name: 'github_token',
+    description: 'GitHub token',
+    pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}/g
+  },
+  {
+    name: 'slack_token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g
+  },
+  {
+    name: 'stripe_key',
+    description: 'Stripe key',
+    pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g
+  },
+  {
+    name: 'google_api_key',
+    description: 'Google API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}/g
+  },
+  {
+    name: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g
+  },
+  {
+    name: 'private_key',
+    description: 'private key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  }
+];
+
+// Names of variables, headers and parameters whose literal values are secrets
+const SENSITIVE_NAME =
+  /passw(?:or)?d|pwd|secret|token|api[-_]?key|access[-_]?key|private[-_]?key|authorization|credential|cookie|session[-_]?id/i;
+
+// Auth parameters holding secrets, by auth type
+const SECRET_AUTH_PARAMS: Record<string, string[]> = {
+  apikey: ['value'],
+  awsv4: ['secretKey', 'sessionToken'],
+  basic: ['password'],
+  bearer: ['token'],
+  digest: ['password'],
+  edgegrid: ['clientSecret', 'accessToken'],
+  hawk: ['authKey'],
+  jwt: ['secret', 'privateKey'],
+  ntlm: ['password'],
+  oauth1: ['consumerSecret', 'tokenSecret'],
+  oauth2: ['accessToken', 'refreshToken', 'clientSecret', 'password']
+};
+
+// Authorization schemes left in place in front of a redacted credential
+const AUTH_SCHEME_PREFIX = /^(?:Basic|Bearer|Digest|Token)\s+/i;
+
+// Shortest string, and lowest Shannon entropy in bits per character, that
+// counts as a random token
+const MIN_ENTROPY_LENGTH = 24;
+const MIN_ENTROPY = 4;
+
+// Standard headers that never carry credentials, whatever their value looks
+// like, in lower case
+const PLAIN_HEADER_NAMES = new Set([
+  'accept',
+  'accept-charset',
+  'accept-encoding',
+  'accept-language',
+  'cache-control',
+  'connection',
+  'content-encoding',
+  'content-language',
+  'content-location',
+  'content-type',
+  'host',
+  'if-match',
+  'if-none-match',
+  'origin',
+  'pragma',
+  'referer',
+  'user-agent'
+]);
+
+// Media types, such as application/vnd.github.v3+json, and paths
+const MEDIA_TYPE_OR_PATH =
+  /^(?:[a-z]+\/[a-z0-9.+-]+|\/?[\w.~-]+(?:\/[\w.~-]+)+\/?)$/i;
+
+/**
+ * Secret Detector class for finding and redacting credentials
+ */
+export class SecretDetector {
+  /**
+   * Finds possible secrets in a collection
+   * @param collection - Postman collection
+   * @returns SecretFinding[]
+   */
+  scan(collection: IPostmanCollection): SecretFinding[] {
+    return this.process(collection, false, {}).findings;
+  }
+
+  /**
+   * Replaces the secrets of a collection with {{secret.*}} placeholders. The
+   * same value always gets the same placeholder, and values already in
+   * known_secrets keep the placeholder they had.
+   * @param collection - Postman collection
+   * @param known_secrets - Values by placeholder from an earlier redaction
+   * @returns SecretScan - Redacted copy of the collection, findings, and
+   * the values by placeholder
+   */
+  redact(
+    collection: IPostmanCollection,
+    known_secrets: Record<string, string> = {}
+  ): SecretScan {
+    return this.process(collection, true, known_secrets);
+  }
+
+  /**
+   * Puts redacted values back in place of their placeholders
+   * @param value - Collection, or any part of it
+   * @param secrets - Values by placeholder
+   * @returns T - Copy with the placeholders replaced
+   */
+  restore<T>(value: T, secrets: Record<string, string>): T {
+    if (typeof value === 'string') {
+      return value.replace(/{{([^{}]+)}}/g, (match, name: string) =>
+        Object.hasOwn(secrets, name) ? String(secrets[name]) : match
+      ) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.restore(entry, secrets)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+          key,
+          this.restore(entry, secrets)
+        ])
+      ) as T;
+    }
+
+    return value;
+  }
+
+  /**
+   * Scans a copy of a collection, redacting what it finds if requested
+   * @param collection - Postman collection
+   * @param redact - Replace secrets with placeholders
+   * @param known_secrets - Values by placeholder from an earlier redaction
+   * @returns SecretScan
+   */
+  private process(
+    collection: IPostmanCollection,
+    redact: boolean,
+    known_secrets: Record<string, string>
+  ): SecretScan {
+    const copy = structuredClone(collection);
+    const context: ScanContext = {
+      redact,
+      findings: [],
+      detected: [],
+      secrets: {},
+      placeholders: new Map(),
+      used_names: new Set(
+        [...JSON.stringify(collection).matchAll(/{{([^{}]+)}}/g)].map(
+          (match) => match[1] ?? ''
+        )
+      )
+    };
+    for (const [name, value] of Object.entries(known_secrets)) {
+      context.placeholders.set(value, name);
+      context.used_names.add(name);
+    }
+
+    this.visitVariables(copy.variable, 'the collection', context);
+    this.visitAuth(copy.auth, 'the collection', context);
+    this.visitItems(copy.item, '', context);
+
+    return {
+      collection: copy,
+      findings: context.findings,
+      secrets: context.secrets
+    };
+  }
+
+  /**
+   * Scans folders and requests recursively
+   * @param items - Items to scan
+   * @param parent_path - Slash-separated path of the parent folder
+   * @param context - Scan context
+   */
+  private visitItems(
+    items: IPostmanItem[],
+    parent_path: string,
+    context: ScanContext
+  ): void {
+    for (const item of items) {
+      const path = parent_path ? `${parent_path}/${item.name}` : item.name;
+      const owner = `${item.item ? 'folder' : 'request'} "${path}"`;
+
+      this.visitVariables(item.variable, owner, context);
+      this.visitAuth(item.auth, owner, context);
+      if (item.request) {
+        this.visitRequest(item.request, owner, context);
+      }
+
+      for (const response of item.response ?? []) {
+        const example = `example "${response.name ?? ''}" of ${owner}`;
+        if (response.originalRequest) {
+          this.visitRequest(response.originalRequest, example, context);
+        }
+        this.visitPairs(response.header, 'header', example, context);
+        if (typeof response.body === 'string') {
+          response.body = this.visitText(
+            response.body,
+            'body',
+            example,
+            context
+          );
+        }
+      }
+
+      if (item.item) {
+        this.visitItems(item.item, path, context);
+      }
+    }
+  }
+
+  /**
+   * Scans the auth, headers, URL and body of a request
+   * @param request - Request to scan
+   * @param owner - Description of the request, for findings
+   * @param context - Scan context
+   */
+  private visitRequest(
+    request: IPostmanRequest,
+    owner: string,
+    context: ScanContext
+  ): void {
+    this.visitAuth(request.auth, owner, context);
+    this.visitPairs(request.header, 'header', owner, context);
+
+    if (typeof request.url === 'string') {
+      request.url = this.visitText(request.url, 'url', owner, context);
+    } else if (request.url) {
+      // The raw URL repeats the query and path values
+      const first_detected = context.detected.length;
+      this.visitPairs(request.url.query, 'query parameter', owner, context);
+      this.visitPairs(request.url.variable, 'path variable', owner, context);
+      const from_pairs = new Set(context.detected.slice(first_detected));
+
+      let raw = request.url.raw ?? '';
+      if (context.redact) {
+        for (const secret of from_pairs) {
+          raw = raw
+            .split(secret)
+            .join(`{{${context.placeholders.get(secret)}}}`);
+        }
+      }
+      request.url.raw = this.visitText(raw, 'url', owner, context, from_pairs);
+    }
+
+    const body = request.body;
+    if (typeof body?.raw === 'string') {
+      body.raw = this.visitText(body.raw, 'body', owner, context);
+    }
+    this.visitPairs(
+      body?.urlencoded?.filter((param) => param.type !== 'file'),
+      'form field',
+      owner,
+      context
+    );
+    this.visitPairs(
+      body?.formdata?.filter((param) => param.type !== 'file'),
+      'form field',
+      owner,
+      context
+    );
+    if (body?.graphql) {
+      for (const key of ['query', 'variables'] as const) {
+        const text = body.graphql[key];
+        if (typeof text === 'string') {
+          body.graphql[key] = this.visitText(text, 'body', owner, context);
+        }
+      }
+    }
+  }
+
+  /**
+   * Scans variables; "secret" typed variables are always sensitive
+   * @param variables - Variables to scan
+   * @param owner - Description of their owner, for findings
+   * @param context - Scan context
+   */
+  private visitVariables(
+    variables: IPostmanVariable[] | undefined,
+    owner: string,
+    context: ScanContext
+  ): void {
+    for (const variable of variables ?? []) {
+      if (typeof variable.value !== 'string') {
+        continue;
+      }
+      variable.value = this.visitField(
+        {
+          value: variable.value,
+          name: variable.key,
+          location: `variable "${variable.key}" of ${owner}`,
+          sensitive:
+            variable.type === 'secret' || SENSITIVE_NAME.test(variable.key),
+          free_text: false
+        },
+        context
+      );
+    }
+  }
+
+  /**
+   * Scans the secret parameters of an auth definition, stored as a list of
+   * key/value pairs (v2.1) or an object (v2.0)
+   * @param auth - Auth to scan
+   * @param owner - Description of its owner, for findings
+   * @param context - Scan context
+   */
+  private visitAuth(
+    auth: IPostmanAuth | undefined,
+    owner: string,
+    context: ScanContext
+  ): void {
+    const params = auth?.[auth.type];
+    const secret_keys = SECRET_AUTH_PARAMS[auth?.type ?? ''] ?? [];
+    if (!(auth && params && typeof params === 'object')) {
+      return;
+    }
+
+    const visit = (key: string, value: string): string =>
+      this.visitField(
+        {
+          value,
+          name: `${auth.type}_${key}`,
+          location: `${auth.type} auth "${key}" of ${owner}`,
+          sensitive: true,
+          free_text: false
+        },
+        context
+      );
+
+    if (Array.isArray(params)) {
+      for (const param of params) {
+        if (
+          secret_keys.includes(param?.key) &&
+          typeof param.value === 'string'
+        ) {
+          param.value = visit(param.key, param.value);
+        }
+      }
+    } else {
+      for (const key of secret_keys) {
+        if (typeof params[key] === 'string') {
+          params[key] = visit(key, params[key]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Scans key/value pairs such as headers and query parameters
+   * @param pairs - Pairs to scan
+   * @param kind - What the pairs are, for findings
+   * @param owner - Description of their owner, for findings
+   * @param context - Scan context
+   */
+  private visitPairs(
+    pairs: (IPostmanFormParam | IPostmanVariable)[] | undefined,
+    kind: string,
+    owner: string,
+    context: ScanContext
+  ): void {
+    if (!Array.isArray(pairs)) {
+      return;
+    }
+
+    for (const pair of pairs) {
+      if (typeof pair.value !== 'string' || !pair.key) {
+        continue;
+      }
+      pair.value = this.visitField(
+        {
+          value: pair.value,
+          name: pair.key,
+          location: `${kind} "${pair.key}" of ${owner}`,
+          sensitive: SENSITIVE_NAME.test(pair.key),
+          free_text: false
+        },
+        context
+      );
+    }
+  }
+
+  /**
+   * Scans free text, such as a body, for known token formats
+   * @param text - Text to scan
+   * @param kind - What the text is, for findings
+   * @param owner - Description of its owner, for findings
+   * @param context - Scan context
+   * @param known - Secrets already reported for this text
+   * @returns string - Text, redacted if requested
+   */
+  private visitText(
+    text: string,
+    kind: string,
+    owner: string,
+    context: ScanContext,
+    known: Set<string> = new Set()
+  ): string {
+    return this.visitField(
+      {
+        value: text,
+        name: kind,
+        location: `${kind} of ${owner}`,
+        sensitive: false,
+        free_text: true
+      },
+      context,
+      known
+    );
+  }
+
+  /**
+   * Records the secrets of a field and redacts them if requested
+   * @param field - Field to check
+   * @param context - Scan context
+   * @param known - Secrets already reported for this field
+   * @returns string - Field value, redacted if requested
+   */
+  private visitField(
+    field: SecretField,
+    context: ScanContext,
+    known: Set<string> = new Set()
+  ): string {
+    let value = field.value;
+
+    for (const detection of this.detect(field)) {
+      if (known.has(detection.secret)) {
+        continue;
+      }
+      context.detected.push(detection.secret);
+      const finding: SecretFinding = {
+        location: field.location,
+        description: detection.description
+      };
+
+      if (context.redact) {
+        finding.placeholder = this.getPlaceholder(
+          detection.secret,
+          detection.name,
+          context
+        );
+        value = value
+          .split(detection.secret)
+          .join(`{{${finding.placeholder}}}`);
+      }
+      context.findings.push(finding);
+    }
+
+    return value;
+  }
+
+  /**
+   * Detects the secrets in a field: known token formats anywhere, and, in
+   * fields other than free text, literal values of sensitive fields and
+   * high-entropy strings outside standard headers such as Accept
+   * @param field - Field to check
+   * @returns SecretDetection[]
+   */
+  private detect(field: SecretField): SecretDetection[] {
+    const detections: SecretDetection[] = [];
+    for (const { name, description, pattern } of SECRET_PATTERNS) {
+      for (const match of field.value.matchAll(pattern)) {
+        detections.push({
+          secret: match[0],
+          description,
+          name: field.free_text ? name : field.name
+        });
+      }
+    }
+    if (detections.length > 0 || field.free_text) {
+      return detections;
+    }
+
+    // Values built from variables, and <placeholder> values, are not secret
+    const candidate = field.value.replace(AUTH_SCHEME_PREFIX, '').trim();
+    if (!candidate || candidate.includes('{{') || /^<.*>$/.test(candidate)) {
+      return [];
+    }
+
+    if (field.sensitive) {
+      return [
+        { secret: candidate, description: 'literal value', name: field.name }
+      ];
+    }
+    if (
+      !PLAIN_HEADER_NAMES.has(field.name.toLowerCase()) &&
+      this.isHighEntropy(candidate)
+    ) {
+      return [
+        {
+          secret: candidate,
+          description: 'high-entropy string',
+          name: field.name
+        }
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Checks whether a value looks like a random token: long, made of token
+   * characters, mixing letters and digits, and not a UUID, a media type or
+   * a path
+   * @param value - Value to check
+   * @returns boolean
+   */
+  private isHighEntropy(value: string): boolean {
+    if (
+      value.length < MIN_ENTROPY_LENGTH ||
+      !/^[A-Za-z0-9+/=_.~-]+$/.test(value) ||
+      !(/[A-Za-z]/.test(value) && /[0-9]/.test(value)) ||
+      /^[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(value) ||
+      MEDIA_TYPE_OR_PATH.test(value)
+    ) {
+      return false;
+    }
+
+    const counts = new Map<string, number>();
+    for (const char of value) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const probability = count / value.length;
+      entropy -= probability * Math.log2(probability);
+    }
+
+    return entropy >= MIN_ENTROPY;
+  }
+
+  /**
+   * Gets the placeholder of a secret, naming a new one after the field or
+   * token format it was found in
+   * @param secret - Secret value
+   * @param base_name - Field or token format name
+   * @param context - Scan context
+   * @returns string
+   */
+  private getPlaceholder(
+    secret: string,
+    base_name: string,
+    context: ScanContext
+  ): string {
+    const known = context.placeholders.get(secret);
+    if (known) {
+      context.secrets[known] = secret;
+      return known;
+    }
+
+    const base = `secret.${base_name.replace(/[^A-Za-z0-9_]+/g, '_')}`;
+    let name = base;
+    for (let counter = 2; context.used_names.has(name); counter++) {
+      name = `${base}_${counter}`;
+    }
+
+    context.used_names.add(name);
+    context.placeholders.set(secret, name);
+    context.secrets[name] = secret;
+    return name;
+  }
+}
+
+// Supporting types
+export interface SecretFinding {
+  // Where the secret was found, e.g. header "Authorization" of request "Auth/Login"
+  location: string;
+  // What was found, e.g. JSON Web Token
+  description: string;
+  // Placeholder variable that replaced the secret, when redacting
+  placeholder?: string;
+}
+
+export interface SecretScan {
+  collection: IPostmanCollection;
+  findings: SecretFinding[];
+  // Redacted values by placeholder
+  secrets: Record<string, string>;
+}
+
+interface SecretPattern {
+  name: string;
+  description: string;
+  pattern: RegExp;
+}
+
+interface SecretField {
+  value: string;
+  // Field name, used to name the placeholder
+  name: string;
+  location: string;
+  // Whether any literal value of the field is a secret
+  sensitive: boolean;
+  // Bodies and URLs are only checked for known token formats
+  free_text: boolean;
+}
+
+interface SecretDetection {
+  secret: string;
+  description: string;
+  // Base name of the placeholder
+  name: string;
+}
+
+interface ScanContext {
+  redact: boolean;
+  findings: SecretFinding[];
+  // Every secret value detected so far, in order
+  detected: string[];
+  secrets: Record<string, string>;
+  // Placeholders by secret value
+  placeholders: Map<string, string>;
+  // Variable names already taken in the collection
+  used_names: Set<string>;
+}
+
+// Export singleton instance
+export const secret_detector = new SecretDetector();
@@ -0,0 +1,31 @@
+/**
+ * Bun declarations missing from the pinned bun-types
+ * Bun.YAML ships with Bun 1.2.22, the minimum version in package.json
+ * engines; drop this file once bun-types is bumped to that version.
+ */
+
+declare module 'bun' {
+  namespace YAML {
+    /**
+     * Parses a YAML document
+     * @param input - YAML text
+     * @returns unknown - Parsed value
+     */
+    function parse(input: string): unknown;
+
+    /**
+     * Serializes a value as YAML
+     * @param input - Value to serialize
+     * @param replacer - Unsupported, pass null
+     * @param space - Indentation; without it the output is flow-style
+     * @returns string - YAML text
+     */
+    function stringify(
+      input: unknown,
+      replacer?: undefined | null,
+      space?: string | number
+    ): string;
+  }
+}
+
+export {};
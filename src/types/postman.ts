@@ -27,6 +27,11 @@ export interface IPostmanScript {
   exec?: string | string[];
   src?: string;
   packages?: Record<string, any>;
+  // Carveman only: file holding the extracted exec lines, relative to the
+  // JSON file that references it
+  exec_file?: string;
+  // Carveman only: exec lines joined into one text in YAML trees
+  exec_text?: string;
 }
 
 export interface IPostmanEvent {
@@ -79,6 +84,8 @@ export interface IPostmanFormParam {
 export interface IPostmanBody {
   mode?: string;
   raw?: string;
+  // Carveman only: file holding the extracted raw body
+  raw_file?: string;
   urlencoded?: IPostmanFormParam[];
   formdata?: IPostmanFormParam[];
   file?: {
@@ -87,6 +94,9 @@ export interface IPostmanBody {
   graphql?: {
     query?: string;
     variables?: string;
+    // Carveman only: files holding the extracted query and variables
+    query_file?: string;
+    variables_file?: string;
   };
   options?: {
     raw?: {
@@ -119,6 +129,8 @@ export interface IPostmanResponse {
   header?: IPostmanHeader[];
   cookie?: any[];
   body?: string;
+  // Carveman only: file holding the extracted example body
+  body_file?: string;
   timings?: any;
 }
 
@@ -146,12 +158,31 @@ export interface IPostmanCollection {
   protocolProfileBehavior?: any;
 }
 
+// Environment types
+export interface IPostmanEnvironmentValue {
+  key: string;
+  value: string;
+  type?: string;
+  enabled?: boolean;
+  [key: string]: any;
+}
+
+export interface IPostmanEnvironment {
+  id?: string;
+  name: string;
+  values: IPostmanEnvironmentValue[];
+  _postman_variable_scope?: string;
+  _postman_exported_at?: string;
+  _postman_exported_using?: string;
+  [key: string]: any;
+}
+
 // File system structure types
 export interface ICollectionMeta {
   type: 'collection';
   version: string;
   generated_by: string;
-  generated_at: string;
+  generated_at?: string;
 }
 
 export interface IFolderMeta {
@@ -159,6 +190,11 @@ export interface IFolderMeta {
   parent_path: string;
 }
 
+export interface IEnvironmentMeta {
+  type: 'environment';
+  generated_by: string;
+}
+
 export interface IRequestMeta {
   type: 'request';
   folder_path: string;
@@ -176,6 +212,7 @@ export interface ICollectionIndex {
 
 export interface IFolderIndex {
   meta: IFolderMeta;
+  id?: string;
   name: string;
   description?: string;
   variable?: IPostmanVariable[];
@@ -185,18 +222,32 @@ export interface IFolderIndex {
   order: string[];
 }
 
+export interface IEnvironmentIndex {
+  meta: IEnvironmentMeta;
+  name: string;
+  order: string[];
+  [key: string]: any;
+}
+
 export interface IRequestFile {
   meta: IRequestMeta;
+  id?: string;
   name: string;
   description?: string;
   variable?: IPostmanVariable[];
   event?: IPostmanEvent[];
   request: IPostmanRequest;
   response?: IPostmanResponse[];
+  response_files?: string[];
   auth?: IPostmanAuth;
   protocolProfileBehavior?: any;
 }
 
+export interface IExtractedFile {
+  file_name: string;
+  content: string;
+}
+
 // Utility types
 export type PostmanItemType = 'folder' | 'request';
 
@@ -213,16 +264,214 @@ export interface ISplitOptions {
   overwrite?: boolean;
   dry_run?: boolean;
   verbose?: boolean;
+  inline_scripts?: boolean;
+  inline_bodies?: boolean;
+  split_examples?: boolean;
+  timestamp?: boolean;
+  // What to do with secrets found in the collection (default: warn)
+  secrets?: SecretMode;
+  // Longest folder or request name kept from an item name; longer names
+  // are cut
+  max_name_length?: number;
+  // Spaces of indentation in the written JSON files (default: 2)
+  indent?: number;
+  // Line endings of the written JSON and YAML files (default: lf)
+  eol?: LineEnding;
+  // File format of the written tree (default: json)
+  format?: TreeFormat;
+  // Update an existing tree in place: write only changed files and delete
+  // the ones no longer in the collection
+  sync?: boolean;
 }
 
+export type SecretMode = 'warn' | 'fail' | 'redact';
+
+export type TreeFormat = 'json' | 'yaml';
+
+export type LineEnding = 'lf' | 'crlf';
+
 export interface IBuildOptions {
   output?: string;
   validate?: boolean;
+  // Replace {{secret.*}} placeholders with the values in .secrets.json
+  inject_secrets?: boolean;
+  // Spaces of indentation in the written collection (default: 2)
+  indent?: number;
+  // Line endings of the written collection (default: lf)
+  eol?: LineEnding;
+  // What to do with files and folders that no order array lists
+  // (default: warn)
+  orphans?: OrphanMode;
+  // Rewrite the order arrays of the tree to match its directories
+  fix?: boolean;
   verbose?: boolean;
 }
 
+export type OrphanMode = 'error' | 'warn' | 'append';
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+export interface IDiffOptions {
+  format?: DiffFormat;
+  output?: string;
+  exit_code?: boolean;
+  verbose?: boolean;
+}
+
+export type LintFormat = 'text' | 'json' | 'sarif';
+
+export interface ILintOptions {
+  format?: LintFormat;
+  output?: string;
+  config?: string;
+  // Rule settings used when no lint config file is found
+  rules?: Record<string, string>;
+  verbose?: boolean;
+}
+
+export type ImportFormat = 'openapi' | 'har' | 'insomnia' | 'curl';
+
+export interface IImportOptions {
+  format: ImportFormat;
+  output?: string;
+  // Existing split collection or folder directory to add the requests to
+  into?: string;
+  // Folder the imported requests are placed in
+  folder?: string;
+  overwrite?: boolean;
+  dry_run?: boolean;
+  verbose?: boolean;
+}
+
+export type ExportFormat = 'openapi' | 'bruno' | 'http';
+
+export interface IExportOptions {
+  format: ExportFormat;
+  output?: string;
+  // Write collection variables to http-client.env.json (http format only)
+  env_file?: boolean;
+  verbose?: boolean;
+}
+
+export interface ICurlOptions {
+  // Leave {{variables}} in place instead of resolving them
+  keep_variables?: boolean;
+  verbose?: boolean;
+}
+
+// Side whose change a merge keeps when both sides changed the same field
+export type MergeFavor = 'ours' | 'theirs';
+
+export interface IMergeOptions {
+  base?: string;
+  theirs?: string;
+  output?: string;
+  favor?: MergeFavor;
+  report?: string;
+  verbose?: boolean;
+}
+
+export interface IMergeDriverOptions {
+  base?: string;
+  theirs?: string;
+  // Path of the file being merged, as passed by git (%P)
+  file_path?: string;
+}
+
+export interface IGitInstallOptions {
+  command?: string;
+  pattern?: string;
+  verbose?: boolean;
+}
+
+// Commands whose options can be preset in the config file and environment
+export type ConfigurableCommand =
+  | 'split'
+  | 'build'
+  | 'split-env'
+  | 'build-env'
+  | 'diff'
+  | 'merge'
+  | 'lint'
+  | 'import'
+  | 'export'
+  | 'curl';
+
+// Settings of a carveman.config.json / .carvemanrc file, or of one of its
+// per-collection overrides
+export interface IConfigSettings {
+  split?: Pick<
+    ISplitOptions,
+    | 'output'
+    | 'overwrite'
+    | 'dry_run'
+    | 'verbose'
+    | 'timestamp'
+    | 'secrets'
+    | 'format'
+    | 'sync'
+  >;
+  build?: Omit<IBuildOptions, 'indent' | 'eol' | 'fix'>;
+  'split-env'?: Pick<
+    ISplitOptions,
+    'output' | 'overwrite' | 'dry_run' | 'verbose'
+  >;
+  'build-env'?: Pick<IBuildOptions, 'output' | 'validate' | 'verbose'>;
+  diff?: IDiffOptions;
+  merge?: Pick<IMergeOptions, 'output' | 'favor' | 'report' | 'verbose'>;
+  lint?: ILintOptions;
+  import?: Omit<IImportOptions, 'format'>;
+  export?: Omit<IExportOptions, 'format'>;
+  curl?: ICurlOptions;
+  // How folder and request names become file names
+  naming?: {
+    max_length?: number;
+  };
+  // Layout of the written JSON and YAML files
+  formatting?: {
+    indent?: number;
+    eol?: LineEnding;
+  };
+  // What split moves out of the request files
+  extraction?: Pick<
+    ISplitOptions,
+    'inline_scripts' | 'inline_bodies' | 'split_examples'
+  >;
+}
+
+export interface ICarvemanConfig extends IConfigSettings {
+  // Overrides keyed by collection path, relative to the config file
+  collections?: Record<string, IConfigSettings>;
+}
+
 export interface ICliCommand {
-  command: 'split' | 'build' | 'help' | 'version';
+  command:
+    | 'split'
+    | 'build'
+    | 'split-env'
+    | 'build-env'
+    | 'diff'
+    | 'merge'
+    | 'merge-driver'
+    | 'git-install'
+    | 'lint'
+    | 'import'
+    | 'export'
+    | 'curl'
+    | 'help'
+    | 'version';
   input_path: string;
-  options: ISplitOptions | IBuildOptions;
+  // Second input for commands that compare two collections
+  target_path?: string;
+  options:
+    | ISplitOptions
+    | IBuildOptions
+    | IDiffOptions
+    | IMergeOptions
+    | IMergeDriverOptions
+    | IGitInstallOptions
+    | ILintOptions
+    | IImportOptions
+    | IExportOptions
+    | ICurlOptions;
 }
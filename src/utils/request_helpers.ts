@@ -0,0 +1,152 @@
+/**
+ * Helpers for reading and naming the auth, headers and bodies of Postman
+ * requests, shared by the importers and exporters
+ */
+
+import type {
+  IPostmanAuth,
+  IPostmanHeader,
+  IPostmanUrl
+} from '@/types/postman.ts';
+
+// Content types of raw bodies by their Postman language
+export const RAW_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript'
+};
+
+/**
+ * Gets a parameter of an auth definition, stored as a list of key/value
+ * pairs (v2.1) or an object (v2.0)
+ * @param auth - Postman auth
+ * @param key - Parameter key
+ * @returns string | undefined - Value, with numbers and booleans as text,
+ * or undefined if it is not set
+ */
+export function getAuthParam(
+  auth: IPostmanAuth,
+  key: string
+): string | undefined {
+  const params = auth[auth.type];
+  const value = Array.isArray(params)
+    ? params.find((param) => param?.key === key)?.value
+    : params?.[key];
+
+  if (value === undefined || value === null || typeof value === 'object') {
+    return undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Sets a header, replacing one with the same name
+ * @param headers - Request headers; updated
+ * @param key - Header name
+ * @param value - Header value
+ */
+export function setHeader(
+  headers: IPostmanHeader[],
+  key: string,
+  value: string
+): void {
+  const index = headers.findIndex(
+    (header) => header.key.toLowerCase() === key.toLowerCase()
+  );
+  if (index === -1) {
+    headers.push({ key, value });
+  } else {
+    headers[index] = { key, value };
+  }
+}
+
+/**
+ * Adds a Content-Type header unless one is set
+ * @param headers - Request headers; updated
+ * @param content_type - Content type
+ */
+export function addContentType(
+  headers: IPostmanHeader[],
+  content_type: string
+): void {
+  if (!headers.some((header) => header.key.toLowerCase() === 'content-type')) {
+    headers.push({ key: 'Content-Type', value: content_type });
+  }
+}
+
+/**
+ * Parses GraphQL variables, which Postman stores as a JSON string
+ * @param variables - Variables JSON
+ * @returns unknown - Parsed variables, or {} if there are none or they are
+ * not valid JSON
+ */
+export function parseGraphqlVariables(variables: string | undefined): unknown {
+  if (!variables?.trim()) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(variables);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Gets the path of a form file, which Postman may store as a list
+ * @param src - Form param source
+ * @returns string
+ */
+export function getFileSource(src: unknown): string {
+  return String((Array.isArray(src) ? src[0] : src) ?? '');
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param value - Literal text
+ * @returns string
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Names a request after its path segments, or its host for the root path;
+ * slashes would be dropped from the file name. A URL without a parsed host
+ * is named after its text, without the scheme and query.
+ * @param url - Request URL
+ * @returns string
+ */
+export function getRequestName(url: IPostmanUrl): string {
+  if (!url.host) {
+    return url.raw.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').split('?')[0] ?? '';
+  }
+
+  const segments = url.path as string[];
+  return segments.length > 0
+    ? segments.join(' ')
+    : (url.host as string[]).join('.');
+}
+
+/**
+ * Gets the Postman body language for a MIME type
+ * @param mime_type - MIME type without parameters
+ * @returns string - json, xml, html, javascript or text
+ */
+export function getBodyLanguage(mime_type: string): string {
+  if (/[/+]json$/.test(mime_type)) {
+    return 'json';
+  }
+  if (/[/+]xml$/.test(mime_type)) {
+    return 'xml';
+  }
+  if (mime_type === 'text/html') {
+    return 'html';
+  }
+  if (/javascript$/.test(mime_type)) {
+    return 'javascript';
+  }
+
+  return 'text';
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Configured Split and Build Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-config');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+  const treeDir = join(testDir, 'acme_store_api');
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should only read the config for the commands it configures', async () => {
+    await Bun.write(
+      join(testDir, 'carveman.config.json'),
+      JSON.stringify({ split: { outptu: 'api' } })
+    );
+    const index = JSON.stringify({
+      meta: { type: 'folder' },
+      name: 'Users',
+      order: []
+    });
+    for (const side of ['base', 'ours', 'theirs']) {
+      await Bun.write(join(testDir, side), index);
+    }
+
+    const run = async (args: string[]) => {
+      const child = Bun.spawn(
+        ['bun', join(process.cwd(), 'src', 'index.ts'), ...args],
+        { cwd: testDir, stdout: 'pipe', stderr: 'pipe' }
+      );
+      const stderr = await new Response(child.stderr).text();
+      return { exitCode: await child.exited, stderr };
+    };
+
+    for (const args of [
+      ['--help'],
+      ['--version'],
+      ['merge-driver', 'base', 'ours', 'theirs', 'Users/index.json']
+    ]) {
+      expect(await run(args)).toEqual({ exitCode: 0, stderr: '' });
+    }
+    const split = await run(['split', inputFile]);
+    expect(split.exitCode).toBe(1);
+    expect(split.stderr).toContain('Unknown setting "split.outptu"');
+  });
+
+  test('should apply naming and formatting settings', async () => {
+    const result = await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      max_name_length: 8,
+      indent: 4
+    });
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(join(treeDir, 'Products')).sort()).toEqual([
+      'Catalog',
+      'Export c.body.xml',
+      'Export c.json',
+      'Search (.graphql',
+      'Search (.json',
+      'Search (.variables.json',
+      'Upload i.json',
+      'index.json'
+    ]);
+    expect(await Bun.file(join(treeDir, 'index.json')).text()).toStartWith(
+      '{\n    "meta"'
+    );
+
+    const output = join(testDir, 'built.json');
+    const build = await new BuildCommand().execute(treeDir, {
+      output,
+      indent: 4
+    });
+    expect(build.success).toBe(true);
+    expect(await Bun.file(output).json()).toEqual(
+      await Bun.file(inputFile).json()
+    );
+    expect(await Bun.file(output).text()).toStartWith('{\n    "info"');
+  });
+
+  test('should write CRLF line endings in either tree format', async () => {
+    for (const format of ['json', 'yaml'] as const) {
+      const output = join(testDir, format);
+      const result = await new SplitCommand().execute(inputFile, {
+        output,
+        format,
+        eol: 'crlf'
+      });
+      expect(result.success).toBe(true);
+
+      const index = await Bun.file(
+        join(output, 'acme_store_api', `index.${format}`)
+      ).text();
+      expect(index).toEndWith('\r\n');
+      expect(index).not.toMatch(/[^\r]\n/);
+
+      const built = join(output, 'built.json');
+      const build = await new BuildCommand().execute(
+        join(output, 'acme_store_api'),
+        { output: built, eol: 'crlf' }
+      );
+      expect(build.success).toBe(true);
+      expect(await Bun.file(built).text()).toStartWith('{\r\n  "info"');
+      expect(await Bun.file(built).json()).toEqual(
+        await Bun.file(inputFile).json()
+      );
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { CurlCommand } from '../../src/commands/curl_command';
+import { ImportCommand } from '../../src/commands/import_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Curl Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-curl');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should print a request with variables and auth resolved', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const requestFile = join(
+      splitResult.output_directory,
+      'Auth',
+      'Login.json'
+    );
+
+    const result = await new CurlCommand().execute(requestFile, {});
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.request_name).toBe('Login');
+    // The body is read back from its extracted file
+    expect(result.command).toStartWith(
+      "curl 'https://api.acme.test/auth/login' \\\n  --request POST"
+    );
+    expect(result.command).toContain('"username": "{{username}}"');
+    expect(result.warnings).toEqual([
+      'Unresolved variables left in place: {{username}}, {{password}}'
+    ]);
+
+    const kept = await new CurlCommand().execute(requestFile, {
+      keep_variables: true
+    });
+    expect(kept.command).toStartWith("curl '{{baseUrl}}/auth/login'");
+    expect(kept.warnings).toEqual([]);
+  });
+
+  test('should use the auth a request inherits', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+
+    const result = await new CurlCommand().execute(
+      join(splitResult.output_directory, 'Health.json'),
+      { keep_variables: true }
+    );
+
+    expect(result.command).toBe(
+      "curl '{{baseUrl}}/health' \\\n  --header 'Authorization: Bearer {{token}}'"
+    );
+  });
+
+  test('should import a curl command into a folder and print it back', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const folder = join(splitResult.output_directory, 'Products');
+    const command =
+      "curl 'https://api.acme.test/orders' -H 'Content-Type: application/json' --data-raw '{\"sku\":\"A\"}'";
+
+    const result = await new ImportCommand().execute(command, {
+      format: 'curl',
+      into: folder
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    const index = await Bun.file(join(folder, 'index.json')).json();
+    expect(index.order.at(-1)).toBe('POST orders.json');
+
+    const printed = await new CurlCommand().execute(
+      join(folder, 'POST orders.json'),
+      {}
+    );
+    expect(printed.command).toBe(
+      "curl 'https://api.acme.test/orders' \\\n  --request POST \\\n  --header 'Content-Type: application/json' \\\n  --header 'Authorization: Bearer ' \\\n  --data-raw '{\"sku\":\"A\"}'"
+    );
+  });
+
+  test('should require --into for curl imports and a request file for curl', async () => {
+    const imported = await new ImportCommand().execute(
+      'curl https://example.com',
+      { format: 'curl' }
+    );
+    expect(imported.errors).toEqual([
+      'Importing a curl command requires --into <directory>'
+    ]);
+
+    const printed = await new CurlCommand().execute(testDir, {});
+    expect(printed.success).toBe(false);
+    expect(printed.errors[0]).toContain('Input path is not a request file');
+  });
+});
@@ -152,6 +152,26 @@ describe('Error Handling Integration Tests', () => {
   });
 
   describe('Build Command Error Handling', () => {
+    // Splits the real-world fixture, deletes one of its files and builds it
+    const buildWithout = async (deletedFile: string) => {
+      const splitResult = await splitCommand.execute(
+        join(
+          process.cwd(),
+          'tests',
+          'fixtures',
+          'real_world.postman_collection.json'
+        ),
+        { output: testDir, split_examples: true }
+      );
+      const treeDir = splitResult.output_directory;
+      rmSync(join(treeDir, deletedFile));
+
+      const result = await buildCommand.execute(treeDir, {
+        output: join(testDir, 'rebuilt.json')
+      });
+      return { treeDir, result };
+    };
+
     test('should handle non-existent input directory', async () => {
       const nonExistentDir = join(testDir, 'does-not-exist');
       const options = { verbose: false };
@@ -259,6 +279,66 @@ describe('Error Handling Integration Tests', () => {
       // Expect at least one validation-related error
       expect(result.errors.length).toBeGreaterThan(0);
     });
+
+    test('should report schema violations in the built collection', async () => {
+      const splitResult = await splitCommand.execute(
+        join(
+          process.cwd(),
+          'tests',
+          'fixtures',
+          'real_world.postman_collection.json'
+        ),
+        { output: testDir }
+      );
+      const healthPath = join(splitResult.output_directory, 'Health.json');
+      const health = await Bun.file(healthPath).json();
+      health.request.header = [{ key: 'X-Missing-Value' }];
+      await Bun.write(healthPath, JSON.stringify(health, null, 2));
+
+      const result = await buildCommand.execute(splitResult.output_directory, {
+        output: join(testDir, 'rebuilt.json'),
+        validate: true
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        'Schema v2.1.0 violation at /item/2/request/header/0: missing required property "value"'
+      ]);
+    });
+
+    test('should fail when an extracted script is missing', async () => {
+      const { treeDir, result } = await buildWithout('Auth/Login.test.js');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        `Failed to build Auth/Login.json: Script file not found: ${join(treeDir, 'Auth/Login.test.js')}`
+      ]);
+      expect(result.output_file).toBe('');
+    });
+
+    test('should fail when an extracted body is missing', async () => {
+      const { treeDir, result } = await buildWithout(
+        'Products/Export catalog.body.xml'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        `Failed to build Products/Export catalog.json: Body file not found: ${join(treeDir, 'Products/Export catalog.body.xml')}`
+      ]);
+      expect(result.output_file).toBe('');
+    });
+
+    test('should fail when an extracted example body is missing', async () => {
+      const { treeDir, result } = await buildWithout(
+        'Auth/examples/Login/Success.body.json'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        `Failed to build Auth/Login.json: Example body file not found: ${join(treeDir, 'Auth/examples/Login/Success.body.json')}`
+      ]);
+      expect(result.output_file).toBe('');
+    });
   });
 
   describe('File System Error Handling', () => {
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { ExportCommand } from '../../src/commands/export_command';
+import { ImportCommand } from '../../src/commands/import_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Export Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-export');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should export a split tree and its JSON export identically', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+
+    const fromTree = await new ExportCommand().execute(
+      splitResult.output_directory,
+      { format: 'openapi' }
+    );
+    const fromJson = await new ExportCommand().execute(inputFile, {
+      format: 'openapi'
+    });
+
+    expect(fromTree.errors).toEqual([]);
+    expect(fromTree.success).toBe(true);
+    expect(fromTree.document).toBe(fromJson.document);
+
+    const document = JSON.parse(fromTree.document);
+    expect(document.info.title).toBe('Acme Store API');
+    expect(document.servers).toEqual([{ url: 'https://api.acme.test' }]);
+    expect(document.tags.map((tag: { name: string }) => tag.name)).toEqual([
+      'Auth',
+      'Products'
+    ]);
+    expect(document.paths['/products/{productId}'].get.tags).toEqual([
+      'Products'
+    ]);
+    expect(document.paths['/auth/login'].post.security).toEqual([]);
+  });
+
+  test('should write YAML that imports back into a split tree', async () => {
+    const outputFile = join(testDir, 'openapi.yaml');
+    const result = await new ExportCommand().execute(inputFile, {
+      format: 'openapi',
+      output: outputFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output_file).toBe(outputFile);
+    expect(await Bun.file(outputFile).text()).toStartWith('openapi: 3.1.0\n');
+
+    const imported = await new ImportCommand().execute(outputFile, {
+      format: 'openapi',
+      output: testDir
+    });
+
+    expect(imported.errors).toEqual([]);
+    expect(imported.success).toBe(true);
+    const index = await Bun.file(
+      join(imported.output_directory, 'index.json')
+    ).json();
+    expect(index.order).toEqual(['Auth', 'Products', 'Health.json']);
+    expect(index.variable[0].value).toBe('https://api.acme.test');
+  });
+
+  test('should write a split tree as a Bruno collection', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const outputDir = join(testDir, 'bruno');
+
+    const result = await new ExportCommand().execute(
+      splitResult.output_directory,
+      { format: 'bruno', output: outputDir }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.output_file).toBe(outputDir);
+    expect(result.files_written).toBe(14);
+
+    const config = await Bun.file(join(outputDir, 'bruno.json')).json();
+    expect(config.name).toBe('Acme Store API');
+    expect(
+      await Bun.file(join(outputDir, 'Auth', 'folder.bru')).text()
+    ).toContain('meta {\n  name: Auth\n  seq: 1\n}');
+    expect(await Bun.file(join(outputDir, 'Health.bru')).text()).toContain(
+      'seq: 3'
+    );
+    expect(
+      await Bun.file(join(outputDir, 'Auth', 'Login.bru')).text()
+    ).toContain('body:json {');
+    expect(
+      await Bun.file(
+        join(outputDir, 'environments', 'Acme Store API.bru')
+      ).text()
+    ).toContain('baseUrl: https://api.acme.test');
+  });
+
+  test('should write a split tree as .http files', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const outputDir = join(testDir, 'http');
+
+    const result = await new ExportCommand().execute(
+      splitResult.output_directory,
+      { format: 'http', output: outputDir, env_file: true }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.files_written).toBe(5);
+
+    expect(
+      await Bun.file(join(outputDir, 'http-client.env.json')).json()
+    ).toEqual({ dev: { baseUrl: 'https://api.acme.test', token: '' } });
+    expect(await Bun.file(join(outputDir, 'Acme Store API.http')).text()).toBe(
+      '### Health\nGET {{baseUrl}}/health\nAuthorization: Bearer {{token}}\n'
+    );
+    const catalog = await Bun.file(
+      join(outputDir, 'Products', 'Catalog.http')
+    ).text();
+    expect(catalog).toStartWith('@pageSize = 20\n\n### List products\n');
+    expect(catalog).toContain(
+      '\n\n### Get product\nGET {{baseUrl}}/products/42\n'
+    );
+  });
+
+  test('should require an output directory for Bruno', async () => {
+    const result = await new ExportCommand().execute(inputFile, {
+      format: 'bruno'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('use --output <directory>');
+  });
+
+  test('should report a missing source', async () => {
+    const result = await new ExportCommand().execute(
+      join(testDir, 'missing.json'),
+      { format: 'openapi' }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Path does not exist');
+  });
+});
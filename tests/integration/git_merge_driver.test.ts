@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { GitInstallCommand } from '../../src/commands/git_install_command';
+import { MergeDriverCommand } from '../../src/commands/merge_driver_command';
+import { GitIntegration } from '../../src/git/git_integration';
+
+describe('Git Merge Driver Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-git-merge-driver');
+  const git = new GitIntegration();
+
+  const writeIndex = async (name: string, index: unknown) => {
+    const path = join(testDir, name);
+    await Bun.write(path, JSON.stringify(index, null, 2));
+    return path;
+  };
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should union order entries added on both sides', async () => {
+    const base = await writeIndex('base.json', {
+      meta: { type: 'folder', name: 'Users' },
+      order: ['List Users.json', 'Get User.json']
+    });
+    const ours = await writeIndex('ours.json', {
+      meta: { type: 'folder', name: 'Users' },
+      order: ['List Users.json', 'Create User.json', 'Get User.json']
+    });
+    const theirs = await writeIndex('theirs.json', {
+      meta: { type: 'folder', name: 'Users', description: 'User management' },
+      order: ['Get User.json', 'Delete User.json']
+    });
+
+    const result = await new MergeDriverCommand().execute(ours, {
+      base,
+      theirs,
+      file_path: 'Users/index.json'
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toEqual([]);
+    expect(await Bun.file(ours).json()).toEqual({
+      meta: { type: 'folder', name: 'Users', description: 'User management' },
+      order: ['Create User.json', 'Get User.json', 'Delete User.json']
+    });
+  });
+
+  test('should treat an empty base as an index added on both sides', async () => {
+    const base = join(testDir, 'base.json');
+    await Bun.write(base, '');
+    const ours = await writeIndex('ours.json', { order: ['a.json'] });
+    const theirs = await writeIndex('theirs.json', { order: ['b.json'] });
+
+    const result = await new MergeDriverCommand().execute(ours, {
+      base,
+      theirs
+    });
+
+    expect(result.success).toBe(true);
+    expect(await Bun.file(ours).json()).toEqual({
+      order: ['a.json', 'b.json']
+    });
+  });
+
+  test('should merge YAML indexes in YAML', async () => {
+    const writeYaml = async (name: string, order: string[]) => {
+      const path = join(testDir, name);
+      await Bun.write(
+        path,
+        `meta:\n  type: folder\nname: Users\norder:\n${order.map((entry) => `  - ${entry}\n`).join('')}`
+      );
+      return path;
+    };
+    const base = await writeYaml('base', ['a.yaml']);
+    const ours = await writeYaml('ours', ['a.yaml', 'b.yaml']);
+    const theirs = await writeYaml('theirs', ['a.yaml', 'c.yaml']);
+
+    const result = await new MergeDriverCommand().execute(ours, {
+      base,
+      theirs,
+      file_path: 'Users/index.yaml'
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(await Bun.file(ours).text()).toBe(
+      'meta:\n  type: folder\nname: Users\norder:\n  - a.yaml\n  - b.yaml\n  - c.yaml\n'
+    );
+  });
+
+  test('should report fields changed differently on both sides', async () => {
+    const base = await writeIndex('base.json', {
+      meta: { name: 'Users' },
+      order: []
+    });
+    const ours = await writeIndex('ours.json', {
+      meta: { name: 'Accounts' },
+      order: []
+    });
+    const theirs = await writeIndex('theirs.json', {
+      meta: { name: 'Members' },
+      order: []
+    });
+
+    const result = await new MergeDriverCommand().execute(ours, {
+      base,
+      theirs,
+      file_path: 'Users/index.json'
+    });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      path: 'Users/index.json',
+      field: 'meta.name',
+      resolution: 'ours'
+    });
+  });
+
+  test('should register the driver and merge branches without conflicts', async () => {
+    const runGit = async (...args: string[]) => {
+      const result = await git.runGit(args, testDir);
+      if (result.exit_code !== 0) {
+        throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+      }
+      return result.stdout;
+    };
+
+    await runGit('init', '--quiet');
+    await runGit('config', 'user.name', 'Test');
+    await runGit('config', 'user.email', 'test@example.com');
+
+    const command = `bun ${join(process.cwd(), 'src', 'index.ts')}`;
+    const install = await new GitInstallCommand().execute(testDir, {
+      command
+    });
+    expect(install.errors).toEqual([]);
+    expect(install.attribute_added).toBe(true);
+    expect(await runGit('config', 'merge.carveman.driver')).toContain(
+      'merge-driver %O %A %B %P'
+    );
+    expect(await Bun.file(join(testDir, '.gitattributes')).text()).toBe(
+      'index.json merge=carveman\nindex.yaml merge=carveman\n'
+    );
+
+    // Installing twice leaves .gitattributes alone
+    const again = await new GitInstallCommand().execute(testDir, {
+      command
+    });
+    expect(again.attribute_added).toBe(false);
+
+    await writeIndex('index.json', { order: ['a.json', 'b.json'] });
+    await runGit('add', '-A');
+    await runGit('commit', '--quiet', '-m', 'base');
+    const main = await runGit('rev-parse', '--abbrev-ref', 'HEAD');
+
+    await runGit('checkout', '--quiet', '-b', 'feature');
+    await writeIndex('index.json', { order: ['a.json', 'b.json', 'c.json'] });
+    await runGit('commit', '--quiet', '-am', 'add c');
+
+    await runGit('checkout', '--quiet', main);
+    await writeIndex('index.json', { order: ['a.json', 'x.json', 'b.json'] });
+    await runGit('commit', '--quiet', '-am', 'add x');
+
+    await runGit('merge', '--quiet', '--no-edit', 'feature');
+
+    expect(await Bun.file(join(testDir, 'index.json')).json()).toEqual({
+      order: ['a.json', 'x.json', 'b.json', 'c.json']
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { ImportCommand } from '../../src/commands/import_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Import Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-import');
+  const specFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'petstore.openapi.yaml'
+  );
+  const harFile = join(process.cwd(), 'tests', 'fixtures', 'acme_store.har');
+  const insomniaFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'insomnia.export.json'
+  );
+  const collectionFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should import an OpenAPI YAML document into a split tree', async () => {
+    const result = await new ImportCommand().execute(specFile, {
+      format: 'openapi',
+      output: testDir
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.collection_name).toBe('Petstore API');
+
+    const treeDir = join(testDir, 'petstore_api');
+    expect(result.output_directory).toBe(treeDir);
+
+    const index = await Bun.file(join(treeDir, 'index.json')).json();
+    expect(index.order).toEqual(['Pets', 'Health check.json']);
+    expect(index.variable[0]).toEqual({
+      key: 'baseUrl',
+      value: 'https://eu.petstore.example.com/v1',
+      type: 'string'
+    });
+    expect(index.auth.type).toBe('bearer');
+
+    const folder = await Bun.file(join(treeDir, 'Pets', 'index.json')).json();
+    expect(folder.description).toBe('Everything about pets');
+    expect(folder.order).toEqual([
+      'List pets.json',
+      'Create pet.json',
+      'getPet.json',
+      'Delete pet.json',
+      'Upload photo.json'
+    ]);
+
+    // Raw bodies are extracted next to the request, as split does
+    expect(existsSync(join(treeDir, 'Pets', 'Create pet.body.json'))).toBe(
+      true
+    );
+
+    const upload = await Bun.file(
+      join(treeDir, 'Pets', 'Upload photo.json')
+    ).json();
+    expect(upload.request.url.variable).toEqual([{ key: 'petId', value: '' }]);
+    expect(upload.request.body.formdata[1]).toEqual({
+      key: 'file',
+      type: 'file',
+      src: ''
+    });
+  });
+
+  test('should build an imported tree into a valid collection', async () => {
+    await new ImportCommand().execute(specFile, {
+      format: 'openapi',
+      output: testDir
+    });
+
+    const outputFile = join(testDir, 'petstore.json');
+    const result = await new BuildCommand().execute(
+      join(testDir, 'petstore_api'),
+      { output: outputFile, validate: true }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+
+    const collection = await Bun.file(outputFile).json();
+    const pets = collection.item[0];
+    expect(pets.item.map((item: { name: string }) => item.name)).toEqual([
+      'List pets',
+      'Create pet',
+      'getPet',
+      'Delete pet',
+      'Upload photo'
+    ]);
+    expect(JSON.parse(pets.item[1].request.body.raw)).toEqual({
+      name: 'Rex',
+      tag: 'string',
+      born: '2024-01-01',
+      owner: { email: 'user@example.com', pets: [] }
+    });
+    expect(pets.item[3].request.auth.type).toBe('apikey');
+    expect(collection.item[1].request.auth).toEqual({ type: 'noauth' });
+  });
+
+  test('should report documents that are not OpenAPI 3.x', async () => {
+    const swaggerFile = join(testDir, 'swagger.json');
+    await Bun.write(
+      swaggerFile,
+      JSON.stringify({ swagger: '2.0', info: { title: 'Old' }, paths: {} })
+    );
+
+    const result = await new ImportCommand().execute(swaggerFile, {
+      format: 'openapi',
+      output: testDir
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain(
+      'Swagger 2.0 documents are not supported'
+    );
+  });
+
+  test('should import an Insomnia export into a buildable tree', async () => {
+    const result = await new ImportCommand().execute(insomniaFile, {
+      format: 'insomnia',
+      output: testDir
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    const treeDir = join(testDir, 'acme_billing');
+    expect(result.output_directory).toBe(treeDir);
+
+    const index = await Bun.file(join(treeDir, 'index.json')).json();
+    expect(index.order).toEqual(['Search.json', 'Invoices']);
+    expect(index.variable[0].key).toBe('base_url');
+
+    const folder = await Bun.file(
+      join(treeDir, 'Invoices', 'index.json')
+    ).json();
+    expect(folder.meta.type).toBe('folder');
+    expect(folder.order).toEqual([
+      'List invoices.json',
+      'Create invoice.json',
+      'Payments'
+    ]);
+    expect(folder.variable).toEqual([
+      { key: 'customer_id', value: 'cus_42', type: 'string' }
+    ]);
+    expect(folder.auth.type).toBe('bearer');
+
+    const build = await new BuildCommand().execute(treeDir, {
+      output: join(testDir, 'billing.json'),
+      validate: true
+    });
+    expect(build.errors).toEqual([]);
+    expect(build.success).toBe(true);
+  });
+
+  test('should add HAR entries to a new folder of an existing tree', async () => {
+    const splitResult = await new SplitCommand().execute(collectionFile, {
+      output: testDir
+    });
+    const treeDir = splitResult.output_directory;
+
+    const result = await new ImportCommand().execute(harFile, {
+      format: 'har',
+      into: treeDir,
+      folder: 'Captured'
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.collection_name).toBe('Acme Store API');
+    // List products already covers GET /products with the same query names
+    expect(result.warnings).toContain(
+      'Skipped "GET products": GET /products?limit&page&sort is already in the collection'
+    );
+
+    const index = await Bun.file(join(treeDir, 'index.json')).json();
+    expect(index.order).toEqual([
+      'Auth',
+      'Products',
+      'Health.json',
+      'Captured'
+    ]);
+
+    const folder = await Bun.file(
+      join(treeDir, 'Captured', 'index.json')
+    ).json();
+    expect(folder.order).toEqual([
+      'POST orders.json',
+      'POST newsletter.json',
+      'GET products 42 image.json'
+    ]);
+
+    const build = await new BuildCommand().execute(treeDir, {
+      output: join(testDir, 'rebuilt.json'),
+      validate: true
+    });
+    expect(build.errors).toEqual([]);
+    const captured = (await Bun.file(join(testDir, 'rebuilt.json')).json())
+      .item[3];
+    expect(captured.item[0].response[0].body).toBe('{"id":7,"status":"new"}');
+  });
+
+  test('should skip HAR entries already imported into a folder', async () => {
+    const splitResult = await new SplitCommand().execute(collectionFile, {
+      output: testDir
+    });
+    const productsDir = join(splitResult.output_directory, 'Products');
+    const options = {
+      format: 'har' as const,
+      into: splitResult.output_directory,
+      folder: 'Products'
+    };
+
+    await new ImportCommand().execute(harFile, options);
+    const result = await new ImportCommand().execute(harFile, options);
+
+    expect(result.success).toBe(true);
+    expect(result.output_directory).toBe(productsDir);
+    expect(result.files_created).toBe(0);
+    expect(
+      result.warnings.filter((warning) => warning.startsWith('Skipped'))
+    ).toHaveLength(4);
+
+    const folder = await Bun.file(join(productsDir, 'index.json')).json();
+    expect(folder.order.slice(-3)).toEqual([
+      'POST orders.json',
+      'POST newsletter.json',
+      'GET products 42 image.json'
+    ]);
+    expect(folder.order).toHaveLength(7);
+  });
+
+  test('should report an --into directory outside a split tree', async () => {
+    const result = await new ImportCommand().execute(harFile, {
+      format: 'har',
+      into: testDir
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Not a folder of a split collection');
+  });
+});
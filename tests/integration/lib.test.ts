@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { build, split } from '../../src/lib';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('Library API Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-lib');
+  const fixturePath = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+  const treeDir = join(testDir, 'acme_store_api');
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should split an in-memory collection without printing', async () => {
+    const collection: IPostmanCollection = await Bun.file(fixturePath).json();
+    const log = spyOn(console, 'log');
+
+    try {
+      const result = await split(collection, { output: testDir });
+
+      expect(result.success).toBe(true);
+      expect(result.output_directory).toBe(treeDir);
+      expect(result.files_created).toBeGreaterThan(0);
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+
+    expect(await Bun.file(join(treeDir, 'index.json')).exists()).toBe(true);
+  });
+
+  test('should split a collection file', async () => {
+    const result = await split(fixturePath, { output: testDir });
+
+    expect(result.success).toBe(true);
+    expect(result.collection_name).toBe('Acme Store API');
+  });
+
+  test('should report a missing input file', async () => {
+    const result = await split(join(testDir, 'missing.json'));
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Input file does not exist');
+  });
+
+  test('should report an invalid collection', async () => {
+    const result = await split({ item: [] } as unknown as IPostmanCollection, {
+      output: testDir
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  test('should not replace an existing tree unless asked to', async () => {
+    await split(fixturePath, { output: testDir });
+
+    const refused = await split(fixturePath, { output: testDir });
+    expect(refused.success).toBe(false);
+    expect(refused.errors[0]).toBe(
+      `Output directory already exists: ${treeDir} (set overwrite to replace it)`
+    );
+
+    const replaced = await split(fixturePath, {
+      output: testDir,
+      overwrite: true
+    });
+    expect(replaced.success).toBe(true);
+  });
+
+  test('should sync an existing tree', async () => {
+    await split(fixturePath, { output: testDir });
+    rmSync(join(treeDir, 'Health.json'));
+
+    const result = await split(fixturePath, { output: testDir, sync: true });
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual({
+      added: ['Health.json'],
+      modified: [],
+      deleted: []
+    });
+  });
+
+  test('should return the built collection without writing it', async () => {
+    await split(fixturePath, { output: testDir });
+    const log = spyOn(console, 'log');
+
+    try {
+      const result = await build(treeDir);
+
+      expect(result.success).toBe(true);
+      expect(result.output_file).toBe('');
+      expect(result.collection).toEqual(await Bun.file(fixturePath).json());
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  test('should write the built collection when an output is given', async () => {
+    await split(fixturePath, { output: testDir });
+    const output = join(testDir, 'built.json');
+
+    const result = await build(treeDir, { output });
+
+    expect(result.success).toBe(true);
+    expect(result.output_file).toBe(output);
+    expect(await Bun.file(output).json()).toEqual(result.collection);
+  });
+
+  test('should report a missing build directory', async () => {
+    const result = await build(join(testDir, 'missing'));
+
+    expect(result.success).toBe(false);
+    expect(result.collection).toBeNull();
+  });
+});
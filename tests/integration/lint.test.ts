@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { LintCommand } from '../../src/commands/lint_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Lint Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-lint');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should lint a split real-world export', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+
+    const result = await new LintCommand().execute(
+      splitResult.output_directory,
+      { format: 'json' }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.has_errors).toBe(false);
+    const report = JSON.parse(result.report);
+    expect(report.collection_name).toBe('Acme Store API');
+    expect(
+      report.findings.find(
+        (finding: { rule: string }) => finding.rule === 'duplicate-name'
+      )?.item_path
+    ).toBe('Auth/Login (1)');
+  });
+
+  test('should read rule settings from a config file and write SARIF', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const configFile = join(testDir, 'lint.json');
+    await Bun.write(
+      configFile,
+      JSON.stringify({ rules: { 'disabled-header': 'error' } })
+    );
+    const outputFile = join(testDir, 'lint.sarif');
+
+    const result = await new LintCommand().execute(
+      splitResult.output_directory,
+      { format: 'sarif', config: configFile, output: outputFile }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.has_errors).toBe(true);
+    const sarif = await Bun.file(outputFile).json();
+    const errors = sarif.runs[0].results.filter(
+      (entry: { level: string }) => entry.level === 'error'
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0].ruleId).toBe('disabled-header');
+  });
+
+  test('should use rule settings from the project config', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+
+    const result = await new LintCommand().execute(
+      splitResult.output_directory,
+      { format: 'json', rules: { 'disabled-header': 'error' } }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.has_errors).toBe(true);
+  });
+
+  test('should fail on an invalid config file', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir
+    });
+    const configFile = join(testDir, 'lint.json');
+    await Bun.write(
+      configFile,
+      JSON.stringify({ rules: { 'no-such-rule': 'error' } })
+    );
+
+    const result = await new LintCommand().execute(
+      splitResult.output_directory,
+      { config: configFile }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Unknown lint rule "no-such-rule"');
+  });
+});
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { MergeCommand } from '../../src/commands/merge_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('Merge Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-merge');
+  const baseFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should merge a Postman export into an edited split tree', async () => {
+    const splitResult = await new SplitCommand().execute(baseFile, {
+      output: testDir
+    });
+    const oursDir = splitResult.output_directory;
+
+    // Our edit: a header on the health check, made in the split tree
+    const healthPath = join(oursDir, 'Health.json');
+    const health = await Bun.file(healthPath).json();
+    health.request.header = [{ key: 'X-Ours', value: '1' }];
+    await Bun.write(healthPath, JSON.stringify(health, null, 2));
+
+    // Their edit: a new request and a new URL, made in Postman and exported
+    const theirs = await Bun.file(baseFile).json();
+    theirs.item.push({
+      name: 'Version',
+      request: { method: 'GET', url: '{{baseUrl}}/version' }
+    });
+    const theirHealth = theirs.item.find(
+      (item: { name: string }) => item.name === 'Health'
+    );
+    theirHealth.request.url = '{{baseUrl}}/healthz';
+    const theirsFile = join(testDir, 'theirs.json');
+    await Bun.write(theirsFile, JSON.stringify(theirs, null, 2));
+
+    const result = await new MergeCommand().execute(oursDir, {
+      base: baseFile,
+      theirs: theirsFile
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toEqual([]);
+
+    const rebuiltFile = join(testDir, 'rebuilt.json');
+    await new BuildCommand().execute(oursDir, { output: rebuiltFile });
+    const rebuilt = await Bun.file(rebuiltFile).json();
+    const rebuiltHealth = rebuilt.item.find(
+      (item: { name: string }) => item.name === 'Health'
+    );
+
+    expect(rebuiltHealth.request.header).toEqual([
+      { key: 'X-Ours', value: '1' }
+    ]);
+    expect(rebuiltHealth.request.url).toBe('{{baseUrl}}/healthz');
+    expect(rebuilt.item.at(-1).name).toBe('Version');
+  });
+
+  test('should leave conflict markers in extracted body files', async () => {
+    const splitResult = await new SplitCommand().execute(baseFile, {
+      output: testDir
+    });
+    const oursDir = splitResult.output_directory;
+    const bodyPath = join(oursDir, 'Auth', 'Login.body.json');
+    await Bun.write(bodyPath, '{ "username": "ours" }');
+
+    const theirs = await Bun.file(baseFile).json();
+    theirs.item[0].item[0].request.body.raw = '{ "username": "theirs" }';
+    const theirsFile = join(testDir, 'theirs.json');
+    await Bun.write(theirsFile, JSON.stringify(theirs, null, 2));
+
+    const reportFile = join(testDir, 'conflicts.json');
+    const result = await new MergeCommand().execute(oursDir, {
+      base: baseFile,
+      theirs: theirsFile,
+      report: reportFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toHaveLength(1);
+    expect(await Bun.file(bodyPath).text()).toBe(
+      '<<<<<<< ours\n{ "username": "ours" }\n=======\n{ "username": "theirs" }\n>>>>>>> theirs'
+    );
+
+    const report = await Bun.file(reportFile).json();
+    expect(report.conflicts[0]).toMatchObject({
+      path: 'Auth/Login',
+      field: 'request.body.raw',
+      resolution: 'markers'
+    });
+  });
+
+  test('should delete the files of requests theirs removed or renamed', async () => {
+    const splitResult = await new SplitCommand().execute(baseFile, {
+      output: testDir
+    });
+    const oursDir = splitResult.output_directory;
+    await Bun.write(join(oursDir, '.gitignore'), '.secrets.json\n');
+
+    const theirs = await Bun.file(baseFile).json();
+    theirs.item[0].item = theirs.item[0].item.slice(0, 1);
+    theirs.item.at(-1).name = 'Status';
+    const theirsFile = join(testDir, 'theirs.json');
+    await Bun.write(theirsFile, JSON.stringify(theirs, null, 2));
+
+    const result = await new MergeCommand().execute(oursDir, {
+      base: baseFile,
+      theirs: theirsFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(oursDir).sort()).toEqual([
+      '.gitignore',
+      'Auth',
+      'Products',
+      'Status.json',
+      'index.json',
+      'index.prerequest.js',
+      'index.test.js'
+    ]);
+    expect(readdirSync(join(oursDir, 'Auth'))).not.toContain('Login (1).json');
+
+    const rebuiltFile = join(testDir, 'rebuilt.json');
+    const build = await new BuildCommand().execute(oursDir, {
+      output: rebuiltFile,
+      orphans: 'error'
+    });
+    expect(build.success).toBe(true);
+    expect(await Bun.file(rebuiltFile).json()).toEqual(theirs);
+  });
+
+  test('should keep the layout our tree was split with', async () => {
+    const splitResult = await new SplitCommand().execute(baseFile, {
+      output: testDir,
+      inline_scripts: true,
+      inline_bodies: true,
+      split_examples: true
+    });
+    const oursDir = splitResult.output_directory;
+    const before = readdirSync(oursDir, { recursive: true }).map(String).sort();
+
+    const theirs = await Bun.file(baseFile).json();
+    theirs.item.at(-1).request.url = '{{baseUrl}}/healthz';
+    const theirsFile = join(testDir, 'theirs.json');
+    await Bun.write(theirsFile, JSON.stringify(theirs, null, 2));
+
+    const result = await new MergeCommand().execute(oursDir, {
+      base: baseFile,
+      theirs: theirsFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(
+      readdirSync(oursDir, { recursive: true }).map(String).sort()
+    ).toEqual(before);
+    expect(
+      (await Bun.file(join(oursDir, 'Health.json')).json()).request.url
+    ).toBe('{{baseUrl}}/healthz');
+  });
+
+  test('should write a YAML tree back in YAML', async () => {
+    const splitResult = await new SplitCommand().execute(baseFile, {
+      output: testDir,
+      format: 'yaml'
+    });
+    const oursDir = splitResult.output_directory;
+
+    const theirs = await Bun.file(baseFile).json();
+    theirs.item.at(-1).request.url = '{{baseUrl}}/healthz';
+    const theirsFile = join(testDir, 'theirs.json');
+    await Bun.write(theirsFile, JSON.stringify(theirs, null, 2));
+
+    const result = await new MergeCommand().execute(oursDir, {
+      base: baseFile,
+      theirs: theirsFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(oursDir)).not.toContain('index.json');
+    expect(await Bun.file(join(oursDir, 'Health.yaml')).text()).toContain(
+      '{{baseUrl}}/healthz'
+    );
+
+    const rebuiltFile = join(testDir, 'rebuilt.json');
+    const build = await new BuildCommand().execute(oursDir, {
+      output: rebuiltFile,
+      orphans: 'error'
+    });
+    expect(build.success).toBe(true);
+    expect(await Bun.file(rebuiltFile).json()).toEqual(theirs);
+  });
+
+  test('should write a JSON file when the output ends in .json', async () => {
+    const outputFile = join(testDir, 'merged.json');
+
+    const result = await new MergeCommand().execute(baseFile, {
+      base: baseFile,
+      theirs: baseFile,
+      output: outputFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(await Bun.file(outputFile).json()).toEqual(
+      await Bun.file(baseFile).json()
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { SplitCommand } from '../../src/commands/split_command';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('Build Order Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-orphans');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+  const treeDir = join(testDir, 'acme_store_api');
+  const productsDir = join(treeDir, 'Products');
+  const outputFile = join(testDir, 'built.json');
+
+  // Adds a request file by hand, without listing it in the folder order
+  const addRequest = async (fileName: string, name: string) => {
+    const request = await Bun.file(
+      join(productsDir, 'Upload image.json')
+    ).json();
+    await Bun.write(
+      join(productsDir, fileName),
+      JSON.stringify({ ...request, id: undefined, name })
+    );
+  };
+
+  const productNames = async () => {
+    const collection: IPostmanCollection = await Bun.file(outputFile).json();
+    const products = collection.item.find((item) => item.name === 'Products');
+    return products?.item?.map((item) => item.name);
+  };
+
+  beforeEach(async () => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+    await new SplitCommand().execute(inputFile, { output: testDir });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should not report a tree split wrote', async () => {
+    await Bun.write(join(treeDir, '.secrets.json'), '{}');
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'error'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('should leave JSON files that are not requests out of the order', async () => {
+    const packageJson = JSON.stringify({ name: 'x', private: true });
+    await Bun.write(join(treeDir, 'package.json'), packageJson);
+    await Bun.write(join(productsDir, 'tools', 'package.json'), packageJson);
+
+    for (const options of [{ orphans: 'error' as const }, { fix: true }]) {
+      const result = await new BuildCommand().execute(treeDir, {
+        output: outputFile,
+        ...options
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([]);
+    }
+    const appended = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'append'
+    });
+    expect(appended.warnings).toEqual([]);
+    expect((await Bun.file(join(treeDir, 'index.json')).json()).order).toEqual([
+      'Auth',
+      'Products',
+      'Health.json'
+    ]);
+    expect(
+      await Bun.file(join(productsDir, 'tools', 'index.json')).exists()
+    ).toBe(false);
+  });
+
+  test('should warn about orphaned and missing entries', async () => {
+    await addRequest('Added.json', 'Added');
+    rmSync(join(treeDir, 'Health.json'));
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      'Listed in order but not found: Health.json',
+      'Not listed in order: Products/Added.json'
+    ]);
+    expect(await productNames()).not.toContain('Added');
+  });
+
+  test('should fail the build in error mode', async () => {
+    await addRequest('Added.json', 'Added');
+    mkdirSync(join(productsDir, 'Drafts'));
+    await Bun.write(
+      join(productsDir, 'Drafts', 'index.json'),
+      JSON.stringify({ meta: { type: 'folder' }, name: 'Drafts', order: [] })
+    );
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'error'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      'Not listed in order: Products/Added.json',
+      'Not listed in order: Products/Drafts'
+    ]);
+    expect(await Bun.file(outputFile).exists()).toBe(false);
+  });
+
+  test('should append orphans in alphabetical order', async () => {
+    await addRequest('Zeta.json', 'Zeta');
+    await addRequest('Alpha.json', 'Alpha');
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'append'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      'Appended to order: Products/Alpha.json',
+      'Appended to order: Products/Zeta.json'
+    ]);
+    expect(await productNames()).toEqual([
+      'Catalog',
+      'Upload image',
+      'Search (GraphQL)',
+      'Export catalog',
+      'Alpha',
+      'Zeta'
+    ]);
+  });
+
+  test('should rewrite the order arrays with --fix', async () => {
+    await addRequest('Added.json', 'Added');
+    rmSync(join(productsDir, 'Upload image.json'));
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      fix: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      'Fixed order of Products/index.json: added Added.json, removed Upload image.json'
+    ]);
+    expect(
+      (await Bun.file(join(productsDir, 'index.json')).json()).order
+    ).toEqual([
+      'Catalog',
+      'Search (GraphQL).json',
+      'Export catalog.json',
+      'Added.json'
+    ]);
+    expect(await productNames()).toEqual([
+      'Catalog',
+      'Search (GraphQL)',
+      'Export catalog',
+      'Added'
+    ]);
+
+    const again = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'error'
+    });
+    expect(again.success).toBe(true);
+    expect(again.warnings).toEqual([]);
+  });
+
+  test('should report and fix a folder of requests without an index', async () => {
+    mkdirSync(join(productsDir, 'Drafts'));
+    await Bun.write(
+      join(productsDir, 'Drafts', 'Idea.json'),
+      await Bun.file(join(productsDir, 'Upload image.json')).text()
+    );
+
+    const reported = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      orphans: 'error'
+    });
+    expect(reported.success).toBe(false);
+    expect(reported.errors).toEqual([
+      'Folder without an index file: Products/Drafts'
+    ]);
+
+    const fixed = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      fix: true
+    });
+    expect(fixed.success).toBe(true);
+    expect(fixed.warnings).toEqual([
+      'Created Products/Drafts/index.json',
+      'Fixed order of Products/index.json: added Drafts',
+      'Fixed order of Products/Drafts/index.json: added Idea.json'
+    ]);
+    expect(
+      await Bun.file(join(productsDir, 'Drafts', 'index.json')).json()
+    ).toEqual({
+      meta: { type: 'folder', parent_path: 'Products' },
+      name: 'Drafts',
+      order: ['Idea.json']
+    });
+    expect(await productNames()).toContain('Drafts');
+  });
+
+  test('should keep the format of a fixed YAML index', async () => {
+    rmSync(treeDir, { recursive: true });
+    await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      format: 'yaml'
+    });
+    await Bun.write(
+      join(productsDir, 'Added.yaml'),
+      await Bun.file(join(productsDir, 'Upload image.yaml')).text()
+    );
+
+    const result = await new BuildCommand().execute(treeDir, {
+      output: outputFile,
+      fix: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(await Bun.file(join(productsDir, 'index.json')).exists()).toBe(
+      false
+    );
+    expect(await Bun.file(join(productsDir, 'index.yaml')).text()).toEndWith(
+      '  - Export catalog.yaml\n  - Added.yaml\n'
+    );
+  });
+});
@@ -1,7 +1,12 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 import { mkdirSync, rmSync } from 'node:fs';
-import { access } from 'node:fs/promises';
+import { access, readdir } from 'node:fs/promises';
 import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { BuildEnvCommand } from '../../src/commands/build_env_command';
+import { SplitCommand } from '../../src/commands/split_command';
+import { SplitEnvCommand } from '../../src/commands/split_env_command';
+import type { ISplitOptions } from '../../src/types/postman';
 
 describe('Round Trip Integration Tests', () => {
   const testDir = join(process.cwd(), 'test-integration');
@@ -233,4 +238,581 @@ describe('Round Trip Integration Tests', () => {
     // Verify no actual files were created
     expect(await Bun.file(splitOutputDir).exists()).toBe(false);
   }, 15000);
+
+  test('should extract scripts to .js files and inline them on build', async () => {
+    const scriptedCollection = {
+      info: {
+        name: 'Scripted Collection',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      event: [
+        {
+          listen: 'prerequest',
+          script: { type: 'text/javascript', exec: ["console.log('root');"] }
+        }
+      ],
+      item: [
+        {
+          name: 'Auth',
+          event: [
+            {
+              listen: 'test',
+              script: { type: 'text/javascript', exec: ["pm.test('folder');"] }
+            }
+          ],
+          item: [
+            {
+              name: 'Login',
+              event: [
+                {
+                  listen: 'test',
+                  script: {
+                    type: 'text/javascript',
+                    exec: [
+                      'pm.test("ok", () => {',
+                      '  pm.expect(1).to.eql(1);',
+                      '});'
+                    ]
+                  }
+                }
+              ],
+              request: { method: 'POST', url: 'https://api.example.com/login' }
+            }
+          ]
+        }
+      ]
+    };
+
+    const collectionFile = join(testDir, 'scripted.json');
+    await Bun.write(collectionFile, JSON.stringify(scriptedCollection));
+
+    const splitResult = await new SplitCommand().execute(collectionFile, {
+      output: testDir,
+      overwrite: true
+    });
+    expect(splitResult.success).toBe(true);
+
+    const collectionDir = join(testDir, 'scripted_collection');
+    expect(
+      await Bun.file(join(collectionDir, 'index.prerequest.js')).text()
+    ).toBe("console.log('root');\n");
+    expect(
+      await Bun.file(join(collectionDir, 'Auth', 'index.test.js')).exists()
+    ).toBe(true);
+    expect(
+      await Bun.file(join(collectionDir, 'Auth', 'Login.test.js')).text()
+    ).toBe('pm.test("ok", () => {\n  pm.expect(1).to.eql(1);\n});\n');
+
+    const requestFile = await Bun.file(
+      join(collectionDir, 'Auth', 'Login.json')
+    ).json();
+    expect(requestFile.event[0].script.exec).toBeUndefined();
+    expect(requestFile.event[0].script.exec_file).toBe('Login.test.js');
+
+    const outputFile = join(testDir, 'rebuilt-scripted.json');
+    const buildResult = await new BuildCommand().execute(collectionDir, {
+      output: outputFile
+    });
+    expect(buildResult.success).toBe(true);
+
+    const rebuilt = await Bun.file(outputFile).json();
+    expect(rebuilt.event).toEqual(scriptedCollection.event);
+    expect(rebuilt.item[0].event).toEqual(scriptedCollection.item[0]?.event);
+    expect(rebuilt.item[0].item[0].event).toEqual(
+      scriptedCollection.item[0]?.item[0]?.event
+    );
+  });
+
+  test('should store raw and GraphQL bodies as separate files', async () => {
+    const rawBody =
+      '{\n  "name": "John Doe",\n  "email": "john@example.com"\n}';
+    const bodyCollection = {
+      info: {
+        name: 'Body Collection',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      item: [
+        {
+          name: 'Create User',
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/users',
+            body: {
+              mode: 'raw',
+              raw: rawBody,
+              options: { raw: { language: 'json' } }
+            }
+          }
+        },
+        {
+          name: 'Me',
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/graphql',
+            body: {
+              mode: 'graphql',
+              graphql: { query: '{ me { id } }', variables: '{}' }
+            }
+          }
+        }
+      ]
+    };
+
+    const collectionFile = join(testDir, 'bodies.json');
+    await Bun.write(collectionFile, JSON.stringify(bodyCollection));
+
+    const splitResult = await new SplitCommand().execute(collectionFile, {
+      output: testDir,
+      overwrite: true
+    });
+    expect(splitResult.success).toBe(true);
+
+    const collectionDir = join(testDir, 'body_collection');
+    expect(
+      await Bun.file(join(collectionDir, 'Create User.body.json')).text()
+    ).toBe(rawBody);
+    expect(await Bun.file(join(collectionDir, 'Me.graphql')).text()).toBe(
+      '{ me { id } }'
+    );
+
+    const outputFile = join(testDir, 'rebuilt-bodies.json');
+    const buildResult = await new BuildCommand().execute(collectionDir, {
+      output: outputFile
+    });
+    expect(buildResult.success).toBe(true);
+
+    const rebuilt = await Bun.file(outputFile).json();
+    expect(rebuilt.item[0].request.body).toEqual(
+      bodyCollection.item[0]?.request.body
+    );
+    expect(rebuilt.item[1].request.body).toEqual(
+      bodyCollection.item[1]?.request.body
+    );
+  });
+
+  test('should keep requests named like body files apart from them', async () => {
+    const request = (name: string) => ({
+      name,
+      request: {
+        method: 'POST',
+        url: 'https://api.example.com/config',
+        body: {
+          mode: 'raw',
+          raw: `{"from":"${name}"}`,
+          options: { raw: { language: 'json' } }
+        }
+      }
+    });
+    const namedCollection = {
+      info: {
+        name: 'Named Collection',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      item: [
+        request('Config.variables'),
+        request('Login'),
+        request('Login.body'),
+        request('app.js')
+      ]
+    };
+
+    const collectionFile = join(testDir, 'named.json');
+    await Bun.write(collectionFile, JSON.stringify(namedCollection));
+    await new SplitCommand().execute(collectionFile, {
+      output: testDir,
+      overwrite: true
+    });
+
+    const collectionDir = join(testDir, 'named_collection');
+    expect(
+      (await Bun.file(join(collectionDir, 'index.json')).json()).order
+    ).toEqual([
+      'Config.variables.json',
+      'Login.json',
+      'Login.body (1).json',
+      'app.js.json'
+    ]);
+
+    const outputFile = join(testDir, 'rebuilt-named.json');
+    const buildResult = await new BuildCommand().execute(collectionDir, {
+      output: outputFile,
+      orphans: 'error'
+    });
+    expect(buildResult.success).toBe(true);
+    expect(buildResult.warnings).toEqual([]);
+    expect(await Bun.file(outputFile).json()).toEqual(namedCollection);
+  });
+
+  test('should split saved examples into files when requested', async () => {
+    const exampleCollection = {
+      info: {
+        name: 'Example Collection',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      item: [
+        {
+          name: 'Login',
+          request: { method: 'POST', url: 'https://api.example.com/login' },
+          response: [
+            {
+              name: 'Success',
+              code: 200,
+              _postman_previewlanguage: 'json',
+              body: '{"token": "abc"}'
+            },
+            { name: 'Unauthorized', code: 401, body: 'Nope' }
+          ]
+        }
+      ]
+    };
+
+    const collectionFile = join(testDir, 'examples.json');
+    await Bun.write(collectionFile, JSON.stringify(exampleCollection));
+
+    const splitResult = await new SplitCommand().execute(collectionFile, {
+      output: testDir,
+      overwrite: true,
+      split_examples: true
+    });
+    expect(splitResult.success).toBe(true);
+
+    const collectionDir = join(testDir, 'example_collection');
+    const requestFile = await Bun.file(
+      join(collectionDir, 'Login.json')
+    ).json();
+    expect(requestFile.response).toBeUndefined();
+    expect(requestFile.response_files).toEqual([
+      'examples/Login/Success.json',
+      'examples/Login/Unauthorized.json'
+    ]);
+    expect(
+      await Bun.file(
+        join(collectionDir, 'examples', 'Login', 'Success.body.json')
+      ).text()
+    ).toBe('{"token": "abc"}');
+
+    const outputFile = join(testDir, 'rebuilt-examples.json');
+    const buildResult = await new BuildCommand().execute(collectionDir, {
+      output: outputFile
+    });
+    expect(buildResult.success).toBe(true);
+
+    const rebuilt = await Bun.file(outputFile).json();
+    expect(rebuilt.item[0].response).toEqual(
+      exampleCollection.item[0]?.response
+    );
+  });
+
+  test('should round-trip a Postman environment', async () => {
+    const environment = {
+      id: 'env-id',
+      name: 'Development',
+      values: [
+        { key: 'token', value: 'abc', type: 'secret', enabled: false },
+        {
+          key: 'baseUrl',
+          value: 'http://localhost',
+          type: 'default',
+          enabled: true
+        },
+        { key: 'apiKey', value: 'k', type: 'default', enabled: true }
+      ],
+      _postman_variable_scope: 'environment',
+      _postman_exported_at: '2024-01-01T00:00:00.000Z',
+      _postman_exported_using: 'Postman/10.0.0'
+    };
+
+    const environmentFile = join(testDir, 'dev.postman_environment.json');
+    await Bun.write(environmentFile, JSON.stringify(environment));
+
+    const splitResult = await new SplitEnvCommand().execute(environmentFile, {
+      output: testDir
+    });
+    expect(splitResult.success).toBe(true);
+
+    const environmentDir = join(testDir, 'development');
+    const variables = await Bun.file(
+      join(environmentDir, 'variables.json')
+    ).json();
+    expect(variables.map((variable: { key: string }) => variable.key)).toEqual([
+      'apiKey',
+      'baseUrl',
+      'token'
+    ]);
+
+    const outputFile = join(testDir, 'rebuilt.postman_environment.json');
+    const buildResult = await new BuildEnvCommand().execute(environmentDir, {
+      output: outputFile,
+      validate: true
+    });
+    expect(buildResult.success).toBe(true);
+
+    const rebuilt = await Bun.file(outputFile).json();
+    expect(rebuilt).toEqual(environment);
+    expect(Object.keys(rebuilt)).toEqual(Object.keys(environment));
+  });
+
+  test('should refuse to build a collection directory as an environment', async () => {
+    const collectionDir = join(testDir, 'not-an-env');
+    mkdirSync(collectionDir, { recursive: true });
+    await Bun.write(
+      join(collectionDir, 'index.json'),
+      JSON.stringify({ meta: { type: 'collection' }, info: {}, order: [] })
+    );
+
+    const result = await new BuildEnvCommand().execute(collectionDir, {});
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Not an environment directory');
+  });
+
+  describe('lossless round-trip', () => {
+    const realWorldFile = join(
+      process.cwd(),
+      'tests',
+      'fixtures',
+      'real_world.postman_collection.json'
+    );
+
+    const splitAndBuild = async (
+      collectionFile: string,
+      splitOptions: ISplitOptions
+    ) => {
+      const collection = await Bun.file(collectionFile).json();
+      const splitResult = await new SplitCommand().execute(collectionFile, {
+        output: testDir,
+        overwrite: true,
+        ...splitOptions
+      });
+      expect(splitResult.errors).toEqual([]);
+
+      const outputFile = join(testDir, 'rebuilt-lossless.json');
+      const buildResult = await new BuildCommand().execute(
+        splitResult.output_directory,
+        { output: outputFile }
+      );
+      expect(buildResult.errors).toEqual([]);
+      expect(buildResult.warnings).toEqual([]);
+
+      return { collection, rebuilt: await Bun.file(outputFile).json() };
+    };
+
+    test('should rebuild a real-world export deep-equal with default options', async () => {
+      const { collection, rebuilt } = await splitAndBuild(realWorldFile, {});
+
+      expect(rebuilt).toEqual(collection);
+    });
+
+    test('should rebuild a real-world export deep-equal with split examples', async () => {
+      const { collection, rebuilt } = await splitAndBuild(realWorldFile, {
+        split_examples: true
+      });
+
+      expect(rebuilt).toEqual(collection);
+    });
+
+    test('should rebuild a real-world export deep-equal with inline content', async () => {
+      const { collection, rebuilt } = await splitAndBuild(realWorldFile, {
+        inline_scripts: true,
+        inline_bodies: true
+      });
+
+      expect(rebuilt).toEqual(collection);
+    });
+
+    test('should rebuild the basic test collection deep-equal', async () => {
+      const { collection, rebuilt } = await splitAndBuild(inputFile, {});
+
+      expect(rebuilt).toEqual(collection);
+    });
+
+    test('should carry ids and unknown fields on every level', async () => {
+      const collectionWithExtras = {
+        info: {
+          _postman_id: 'collection-id',
+          name: 'Extras Collection',
+          schema:
+            'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+          futureInfoField: { nested: [1, 2, 3] }
+        },
+        futureCollectionField: 'kept',
+        item: [
+          {
+            id: 'folder-id',
+            name: 'Folder',
+            futureFolderField: true,
+            item: [
+              {
+                id: 'request-id',
+                name: 'Request',
+                futureRequestItemField: { a: 1 },
+                request: {
+                  method: 'GET',
+                  url: 'https://api.example.com',
+                  futureRequestField: 'kept'
+                },
+                response: [
+                  {
+                    id: 'response-id',
+                    name: 'Example',
+                    code: 200,
+                    body: 'ok',
+                    futureResponseField: ['kept']
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      };
+
+      const collectionFile = join(testDir, 'extras.json');
+      await Bun.write(collectionFile, JSON.stringify(collectionWithExtras));
+
+      for (const split_examples of [false, true]) {
+        const { collection, rebuilt } = await splitAndBuild(collectionFile, {
+          split_examples
+        });
+        expect(rebuilt).toEqual(collection);
+      }
+    });
+  });
+
+  test('should produce byte-identical files regardless of output location', async () => {
+    const realWorldFile = join(
+      process.cwd(),
+      'tests',
+      'fixtures',
+      'real_world.postman_collection.json'
+    );
+    const firstOutput = join(testDir, 'first', 'nested');
+    const secondOutput = join(testDir, 'second');
+
+    const firstSplit = await new SplitCommand().execute(realWorldFile, {
+      output: firstOutput
+    });
+    const secondSplit = await new SplitCommand().execute(realWorldFile, {
+      output: secondOutput
+    });
+    expect(firstSplit.success).toBe(true);
+    expect(secondSplit.success).toBe(true);
+
+    const firstFiles = (
+      await readdir(firstSplit.output_directory, { recursive: true })
+    ).sort();
+    const secondFiles = (
+      await readdir(secondSplit.output_directory, { recursive: true })
+    ).sort();
+    expect(firstFiles).toEqual(secondFiles);
+
+    for (const file of firstFiles) {
+      const firstPath = join(firstSplit.output_directory, file);
+      if (!(await Bun.file(firstPath).exists())) {
+        continue; // Directory
+      }
+      expect(await Bun.file(firstPath).text()).toBe(
+        await Bun.file(join(secondSplit.output_directory, file)).text()
+      );
+    }
+
+    const rootIndex = await Bun.file(
+      join(firstSplit.output_directory, 'index.json')
+    ).json();
+    expect(rootIndex.meta.generated_at).toBeUndefined();
+
+    const folderIndex = await Bun.file(
+      join(firstSplit.output_directory, 'Products', 'Catalog', 'index.json')
+    ).json();
+    expect(folderIndex.meta.parent_path).toBe('Products');
+
+    const requestFile = await Bun.file(
+      join(firstSplit.output_directory, 'Health.json')
+    ).json();
+    expect(requestFile.meta.folder_path).toBe('.');
+  });
+
+  test('should write the same bytes for an export with reordered keys', async () => {
+    const realWorldFile = join(
+      process.cwd(),
+      'tests',
+      'fixtures',
+      'real_world.postman_collection.json'
+    );
+    // Reverse the keys of every object, as a re-export may reorder them
+    const reverseKeys = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(reverseKeys);
+      }
+      if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value)
+            .reverse()
+            .map(([key, nested]) => [key, reverseKeys(nested)])
+        );
+      }
+      return value;
+    };
+    const reorderedFile = join(testDir, 'reordered.json');
+    await Bun.write(
+      reorderedFile,
+      JSON.stringify(reverseKeys(await Bun.file(realWorldFile).json()))
+    );
+
+    const original = await new SplitCommand().execute(realWorldFile, {
+      output: join(testDir, 'original'),
+      split_examples: true
+    });
+    const reordered = await new SplitCommand().execute(reorderedFile, {
+      output: join(testDir, 'reordered'),
+      split_examples: true
+    });
+    expect(original.success).toBe(true);
+    expect(reordered.success).toBe(true);
+
+    const files = (
+      await readdir(original.output_directory, { recursive: true })
+    ).sort();
+    expect(
+      (await readdir(reordered.output_directory, { recursive: true })).sort()
+    ).toEqual(files);
+    for (const file of files) {
+      const originalPath = join(original.output_directory, file);
+      if (!(await Bun.file(originalPath).exists())) {
+        continue; // Directory
+      }
+      expect(await Bun.file(originalPath).text()).toBe(
+        await Bun.file(join(reordered.output_directory, file)).text()
+      );
+    }
+
+    const originalBuild = join(testDir, 'original.json');
+    const reorderedBuild = join(testDir, 'reordered-build.json');
+    await new BuildCommand().execute(original.output_directory, {
+      output: originalBuild
+    });
+    await new BuildCommand().execute(reordered.output_directory, {
+      output: reorderedBuild
+    });
+    const built = await Bun.file(originalBuild).text();
+    expect(built).toBe(await Bun.file(reorderedBuild).text());
+    expect(built).toStartWith('{\n  "info": {\n    "_postman_id"');
+    expect(built).toEndWith('}\n');
+  });
+
+  test('should stamp generated_at only when requested', async () => {
+    const splitResult = await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      timestamp: true
+    });
+    expect(splitResult.success).toBe(true);
+
+    const rootIndex = await Bun.file(
+      join(splitResult.output_directory, 'index.json')
+    ).json();
+    expect(typeof rootIndex.meta.generated_at).toBe('string');
+  });
 });
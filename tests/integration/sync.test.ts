@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, readdirSync, rmSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { SplitCommand } from '../../src/commands/split_command';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('Split Sync Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-sync');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+  const editedFile = join(testDir, 'edited.json');
+  const treeDir = join(testDir, 'acme_store_api');
+
+  beforeEach(async () => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+
+    // A later export: Catalog removed, Health renamed, Login changed
+    const collection: IPostmanCollection = await Bun.file(inputFile).json();
+    for (const item of collection.item) {
+      if (item.name === 'Products') {
+        item.item = item.item?.filter((child) => child.name !== 'Catalog');
+      } else if (item.name === 'Health') {
+        item.name = 'Status';
+      } else if (item.name === 'Auth' && item.item?.[0]?.request) {
+        item.item[0].request.method = 'PUT';
+      }
+    }
+    await Bun.write(editedFile, JSON.stringify(collection));
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should write changed files and delete stale ones', async () => {
+    await new SplitCommand().execute(inputFile, { output: testDir });
+    await Bun.write(join(treeDir, '.gitignore'), '.secrets.json\n');
+    await Bun.write(join(treeDir, 'Products', 'Catalog', 'NOTES.md'), 'notes');
+    await Bun.write(join(treeDir, 'Products', 'Catalog', 'helpers.js'), '');
+    await Bun.write(join(treeDir, 'package.json'), '{"private": true}');
+    const unchanged = join(treeDir, 'Products', 'Upload image.json');
+    const modifiedAt = statSync(unchanged).mtimeMs;
+    await Bun.sleep(20);
+
+    const result = await new SplitCommand().execute(editedFile, {
+      output: testDir,
+      sync: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual({
+      added: ['Status.json'],
+      modified: ['Auth/Login.json', 'Products/index.json', 'index.json'],
+      deleted: [
+        'Health.json',
+        'Products/Catalog/Get product.json',
+        'Products/Catalog/List products.json',
+        'Products/Catalog/index.json'
+      ]
+    });
+    expect(result.files_created).toBe(4);
+    expect(readdirSync(join(treeDir, 'Products', 'Catalog')).sort()).toEqual([
+      'NOTES.md',
+      'helpers.js'
+    ]);
+    expect(await Bun.file(join(treeDir, '.gitignore')).exists()).toBe(true);
+    expect(await Bun.file(join(treeDir, 'package.json')).exists()).toBe(true);
+    expect(statSync(unchanged).mtimeMs).toBe(modifiedAt);
+
+    const output = join(testDir, 'built.json');
+    await new BuildCommand().execute(treeDir, { output });
+    expect(await Bun.file(output).json()).toEqual(
+      await Bun.file(editedFile).json()
+    );
+
+    const again = await new SplitCommand().execute(editedFile, {
+      output: testDir,
+      sync: true
+    });
+    expect(again.changes).toEqual({ added: [], modified: [], deleted: [] });
+  });
+
+  test('should only report the changes in a dry run', async () => {
+    await new SplitCommand().execute(inputFile, { output: testDir });
+
+    const result = await new SplitCommand().execute(editedFile, {
+      output: testDir,
+      sync: true,
+      dry_run: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.changes?.deleted).toContain('Health.json');
+    expect(await Bun.file(join(treeDir, 'Health.json')).exists()).toBe(true);
+    expect(await Bun.file(join(treeDir, 'Status.json')).exists()).toBe(false);
+  });
+
+  test('should create the tree when it does not exist yet', async () => {
+    const result = await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      sync: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.changes?.added).toContain('Products/Catalog/');
+    expect(result.changes?.deleted).toEqual([]);
+    expect(await Bun.file(join(treeDir, 'index.json')).exists()).toBe(true);
+  });
+
+  test('should refuse to sync into a directory split did not write', async () => {
+    mkdirSync(treeDir);
+    await Bun.write(join(treeDir, 'notes.txt'), 'keep me');
+
+    const result = await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      sync: true
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toStartWith(
+      'Cannot sync into a directory that is not a split collection'
+    );
+    expect(await Bun.file(join(treeDir, 'notes.txt')).exists()).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BuildCommand } from '../../src/commands/build_command';
+import { ImportCommand } from '../../src/commands/import_command';
+import { SplitCommand } from '../../src/commands/split_command';
+
+describe('YAML Tree Integration Tests', () => {
+  const testDir = join(process.cwd(), 'test-yaml');
+  const inputFile = join(
+    process.cwd(),
+    'tests',
+    'fixtures',
+    'real_world.postman_collection.json'
+  );
+  const treeDir = join(testDir, 'acme_store_api');
+
+  beforeEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should split to YAML and build the same collection', async () => {
+    const result = await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      format: 'yaml'
+    });
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(join(treeDir, 'Products')).sort()).toEqual([
+      'Catalog',
+      'Export catalog.yaml',
+      'Search (GraphQL).yaml',
+      'Upload image.yaml',
+      'index.yaml'
+    ]);
+
+    const index = await Bun.file(join(treeDir, 'index.yaml')).text();
+    expect(index).toStartWith('meta:\n  type: collection\n');
+    expect(index).toContain('  description: |-\n    Public API');
+    expect(index).toContain('  - Health.yaml\n');
+
+    const output = join(testDir, 'built.json');
+    const build = await new BuildCommand().execute(treeDir, { output });
+    expect(build.success).toBe(true);
+    expect(await Bun.file(output).json()).toEqual(
+      await Bun.file(inputFile).json()
+    );
+  });
+
+  test('should build a tree mixing JSON and YAML files', async () => {
+    await new SplitCommand().execute(inputFile, { output: testDir });
+    const products = join(testDir, 'products');
+    await new SplitCommand().execute(inputFile, {
+      output: products,
+      format: 'yaml'
+    });
+
+    // Replace the JSON Products folder with its YAML version
+    rmSync(join(treeDir, 'Products'), { recursive: true });
+    mkdirSync(join(treeDir, 'Products'));
+    for (const entry of readdirSync(join(products, 'acme_store_api'), {
+      recursive: true
+    })) {
+      const name = String(entry);
+      if (!name.startsWith('Products/')) {
+        continue;
+      }
+      const source = Bun.file(join(products, 'acme_store_api', name));
+      if (await source.exists()) {
+        await Bun.write(join(treeDir, name), source);
+      }
+    }
+
+    const output = join(testDir, 'built.json');
+    const build = await new BuildCommand().execute(treeDir, { output });
+    expect(build.success).toBe(true);
+    expect(await Bun.file(output).json()).toEqual(
+      await Bun.file(inputFile).json()
+    );
+  });
+
+  test('should import into a YAML tree in YAML', async () => {
+    await new SplitCommand().execute(inputFile, {
+      output: testDir,
+      format: 'yaml'
+    });
+
+    const result = await new ImportCommand().execute(
+      'curl https://api.acme.test/status',
+      { format: 'curl', into: join(treeDir, 'Products') }
+    );
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(join(treeDir, 'Products'))).toContain('GET status.yaml');
+    expect(
+      await Bun.file(join(treeDir, 'Products', 'index.yaml')).text()
+    ).toContain('  - GET status.yaml\n');
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { BodyExtractor } from '../../src/parser/body_extractor';
+import type { IPostmanBody } from '../../src/types/postman';
+
+describe('BodyExtractor', () => {
+  let extractor: BodyExtractor;
+  const testDir = join(process.cwd(), 'test-body-extractor');
+
+  beforeEach(() => {
+    extractor = new BodyExtractor();
+
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('extractBody', () => {
+    test('should pick the file extension from the raw language', () => {
+      const languages: Record<string, string> = {
+        json: 'Login.body.json',
+        xml: 'Login.body.xml',
+        text: 'Login.body.txt',
+        html: 'Login.body.html'
+      };
+
+      for (const [language, file_name] of Object.entries(languages)) {
+        const result = extractor.extractBody(
+          { mode: 'raw', raw: '<x/>', options: { raw: { language } } },
+          'Login'
+        );
+        expect(result.files[0]?.file_name).toBe(file_name);
+        expect(result.body?.raw_file).toBe(file_name);
+        expect(result.body?.raw).toBeUndefined();
+      }
+    });
+
+    test('should default to .txt without a language', () => {
+      const result = extractor.extractBody(
+        { mode: 'raw', raw: 'plain' },
+        'Ping'
+      );
+
+      expect(result.files).toEqual([
+        { file_name: 'Ping.body.txt', content: 'plain' }
+      ]);
+    });
+
+    test('should extract GraphQL query and variables', () => {
+      const result = extractor.extractBody(
+        {
+          mode: 'graphql',
+          graphql: { query: '{ me { id } }', variables: '{"a": 1}' }
+        },
+        'Me'
+      );
+
+      expect(result.files.map((file) => file.file_name)).toEqual([
+        'Me.graphql',
+        'Me.variables.json'
+      ]);
+      expect(result.body?.graphql).toEqual({
+        query_file: 'Me.graphql',
+        variables_file: 'Me.variables.json'
+      });
+    });
+
+    test('should leave bodies without raw content untouched', () => {
+      const body: IPostmanBody = {
+        mode: 'urlencoded',
+        urlencoded: [{ key: 'a', value: 'b' }]
+      };
+
+      const result = extractor.extractBody(body, 'Form');
+
+      expect(result.files).toHaveLength(0);
+      expect(result.body).toBe(body);
+    });
+  });
+
+  describe('inlineBody', () => {
+    test('should restore raw bodies byte-for-byte', async () => {
+      const body: IPostmanBody = {
+        mode: 'raw',
+        raw: '{\r\n  "name": "José",\n\t"tags": []\n}\n\n',
+        options: { raw: { language: 'json' } }
+      };
+
+      const extracted = extractor.extractBody(body, 'Create User');
+      for (const file of extracted.files) {
+        await Bun.write(join(testDir, file.file_name), file.content);
+      }
+
+      const inlined = await extractor.inlineBody(extracted.body, testDir);
+
+      expect(inlined).toEqual(body);
+    });
+
+    test('should restore GraphQL bodies', async () => {
+      const body: IPostmanBody = {
+        mode: 'graphql',
+        graphql: { query: 'query { a }', variables: '' }
+      };
+
+      const extracted = extractor.extractBody(body, 'Query');
+      for (const file of extracted.files) {
+        await Bun.write(join(testDir, file.file_name), file.content);
+      }
+
+      const inlined = await extractor.inlineBody(extracted.body, testDir);
+
+      expect(inlined).toEqual(body);
+    });
+
+    test('should throw when the referenced file is missing', async () => {
+      await expect(
+        extractor.inlineBody({ mode: 'raw', raw_file: 'gone.txt' }, testDir)
+      ).rejects.toThrow('Body file not found');
+    });
+  });
+});
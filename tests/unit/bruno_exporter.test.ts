@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { BrunoExporter } from '../../src/export/bruno_exporter';
+import type {
+  IExtractedFile,
+  IPostmanCollection
+} from '../../src/types/postman';
+
+describe('BrunoExporter', () => {
+  let exporter: BrunoExporter;
+  let warnings: string[];
+
+  const collection: IPostmanCollection = {
+    info: {
+      name: 'Orders API',
+      schema:
+        'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+    },
+    auth: {
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: 'X-API-Key' },
+        { key: 'value', value: '{{apiKey}}' },
+        { key: 'in', value: 'header' }
+      ]
+    },
+    variable: [
+      { key: 'baseUrl', value: 'https://api.example.com' },
+      { key: 'apiKey', value: 'secret' }
+    ],
+    item: [
+      {
+        name: 'Orders',
+        auth: { type: 'noauth' },
+        variable: [{ key: 'page', value: '1' }],
+        item: [
+          {
+            name: 'List orders',
+            request: {
+              method: 'GET',
+              header: [
+                { key: 'Accept', value: 'application/json' },
+                { key: 'X-Debug', value: '1', disabled: true }
+              ],
+              url: {
+                raw: '{{baseUrl}}/orders?page={{page}}&debug=1',
+                host: ['{{baseUrl}}'],
+                path: ['orders'],
+                query: [
+                  { key: 'page', value: '{{page}}' },
+                  { key: 'debug', value: '1', disabled: true }
+                ]
+              }
+            }
+          },
+          {
+            name: 'Create order',
+            request: {
+              method: 'POST',
+              auth: {
+                type: 'basic',
+                basic: [
+                  { key: 'username', value: 'admin' },
+                  { key: 'password', value: 'hunter2' }
+                ]
+              },
+              body: {
+                mode: 'urlencoded',
+                urlencoded: [{ key: 'sku', value: 'A-1' }]
+              },
+              url: '{{baseUrl}}/orders'
+            }
+          }
+        ]
+      },
+      {
+        name: 'Purge',
+        request: { method: 'PURGE', url: '{{baseUrl}}/cache' }
+      }
+    ]
+  };
+
+  const findFile = (files: IExtractedFile[], name: string) =>
+    files.find((file) => file.file_name === name)?.content;
+
+  beforeEach(() => {
+    exporter = new BrunoExporter();
+    warnings = [];
+  });
+
+  test('should write the collection config, auth and environment', () => {
+    const files = exporter.convert(collection, warnings);
+
+    expect(JSON.parse(findFile(files, 'bruno.json') ?? '{}').name).toBe(
+      'Orders API'
+    );
+    expect(findFile(files, 'collection.bru')).toBe(
+      'auth {\n  mode: apikey\n}\n\nauth:apikey {\n  key: X-API-Key\n  value: {{apiKey}}\n  placement: header\n}\n'
+    );
+    expect(findFile(files, 'environments/Orders API.bru')).toBe(
+      'vars {\n  baseUrl: https://api.example.com\n  apiKey: secret\n}\n'
+    );
+  });
+
+  test('should number folders and requests in collection order', () => {
+    const files = exporter.convert(collection, warnings);
+
+    expect(findFile(files, 'Orders/folder.bru')).toBe(
+      'meta {\n  name: Orders\n  seq: 1\n}\n\nauth {\n  mode: none\n}\n\nvars:pre-request {\n  page: 1\n}\n'
+    );
+    expect(findFile(files, 'Orders/List orders.bru')).toBe(
+      'meta {\n  name: List orders\n  type: http\n  seq: 1\n}\n\nget {\n  url: {{baseUrl}}/orders?page={{page}}&debug=1\n  body: none\n  auth: inherit\n}\n\nparams:query {\n  page: {{page}}\n  ~debug: 1\n}\n\nheaders {\n  Accept: application/json\n  ~X-Debug: 1\n}\n'
+    );
+  });
+
+  test('should write request auth and bodies', () => {
+    const files = exporter.convert(collection, warnings);
+    const content = findFile(files, 'Orders/Create order.bru');
+
+    expect(content).toContain('seq: 2');
+    expect(content).toContain('body: formUrlEncoded\n  auth: basic');
+    expect(content).toContain(
+      'auth:basic {\n  username: admin\n  password: hunter2\n}'
+    );
+    expect(content).toContain('body:form-urlencoded {\n  sku: A-1\n}');
+  });
+
+  test('should skip requests with methods Bruno does not support', () => {
+    const files = exporter.convert(collection, warnings);
+
+    expect(findFile(files, 'Purge.bru')).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('PURGE');
+  });
+});
@@ -1,6 +1,18 @@
 import { beforeEach, describe, expect, test } from 'bun:test';
 import { CliParser } from '../../src/cli/cli_parser';
-import type { IBuildOptions, ISplitOptions } from '../../src/types/postman';
+import type { LoadedConfig } from '../../src/config/config_loader';
+import type {
+  IBuildOptions,
+  ICurlOptions,
+  IDiffOptions,
+  IExportOptions,
+  IGitInstallOptions,
+  IImportOptions,
+  ILintOptions,
+  IMergeDriverOptions,
+  IMergeOptions,
+  ISplitOptions
+} from '../../src/types/postman';
 
 describe('CliParser', () => {
   let parser: CliParser;
@@ -21,6 +33,9 @@ describe('CliParser', () => {
       expect(options.overwrite).toBe(false);
       expect(options.dry_run).toBe(false);
       expect(options.verbose).toBe(false);
+      expect(options.timestamp).toBe(false);
+      expect(options.format).toBe('json');
+      expect(options.sync).toBe(false);
     });
 
     test('should parse build command with basic arguments', () => {
@@ -43,7 +58,13 @@ describe('CliParser', () => {
         'output-dir',
         '--overwrite',
         '--dry-run',
-        '--verbose'
+        '--verbose',
+        '--timestamp',
+        '--secrets',
+        'redact',
+        '--format',
+        'yaml',
+        '--sync'
       ]);
       const result = parser.parse();
 
@@ -54,6 +75,30 @@ describe('CliParser', () => {
       expect(options.overwrite).toBe(true);
       expect(options.dry_run).toBe(true);
       expect(options.verbose).toBe(true);
+      expect(options.timestamp).toBe(true);
+      expect(options.secrets).toBe('redact');
+      expect(options.format).toBe('yaml');
+      expect(options.sync).toBe(true);
+
+      const unknownFormat = new CliParser([
+        'node',
+        'carveman',
+        'split',
+        'input.json',
+        '--format',
+        'toml'
+      ]).parse();
+      expect(unknownFormat).toBeNull();
+
+      const unknownMode = new CliParser([
+        'node',
+        'carveman',
+        'split',
+        'input.json',
+        '--secrets',
+        'ignore'
+      ]).parse();
+      expect(unknownMode).toBeNull();
     });
 
     test('should parse build command with all flags', () => {
@@ -65,6 +110,10 @@ describe('CliParser', () => {
         '-o',
         'output.json',
         '--validate',
+        '--inject-secrets',
+        '--orphans',
+        'append',
+        '--fix',
         '--verbose'
       ]);
       const result = parser.parse();
@@ -74,7 +123,20 @@ describe('CliParser', () => {
       const options = result?.options as IBuildOptions;
       expect(options.output).toBe('output.json');
       expect(options.validate).toBe(true);
+      expect(options.inject_secrets).toBe(true);
+      expect(options.orphans).toBe('append');
+      expect(options.fix).toBe(true);
       expect(options.verbose).toBe(true);
+
+      const unknownMode = new CliParser([
+        'node',
+        'carveman',
+        'build',
+        'input-dir',
+        '--orphans',
+        'ignore'
+      ]).parse();
+      expect(unknownMode).toBeNull();
     });
 
     test('should handle short flag aliases', () => {
@@ -94,6 +156,343 @@ describe('CliParser', () => {
       expect(options.verbose).toBe(true);
     });
 
+    test('should parse split-env and build-env commands', () => {
+      const splitEnv = new CliParser([
+        'node',
+        'carveman',
+        'split-env',
+        'dev.postman_environment.json',
+        '--output',
+        'envs',
+        '--overwrite'
+      ]).parse();
+
+      expect(splitEnv?.command).toBe('split-env');
+      expect(splitEnv?.input_path).toBe('dev.postman_environment.json');
+      expect((splitEnv?.options as ISplitOptions).output).toBe('envs');
+      expect((splitEnv?.options as ISplitOptions).overwrite).toBe(true);
+
+      const buildEnv = new CliParser([
+        'node',
+        'carveman',
+        'build-env',
+        'envs/development',
+        '--validate'
+      ]).parse();
+
+      expect(buildEnv?.command).toBe('build-env');
+      expect((buildEnv?.options as IBuildOptions).validate).toBe(true);
+    });
+
+    test('should parse diff command with two paths and flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'diff',
+        'old.json',
+        './my-collection',
+        '--format',
+        'markdown',
+        '--output',
+        'diff.md',
+        '--exit-code'
+      ]).parse();
+
+      expect(result?.command).toBe('diff');
+      expect(result?.input_path).toBe('old.json');
+      expect(result?.target_path).toBe('./my-collection');
+      const options = result?.options as IDiffOptions;
+      expect(options.format).toBe('markdown');
+      expect(options.output).toBe('diff.md');
+      expect(options.exit_code).toBe(true);
+    });
+
+    test('should reject diff with one path or an unknown format', () => {
+      const missingTarget = new CliParser([
+        'node',
+        'carveman',
+        'diff',
+        'old.json'
+      ]).parse();
+      expect(missingTarget).toBeNull();
+
+      const unknownFormat = new CliParser([
+        'node',
+        'carveman',
+        'diff',
+        'old.json',
+        'new.json',
+        '--format',
+        'html'
+      ]).parse();
+      expect(unknownFormat).toBeNull();
+    });
+
+    test('should parse merge command flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'merge',
+        '--base',
+        'base.json',
+        '--ours',
+        './api',
+        '--theirs',
+        'export.json',
+        '--favor',
+        'theirs',
+        '--report',
+        'conflicts.json'
+      ]).parse();
+
+      expect(result?.command).toBe('merge');
+      expect(result?.input_path).toBe('./api');
+      const options = result?.options as IMergeOptions;
+      expect(options.base).toBe('base.json');
+      expect(options.theirs).toBe('export.json');
+      expect(options.favor).toBe('theirs');
+      expect(options.report).toBe('conflicts.json');
+    });
+
+    test('should reject merge without all three versions', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'merge',
+        '--base',
+        'base.json',
+        '--ours',
+        './api'
+      ]).parse();
+
+      expect(result).toBeNull();
+    });
+
+    test('should parse merge-driver arguments in git order', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'merge-driver',
+        '.merge_file_base',
+        '.merge_file_ours',
+        '.merge_file_theirs',
+        'api/Users/index.json'
+      ]).parse();
+
+      expect(result?.command).toBe('merge-driver');
+      expect(result?.input_path).toBe('.merge_file_ours');
+      const options = result?.options as IMergeDriverOptions;
+      expect(options.base).toBe('.merge_file_base');
+      expect(options.theirs).toBe('.merge_file_theirs');
+      expect(options.file_path).toBe('api/Users/index.json');
+    });
+
+    test('should parse git install with defaults and flags', () => {
+      const defaults = new CliParser([
+        'node',
+        'carveman',
+        'git',
+        'install'
+      ]).parse();
+      expect(defaults?.command).toBe('git-install');
+      expect(defaults?.input_path).toBe('.');
+
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'git',
+        'install',
+        './repo',
+        '--command',
+        'bunx carveman'
+      ]).parse();
+      expect(result?.input_path).toBe('./repo');
+      expect((result?.options as IGitInstallOptions).command).toBe(
+        'bunx carveman'
+      );
+
+      const unknown = new CliParser([
+        'node',
+        'carveman',
+        'git',
+        'uninstall'
+      ]).parse();
+      expect(unknown).toBeNull();
+    });
+
+    test('should parse lint command flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'lint',
+        './api',
+        '--format',
+        'sarif',
+        '--config',
+        'lint.json',
+        '-o',
+        'lint.sarif'
+      ]).parse();
+
+      expect(result?.command).toBe('lint');
+      expect(result?.input_path).toBe('./api');
+      const options = result?.options as ILintOptions;
+      expect(options.format).toBe('sarif');
+      expect(options.config).toBe('lint.json');
+      expect(options.output).toBe('lint.sarif');
+
+      const unknownFormat = new CliParser([
+        'node',
+        'carveman',
+        'lint',
+        './api',
+        '--format',
+        'markdown'
+      ]).parse();
+      expect(unknownFormat).toBeNull();
+    });
+
+    test('should parse import command flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'import',
+        'OpenAPI',
+        'spec.yaml',
+        '-o',
+        './out',
+        '--overwrite'
+      ]).parse();
+
+      expect(result?.command).toBe('import');
+      expect(result?.input_path).toBe('spec.yaml');
+      const options = result?.options as IImportOptions;
+      expect(options.format).toBe('openapi');
+      expect(options.output).toBe('./out');
+      expect(options.overwrite).toBe(true);
+
+      const unknownFormat = new CliParser([
+        'node',
+        'carveman',
+        'import',
+        'wsdl',
+        'service.wsdl'
+      ]).parse();
+      expect(unknownFormat).toBeNull();
+
+      const missingFile = new CliParser([
+        'node',
+        'carveman',
+        'import',
+        'openapi'
+      ]).parse();
+      expect(missingFile).toBeNull();
+    });
+
+    test('should parse import --into and --folder flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'import',
+        'har',
+        'capture.har',
+        '--into',
+        './my-api',
+        '--folder',
+        'captured'
+      ]).parse();
+
+      const options = result?.options as IImportOptions;
+      expect(options.format).toBe('har');
+      expect(options.into).toBe('./my-api');
+      expect(options.folder).toBe('captured');
+
+      const missingValue = new CliParser([
+        'node',
+        'carveman',
+        'import',
+        'har',
+        'capture.har',
+        '--into'
+      ]).parse();
+      expect(missingValue).toBeNull();
+    });
+
+    test('should parse curl command flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'curl',
+        './api/Users/Get user.json',
+        '--keep-variables'
+      ]).parse();
+
+      expect(result?.command).toBe('curl');
+      expect(result?.input_path).toBe('./api/Users/Get user.json');
+      expect((result?.options as ICurlOptions).keep_variables).toBe(true);
+
+      const unknownFlag = new CliParser([
+        'node',
+        'carveman',
+        'curl',
+        'request.json',
+        '--env'
+      ]).parse();
+      expect(unknownFlag).toBeNull();
+    });
+
+    test('should parse export command flags', () => {
+      const result = new CliParser([
+        'node',
+        'carveman',
+        'export',
+        'openapi',
+        './api',
+        '--output',
+        'openapi.yaml'
+      ]).parse();
+
+      expect(result?.command).toBe('export');
+      expect(result?.input_path).toBe('./api');
+      const options = result?.options as IExportOptions;
+      expect(options.format).toBe('openapi');
+      expect(options.output).toBe('openapi.yaml');
+
+      const unknownFormat = new CliParser([
+        'node',
+        'carveman',
+        'export',
+        'raml',
+        './api'
+      ]).parse();
+      expect(unknownFormat).toBeNull();
+
+      const bruno = new CliParser([
+        'node',
+        'carveman',
+        'export',
+        'bruno',
+        './api',
+        '-o',
+        './api-bruno'
+      ]).parse();
+      expect((bruno?.options as IExportOptions).format).toBe('bruno');
+      expect((bruno?.options as IExportOptions).output).toBe('./api-bruno');
+
+      const http = new CliParser([
+        'node',
+        'carveman',
+        'export',
+        'http',
+        './api',
+        '--output',
+        './http',
+        '--env-file'
+      ]).parse();
+      expect((http?.options as IExportOptions).format).toBe('http');
+      expect((http?.options as IExportOptions).env_file).toBe(true);
+    });
+
     test('should return null for help command', () => {
       const helpVariations = ['help', '--help', '-h'];
 
@@ -178,6 +577,84 @@ describe('CliParser', () => {
     });
   });
 
+  describe('configuration', () => {
+    const config: LoadedConfig = {
+      file_path: '/project/carveman.config.json',
+      directory: '/project',
+      settings: {
+        split: { output: 'api', secrets: 'redact' },
+        extraction: { inline_scripts: true },
+        lint: { format: 'json' },
+        merge: { favor: 'ours', report: 'conflicts.json' }
+      },
+      environment: { split: { timestamp: true } }
+    };
+
+    test('should start from the configured options', () => {
+      const parser = new CliParser(
+        ['node', 'carveman', 'split', 'input.json'],
+        config
+      );
+      const options = parser.parse()?.options as ISplitOptions;
+
+      expect(options.output).toBe('/project/api');
+      expect(options.secrets).toBe('redact');
+      expect(options.inline_scripts).toBe(true);
+      expect(options.timestamp).toBe(true);
+      expect(options.overwrite).toBe(false);
+    });
+
+    test('should let flags override the configured options', () => {
+      const parser = new CliParser(
+        [
+          'node',
+          'carveman',
+          'split',
+          'input.json',
+          '--output',
+          'elsewhere',
+          '--secrets',
+          'warn'
+        ],
+        config
+      );
+      const options = parser.parse()?.options as ISplitOptions;
+
+      expect(options.output).toBe('elsewhere');
+      expect(options.secrets).toBe('warn');
+
+      const lint = new CliParser(
+        ['node', 'carveman', 'lint', './tree', '--format', 'text'],
+        config
+      );
+      expect((lint.parse()?.options as ILintOptions).format).toBe('text');
+    });
+
+    test('should preset the merge options', () => {
+      const parser = new CliParser(
+        [
+          'node',
+          'carveman',
+          'merge',
+          '--base',
+          'base.json',
+          '--ours',
+          './api',
+          '--theirs',
+          'export.json',
+          '--favor',
+          'theirs'
+        ],
+        config
+      );
+      const options = parser.parse()?.options as IMergeOptions;
+
+      expect(options.favor).toBe('theirs');
+      expect(options.report).toBe('/project/conflicts.json');
+      expect(options.verbose).toBe(false);
+    });
+  });
+
   describe('help and version methods', () => {
     test('should show help when called', () => {
       // These methods just print to console, so we test that they don't throw
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { CollectionDiffer } from '../../src/diff/collection_differ';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('CollectionDiffer', () => {
+  let differ: CollectionDiffer;
+
+  const createCollection = (): IPostmanCollection => ({
+    info: {
+      name: 'Shop API',
+      schema:
+        'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+    },
+    item: [
+      {
+        name: 'Users',
+        item: [
+          {
+            id: 'get-user',
+            name: 'Get User',
+            request: {
+              method: 'GET',
+              url: 'https://api.example.com/users/1',
+              header: [{ key: 'Accept', value: 'application/json' }]
+            }
+          },
+          {
+            name: 'Create User',
+            event: [
+              {
+                listen: 'test',
+                script: { exec: ['pm.test("ok", () => {});'] }
+              }
+            ],
+            request: {
+              method: 'POST',
+              url: 'https://api.example.com/users',
+              body: { mode: 'raw', raw: '{"name":"Ada"}' }
+            }
+          }
+        ]
+      },
+      {
+        name: 'Health',
+        request: { method: 'GET', url: 'https://api.example.com/health' }
+      }
+    ]
+  });
+
+  beforeEach(() => {
+    differ = new CollectionDiffer();
+  });
+
+  test('should report no changes for identical collections', () => {
+    const diff = differ.diffCollections(createCollection(), createCollection());
+
+    expect(differ.hasChanges(diff)).toBe(false);
+    expect(diff.summary.unchanged).toBe(3);
+  });
+
+  test('should ignore key order inside requests', () => {
+    const target = createCollection();
+    const health = target.item[1];
+    if (!health) {
+      throw new Error('Expected a health request');
+    }
+    health.request = { url: 'https://api.example.com/health', method: 'GET' };
+
+    const diff = differ.diffCollections(createCollection(), target);
+
+    expect(differ.hasChanges(diff)).toBe(false);
+  });
+
+  test('should report added and removed requests', () => {
+    const target = createCollection();
+    target.item.pop();
+    target.item.push({
+      name: 'Status',
+      request: { method: 'GET', url: 'https://api.example.com/status' }
+    });
+
+    const diff = differ.diffCollections(createCollection(), target);
+
+    expect(diff.requests.map((change) => [change.type, change.path])).toEqual([
+      ['added', 'Status'],
+      ['removed', 'Health']
+    ]);
+  });
+
+  test('should report field-level changes', () => {
+    const target = createCollection();
+    const users = target.item[0]?.item ?? [];
+    const get_user = users[0];
+    const create_user = users[1];
+    if (!(get_user?.request && create_user?.request && create_user.event)) {
+      throw new Error('Expected user requests');
+    }
+    get_user.request.method = 'HEAD';
+    get_user.request.url = 'https://api.example.com/users/2';
+    get_user.request.header = [
+      { key: 'Accept', value: 'application/xml' },
+      { key: 'X-Trace', value: '1' }
+    ];
+    create_user.request.body = { mode: 'raw', raw: '{\n  "name": "Grace"\n}' };
+    create_user.event = [];
+
+    const diff = differ.diffCollections(createCollection(), target);
+    const [get_change, create_change] = diff.requests;
+
+    expect(get_change?.type).toBe('modified');
+    expect(get_change?.field_changes).toEqual([
+      { field: 'method', details: ['GET → HEAD'] },
+      {
+        field: 'url',
+        details: [
+          'https://api.example.com/users/1 → https://api.example.com/users/2'
+        ]
+      },
+      {
+        field: 'headers',
+        details: [
+          '~ Accept: application/json → application/xml',
+          '+ X-Trace: 1'
+        ]
+      }
+    ]);
+    expect(create_change?.field_changes).toEqual([
+      { field: 'body', details: ['raw content changed (1 → 3 lines)'] },
+      { field: 'scripts', details: ['- test (1 line)'] }
+    ]);
+  });
+
+  test('should detect moves by id and renames by content', () => {
+    const target = createCollection();
+    const users = target.item[0]?.item ?? [];
+    const get_user = users.shift();
+    const health = target.item[1];
+    if (!(get_user && health)) {
+      throw new Error('Expected requests to move');
+    }
+    get_user.name = 'Fetch User';
+    target.item.push(get_user);
+    health.name = 'Health Check';
+
+    const diff = differ.diffCollections(createCollection(), target);
+
+    expect(diff.requests).toHaveLength(2);
+    expect(diff.requests[0]).toMatchObject({
+      type: 'renamed',
+      path: 'Health Check',
+      previous_path: 'Health'
+    });
+    expect(diff.requests[1]).toMatchObject({
+      type: 'moved',
+      path: 'Fetch User',
+      previous_path: 'Users/Get User',
+      previous_name: 'Get User'
+    });
+    expect(diff.summary).toMatchObject({ moved: 1, renamed: 1, unchanged: 1 });
+  });
+
+  test('should report collection-level changes', () => {
+    const target = createCollection();
+    target.info.name = 'Shop API v2';
+    target.variable = [{ key: 'baseUrl', value: 'https://api.example.com' }];
+
+    const diff = differ.diffCollections(createCollection(), target);
+
+    expect(diff.collection_changes).toEqual([
+      { field: 'name', details: ['Shop API → Shop API v2'] },
+      { field: 'variables', details: ['+ baseUrl: https://api.example.com'] }
+    ]);
+  });
+});
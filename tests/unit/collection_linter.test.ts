@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { SplitCommand } from '../../src/commands/split_command';
+import { CollectionLinter } from '../../src/lint/collection_linter';
+
+describe('CollectionLinter', () => {
+  let linter: CollectionLinter;
+  let treeDir: string;
+  const testDir = join(process.cwd(), 'test-collection-linter');
+
+  const writeCollection = async (collection: unknown) => {
+    const collectionFile = join(testDir, 'collection.json');
+    await Bun.write(collectionFile, JSON.stringify(collection, null, 2));
+    const result = await new SplitCommand().execute(collectionFile, {
+      output: testDir
+    });
+    return result.output_directory;
+  };
+
+  beforeEach(async () => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+    linter = new CollectionLinter();
+
+    treeDir = await writeCollection({
+      info: {
+        name: 'Lint API',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+      item: [
+        {
+          name: 'Public',
+          auth: { type: 'noauth' },
+          item: [
+            {
+              name: 'Status',
+              event: [{ listen: 'test', script: { exec: ['pm.test("ok");'] } }],
+              request: {
+                method: 'GET',
+                url: 'https://api.example.com/status',
+                description: 'Service status'
+              }
+            }
+          ]
+        },
+        {
+          name: 'Users',
+          request: {
+            method: 'GET',
+            header: [
+              { key: 'Accept', value: 'application/json' },
+              { key: 'X-Debug', value: '1', disabled: true }
+            ],
+            url: '{{baseUrl}}/users'
+          }
+        },
+        {
+          name: 'Users',
+          request: {
+            method: 'GET',
+            auth: { type: 'noauth' },
+            url: '{{baseUrl}}/users?page=2'
+          }
+        }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('should report each rule with file, line and item path', async () => {
+    const report = await linter.lintDirectory(treeDir);
+    const found = report.findings.map(
+      (finding) => `${finding.item_path} ${finding.rule} ${finding.severity}`
+    );
+
+    expect(found).toEqual([
+      'Users missing-description info',
+      'Users missing-tests warning',
+      'Users disabled-header warning',
+      'Users (1) missing-description info',
+      'Users (1) missing-tests warning',
+      'Users (1) duplicate-name warning',
+      'Users (1) noauth-override warning',
+      'Public noauth-override warning',
+      'Public/Status hardcoded-host warning'
+    ]);
+    expect(report.summary).toEqual({ errors: 0, warnings: 7, infos: 2 });
+
+    const disabled = report.findings.find(
+      (finding) => finding.rule === 'disabled-header'
+    );
+    expect(disabled?.file).toBe('test-collection-linter/lint_api/Users.json');
+    const lines = (await Bun.file(join(treeDir, 'Users.json')).text()).split(
+      '\n'
+    );
+    expect(lines[(disabled?.line ?? 0) - 1]).toContain('"key": "X-Debug"');
+  });
+
+  test('should apply configured severities and disable rules', async () => {
+    const report = await linter.lintDirectory(treeDir, {
+      rules: {
+        'missing-description': 'off',
+        'missing-tests': 'off',
+        'noauth-override': 'off',
+        'hardcoded-host': 'error'
+      }
+    });
+
+    expect(
+      report.findings.map((finding) => `${finding.rule} ${finding.severity}`)
+    ).toEqual([
+      'disabled-header warning',
+      'duplicate-name warning',
+      'hardcoded-host error'
+    ]);
+    expect(report.summary.errors).toBe(1);
+  });
+
+  test('should reject unknown rules and settings in a config', () => {
+    expect(
+      linter.validateConfig({ rules: { 'missing-tests': 'off' } })
+    ).toEqual([]);
+    expect(
+      linter.validateConfig({ rules: { 'no-such-rule': 'error' } })[0]
+    ).toContain('Unknown lint rule "no-such-rule"');
+    expect(
+      linter.validateConfig({ rules: { 'missing-tests': 'fatal' } })[0]
+    ).toContain('Invalid setting for lint rule "missing-tests"');
+  });
+});
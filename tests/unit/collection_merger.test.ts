@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { CollectionMerger } from '../../src/merge/collection_merger';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('CollectionMerger', () => {
+  let merger: CollectionMerger;
+
+  const createCollection = (): IPostmanCollection => ({
+    info: {
+      name: 'Shop API',
+      schema:
+        'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+    },
+    item: [
+      {
+        id: 'users',
+        name: 'Users',
+        item: [
+          {
+            id: 'get-user',
+            name: 'Get User',
+            event: [
+              {
+                listen: 'test',
+                script: { exec: ['pm.test("ok", () => {});'] }
+              }
+            ],
+            request: {
+              method: 'GET',
+              url: 'https://api.example.com/users/1',
+              header: [{ key: 'Accept', value: 'application/json' }]
+            }
+          },
+          {
+            id: 'create-user',
+            name: 'Create User',
+            request: { method: 'POST', url: 'https://api.example.com/users' }
+          }
+        ]
+      },
+      {
+        id: 'health',
+        name: 'Health',
+        request: { method: 'GET', url: 'https://api.example.com/health' }
+      }
+    ]
+  });
+
+  const getUsers = (collection: IPostmanCollection) =>
+    collection.item[0]?.item ?? [];
+
+  beforeEach(() => {
+    merger = new CollectionMerger();
+  });
+
+  test('should combine changes to different fields of one request', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    const our_request = getUsers(ours)[0]?.request;
+    const their_request = getUsers(theirs)[0]?.request;
+    if (!(our_request && their_request)) {
+      throw new Error('Expected requests');
+    }
+    our_request.header = [
+      { key: 'Accept', value: 'application/json' },
+      { key: 'X-Ours', value: '1' }
+    ];
+    their_request.url = 'https://api.example.com/v2/users/1';
+
+    const outcome = merger.mergeCollections(createCollection(), ours, theirs);
+
+    expect(outcome.conflicts).toEqual([]);
+    const merged = getUsers(outcome.collection)[0]?.request;
+    expect(merged?.url).toBe('https://api.example.com/v2/users/1');
+    expect(merged?.header).toEqual([
+      { key: 'Accept', value: 'application/json' },
+      { key: 'X-Ours', value: '1' }
+    ]);
+  });
+
+  test('should merge additions and deletions on both sides', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    ours.item.push({
+      name: 'Ours Only',
+      request: { method: 'GET', url: 'https://api.example.com/ours' }
+    });
+    getUsers(theirs).splice(1, 1);
+    getUsers(theirs).push({
+      name: 'Theirs Only',
+      request: { method: 'GET', url: 'https://api.example.com/theirs' }
+    });
+
+    const outcome = merger.mergeCollections(createCollection(), ours, theirs);
+
+    expect(outcome.conflicts).toEqual([]);
+    expect(outcome.collection.item.map((item) => item.name)).toEqual([
+      'Users',
+      'Health',
+      'Ours Only'
+    ]);
+    expect(getUsers(outcome.collection).map((item) => item.name)).toEqual([
+      'Get User',
+      'Theirs Only'
+    ]);
+  });
+
+  test('should keep their reordering and our insertion', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    ours.item.splice(1, 0, {
+      name: 'Status',
+      request: { method: 'GET', url: 'https://api.example.com/status' }
+    });
+    theirs.item.reverse();
+
+    const outcome = merger.mergeCollections(createCollection(), ours, theirs);
+
+    expect(outcome.collection.item.map((item) => item.name)).toEqual([
+      'Health',
+      'Users',
+      'Status'
+    ]);
+  });
+
+  test('should match renamed items by id', () => {
+    const theirs = createCollection();
+    const health = theirs.item[1];
+    if (!health) {
+      throw new Error('Expected health request');
+    }
+    health.name = 'Health Check';
+
+    const outcome = merger.mergeCollections(
+      createCollection(),
+      createCollection(),
+      theirs
+    );
+
+    expect(outcome.collection.item.map((item) => item.name)).toEqual([
+      'Users',
+      'Health Check'
+    ]);
+  });
+
+  test('should write conflict markers into scripts changed on both sides', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    const our_event = getUsers(ours)[0]?.event?.[0];
+    const their_event = getUsers(theirs)[0]?.event?.[0];
+    if (!(our_event && their_event)) {
+      throw new Error('Expected events');
+    }
+    our_event.script.exec = ['ours();'];
+    their_event.script.exec = ['theirs();'];
+
+    const outcome = merger.mergeCollections(createCollection(), ours, theirs);
+
+    expect(outcome.conflicts).toHaveLength(1);
+    expect(outcome.conflicts[0]).toMatchObject({
+      path: 'Users/Get User',
+      field: 'event[test].script.exec',
+      kind: 'content',
+      resolution: 'markers'
+    });
+    expect(getUsers(outcome.collection)[0]?.event?.[0]?.script.exec).toEqual([
+      '<<<<<<< ours',
+      'ours();',
+      '=======',
+      'theirs();',
+      '>>>>>>> theirs'
+    ]);
+  });
+
+  test('should keep our value for other conflicts unless a side is favoured', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    const our_request = ours.item[1]?.request;
+    const their_request = theirs.item[1]?.request;
+    if (!(our_request && their_request)) {
+      throw new Error('Expected requests');
+    }
+    our_request.method = 'HEAD';
+    their_request.method = 'OPTIONS';
+
+    const kept = merger.mergeCollections(createCollection(), ours, theirs);
+    expect(kept.collection.item[1]?.request?.method).toBe('HEAD');
+    expect(kept.conflicts[0]).toMatchObject({
+      path: 'Health',
+      field: 'request.method',
+      resolution: 'ours'
+    });
+
+    const favoured = merger.mergeCollections(createCollection(), ours, theirs, {
+      favor: 'theirs'
+    });
+    expect(favoured.collection.item[1]?.request?.method).toBe('OPTIONS');
+    expect(favoured.conflicts[0]?.resolution).toBe('theirs');
+  });
+
+  test('should keep an item deleted on one side but changed on the other', () => {
+    const ours = createCollection();
+    const theirs = createCollection();
+    ours.item.pop();
+    const their_request = theirs.item[1]?.request;
+    if (!their_request) {
+      throw new Error('Expected request');
+    }
+    their_request.url = 'https://api.example.com/healthz';
+
+    const outcome = merger.mergeCollections(createCollection(), ours, theirs);
+
+    expect(outcome.collection.item.map((item) => item.name)).toEqual([
+      'Users',
+      'Health'
+    ]);
+    expect(outcome.conflicts[0]).toMatchObject({
+      path: 'Health',
+      kind: 'delete',
+      resolution: 'theirs'
+    });
+  });
+
+  describe('mergeSequences', () => {
+    const keepAll = () => true;
+
+    test('should union insertions from both sides in relative position', () => {
+      const result = merger.mergeSequences(
+        ['a', 'b', 'c'],
+        ['a', 'x', 'b', 'c'],
+        ['a', 'b', 'c', 'y'],
+        keepAll
+      );
+
+      expect(result.order).toEqual(['a', 'x', 'b', 'c', 'y']);
+      expect(result.conflict).toBe(false);
+    });
+
+    test('should insert an entry without predecessor at the start', () => {
+      const result = merger.mergeSequences(
+        ['a', 'b'],
+        ['a', 'b'],
+        ['y', 'a', 'b'],
+        keepAll
+      );
+
+      expect(result.order).toEqual(['y', 'a', 'b']);
+    });
+
+    test('should report a conflict when both sides reorder differently', () => {
+      const result = merger.mergeSequences(
+        ['a', 'b', 'c'],
+        ['c', 'b', 'a'],
+        ['b', 'a', 'c'],
+        keepAll
+      );
+
+      expect(result.order).toEqual(['c', 'b', 'a']);
+      expect(result.conflict).toBe(true);
+    });
+  });
+});
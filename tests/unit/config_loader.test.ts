@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { ConfigLoader } from '../../src/config/config_loader';
+import type { ISplitOptions } from '../../src/types/postman';
+
+describe('ConfigLoader', () => {
+  let loader: ConfigLoader;
+  const testDir = join(process.cwd(), 'test-config-loader');
+  const nestedDir = join(testDir, 'api', 'payments');
+
+  beforeEach(() => {
+    loader = new ConfigLoader();
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(nestedDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('loadConfig', () => {
+    test('should find the config file in a parent directory', async () => {
+      await Bun.write(
+        join(testDir, 'carveman.config.json'),
+        JSON.stringify({ build: { validate: true } })
+      );
+
+      const result = await loader.loadConfig(nestedDir, {});
+
+      expect(result.success).toBe(true);
+      expect(result.config.file_path).toBe(
+        join(testDir, 'carveman.config.json')
+      );
+      expect(result.config.directory).toBe(testDir);
+      expect(result.config.settings).toEqual({ build: { validate: true } });
+    });
+
+    test('should prefer the nearest config file', async () => {
+      await Bun.write(join(testDir, 'carveman.config.json'), '{}');
+      await Bun.write(
+        join(nestedDir, '.carvemanrc'),
+        JSON.stringify({ split: { timestamp: true } })
+      );
+
+      const result = await loader.loadConfig(nestedDir, {});
+
+      expect(result.config.file_path).toBe(join(nestedDir, '.carvemanrc'));
+    });
+
+    test('should use the config file named by CARVEMAN_CONFIG', async () => {
+      await Bun.write(join(testDir, 'carveman.config.json'), '{}');
+      await Bun.write(
+        join(testDir, 'ci.json'),
+        JSON.stringify({ lint: { format: 'sarif' } })
+      );
+
+      const result = await loader.loadConfig(nestedDir, {
+        CARVEMAN_CONFIG: join(testDir, 'ci.json')
+      });
+
+      expect(result.config.file_path).toBe(join(testDir, 'ci.json'));
+
+      const missing = await loader.loadConfig(nestedDir, {
+        CARVEMAN_CONFIG: 'missing.json'
+      });
+      expect(missing.success).toBe(false);
+      expect(missing.errors[0]).toBe(
+        'Config file named by CARVEMAN_CONFIG does not exist: missing.json'
+      );
+    });
+
+    test('should work without a config file', async () => {
+      const result = await loader.loadConfig(nestedDir, {});
+
+      expect(result.success).toBe(true);
+      expect(result.config.file_path).toBeNull();
+      expect(result.config.settings).toEqual({});
+    });
+
+    test('should read typed option variables', async () => {
+      const result = await loader.loadConfig(nestedDir, {
+        CARVEMAN_SPLIT_OUTPUT: 'out',
+        CARVEMAN_SPLIT_INDENT: '4',
+        CARVEMAN_BUILD_ENV_VALIDATE: 'true',
+        CARVEMAN_DIFF_FORMAT: 'json',
+        CARVEMAN_CURL_KEEP_VARIABLES: ''
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.config.environment).toEqual({
+        split: { output: 'out', indent: 4 },
+        'build-env': { validate: true },
+        diff: { format: 'json' }
+      });
+    });
+
+    test('should report variables with invalid values', async () => {
+      const result = await loader.loadConfig(nestedDir, {
+        CARVEMAN_SPLIT_OVERWRITE: 'maybe',
+        CARVEMAN_SPLIT_SECRETS: 'hide'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        'CARVEMAN_SPLIT_OVERWRITE must be a boolean (got "maybe")',
+        'CARVEMAN_SPLIT_SECRETS must be one of: warn, fail, redact (got "hide")'
+      ]);
+    });
+
+    test('should report an invalid config file with its path', async () => {
+      const config_path = join(testDir, 'carveman.config.json');
+      await Bun.write(config_path, JSON.stringify({ split: { indent: 2 } }));
+
+      const result = await loader.loadConfig(testDir, {});
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toStartWith(
+        `${config_path}: Unknown setting "split.indent"`
+      );
+    });
+  });
+
+  describe('validateConfig', () => {
+    test('should accept a complete config', () => {
+      expect(
+        loader.validateConfig({
+          split: { output: 'api', secrets: 'redact', format: 'yaml' },
+          build: {
+            output: 'dist/collection.json',
+            validate: true,
+            orphans: 'error'
+          },
+          merge: { favor: 'theirs', report: 'conflicts.json', output: 'api' },
+          lint: { format: 'json', rules: { 'missing-description': 'off' } },
+          naming: { max_length: 60 },
+          formatting: { indent: 4, eol: 'crlf' },
+          extraction: { inline_scripts: true },
+          collections: { 'api/payments': { build: { inject_secrets: true } } }
+        })
+      ).toEqual([]);
+    });
+
+    test('should report unknown settings and wrong types', () => {
+      expect(
+        loader.validateConfig({
+          spilt: {},
+          build: { validate: 'yes', minify: true },
+          formatting: { indent: 0 },
+          lint: { rules: { 'no-such-rule': 'error' } },
+          collections: { api: { collections: {} } }
+        })
+      ).toEqual([
+        expect.stringContaining('Unknown section "spilt"'),
+        '"build.validate" must be a boolean',
+        expect.stringContaining('Unknown setting "build.minify"'),
+        '"formatting.indent" must be a positive integer',
+        expect.stringContaining('lint.rules: Unknown lint rule "no-such-rule"'),
+        expect.stringContaining('Unknown section "collections.api.collections"')
+      ]);
+    });
+
+    test('should check the merge section', () => {
+      expect(loader.validateConfig({ merge: { favor: 'both' } })).toEqual([
+        '"merge.favor" must be one of: ours, theirs'
+      ]);
+    });
+
+    test('should reject a config that is not an object', () => {
+      expect(loader.validateConfig([])).toEqual([
+        'Config must be a JSON object'
+      ]);
+    });
+  });
+
+  describe('getCommandOptions', () => {
+    test('should apply overrides and variables over the config', () => {
+      const options = loader.getCommandOptions<ISplitOptions>(
+        {
+          file_path: join(testDir, 'carveman.config.json'),
+          directory: testDir,
+          settings: {
+            split: { output: 'api', timestamp: true, secrets: 'fail' },
+            naming: { max_length: 40 },
+            extraction: { split_examples: true },
+            build: { validate: true },
+            collections: {
+              exports: { split: { secrets: 'redact' } },
+              'exports/payments.json': { split: { output: 'payments' } }
+            }
+          },
+          environment: { split: { timestamp: false } }
+        },
+        'split',
+        join(testDir, 'exports', 'payments.json')
+      );
+
+      expect(options).toEqual({
+        output: join(testDir, 'payments'),
+        timestamp: false,
+        secrets: 'redact',
+        max_name_length: 40,
+        split_examples: true
+      });
+    });
+
+    test('should merge lint rules from overrides', () => {
+      const options = loader.getCommandOptions(
+        {
+          file_path: null,
+          directory: testDir,
+          settings: {
+            lint: { rules: { 'missing-description': 'off' } },
+            collections: {
+              api: { lint: { rules: { 'hardcoded-host': 'error' } } }
+            }
+          },
+          environment: {}
+        },
+        'lint',
+        join(testDir, 'api')
+      );
+
+      expect(options).toEqual({
+        rules: { 'missing-description': 'off', 'hardcoded-host': 'error' }
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { CurlExporter } from '../../src/export/curl_exporter';
+
+describe('CurlExporter', () => {
+  let exporter: CurlExporter;
+  let warnings: string[];
+
+  beforeEach(() => {
+    exporter = new CurlExporter();
+    warnings = [];
+  });
+
+  test('should build the URL from its parts', () => {
+    const command = exporter.convert(
+      {
+        method: 'GET',
+        header: [
+          { key: 'Accept', value: 'application/json' },
+          { key: 'X-Debug', value: '1', disabled: true }
+        ],
+        url: {
+          raw: 'https://api.example.com/orders/:orderId?expand=true',
+          protocol: 'https',
+          host: ['api', 'example', 'com'],
+          path: ['orders', ':orderId'],
+          query: [
+            { key: 'expand', value: 'true' },
+            { key: 'debug', value: '1', disabled: true }
+          ],
+          variable: [{ key: 'orderId', value: '17' }]
+        }
+      },
+      warnings
+    );
+
+    expect(command).toBe(
+      "curl 'https://api.example.com/orders/17?expand=true' \\\n  --header 'Accept: application/json'"
+    );
+  });
+
+  test('should convert bodies and quote single quotes', () => {
+    const command = exporter.convert(
+      {
+        method: 'POST',
+        url: 'https://api.example.com/notes',
+        body: {
+          mode: 'raw',
+          raw: `{"text": "it's"}`,
+          options: { raw: { language: 'json' } }
+        }
+      },
+      warnings
+    );
+
+    expect(command.split(' \\\n  ')).toEqual([
+      "curl 'https://api.example.com/notes'",
+      '--request POST',
+      "--header 'Content-Type: application/json'",
+      `--data-raw '{"text": "it'\\''s"}'`
+    ]);
+
+    const form = exporter.convert(
+      {
+        method: 'POST',
+        url: 'https://api.example.com/login',
+        body: {
+          mode: 'urlencoded',
+          urlencoded: [
+            { key: 'user', value: 'jane' },
+            { key: 'debug', value: '1', disabled: true }
+          ]
+        }
+      },
+      warnings
+    );
+    expect(form).toEndWith("--data-urlencode 'user=jane'");
+  });
+
+  test('should express auth as curl options, headers or query', () => {
+    const basic = exporter.convert(
+      {
+        method: 'GET',
+        url: 'https://api.example.com/me',
+        auth: {
+          type: 'digest',
+          digest: [
+            { key: 'username', value: 'jane' },
+            { key: 'password', value: 'pw' }
+          ]
+        }
+      },
+      warnings
+    );
+    expect(basic).toContain("--digest \\\n  --user 'jane:pw'");
+
+    const apikey = exporter.convert(
+      {
+        method: 'GET',
+        url: 'https://api.example.com/me?a=1',
+        auth: {
+          type: 'apikey',
+          apikey: [
+            { key: 'key', value: 'api_key' },
+            { key: 'value', value: 'k 1' },
+            { key: 'in', value: 'query' }
+          ]
+        }
+      },
+      warnings
+    );
+    expect(apikey).toBe("curl 'https://api.example.com/me?a=1&api_key=k%201'");
+
+    exporter.convert(
+      {
+        method: 'GET',
+        url: 'https://api.example.com/me',
+        auth: { type: 'hawk' }
+      },
+      warnings
+    );
+    expect(warnings).toEqual([
+      'Auth type "hawk" cannot be expressed as curl options and was skipped'
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { CurlImporter } from '../../src/import/curl_importer';
+import type { IPostmanItem, IPostmanUrl } from '../../src/types/postman';
+
+describe('CurlImporter', () => {
+  let importer: CurlImporter;
+  let warnings: string[];
+
+  const convert = (command: string): IPostmanItem => {
+    const item = importer.convert(command, warnings).item[0];
+    if (!item) {
+      throw new Error('No request was imported');
+    }
+    return item;
+  };
+
+  beforeEach(() => {
+    importer = new CurlImporter();
+    warnings = [];
+  });
+
+  test('should parse a multi-line command with quoted arguments', () => {
+    const item =
+      convert(`curl 'https://api.example.com/v1/orders?expand=items' \\
+  -X PATCH \\
+  -H "Content-Type: application/json" \\
+  -H 'X-Trace: a b' \\
+  --data-raw '{"note": "it'\\''s late"}' \\
+  --compressed -sSL`);
+
+    expect(item.name).toBe('PATCH v1 orders');
+    expect(item.request?.method).toBe('PATCH');
+    const url = item.request?.url as IPostmanUrl;
+    expect(url.raw).toBe('https://api.example.com/v1/orders?expand=items');
+    expect(url.path).toEqual(['v1', 'orders']);
+    expect(url.query).toEqual([{ key: 'expand', value: 'items' }]);
+    expect(item.request?.header).toEqual([
+      { key: 'Content-Type', value: 'application/json' },
+      { key: 'X-Trace', value: 'a b' }
+    ]);
+    expect(item.request?.body).toEqual({
+      mode: 'raw',
+      raw: `{"note": "it's late"}`,
+      options: { raw: { language: 'json' } }
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  test('should default to POST with form data and decode it', () => {
+    const item = convert(
+      "curl example.com/login -d 'user=jane%40example.com' --data-urlencode 'note=a&b'"
+    );
+
+    expect(item.request?.method).toBe('POST');
+    expect((item.request?.url as IPostmanUrl).raw).toBe(
+      'http://example.com/login'
+    );
+    expect(item.request?.body).toEqual({
+      mode: 'urlencoded',
+      urlencoded: [
+        { key: 'user', value: 'jane@example.com', type: 'text' },
+        { key: 'note', value: 'a&b', type: 'text' }
+      ]
+    });
+  });
+
+  test('should read multipart fields, auth and ANSI-C quoted bodies', () => {
+    const upload = convert(
+      "curl -F 'file=@photo.png;type=image/png' --form-string 'alt=@home' -u 'jane:p:w' https://example.com/upload"
+    );
+    expect(upload.request?.body?.formdata).toEqual([
+      { key: 'file', type: 'file', src: 'photo.png' },
+      { key: 'alt', value: '@home', type: 'text' }
+    ]);
+    expect(upload.request?.auth).toEqual({
+      type: 'basic',
+      basic: [
+        { key: 'username', value: 'jane', type: 'string' },
+        { key: 'password', value: 'p:w', type: 'string' }
+      ]
+    });
+
+    const copied = convert(
+      "curl 'https://example.com/notes' -H 'content-type: text/plain' --data-raw $'line 1\\nline \\x32'"
+    );
+    expect(copied.request?.body).toEqual({
+      mode: 'raw',
+      raw: 'line 1\nline 2'
+    });
+  });
+
+  test('should move data to the query with --get', () => {
+    const item = convert("curl -G https://example.com/search -d 'q=shoe'");
+
+    expect(item.request?.method).toBe('GET');
+    expect(item.request?.body).toBeUndefined();
+    expect((item.request?.url as IPostmanUrl).query).toEqual([
+      { key: 'q', value: 'shoe' }
+    ]);
+  });
+
+  test('should keep query params as written in the URL', () => {
+    const item = convert(
+      "curl 'https://example.com/search?q=a%20b&tags=x+y&filter=a=b'"
+    );
+
+    const url = item.request?.url as IPostmanUrl;
+    expect(url.raw).toBe(
+      'https://example.com/search?q=a%20b&tags=x+y&filter=a=b'
+    );
+    expect(url.query).toEqual([
+      { key: 'q', value: 'a%20b' },
+      { key: 'tags', value: 'x+y' },
+      { key: 'filter', value: 'a=b' }
+    ]);
+  });
+
+  test('should warn about unknown options and reject other commands', () => {
+    convert('curl --unknown-flag https://example.com');
+    expect(warnings).toEqual([
+      'Unknown curl option --unknown-flag was ignored'
+    ]);
+
+    expect(() => importer.convert('wget https://example.com', [])).toThrow(
+      'Not a curl command'
+    );
+    expect(() => importer.convert('curl -X GET', [])).toThrow(
+      'curl command has no URL'
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { CollectionDiffer } from '../../src/diff/collection_differ';
+import { DiffFormatter } from '../../src/diff/diff_formatter';
+
+describe('DiffFormatter', () => {
+  const formatter = new DiffFormatter();
+  const labels = { source: 'old.json', target: 'new.json' };
+  const diff = new CollectionDiffer().diffCollections(
+    {
+      info: { name: 'A', schema: 'v2.1' },
+      item: [{ name: 'Ping', request: { method: 'GET', url: 'a|b' } }]
+    },
+    {
+      info: { name: 'A', schema: 'v2.1' },
+      item: [{ name: 'Ping', request: { method: 'GET', url: 'c' } }]
+    }
+  );
+
+  test('should render text with one line per change', () => {
+    const text = formatter.format(diff, 'text', labels);
+
+    expect(text).toContain('Comparing old.json → new.json');
+    expect(text).toContain('~ modified GET Ping');
+    expect(text).toContain('url: a|b → c');
+    expect(text).toContain('Requests: 1 modified');
+  });
+
+  test('should render a Markdown table with escaped pipes', () => {
+    const markdown = formatter.format(diff, 'markdown', labels);
+
+    expect(markdown).toContain('| Change | Method | Request | Details |');
+    expect(markdown).toContain(
+      '| Modified | GET | `Ping` | **url**: `a\\|b → c` |'
+    );
+  });
+
+  test('should say so when nothing differs', () => {
+    const empty = new CollectionDiffer().diffCollections(
+      { info: { name: 'A', schema: 'v2.1' }, item: [] },
+      { info: { name: 'A', schema: 'v2.1' }, item: [] }
+    );
+
+    expect(formatter.format(empty, 'text', labels)).toContain('No differences');
+    expect(formatter.format(empty, 'markdown', labels)).toContain(
+      'No differences'
+    );
+  });
+
+  test('should render JSON including the compared sources', () => {
+    const json = JSON.parse(formatter.format(diff, 'json', labels));
+
+    expect(json.source).toBe('old.json');
+    expect(json.requests[0].type).toBe('modified');
+  });
+});
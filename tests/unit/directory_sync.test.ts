@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { DirectorySync } from '../../src/fs/directory_sync';
+
+describe('DirectorySync', () => {
+  let sync: DirectorySync;
+  const testDir = join(process.cwd(), 'test-directory-sync');
+  const sourceDir = join(testDir, 'source');
+  const targetDir = join(testDir, 'target');
+
+  beforeEach(() => {
+    sync = new DirectorySync();
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(sourceDir, { recursive: true });
+    mkdirSync(targetDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('syncDirectory', () => {
+    test('should keep dotfiles and the directories holding them', async () => {
+      await Bun.write(join(sourceDir, 'index.json'), '{"order":["a.json"]}');
+      await Bun.write(join(sourceDir, 'a.json'), '{}');
+      await Bun.write(join(targetDir, 'index.json'), '{"order":["old"]}');
+      await Bun.write(join(targetDir, 'old', '.keep'), '');
+      await Bun.write(
+        join(targetDir, 'old', 'index.json'),
+        '{"order":["b.json"]}'
+      );
+      await Bun.write(join(targetDir, 'old', 'b.json'), '{}');
+      await Bun.write(join(targetDir, '.git', 'HEAD'), 'ref');
+
+      const changes = await sync.syncDirectory(sourceDir, targetDir);
+
+      expect(changes).toEqual({
+        added: ['a.json'],
+        modified: ['index.json'],
+        deleted: ['old/b.json', 'old/index.json']
+      });
+      expect(await Bun.file(join(targetDir, 'old', '.keep')).exists()).toBe(
+        true
+      );
+      expect(await Bun.file(join(targetDir, '.git', 'HEAD')).exists()).toBe(
+        true
+      );
+    });
+
+    test('should only delete files the target tree lists', async () => {
+      await Bun.write(join(sourceDir, 'index.json'), '{"order":[]}');
+      await Bun.write(join(targetDir, 'index.json'), '{"order":["Old"]}');
+      await Bun.write(join(targetDir, 'README.md'), '# API');
+      await Bun.write(join(targetDir, 'package.json'), '{"private":true}');
+      await Bun.write(join(targetDir, 'helpers.js'), '');
+      await Bun.write(join(targetDir, 'docs', 'notes.txt'), 'notes');
+      await Bun.write(
+        join(targetDir, 'Old', 'index.json'),
+        '{"order":["Get.json"]}'
+      );
+      await Bun.write(join(targetDir, 'Old', 'Get.json'), '{}');
+      await Bun.write(join(targetDir, 'Old', 'Get.prerequest.js'), '');
+      await Bun.write(join(targetDir, 'Old', 'Get.body.xml'), '<a/>');
+      await Bun.write(join(targetDir, 'Old', 'examples', 'Get', 'Ok.txt'), '');
+
+      const changes = await sync.syncDirectory(sourceDir, targetDir);
+
+      expect(changes).toEqual({
+        added: [],
+        modified: ['index.json'],
+        deleted: [
+          'Old/',
+          'Old/Get.body.xml',
+          'Old/Get.json',
+          'Old/Get.prerequest.js',
+          'Old/examples/',
+          'Old/examples/Get/',
+          'Old/examples/Get/Ok.txt',
+          'Old/index.json'
+        ]
+      });
+      expect(await Bun.file(join(targetDir, 'README.md')).text()).toBe('# API');
+      expect(await Bun.file(join(targetDir, 'package.json')).exists()).toBe(
+        true
+      );
+      expect(await Bun.file(join(targetDir, 'helpers.js')).exists()).toBe(true);
+      expect(await Bun.file(join(targetDir, 'docs', 'notes.txt')).text()).toBe(
+        'notes'
+      );
+    });
+
+    test('should replace a file with a directory of the same name', async () => {
+      await Bun.write(join(sourceDir, 'Users', 'index.json'), '{}');
+      await Bun.write(join(targetDir, 'Users'), 'stale');
+
+      const changes = await sync.syncDirectory(sourceDir, targetDir);
+
+      expect(changes).toEqual({
+        added: ['Users/', 'Users/index.json'],
+        modified: [],
+        deleted: ['Users']
+      });
+      expect(
+        await Bun.file(join(targetDir, 'Users', 'index.json')).text()
+      ).toBe('{}');
+    });
+
+    test('should compare content, not timestamps', async () => {
+      await Bun.write(join(sourceDir, 'same.json'), '{"a":1}\n');
+      await Bun.write(join(sourceDir, 'changed.json'), '{"a":2}\n');
+      await Bun.write(join(targetDir, 'same.json'), '{"a":1}\n');
+      await Bun.write(join(targetDir, 'changed.json'), '{"a":1}\n');
+
+      const changes = await sync.syncDirectory(sourceDir, targetDir, true);
+
+      expect(changes.modified).toEqual(['changed.json']);
+      expect(await Bun.file(join(targetDir, 'changed.json')).text()).toBe(
+        '{"a":1}\n'
+      );
+    });
+  });
+});
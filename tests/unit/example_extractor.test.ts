@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { ExampleExtractor } from '../../src/parser/example_extractor';
+import type { IPostmanResponse } from '../../src/types/postman';
+
+describe('ExampleExtractor', () => {
+  let extractor: ExampleExtractor;
+  const testDir = join(process.cwd(), 'test-example-extractor');
+
+  const responses: IPostmanResponse[] = [
+    {
+      name: 'Created',
+      status: 'Created',
+      code: 201,
+      _postman_previewlanguage: 'json',
+      header: [{ key: 'Content-Type', value: 'application/json' }],
+      body: '{\n  "id": 1\n}'
+    },
+    {
+      name: 'Created',
+      status: 'Created',
+      code: 201,
+      header: [{ key: 'Content-Type', value: 'application/xml' }],
+      body: '<id>2</id>'
+    },
+    {
+      name: 'No Content',
+      code: 204
+    }
+  ];
+
+  beforeEach(() => {
+    extractor = new ExampleExtractor();
+
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('extractExamples', () => {
+    test('should write one file per example with unique names', () => {
+      const result = extractor.extractExamples(responses, 'Login');
+
+      expect(result.response).toBeUndefined();
+      expect(result.response_files).toEqual([
+        'examples/Login/Created.json',
+        'examples/Login/Created (1).json',
+        'examples/Login/No Content.json'
+      ]);
+    });
+
+    test('should store bodies as content-typed files', () => {
+      const result = extractor.extractExamples(responses, 'Login');
+      const file_names = result.files.map((file) => file.file_name);
+
+      expect(file_names).toContain('examples/Login/Created.body.json');
+      expect(file_names).toContain('examples/Login/Created (1).body.xml');
+      expect(file_names).not.toContain('examples/Login/No Content.body.txt');
+
+      const example_file = result.files.find(
+        (file) => file.file_name === 'examples/Login/Created.json'
+      );
+      const example = JSON.parse(example_file?.content ?? '{}');
+      expect(example.body).toBeUndefined();
+      expect(example.body_file).toBe('Created.body.json');
+    });
+
+    test('should leave empty response arrays inline', () => {
+      const result = extractor.extractExamples([], 'Login');
+
+      expect(result.response).toEqual([]);
+      expect(result.response_files).toBeUndefined();
+      expect(result.files).toHaveLength(0);
+    });
+  });
+
+  describe('inlineExamples', () => {
+    test('should reassemble examples in their original order', async () => {
+      const result = extractor.extractExamples(responses, 'Login');
+      for (const file of result.files) {
+        await Bun.write(join(testDir, file.file_name), file.content);
+      }
+
+      const inlined = await extractor.inlineExamples(
+        result.response_files ?? [],
+        testDir
+      );
+
+      expect(inlined).toEqual(responses);
+    });
+
+    test('should throw when an example file is missing', async () => {
+      await expect(
+        extractor.inlineExamples(['examples/Login/Gone.json'], testDir)
+      ).rejects.toThrow('Example file not found');
+    });
+  });
+});
@@ -186,6 +186,41 @@ describe('FileSystemManager', () => {
       expect(structure.files.map((f) => f.name)).toContain('request2.json');
       expect(structure.index_files.map((f) => f.name)).toContain('index.json');
     });
+
+    test('should keep extracted scripts and bodies out of request files', async () => {
+      await fsManager.createDirectory(testDir);
+      await fsManager.writeJsonFile(join(testDir, 'Login.json'), {
+        type: 'request'
+      });
+      await Bun.write(join(testDir, 'Login.test.js'), 'pm.test();');
+      await Bun.write(join(testDir, 'Login.body.json'), '{}');
+      await Bun.write(join(testDir, 'Login.graphql'), '{ a }');
+      await Bun.write(join(testDir, 'Login.variables.json'), '{}');
+
+      const structure = await fsManager.scanDirectoryStructure(testDir);
+
+      expect(structure.files.map((f) => f.name)).toEqual(['Login.json']);
+      expect(structure.extracted_files).toHaveLength(4);
+    });
+
+    test('should keep requests named like extracted files', async () => {
+      await fsManager.createDirectory(testDir);
+      await Bun.write(join(testDir, 'Config.variables.json'), '{}');
+      await Bun.write(join(testDir, 'Payload.body.yaml'), 'name: x\n');
+      await Bun.write(join(testDir, 'Login.json'), '{}');
+      await Bun.write(join(testDir, 'Login.body.json'), '{}');
+
+      const structure = await fsManager.scanDirectoryStructure(testDir);
+
+      expect(structure.files.map((f) => f.name).sort()).toEqual([
+        'Config.variables.json',
+        'Login.json',
+        'Payload.body.yaml'
+      ]);
+      expect(structure.extracted_files.map((f) => f.name)).toEqual([
+        'Login.body.json'
+      ]);
+    });
   });
 
   describe('collection and folder operations', () => {
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { HarImporter } from '../../src/import/har_importer';
+import type { IPostmanRequest, IPostmanUrl } from '../../src/types/postman';
+
+describe('HarImporter', () => {
+  let importer: HarImporter;
+  let warnings: string[];
+  let har: unknown;
+
+  beforeEach(async () => {
+    importer = new HarImporter();
+    warnings = [];
+    har = await Bun.file(
+      join(process.cwd(), 'tests', 'fixtures', 'acme_store.har')
+    ).json();
+  });
+
+  test('should convert each entry into a named request', () => {
+    const collection = importer.convert(har, 'acme_store', warnings);
+
+    expect(collection.info.name).toBe('acme_store');
+    expect(collection.item.map((item) => item.name)).toEqual([
+      'GET products',
+      'POST orders',
+      'POST newsletter',
+      'GET products 42 image'
+    ]);
+  });
+
+  test('should parse URLs and drop computed and pseudo headers', () => {
+    const [list, create] = importer.convert(har, 'acme_store', warnings).item;
+
+    const url = list?.request?.url as IPostmanUrl;
+    expect(url.raw).toBe(
+      'https://api.acme.test/products?page=2&limit=20&sort=name'
+    );
+    expect(url.host).toEqual(['api', 'acme', 'test']);
+    expect(url.path).toEqual(['products']);
+    expect(url.query).toEqual([
+      { key: 'page', value: '2' },
+      { key: 'limit', value: '20' },
+      { key: 'sort', value: 'name' }
+    ]);
+    expect(list?.request?.header).toEqual([
+      { key: 'accept', value: 'application/json' }
+    ]);
+
+    expect(create?.request?.header).toEqual([
+      { key: 'content-type', value: 'application/json' },
+      { key: 'authorization', value: 'Bearer abc123' }
+    ]);
+    expect(create?.request?.body).toEqual({
+      mode: 'raw',
+      raw: '{"productId":42,"quantity":2}',
+      options: { raw: { language: 'json' } }
+    });
+  });
+
+  test('should save responses as examples, decoding base64 text', () => {
+    const [, create, newsletter, image] = importer.convert(
+      har,
+      'acme_store',
+      warnings
+    ).item;
+
+    const example = create?.response?.[0];
+    expect(example?.name).toBe('201 Created');
+    expect(example?.code).toBe(201);
+    expect(example?._postman_previewlanguage).toBe('json');
+    expect(example?.body).toBe('{"id":7,"status":"new"}');
+    expect(example?.originalRequest).toEqual(
+      create?.request as IPostmanRequest
+    );
+
+    // Aborted requests have no response to keep
+    expect(newsletter?.response).toBeUndefined();
+    expect(newsletter?.request?.body).toEqual({
+      mode: 'urlencoded',
+      urlencoded: [{ key: 'email', value: 'jane@example.com', type: 'text' }]
+    });
+
+    expect(image?.response?.[0]?.body).toBe('');
+    expect(warnings).toEqual([
+      'Binary image/png body of GET https://api.acme.test/products/42/image was not imported'
+    ]);
+  });
+
+  test('should reject documents without entries', () => {
+    expect(() => importer.convert({ log: {} }, 'empty', warnings)).toThrow(
+      'Not a HAR file: missing "log.entries" array'
+    );
+  });
+});
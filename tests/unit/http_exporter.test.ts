@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { HttpExporter } from '../../src/export/http_exporter';
+import type {
+  IExtractedFile,
+  IPostmanCollection
+} from '../../src/types/postman';
+
+describe('HttpExporter', () => {
+  let exporter: HttpExporter;
+  let warnings: string[];
+
+  const collection: IPostmanCollection = {
+    info: {
+      name: 'Orders API',
+      schema:
+        'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+    },
+    auth: {
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: 'api_key' },
+        { key: 'value', value: '{{apiKey}}' },
+        { key: 'in', value: 'query' }
+      ]
+    },
+    variable: [
+      { key: 'baseUrl', value: 'https://api.example.com' },
+      { key: 'apiKey', value: 'secret' },
+      { key: 'unused', value: 'x', disabled: true }
+    ],
+    item: [
+      {
+        name: 'Orders',
+        variable: [{ key: 'page', value: '1' }],
+        item: [
+          {
+            name: 'List orders',
+            request: {
+              method: 'GET',
+              header: [
+                { key: 'Accept', value: 'application/json' },
+                { key: 'X-Debug', value: '1', disabled: true }
+              ],
+              url: {
+                raw: '{{baseUrl}}/orders?page={{page}}',
+                host: ['{{baseUrl}}'],
+                path: ['orders'],
+                query: [{ key: 'page', value: '{{page}}' }]
+              }
+            }
+          },
+          {
+            name: 'Create order',
+            request: {
+              method: 'POST',
+              auth: {
+                type: 'basic',
+                basic: [
+                  { key: 'username', value: 'admin' },
+                  { key: 'password', value: 'hunter2' }
+                ]
+              },
+              body: {
+                mode: 'raw',
+                raw: '{"sku": "A-1"}\n',
+                options: { raw: { language: 'json' } }
+              },
+              url: {
+                raw: '{{baseUrl}}/customers/:customerId/orders',
+                host: ['{{baseUrl}}'],
+                path: ['customers', ':customerId', 'orders'],
+                variable: [{ key: 'customerId', value: '7' }]
+              }
+            }
+          }
+        ]
+      },
+      {
+        name: 'Login',
+        event: [
+          {
+            listen: 'test',
+            script: { type: 'text/javascript', exec: ['pm.test()'] }
+          }
+        ],
+        request: {
+          method: 'POST',
+          auth: { type: 'noauth' },
+          body: {
+            mode: 'urlencoded',
+            urlencoded: [
+              { key: 'username', value: 'admin' },
+              { key: 'remember', value: 'true', disabled: true }
+            ]
+          },
+          url: '{{baseUrl}}/login'
+        }
+      }
+    ]
+  };
+
+  const findFile = (files: IExtractedFile[], name: string) =>
+    files.find((file) => file.file_name === name)?.content;
+
+  beforeEach(() => {
+    exporter = new HttpExporter();
+    warnings = [];
+  });
+
+  test('should write one file per folder with the folder variables', () => {
+    const files = exporter.convert(collection, false, warnings);
+
+    expect(files.map((file) => file.file_name)).toEqual([
+      'Orders API.http',
+      'Orders.http'
+    ]);
+    expect(findFile(files, 'Orders.http')).toBe(
+      [
+        '@baseUrl = https://api.example.com',
+        '@apiKey = secret',
+        '@page = 1',
+        '',
+        '### List orders',
+        'GET {{baseUrl}}/orders?page={{page}}&api_key={{apiKey}}',
+        'Accept: application/json',
+        '',
+        '### Create order',
+        'POST {{baseUrl}}/customers/7/orders',
+        'Authorization: Basic admin hunter2',
+        'Content-Type: application/json',
+        '',
+        '{"sku": "A-1"}',
+        '',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('should write form bodies and leave out scripts', () => {
+    const files = exporter.convert(collection, false, warnings);
+
+    expect(findFile(files, 'Orders API.http')).toEndWith(
+      [
+        '### Login',
+        'POST {{baseUrl}}/login',
+        'Content-Type: application/x-www-form-urlencoded',
+        '',
+        'username=admin',
+        ''
+      ].join('\n')
+    );
+    expect(warnings).toEqual([
+      '1 script(s) have no .http equivalent and were not exported'
+    ]);
+  });
+
+  test('should write collection variables to an environment file', () => {
+    const files = exporter.convert(collection, true, warnings);
+
+    expect(JSON.parse(findFile(files, 'http-client.env.json') ?? '{}')).toEqual(
+      {
+        dev: { baseUrl: 'https://api.example.com', apiKey: 'secret' }
+      }
+    );
+    expect(findFile(files, 'Orders.http')).toStartWith(
+      '@page = 1\n\n### List orders\n'
+    );
+    expect(findFile(files, 'Orders API.http')).toStartWith('### Login\n');
+  });
+
+  test('should keep the trailing newline of a body', () => {
+    const bodies = ['{"sku": "A-1"}\n', 'line\n\n', 'no newline'];
+    const files = exporter.convert(
+      {
+        info: collection.info,
+        item: bodies.map((raw, index) => ({
+          name: `Request ${index}`,
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/orders',
+            body: { mode: 'raw', raw }
+          }
+        }))
+      },
+      false,
+      warnings
+    );
+
+    // Entries are separated by a blank line and the file ends with a newline
+    const entries = (findFile(files, 'Orders API.http') ?? '')
+      .slice(0, -1)
+      .split(/\n\n(?=### )/);
+    expect(
+      entries.map((entry) => entry.slice(entry.indexOf('\n\n') + 2))
+    ).toEqual(bodies);
+  });
+});
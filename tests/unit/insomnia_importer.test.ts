@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { InsomniaImporter } from '../../src/import/insomnia_importer';
+import type { IPostmanUrl } from '../../src/types/postman';
+
+describe('InsomniaImporter', () => {
+  let importer: InsomniaImporter;
+  let warnings: string[];
+  let document: unknown;
+
+  beforeEach(async () => {
+    importer = new InsomniaImporter();
+    warnings = [];
+    document = await Bun.file(
+      join(process.cwd(), 'tests', 'fixtures', 'insomnia.export.json')
+    ).json();
+  });
+
+  test('should map request groups to folders in display order', () => {
+    const collection = importer.convert(document, warnings);
+
+    expect(collection.info.name).toBe('Acme Billing');
+    expect(collection.info.description).toBe('Invoices and payments');
+    expect(collection.item.map((item) => item.name)).toEqual([
+      'Search',
+      'Invoices'
+    ]);
+
+    const invoices = collection.item[1];
+    expect(invoices?.description).toBe('Invoice endpoints');
+    expect(invoices?.item?.map((item) => item.name)).toEqual([
+      'List invoices',
+      'Create invoice',
+      'Payments'
+    ]);
+    expect(invoices?.variable).toEqual([
+      { key: 'customer_id', value: 'cus_42', type: 'string' }
+    ]);
+    expect(invoices?.auth).toEqual({
+      type: 'bearer',
+      bearer: [{ key: 'token', value: '{{token}}', type: 'string' }]
+    });
+  });
+
+  test('should turn the base environment into collection variables', () => {
+    const collection = importer.convert(document, warnings);
+
+    expect(collection.variable).toEqual([
+      { key: 'base_url', value: 'https://billing.acme.test', type: 'string' },
+      { key: 'api.version', value: 'v2', type: 'string' },
+      { key: 'page_size', value: '50', type: 'string' }
+    ]);
+    expect(warnings).toContain(
+      'Sub-environment "Staging" was not imported; only the base environment becomes collection variables'
+    );
+  });
+
+  test('should convert template syntax in URLs, headers and bodies', () => {
+    const invoices = importer.convert(document, warnings).item[1];
+    const [list, create] = invoices?.item ?? [];
+
+    const url = list?.request?.url as IPostmanUrl;
+    expect(url.raw).toBe(
+      '{{base_url}}/{{api.version}}/invoices?customer={{customer_id}}'
+    );
+    expect(url.host).toEqual(['{{base_url}}']);
+    expect(url.path).toEqual(['{{api.version}}', 'invoices']);
+    expect(url.query).toEqual([
+      { key: 'customer', value: '{{customer_id}}' },
+      { key: 'limit', value: '{{page_size}}', disabled: true }
+    ]);
+    // An empty authentication inherits the folder's
+    expect(list?.request?.auth).toBeUndefined();
+
+    expect(create?.request?.header?.[1]).toEqual({
+      key: 'Idempotency-Key',
+      value: '{{$guid}}'
+    });
+    expect(create?.request?.body).toEqual({
+      mode: 'raw',
+      raw: '{\n  "customer": "{{customer_id}}",\n  "issued": "{{$isoTimestamp}}"\n}',
+      options: { raw: { language: 'json' } }
+    });
+  });
+
+  test('should convert form, GraphQL bodies and auth', () => {
+    const collection = importer.convert(document, warnings);
+    const search = collection.item[0];
+    const pay = collection.item[1]?.item?.[2]?.item?.[0];
+
+    expect(search?.request?.auth).toEqual({ type: 'noauth' });
+    expect(search?.request?.body).toEqual({
+      mode: 'graphql',
+      graphql: {
+        query: 'query ($q: String!) { invoices(q: $q) { id } }',
+        variables: '{\n  "q": "late"\n}'
+      }
+    });
+
+    expect(pay?.request?.body).toEqual({
+      mode: 'urlencoded',
+      urlencoded: [
+        { key: 'amount', value: '100', type: 'text' },
+        { key: 'note', value: '', type: 'text', disabled: true }
+      ]
+    });
+    expect(pay?.request?.auth).toEqual({
+      type: 'basic',
+      basic: [
+        { key: 'username', value: 'billing', type: 'string' },
+        { key: 'password', value: '{{password}}', type: 'string' }
+      ]
+    });
+  });
+
+  test('should warn about constructs a collection cannot represent', () => {
+    const pay = importer.convert(document, warnings).item[1]?.item?.[2]
+      ?.item?.[0];
+
+    expect((pay?.request?.url as IPostmanUrl).raw).toContain(
+      "{% response 'body'"
+    );
+    expect(warnings).toEqual([
+      '1 Insomnia "grpc_request" resource(s) cannot be represented in a collection and were skipped',
+      'Template tag {% response %} in "Pay invoice" has no Postman equivalent and was kept as text',
+      'Sub-environment "Staging" was not imported; only the base environment becomes collection variables'
+    ]);
+  });
+
+  test('should reject documents that are not Insomnia v4 exports', () => {
+    expect(() =>
+      importer.convert({ _type: 'export', __export_format: 3 }, warnings)
+    ).toThrow('Not an Insomnia v4 export');
+  });
+});
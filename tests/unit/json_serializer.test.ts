@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import { JsonSerializer } from '../../src/fs/json_serializer';
+
+describe('JsonSerializer', () => {
+  const serializer = new JsonSerializer();
+
+  describe('canonicalize', () => {
+    test('should order the keys of a collection by object type', () => {
+      const collection = serializer.canonicalize({
+        variable: [{ value: 'x', key: 'host' }],
+        item: [
+          {
+            response: [],
+            request: {
+              url: { path: ['users'], raw: '{{host}}/users' },
+              header: [{ type: 'text', value: '1', key: 'X-Id' }],
+              method: 'GET'
+            },
+            name: 'Users'
+          }
+        ],
+        info: { schema: 'v2.1.0', name: 'API' }
+      });
+
+      expect(JSON.stringify(collection)).toBe(
+        JSON.stringify({
+          info: { name: 'API', schema: 'v2.1.0' },
+          item: [
+            {
+              name: 'Users',
+              request: {
+                method: 'GET',
+                header: [{ key: 'X-Id', value: '1', type: 'text' }],
+                url: { raw: '{{host}}/users', path: ['users'] }
+              },
+              response: []
+            }
+          ],
+          variable: [{ key: 'host', value: 'x' }]
+        })
+      );
+    });
+
+    test('should put unknown keys of known objects last, sorted', () => {
+      const index = serializer.canonicalize({
+        order: [],
+        zeta: 1,
+        alpha: 2,
+        name: 'Auth',
+        meta: { parent_path: '.', type: 'folder' }
+      });
+
+      expect(Object.keys(index as object)).toEqual([
+        'meta',
+        'name',
+        'order',
+        'alpha',
+        'zeta'
+      ]);
+    });
+
+    test('should keep the keys of unknown objects in order', () => {
+      const document = { paths: {}, openapi: '3.0.3', info: { title: 'API' } };
+
+      expect(JSON.stringify(serializer.canonicalize(document))).toBe(
+        JSON.stringify(document)
+      );
+    });
+
+    test('should drop undefined fields and null undefined items', () => {
+      expect(
+        serializer.canonicalize({ a: undefined, b: [undefined, 1] })
+      ).toEqual({ b: [null, 1] });
+    });
+
+    test('should use the given type for array items', () => {
+      const values = serializer.canonicalize(
+        [{ enabled: true, value: 'v', key: 'k' }],
+        'environment_value'
+      );
+
+      expect(JSON.stringify(values)).toBe(
+        '[{"key":"k","value":"v","enabled":true}]'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    test('should end the document with a newline', () => {
+      expect(serializer.stringify({ a: [1] })).toBe(
+        '{\n  "a": [\n    1\n  ]\n}\n'
+      );
+    });
+
+    test('should apply indentation and line endings', () => {
+      expect(
+        serializer.stringify({ a: 'x\ny' }, { indent: 4, eol: 'crlf' })
+      ).toBe('{\r\n    "a": "x\\ny"\r\n}\r\n');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import type { LintReport } from '../../src/lint/collection_linter';
+import { LintFormatter } from '../../src/lint/lint_formatter';
+
+describe('LintFormatter', () => {
+  const formatter = new LintFormatter();
+  const report: LintReport = {
+    collection_name: 'Shop API',
+    findings: [
+      {
+        rule: 'hardcoded-host',
+        severity: 'error',
+        message: 'URL uses the hardcoded host "api.example.com"',
+        file: 'api/Users/Get User.json',
+        line: 12,
+        item_path: 'Users/Get User'
+      },
+      {
+        rule: 'missing-description',
+        severity: 'info',
+        message: 'Request has no description',
+        file: 'api/Users/Get User.json',
+        line: 5,
+        item_path: 'Users/Get User'
+      }
+    ],
+    summary: { errors: 1, warnings: 0, infos: 1 }
+  };
+
+  test('should group text output by file', () => {
+    expect(formatter.format(report, 'text')).toBe(
+      [
+        'api/Users/Get User.json',
+        '    12  error    URL uses the hardcoded host "api.example.com"  hardcoded-host',
+        '     5  info     Request has no description  missing-description',
+        '',
+        '2 problems (1 error, 0 warnings, 1 info)'
+      ].join('\n')
+    );
+    expect(
+      formatter.format(
+        {
+          ...report,
+          findings: [],
+          summary: { errors: 0, warnings: 0, infos: 0 }
+        },
+        'text'
+      )
+    ).toBe('No problems found');
+  });
+
+  test('should render SARIF results with rule metadata and locations', () => {
+    const sarif = JSON.parse(formatter.format(report, 'sarif'));
+
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe('carveman');
+    expect(
+      run.tool.driver.rules.map((rule: { id: string }) => rule.id)
+    ).toContain('duplicate-name');
+    expect(run.results[1]).toEqual({
+      ruleId: 'missing-description',
+      ruleIndex: 1,
+      level: 'note',
+      message: { text: 'Request has no description' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'api/Users/Get%20User.json' },
+            region: { startLine: 5 }
+          },
+          logicalLocations: [{ fullyQualifiedName: 'Users/Get User' }]
+        }
+      ]
+    });
+  });
+});
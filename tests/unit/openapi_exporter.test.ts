@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { OpenApiExporter } from '../../src/export/openapi_exporter';
+import type { IPostmanCollection } from '../../src/types/postman';
+
+describe('OpenApiExporter', () => {
+  let exporter: OpenApiExporter;
+  let warnings: string[];
+
+  const collection: IPostmanCollection = {
+    info: {
+      name: 'Orders API',
+      schema:
+        'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+    },
+    variable: [{ key: 'baseUrl', value: 'https://api.example.com/' }],
+    auth: {
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: 'X-Key' },
+        { key: 'in', value: 'header' }
+      ]
+    },
+    item: [
+      {
+        name: 'Orders',
+        description: 'Order management',
+        item: [
+          {
+            name: 'Get order',
+            request: {
+              method: 'GET',
+              header: [
+                { key: 'Accept', value: 'application/json' },
+                { key: 'X-Trace', value: 'abc', disabled: true }
+              ],
+              url: {
+                raw: '{{baseUrl}}/orders/:orderId?expand=true',
+                host: ['{{baseUrl}}'],
+                path: ['orders', ':orderId'],
+                query: [{ key: 'expand', value: 'true' }],
+                variable: [{ key: 'orderId', value: '17' }]
+              }
+            },
+            response: [
+              {
+                name: 'Found',
+                code: 200,
+                header: [
+                  {
+                    key: 'Content-Type',
+                    value: 'application/json; charset=utf-8'
+                  }
+                ],
+                body: '{"id": 17, "total": 9.5, "items": [{"sku": "A"}], "note": null}'
+              },
+              {
+                name: 'Missing',
+                code: 404,
+                body: ''
+              }
+            ]
+          },
+          {
+            name: 'Get order',
+            request: {
+              method: 'GET',
+              url: '{{baseUrl}}/orders/:orderId'
+            },
+            response: [
+              {
+                name: 'Also found',
+                code: 200,
+                header: [{ key: 'Content-Type', value: 'application/json' }],
+                body: '{"id": 18}'
+              }
+            ]
+          }
+        ]
+      },
+      {
+        name: 'Ping',
+        request: {
+          method: 'POST',
+          auth: { type: 'noauth' },
+          url: 'http://localhost:8080/ping',
+          body: {
+            mode: 'raw',
+            raw: '{"echo": "hi"}',
+            options: { raw: { language: 'json' } }
+          }
+        }
+      }
+    ]
+  };
+
+  beforeEach(() => {
+    exporter = new OpenApiExporter();
+    warnings = [];
+  });
+
+  test('should infer paths, tags and servers from requests', () => {
+    const document = exporter.convert(collection, warnings);
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Orders API', version: '1.0.0' });
+    expect(document.tags).toEqual([
+      { name: 'Orders', description: 'Order management' }
+    ]);
+    expect(document.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(Object.keys(document.paths ?? {})).toEqual([
+      '/orders/{orderId}',
+      '/ping'
+    ]);
+  });
+
+  test('should give paths on other hosts their own servers', () => {
+    const document = exporter.convert(collection, warnings);
+
+    expect(document.paths?.['/orders/{orderId}']?.servers).toBeUndefined();
+    expect(document.paths?.['/ping']?.servers).toEqual([
+      { url: 'http://localhost:8080' }
+    ]);
+    expect(document.paths?.['/ping']?.post?.operationId).toBe('ping');
+  });
+
+  test('should infer parameters from path variables, query and headers', () => {
+    const operation = exporter.convert(collection, warnings).paths?.[
+      '/orders/{orderId}'
+    ]?.get;
+
+    expect(operation?.operationId).toBe('getOrder');
+    expect(operation?.tags).toEqual(['Orders']);
+    expect(operation?.parameters).toEqual([
+      {
+        name: 'orderId',
+        in: 'path',
+        required: true,
+        schema: { type: 'integer' },
+        example: 17
+      },
+      {
+        name: 'expand',
+        in: 'query',
+        schema: { type: 'boolean' },
+        example: true
+      },
+      {
+        name: 'X-Trace',
+        in: 'header',
+        schema: { type: 'string' },
+        example: 'abc'
+      }
+    ]);
+  });
+
+  test('should infer response schemas from saved examples', () => {
+    const responses = exporter.convert(collection, warnings).paths?.[
+      '/orders/{orderId}'
+    ]?.get?.responses;
+
+    expect(responses?.['404']).toEqual({ description: 'Missing' });
+    expect(responses?.['200']?.content?.['application/json']).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          total: { type: 'number' },
+          items: {
+            type: 'array',
+            items: { type: 'object', properties: { sku: { type: 'string' } } }
+          },
+          note: { type: 'null' }
+        }
+      },
+      examples: {
+        Found: {
+          value: { id: 17, total: 9.5, items: [{ sku: 'A' }], note: null }
+        },
+        'Also found': { value: { id: 18 } }
+      }
+    });
+    expect(warnings).toEqual([
+      '"Get order" has the same method and path as "Get order" (GET /orders/{orderId}); only its responses were exported'
+    ]);
+  });
+
+  test('should describe auth as security schemes', () => {
+    const document = exporter.convert(collection, warnings);
+
+    expect(document.security).toEqual([{ 'apiKey_X-Key': [] }]);
+    expect(document.components?.securitySchemes).toEqual({
+      'apiKey_X-Key': { type: 'apiKey', name: 'X-Key', in: 'header' }
+    });
+    expect(
+      document.paths?.['/orders/{orderId}']?.get?.security
+    ).toBeUndefined();
+
+    const ping = document.paths?.['/ping']?.post;
+    expect(ping?.security).toEqual([]);
+    expect(ping?.requestBody?.content['application/json']).toEqual({
+      schema: { type: 'object', properties: { echo: { type: 'string' } } },
+      example: { echo: 'hi' }
+    });
+  });
+
+  test('should warn about auth types OpenAPI cannot describe', () => {
+    const document = exporter.convert(
+      { ...collection, auth: { type: 'hawk' } },
+      warnings
+    );
+
+    expect(document.security).toBeUndefined();
+    expect(warnings).toContain(
+      'Auth type "hawk" has no OpenAPI equivalent and was skipped'
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { OpenApiImporter } from '../../src/import/openapi_importer';
+import { postman_parser } from '../../src/parser/postman_parser';
+import type { IPostmanUrl } from '../../src/types/postman';
+
+describe('OpenApiImporter', () => {
+  let importer: OpenApiImporter;
+  let warnings: string[];
+
+  const spec = {
+    openapi: '3.1.0',
+    info: { title: 'Orders API' },
+    servers: [{ url: 'https://api.example.com/' }],
+    tags: [{ name: 'Orders', description: 'Order management' }],
+    paths: {
+      '/orders/{orderId}/items': {
+        post: {
+          tags: ['Orders', 'Items'],
+          operationId: 'addItem',
+          parameters: [
+            {
+              name: 'orderId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string', format: 'uuid' }
+            },
+            {
+              name: 'dryRun',
+              in: 'query',
+              schema: { type: 'boolean' }
+            },
+            { name: 'Accept', in: 'header', schema: { type: 'string' } }
+          ],
+          requestBody: {
+            content: {
+              'application/x-www-form-urlencoded': {
+                schema: { $ref: '#/components/schemas/Item' }
+              },
+              'application/vnd.api+json': {
+                schema: { $ref: '#/components/schemas/Item' }
+              }
+            }
+          },
+          responses: {
+            '2XX': { description: 'Success' },
+            '409': {
+              description: 'Duplicate',
+              content: {
+                'application/json': {
+                  examples: { duplicate: { value: { code: 'DUPLICATE' } } }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        Item: {
+          allOf: [
+            { $ref: '#/components/schemas/Base' },
+            {
+              type: 'object',
+              properties: {
+                quantity: { type: 'integer', minimum: 1 },
+                kind: { type: ['string', 'null'], enum: ['book', 'toy'] },
+                parent: { $ref: '#/components/schemas/Item' }
+              }
+            }
+          ]
+        },
+        Base: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', readOnly: true },
+            sku: { type: 'string', example: 'SKU-1' }
+          }
+        }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    importer = new OpenApiImporter();
+    warnings = [];
+  });
+
+  test('should group operations into folders by their first tag', () => {
+    const collection = importer.convert(spec, warnings);
+
+    expect(collection.info.name).toBe('Orders API');
+    expect(collection.variable).toEqual([
+      { key: 'baseUrl', value: 'https://api.example.com', type: 'string' }
+    ]);
+    expect(collection.item).toHaveLength(1);
+    expect(collection.item[0]?.name).toBe('Orders');
+    expect(collection.item[0]?.description).toBe('Order management');
+    expect(collection.item[0]?.item?.[0]?.name).toBe('addItem');
+    expect(postman_parser.validateCollection(collection).is_valid).toBe(true);
+  });
+
+  test('should turn path templates into path variables', () => {
+    const request = importer.convert(spec, warnings).item[0]?.item?.[0]
+      ?.request;
+    const url = request?.url as IPostmanUrl;
+
+    expect(url.raw).toBe('{{baseUrl}}/orders/:orderId/items');
+    expect(url.path).toEqual(['orders', ':orderId', 'items']);
+    expect(url.variable).toEqual([
+      { key: 'orderId', value: '00000000-0000-0000-0000-000000000000' }
+    ]);
+    expect(url.query).toEqual([
+      { key: 'dryRun', value: 'true', disabled: true }
+    ]);
+    expect(request?.header).toEqual([
+      { key: 'Content-Type', value: 'application/vnd.api+json' }
+    ]);
+  });
+
+  test('should generate request bodies from schemas', () => {
+    const request = importer.convert(spec, warnings).item[0]?.item?.[0]
+      ?.request;
+
+    expect(request?.body?.options?.raw?.language).toBe('json');
+    // readOnly properties are left out and the recursive reference stops
+    expect(JSON.parse(request?.body?.raw ?? '')).toEqual({
+      sku: 'SKU-1',
+      quantity: 1,
+      kind: 'book'
+    });
+  });
+
+  test('should save responses with a status code as examples', () => {
+    const responses = importer.convert(spec, warnings).item[0]?.item?.[0]
+      ?.response;
+
+    expect(responses).toHaveLength(1);
+    expect(responses?.[0]?.code).toBe(409);
+    expect(responses?.[0]?.status).toBe('Conflict');
+    expect(responses?.[0]?.name).toBe('Duplicate');
+    expect(JSON.parse(responses?.[0]?.body ?? '')).toEqual({
+      code: 'DUPLICATE'
+    });
+  });
+
+  test('should convert security schemes into auth', () => {
+    const collection = importer.convert(
+      {
+        ...spec,
+        security: [{ oauth: ['read'] }],
+        paths: {
+          '/status': { get: { summary: 'Status', security: [] } },
+          '/orders': { get: { summary: 'List orders' } },
+          '/admin': { get: { summary: 'Admin', security: [{ basic: [] }] } }
+        },
+        components: {
+          securitySchemes: {
+            oauth: { type: 'oauth2', flows: {} },
+            basic: { type: 'http', scheme: 'Basic' }
+          }
+        }
+      },
+      warnings
+    );
+
+    expect(collection.auth?.type).toBe('oauth2');
+    const [status, orders, admin] = collection.item;
+    expect(status?.request?.auth).toEqual({ type: 'noauth' });
+    expect(orders?.request?.auth).toBeUndefined();
+    expect(admin?.request?.auth?.type).toBe('basic');
+    expect(collection.variable?.map((variable) => variable.key)).toEqual([
+      'baseUrl',
+      'accessToken',
+      'basicUsername',
+      'basicPassword'
+    ]);
+  });
+
+  test('should reject documents that are not OpenAPI 3.x', () => {
+    expect(() =>
+      importer.convert({ swagger: '2.0', info: {}, paths: {} }, warnings)
+    ).toThrow('Swagger 2.0');
+    expect(() => importer.convert({ info: {} }, warnings)).toThrow(
+      'unsupported "openapi" version'
+    );
+  });
+
+  test('should warn about missing servers and unresolved references', () => {
+    importer.convert(
+      {
+        openapi: '3.0.0',
+        info: { title: 'Bare' },
+        paths: {
+          '/things': {
+            get: { parameters: [{ $ref: '#/components/parameters/Nope' }] }
+          }
+        }
+      },
+      warnings
+    );
+
+    expect(warnings).toEqual([
+      'Document has no servers; set baseUrl before sending requests',
+      'Reference "#/components/parameters/Nope" could not be resolved'
+    ]);
+  });
+});
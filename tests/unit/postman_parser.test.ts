@@ -82,6 +82,52 @@ describe('PostmanParser', () => {
       expect(result.errors).toContain('Missing required "item" field');
     });
 
+    test('should report schema violations with their JSON pointer', () => {
+      const collection = {
+        info: {
+          name: 'Test Collection',
+          schema:
+            'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+        },
+        item: [
+          {
+            name: 'Broken',
+            request: { method: 'GET', url: 'https://example.com', body: 'x' }
+          }
+        ]
+      };
+
+      const result = parser.validateCollection(collection);
+      expect(result.is_valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Schema v2.1.0 violation at /item/0/request/body: must be an object or null'
+      ]);
+    });
+
+    test('should report schema violations next to invalid items', () => {
+      const collection = {
+        info: {
+          name: 'Test Collection',
+          schema:
+            'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+        },
+        item: [
+          { request: { method: 'GET', url: 'https://example.com' } },
+          {
+            name: 'Broken',
+            request: { method: 'GET', url: 'https://example.com', body: 'x' }
+          }
+        ]
+      };
+
+      const result = parser.validateCollection(collection);
+      expect(result.is_valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Invalid item at root.item[0]: missing or invalid name',
+        'Schema v2.1.0 violation at /item/1/request/body: must be an object or null'
+      ]);
+    });
+
     test('should handle malformed JSON gracefully', () => {
       expect(parser.validateCollection(null as any).is_valid).toBe(false);
       expect(parser.validateCollection(undefined as any).is_valid).toBe(false);
@@ -333,6 +379,137 @@ describe('PostmanParser', () => {
     });
   });
 
+  describe('unknown fields', () => {
+    test('should keep item ids and unknown fields for index and request files', () => {
+      const collection = {
+        info: {
+          name: 'Test Collection',
+          schema:
+            'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+        },
+        futureField: 'collection',
+        item: [
+          {
+            id: 'folder-id',
+            name: 'Folder',
+            futureField: 'folder',
+            item: [
+              {
+                id: 'request-id',
+                name: 'Request',
+                futureField: 'request',
+                request: { method: 'GET', url: 'https://api.example.com' }
+              }
+            ]
+          }
+        ]
+      } as unknown as IPostmanCollection;
+
+      const result = parser.parseCollection(collection);
+      const folder = result.items[0];
+      const request = folder?.children[0];
+      if (!(folder && request)) {
+        throw new Error('Expected a folder with one request');
+      }
+
+      expect(result.metadata.variable).toBeUndefined();
+      expect(result.metadata.extra).toEqual({ futureField: 'collection' });
+
+      const collection_index = parser.createCollectionIndex(
+        result.info,
+        result.metadata,
+        result.structure
+      ) as Record<string, any>;
+      expect(collection_index.futureField).toBe('collection');
+
+      const folder_index = parser.createFolderIndex(folder, '') as Record<
+        string,
+        any
+      >;
+      expect(folder_index.id).toBe('folder-id');
+      expect(folder_index.futureField).toBe('folder');
+
+      const request_file = parser.createRequestFile(request, '') as Record<
+        string,
+        any
+      >;
+      expect(request_file.id).toBe('request-id');
+      expect(request_file.futureField).toBe('request');
+    });
+  });
+
+  describe('portable metadata', () => {
+    const collection = {
+      info: {
+        name: 'Test Collection',
+        schema:
+          'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      item: [
+        {
+          name: 'Users',
+          item: [
+            {
+              name: 'Admin',
+              item: [
+                {
+                  name: 'List Admins',
+                  request: { method: 'GET', url: 'https://api.example.com' }
+                }
+              ]
+            }
+          ]
+        },
+        {
+          name: 'Health',
+          request: { method: 'GET', url: 'https://api.example.com/health' }
+        }
+      ]
+    } as IPostmanCollection;
+
+    test('should derive parent paths relative to the collection root', () => {
+      const result = parser.parseCollection(collection);
+      const users = result.items[0];
+      const admin = users?.children[0];
+      const list_admins = admin?.children[0];
+      const health = result.items[1];
+      if (!(users && admin && list_admins && health)) {
+        throw new Error('Expected nested folders and requests');
+      }
+
+      expect(parser.getRelativeParentPath(users)).toBe('.');
+      expect(parser.getRelativeParentPath(admin)).toBe('Users');
+      expect(parser.getRelativeParentPath(list_admins)).toBe('Users/Admin');
+      expect(parser.getRelativeParentPath(health)).toBe('.');
+
+      const request_file = parser.createRequestFile(
+        list_admins,
+        parser.getRelativeParentPath(list_admins)
+      );
+      expect(request_file.meta.folder_path).toBe('Users/Admin');
+    });
+
+    test('should only stamp generated_at when asked to', () => {
+      const result = parser.parseCollection(collection);
+
+      const without_timestamp = parser.createCollectionIndex(
+        result.info,
+        result.metadata,
+        result.structure
+      );
+      expect(without_timestamp.meta.generated_at).toBeUndefined();
+      expect(JSON.stringify(without_timestamp)).not.toContain('generated_at');
+
+      const with_timestamp = parser.createCollectionIndex(
+        result.info,
+        result.metadata,
+        result.structure,
+        true
+      );
+      expect(typeof with_timestamp.meta.generated_at).toBe('string');
+    });
+  });
+
   describe('error handling', () => {
     test('should handle empty collection', () => {
       const emptyCollection: IPostmanCollection = {
@@ -349,4 +526,52 @@ describe('PostmanParser', () => {
       expect(result.items).toHaveLength(0);
     });
   });
+
+  describe('validateEnvironment', () => {
+    test('should validate a Postman environment export', () => {
+      const result = parser.validateEnvironment({
+        id: 'env-id',
+        name: 'Development',
+        values: [
+          { key: 'baseUrl', value: 'http://localhost', enabled: true },
+          { key: 'token', value: '', type: 'secret', enabled: false }
+        ],
+        _postman_variable_scope: 'environment'
+      });
+
+      expect(result.is_valid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    test('should reject environments without values', () => {
+      const result = parser.validateEnvironment({ name: 'Development' });
+
+      expect(result.is_valid).toBe(false);
+      expect(result.errors[0]).toContain('values');
+    });
+
+    test('should report invalid variables with their position', () => {
+      const result = parser.validateEnvironment({
+        name: 'Development',
+        values: [{ value: 'x' }, { key: 'a', value: 'b', enabled: 'yes' }]
+      });
+
+      expect(result.is_valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Invalid variable at values[0]: missing or invalid key',
+        'Invalid variable at values[1]: "enabled" must be a boolean'
+      ]);
+    });
+
+    test('should warn about a non-environment variable scope', () => {
+      const result = parser.validateEnvironment({
+        name: 'Globals',
+        values: [],
+        _postman_variable_scope: 'globals'
+      });
+
+      expect(result.is_valid).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import type { IPostmanHeader } from '../../src/types/postman';
+import {
+  addContentType,
+  getAuthParam,
+  getBodyLanguage,
+  getRequestName,
+  parseGraphqlVariables,
+  setHeader
+} from '../../src/utils/request_helpers';
+
+describe('Request Helpers', () => {
+  describe('getAuthParam', () => {
+    test('should read v2.1 lists and v2.0 objects alike', () => {
+      const listed = {
+        type: 'apikey',
+        apikey: [
+          { key: 'key', value: 'X-Key' },
+          { key: 'in', value: 'header' }
+        ]
+      };
+      const keyed = { type: 'apikey', apikey: { key: 'X-Key', in: 'header' } };
+
+      expect(getAuthParam(listed, 'key')).toBe('X-Key');
+      expect(getAuthParam(keyed, 'key')).toBe('X-Key');
+      expect(getAuthParam(listed, 'value')).toBeUndefined();
+    });
+
+    test('should give numbers and booleans as text, and nothing for objects', () => {
+      const auth = {
+        type: 'oauth2',
+        oauth2: [
+          { key: 'expiresIn', value: 3600 },
+          { key: 'usePkce', value: false },
+          { key: 'tokenRequestParams', value: [] },
+          { key: 'accessToken', value: null }
+        ]
+      };
+
+      expect(getAuthParam(auth, 'expiresIn')).toBe('3600');
+      expect(getAuthParam(auth, 'usePkce')).toBe('false');
+      expect(getAuthParam(auth, 'tokenRequestParams')).toBeUndefined();
+      expect(getAuthParam(auth, 'accessToken')).toBeUndefined();
+    });
+  });
+
+  describe('headers', () => {
+    test('should replace headers and keep a set Content-Type', () => {
+      const headers: IPostmanHeader[] = [
+        { key: 'authorization', value: 'old' },
+        { key: 'content-type', value: 'text/csv' }
+      ];
+
+      setHeader(headers, 'Authorization', 'Bearer new');
+      addContentType(headers, 'application/json');
+
+      expect(headers).toEqual([
+        { key: 'Authorization', value: 'Bearer new' },
+        { key: 'content-type', value: 'text/csv' }
+      ]);
+    });
+  });
+
+  describe('parseGraphqlVariables', () => {
+    test('should fall back to an empty object', () => {
+      expect(parseGraphqlVariables('{"id": 1}')).toEqual({ id: 1 });
+      expect(parseGraphqlVariables('  ')).toEqual({});
+      expect(parseGraphqlVariables('{broken')).toEqual({});
+    });
+  });
+
+  describe('getRequestName', () => {
+    test('should name requests after their path, host or text', () => {
+      expect(
+        getRequestName({
+          raw: 'https://api.example.com/users/17',
+          host: ['api', 'example', 'com'],
+          path: ['users', '17']
+        })
+      ).toBe('users 17');
+      expect(
+        getRequestName({
+          raw: 'https://api.example.com',
+          host: ['api', 'example', 'com'],
+          path: []
+        })
+      ).toBe('api.example.com');
+      expect(getRequestName({ raw: '{{baseUrl}}/users?page=2' })).toBe(
+        '{{baseUrl}}/users'
+      );
+    });
+  });
+
+  describe('getBodyLanguage', () => {
+    test('should map MIME types to body languages', () => {
+      expect(getBodyLanguage('application/vnd.api+json')).toBe('json');
+      expect(getBodyLanguage('text/xml')).toBe('xml');
+      expect(getBodyLanguage('text/html')).toBe('html');
+      expect(getBodyLanguage('application/javascript')).toBe('javascript');
+      expect(getBodyLanguage('text/csv')).toBe('text');
+    });
+  });
+});
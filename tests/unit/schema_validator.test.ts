@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { SchemaValidator } from '../../src/schema/schema_validator';
+
+describe('SchemaValidator', () => {
+  let validator: SchemaValidator;
+
+  const createCollection = (schemaVersion = 'v2.1.0') => ({
+    info: {
+      name: 'Shop API',
+      schema: `https://schema.getpostman.com/json/collection/${schemaVersion}/collection.json`
+    },
+    item: [
+      {
+        name: 'Users',
+        item: [
+          {
+            name: 'Get User',
+            request: {
+              method: 'GET',
+              header: [{ key: 'Accept', value: 'application/json' }],
+              url: 'https://api.example.com/users/1'
+            }
+          }
+        ]
+      }
+    ]
+  });
+
+  beforeEach(() => {
+    validator = new SchemaValidator();
+  });
+
+  test('should accept a real-world export', async () => {
+    const collection = await Bun.file(
+      join(
+        process.cwd(),
+        'tests',
+        'fixtures',
+        'real_world.postman_collection.json'
+      )
+    ).json();
+
+    const result = validator.validateCollection(collection);
+
+    expect(result.violations).toEqual([]);
+    expect(result.is_valid).toBe(true);
+    expect(result.schema_version).toBe('2.1.0');
+  });
+
+  test('should report every violation with its JSON pointer', () => {
+    const collection: any = createCollection();
+    const request = collection.item[0].item[0];
+    request.request.method = 42;
+    request.request.header = [{ key: 'Accept' }];
+    request.event = [{ script: { exec: ['ok();'] } }];
+
+    const result = validator.validateCollection(collection);
+
+    expect(result.is_valid).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        keyword: 'anyOf',
+        pointer: '/item/0/item/0/request/method',
+        message: 'must be a string'
+      },
+      {
+        keyword: 'required',
+        pointer: '/item/0/item/0/request/header/0',
+        message: 'missing required property "value"'
+      },
+      {
+        keyword: 'required',
+        pointer: '/item/0/item/0/event/0',
+        message: 'missing required property "listen"'
+      }
+    ]);
+  });
+
+  test('should describe the expected types when no alternative fits', () => {
+    const collection: any = createCollection();
+    collection.item[0].item[0].request.url = 42;
+
+    const result = validator.validateCollection(collection);
+
+    expect(result.violations.map(validator.formatViolation)).toEqual([
+      '/item/0/item/0/request/url: must be an object or a string'
+    ]);
+  });
+
+  test('should validate auth against the schema version the collection names', () => {
+    const objectAuth = { type: 'bearer', bearer: { token: 'abc' } };
+
+    const v20: any = createCollection('v2.0.0');
+    v20.auth = objectAuth;
+    const v20Result = validator.validateCollection(v20);
+    expect(v20Result.schema_version).toBe('2.0.0');
+    expect(v20Result.is_valid).toBe(true);
+
+    const v21: any = createCollection();
+    v21.auth = objectAuth;
+    const v21Result = validator.validateCollection(v21);
+    expect(v21Result.is_valid).toBe(false);
+    expect(v21Result.violations[0]?.pointer).toBe('/auth/bearer');
+  });
+
+  test('should treat undefined properties as absent', () => {
+    const collection: any = createCollection();
+    collection.item[0].event = undefined;
+    collection.item[0].item[0].request.description = undefined;
+
+    expect(validator.validateCollection(collection).violations).toEqual([]);
+  });
+
+  test('should escape property names in pointers', () => {
+    const violations = validator.validate(
+      {
+        type: 'object',
+        additionalProperties: { type: 'string' }
+      },
+      { 'a/b~c': 1 }
+    );
+
+    expect(violations[0]?.pointer).toBe('/a~1b~0c');
+  });
+});
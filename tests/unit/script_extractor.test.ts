@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { ScriptExtractor } from '../../src/parser/script_extractor';
+import type { IPostmanEvent } from '../../src/types/postman';
+
+describe('ScriptExtractor', () => {
+  let extractor: ScriptExtractor;
+  const testDir = join(process.cwd(), 'test-script-extractor');
+
+  const events: IPostmanEvent[] = [
+    {
+      listen: 'prerequest',
+      script: {
+        type: 'text/javascript',
+        exec: ["pm.environment.set('ts', Date.now());"]
+      }
+    },
+    {
+      listen: 'test',
+      script: {
+        type: 'text/javascript',
+        exec: [
+          "pm.test('status is 200', () => {",
+          '  pm.response.to.have.status(200);',
+          '});',
+          ''
+        ]
+      }
+    }
+  ];
+
+  beforeEach(() => {
+    extractor = new ScriptExtractor();
+
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Directory doesn't exist, which is fine
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try {
+      rmSync(testDir, { recursive: true, force: true });
+    } catch (_error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('extractScripts', () => {
+    test('should write one file per event and keep a reference', () => {
+      const result = extractor.extractScripts(events, 'Login');
+
+      expect(result.files.map((file) => file.file_name)).toEqual([
+        'Login.prerequest.js',
+        'Login.test.js'
+      ]);
+      expect(result.files[1]?.content).toBe(
+        "pm.test('status is 200', () => {\n  pm.response.to.have.status(200);\n});\n\n"
+      );
+      expect(result.events?.[0]?.script.exec).toBeUndefined();
+      expect(result.events?.[0]?.script.exec_file).toBe('Login.prerequest.js');
+      expect(result.events?.[0]?.script.type).toBe('text/javascript');
+    });
+
+    test('should leave string and empty exec inline', () => {
+      const inline_events: IPostmanEvent[] = [
+        { listen: 'test', script: { exec: 'pm.test();' } },
+        { listen: 'prerequest', script: { exec: [] } }
+      ];
+
+      const result = extractor.extractScripts(inline_events, 'index');
+
+      expect(result.files).toHaveLength(0);
+      expect(result.events).toEqual(inline_events);
+    });
+
+    test('should leave exec lines containing newlines inline', () => {
+      const multiline_events: IPostmanEvent[] = [
+        { listen: 'test', script: { exec: ['a\nb', 'c'] } }
+      ];
+
+      const result = extractor.extractScripts(multiline_events, 'Login');
+
+      expect(result.files).toHaveLength(0);
+      expect(result.events).toEqual(multiline_events);
+    });
+
+    test('should suffix duplicate listeners', () => {
+      const result = extractor.extractScripts(
+        [
+          { listen: 'test', script: { exec: ['a'] } },
+          { listen: 'test', script: { exec: ['b'] } }
+        ],
+        'index'
+      );
+
+      expect(result.files.map((file) => file.file_name)).toEqual([
+        'index.test.js',
+        'index.test.1.js'
+      ]);
+    });
+
+    test('should handle missing events', () => {
+      const result = extractor.extractScripts(undefined, 'Login');
+
+      expect(result.events).toBeUndefined();
+      expect(result.files).toHaveLength(0);
+    });
+  });
+
+  describe('inlineScripts', () => {
+    test('should restore the original exec lines', async () => {
+      const extracted = extractor.extractScripts(events, 'Login');
+      for (const file of extracted.files) {
+        await Bun.write(join(testDir, file.file_name), file.content);
+      }
+
+      const inlined = await extractor.inlineScripts(extracted.events, testDir);
+
+      expect(inlined).toEqual(events);
+    });
+
+    test('should tolerate a missing trailing newline after editing', async () => {
+      await Bun.write(join(testDir, 'Login.test.js'), 'line1\nline2');
+
+      const inlined = await extractor.inlineScripts(
+        [{ listen: 'test', script: { exec_file: 'Login.test.js' } }],
+        testDir
+      );
+
+      expect(inlined?.[0]?.script.exec).toEqual(['line1', 'line2']);
+    });
+
+    test('should throw when the referenced file is missing', async () => {
+      await expect(
+        extractor.inlineScripts(
+          [{ listen: 'test', script: { exec_file: 'missing.test.js' } }],
+          testDir
+        )
+      ).rejects.toThrow('Script file not found');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { YamlSerializer } from '../../src/fs/yaml_serializer';
+
+const { YAML } = Bun as unknown as {
+  YAML: { parse: (input: string) => unknown };
+};
+
+describe('YamlSerializer', () => {
+  const serializer = new YamlSerializer();
+
+  describe('stringify', () => {
+    test('should write nested objects and arrays in block style', () => {
+      expect(
+        serializer.stringify({
+          name: 'Login',
+          request: { method: 'POST', header: [{ key: 'Accept', value: '*' }] },
+          order: ['a.yaml', 'b.yaml'],
+          empty: [],
+          none: {},
+          skipped: undefined
+        })
+      ).toBe(
+        [
+          'name: Login',
+          'request:',
+          '  method: POST',
+          '  header:',
+          '    - key: Accept',
+          '      value: "*"',
+          'order:',
+          '  - a.yaml',
+          '  - b.yaml',
+          'empty: []',
+          'none: {}'
+        ].join('\n')
+      );
+    });
+
+    test('should write multi-line strings as literal block scalars', () => {
+      expect(
+        serializer.stringify({
+          exec_text: "pm.test('ok', () => {\n  pm.response.to.be.ok;\n});\n",
+          raw: '{\n  "id": 1\n}'
+        })
+      ).toBe(
+        [
+          'exec_text: |',
+          "  pm.test('ok', () => {",
+          '    pm.response.to.be.ok;',
+          '  });',
+          'raw: |-',
+          '  {',
+          '    "id": 1',
+          '  }'
+        ].join('\n')
+      );
+    });
+
+    test('should keep indentation and trailing newlines of blocks', () => {
+      expect(serializer.stringify({ a: '  indented\nline\n\n' })).toBe(
+        ['a: |2+', '    indented', '  line', ''].join('\n')
+      );
+    });
+
+    test('should quote strings a block scalar cannot hold', () => {
+      const value = { text: 'bell\u0007\nline', blank: '\n\n' };
+
+      expect(serializer.stringify(value)).not.toContain('|');
+      expect(YAML.parse(serializer.stringify(value))).toEqual(value);
+    });
+
+    test('should round trip through a YAML parser', () => {
+      const value = {
+        description: 'Line one\n\nLine three with: colon # and hash\n',
+        values: [true, 1.5, null, 'yes', '0123', '', ['nested', { a: 1 }]],
+        body: { mode: 'raw', raw: '<a>\n\t<b/>\n</a>' },
+        'key with spaces': '- dash',
+        '': 'empty key'
+      };
+
+      expect(YAML.parse(serializer.stringify(value))).toEqual(value);
+    });
+  });
+});